@@ -0,0 +1,99 @@
+import { buildChainRegistry, loadChainRegistry } from '../config/chains';
+
+const SCHEMA_UID = '0xba4171c92572b1e4f241d044c32cdf083be9fd946b8766977558ca6378c824e2';
+
+const optimism = {
+  '10': {
+    chain: 'optimism',
+    deploymentBlock: 100,
+    easContractAddress: '0x4200000000000000000000000000000000000021',
+    schemaUIDs: [SCHEMA_UID],
+    rpcUrls: ['https://mainnet.optimism.io']
+  }
+};
+
+describe('Chain registry', () => {
+  it('loads the bundled EAS-config.json', () => {
+    const registry = loadChainRegistry({});
+
+    expect(Object.keys(registry).sort()).toEqual(['arbitrum', 'base', 'celo', 'sepolia']);
+    expect(registry.arbitrum).toMatchObject({
+      chainId: 42161,
+      enabled: true,
+      deploymentBlock: 243446573,
+      schemaUIDs: [SCHEMA_UID],
+      ingestionSource: 'indexer',
+      confirmations: 20
+    });
+  });
+
+  it('adds a chain from config alone, filling in defaults', () => {
+    const registry = buildChainRegistry(optimism, {});
+
+    expect(registry.optimism).toEqual({
+      ...optimism['10'],
+      chainId: 10,
+      enabled: true,
+      ingestionSource: 'indexer',
+      confirmations: 0
+    });
+  });
+
+  it('applies per-chain env overrides', () => {
+    const registry = buildChainRegistry(optimism, {
+      EAS_CHAIN_ENABLED_OPTIMISM: 'false',
+      EAS_ENDPOINT_OPTIMISM: 'https://optimism.easscan.org/graphql',
+      EAS_RPC_URLS_OPTIMISM: 'https://a.example.com, https://b.example.com',
+      EAS_INGESTION_SOURCE_OPTIMISM: 'rpc',
+      EAS_CONFIRMATIONS_OPTIMISM: '8'
+    });
+
+    expect(registry.optimism).toMatchObject({
+      enabled: false,
+      indexerUrl: 'https://optimism.easscan.org/graphql',
+      rpcUrls: ['https://a.example.com', 'https://b.example.com'],
+      ingestionSource: 'rpc',
+      confirmations: 8
+    });
+  });
+
+  it('takes lists of indexer URLs, primary first', () => {
+    const fromFile = buildChainRegistry({
+      '10': { ...optimism['10'], indexerUrl: 'https://a.example.com/graphql', indexerUrls: ['https://b.example.com/graphql', 'https://a.example.com/graphql'] }
+    }, {});
+    const fromEnv = buildChainRegistry(optimism, {
+      EAS_ENDPOINT_OPTIMISM: 'https://c.example.com/graphql,https://d.example.com/graphql'
+    });
+
+    expect(fromFile.optimism).toMatchObject({
+      indexerUrl: 'https://a.example.com/graphql',
+      indexerUrls: ['https://a.example.com/graphql', 'https://b.example.com/graphql']
+    });
+    expect(fromEnv.optimism).toMatchObject({
+      indexerUrl: 'https://c.example.com/graphql',
+      indexerUrls: ['https://c.example.com/graphql', 'https://d.example.com/graphql']
+    });
+  });
+
+  it('points every chain at the mock EAS server when EAS_MOCK_URL is set', () => {
+    const registry = buildChainRegistry(optimism, {
+      EAS_MOCK_URL: 'http://127.0.0.1:4000/',
+      EAS_ENDPOINT_OPTIMISM: 'https://optimism.easscan.org/graphql'
+    });
+
+    expect(registry.optimism).toMatchObject({
+      indexerUrl: 'http://127.0.0.1:4000/optimism/graphql',
+      rpcUrls: ['http://127.0.0.1:4000/optimism/rpc']
+    });
+  });
+
+  it('rejects invalid entries and overrides with every problem listed', () => {
+    const chains = {
+      ...optimism,
+      '8453': { ...optimism['10'], chain: 'base', easContractAddress: 'not-an-address' }
+    };
+
+    expect(() => buildChainRegistry(chains, { EAS_INGESTION_SOURCE_OPTIMISM: 'subgraph' }))
+      .toThrow(/chain optimism \(10\): ingestionSource[\s\S]*chain base \(8453\): easContractAddress/);
+  });
+});
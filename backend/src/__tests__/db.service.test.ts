@@ -78,4 +78,44 @@ describe('Database Service', () => {
       expect.arrayContaining([params.chain, params.prover, ...params.bbox, params.limit])
     );
   });
+
+  test('should only return proofs unrevoked and unexpired at validAt', async () => {
+    const validAt = new Date('2024-06-01T00:00:00Z');
+    
+    mockPoolQuery.mockResolvedValueOnce({ rows: [] });
+    
+    await dbService.queryLocationProofs({ chain: 'arbitrum', validAt });
+    
+    const [query, values] = mockPoolQuery.mock.calls[0];
+    expect(query).toContain('AND (timestamp IS NULL OR timestamp <= $2)');
+    expect(query).toContain('AND (revoked = FALSE OR revocation_time > $2)');
+    expect(query).toContain('AND (expiration_time IS NULL OR expiration_time > $2)');
+    expect(values).toEqual(['arbitrum', validAt]);
+  });
+
+  test('should write a batch of location proofs with one upsert and count the outcome', async () => {
+    const proof = (uid: string) => ({
+      uid,
+      chain: 'arbitrum',
+      prover: '0xabcdef',
+      event_timestamp: new Date('2024-01-01T00:00:00Z'),
+      location_type: 'geojson-point',
+      location: '{"type":"Point","coordinates":[-74.006,40.7128]}',
+      longitude: -74.006,
+      latitude: 40.7128,
+      revoked: false
+    });
+    
+    // 0xa is new, 0xb changed, 0xc is unchanged and not returned
+    mockPoolQuery.mockResolvedValueOnce({ rows: [{ uid: '0xa', inserted: true }, { uid: '0xb', inserted: false }] });
+    
+    const result = await dbService.upsertLocationProofs([proof('0xa'), proof('0xb'), proof('0xc'), proof('0xc')], 'update');
+    
+    expect(mockPoolQuery).toHaveBeenCalledTimes(1);
+    const [query, values] = mockPoolQuery.mock.calls[0];
+    expect(query).toContain('ON CONFLICT (uid) DO UPDATE SET');
+    expect(query).toContain('IS DISTINCT FROM');
+    expect(values).toHaveLength(3 * 31);
+    expect(result).toEqual({ inserted: 1, updated: 1, skipped: 2, uids: ['0xa', '0xb'] });
+  });
 });
\ No newline at end of file
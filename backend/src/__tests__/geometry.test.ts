@@ -0,0 +1,52 @@
+import { parseGeoJSONGeometry, representativeAltitude, representativePoint } from '../utils/geometry';
+
+describe('geometry utils', () => {
+  const square = { type: 'Polygon', coordinates: [[[0, 0], [4, 0], [4, 4], [0, 4], [0, 0]]] };
+
+  it('parses geometries, Features and FeatureCollections', () => {
+    expect(parseGeoJSONGeometry(square)).toEqual(square);
+    expect(parseGeoJSONGeometry({ type: 'Feature', properties: {}, geometry: square })).toEqual(square);
+    expect(parseGeoJSONGeometry({
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', geometry: square },
+        { type: 'Feature', geometry: { type: 'Point', coordinates: [10, 10] } }
+      ]
+    })).toEqual({ type: 'GeometryCollection', geometries: [square, { type: 'Point', coordinates: [10, 10] }] });
+
+    // Unclosed ring, out of range longitude
+    expect(parseGeoJSONGeometry({ type: 'Polygon', coordinates: [[[0, 0], [1, 0], [1, 1], [0, 1]]] })).toBeNull();
+    expect(parseGeoJSONGeometry({ type: 'Point', coordinates: [200, 0] })).toBeNull();
+  });
+
+  it('locates polygons by their centroid, minus holes', () => {
+    expect(representativePoint(square as never)).toEqual([2, 2]);
+
+    const holed = { type: 'Polygon', coordinates: [...square.coordinates, [[2, 0], [4, 0], [4, 4], [2, 4], [2, 0]].reverse()] };
+    expect(representativePoint(holed as never)).toEqual([1, 2]);
+  });
+
+  it('falls back to a point on the surface when the centroid is outside', () => {
+    // A C shape open to the east; its centroid lies in the opening
+    const c = {
+      type: 'Polygon',
+      coordinates: [[[0, 0], [4, 0], [4, 1], [1, 1], [1, 3], [4, 3], [4, 4], [0, 4], [0, 0]]]
+    };
+    const [x, y] = representativePoint(c as never)!;
+    expect(x).toBeGreaterThan(0);
+    expect(x).toBeLessThan(1);
+    expect(y).toBe(2);
+  });
+
+  it('locates lines by their length-weighted midpoint', () => {
+    expect(representativePoint({ type: 'LineString', coordinates: [[0, 0], [2, 0], [2, 2]] })).toEqual([1.5, 0.5]);
+  });
+
+  it('reads the altitude from Z values', () => {
+    expect(representativeAltitude({ type: 'Point', coordinates: [13.4, 52.5, 34.5] })).toBe(34.5);
+    // The closing position of a ring counts once
+    expect(representativeAltitude({ type: 'Polygon', coordinates: [[[0, 0, 10], [1, 0, 10], [1, 1, 20], [0, 1, 20], [0, 0, 10]]] })).toBe(15);
+    expect(representativeAltitude({ type: 'LineString', coordinates: [[0, 0, 5], [1, 1]] })).toBeNull();
+    expect(representativeAltitude(square as never)).toBeNull();
+  });
+});
@@ -0,0 +1,45 @@
+import { locationParsers } from '../services/location-parser.service';
+import { matchesQuality, parseQualityFilter, validateLocation } from '../utils/location-quality';
+
+describe('location quality', () => {
+  const flagsOf = (location: string, locationType = '', srs?: string) => validateLocation(locationParsers.parse(location, locationType, srs));
+
+  it('flags coordinates that are swapped, out of range or at null island', () => {
+    expect(flagsOf('40.7128, -74.0060', 'coordinates-decimal')).toEqual([]);
+    expect(flagsOf('0, 0', 'coordinates-decimal')).toEqual(['null-island']);
+    expect(flagsOf('151.2093, -33.8688', 'coordinates-decimal')).toEqual(['axis-swap']);
+    expect(flagsOf('200, 100', 'coordinates-decimal')).toEqual(['out-of-range']);
+
+    // GeoJSON in latitude, longitude order is read back, beyond range it is left unplaced
+    const swapped = locationParsers.parse('{"type":"Point","coordinates":[-33.8688,151.2093]}', 'geojson');
+    expect(swapped.geometry).toEqual({ type: 'Point', coordinates: [151.2093, -33.8688] });
+    expect(validateLocation(swapped)).toEqual(['axis-swap']);
+    expect(flagsOf('{"type":"Point","coordinates":[200,100]}', 'geojson')).toEqual(['out-of-range']);
+  });
+
+  it('flags invalid and self-intersecting polygon rings', () => {
+    expect(flagsOf('POLYGON ((0 0, 1 0, 1 1, 0 1))', 'wkt')).toEqual(['invalid-ring']);
+    expect(flagsOf('{"type":"Polygon","coordinates":[[[0,0],[1,0],[0,0]]]}', 'geojson')).toEqual(['invalid-ring']);
+    expect(flagsOf('POLYGON ((0 0, 1 1, 2 2, 0 0))', 'wkt')).toEqual(['invalid-ring']);
+    expect(flagsOf('POLYGON ((0 0, 4 4, 4 0, 0 2, 0 0))', 'wkt')).toEqual(['self-intersection']);
+    // A symmetric bow tie has no area either
+    expect(flagsOf('POLYGON ((0 0, 2 2, 2 0, 0 2, 0 0))', 'wkt')).toEqual(['invalid-ring', 'self-intersection']);
+    expect(flagsOf('POLYGON ((0 0, 4 0, 4 4, 0 4, 0 0), (1 1, 2 1, 2 2, 1 2, 1 1))', 'wkt')).toEqual([]);
+  });
+
+  it('flags unparsable locations and how the CRS was handled', () => {
+    expect(flagsOf('somewhere in Berlin', 'address')).toEqual(['unparsable']);
+    expect(flagsOf('{"type":"Point","coordinates":[530268,179640]}', 'geojson', 'EPSG:27700')).toEqual(['reprojected']);
+    expect(flagsOf('{"type":"Point","coordinates":[1,2]}', 'geojson', 'mars-2000')).toEqual(['unknown-srs']);
+  });
+
+  it('parses and matches quality filters', () => {
+    expect(parseQualityFilter('axis-swap, none')).toEqual(['axis-swap', 'none']);
+    expect(parseQualityFilter('axis-swap,bogus')).toBeNull();
+    expect(parseQualityFilter('')).toBeNull();
+
+    expect(matchesQuality({ quality_flags: ['axis-swap', 'reprojected'] }, ['reprojected'])).toBe(true);
+    expect(matchesQuality({ quality_flags: [] }, ['none'])).toBe(true);
+    expect(matchesQuality({}, ['null-island'])).toBe(false);
+  });
+});
@@ -1,9 +1,14 @@
 import { Request, Response } from 'express';
 import { easService } from '../../services/eas.service';
+import { reprocessService } from '../../services/reprocess.service';
+import { backfillService } from '../../services/backfill.service';
+import { getEndpointHealth } from '../../services/endpoint-pool.service';
+import { chainMonitorService } from '../../services/chain-monitor.service';
+import { ingestionPolicyService } from '../../services/ingestion-policy.service';
 import { logger } from '../../utils/logger';
-import { easEndpoints } from '../../config';
 import { EasWorker } from '../../workers/eas-worker';
 import { supabaseService } from '../../services/supabase.service';
+import { BackfillJob, BackfillJobStatus, ChainHeadSample, ChainLag, NewBackfillJob, SyncCheckpoint, SyncLock } from '../../models/types';
 
 // Mock EAS worker for testing
 class MockEasWorker {
@@ -38,6 +43,16 @@ class MockEasWorker {
     logger.info('Mock revocation check');
   }
   
+  async runBackfillJobs(): Promise<BackfillJob[]> {
+    logger.info('Mock backfill run');
+    return [];
+  }
+  
+  async monitorChains(): Promise<ChainHeadSample[]> {
+    logger.info('Mock lag monitoring run');
+    return [];
+  }
+  
   isWorkerRunning(): boolean {
     return this.isRunning || this.isRevocationCheckRunning;
   }
@@ -46,6 +61,10 @@ class MockEasWorker {
     return this.stopped;
   }
   
+  getLockHolder(): string {
+    return 'mock-worker';
+  }
+  
   getStats() {
     return {
       startTime: new Date(),
@@ -73,13 +92,19 @@ class MockEasWorker {
           chain: 'sepolia'
         }
       ],
+      revoked: {
+        'arbitrum': 1
+      },
+      rejected: {},
+      rejectedByPolicy: {},
       revocationChecks: {
         lastRun: new Date(),
         checkedCount: 100,
         revokedCount: 5
       },
       isRunning: false,
-      isRevocationCheckRunning: false
+      isRevocationCheckRunning: false,
+      isBackfillRunning: false
     };
   }
   
@@ -163,6 +188,67 @@ async function initializeWorker(): Promise<void> {
   }
 }
 
+// Statuses a backfill job can be listed by
+const BACKFILL_JOB_STATUSES: BackfillJobStatus[] = ['pending', 'running', 'completed', 'cancelled', 'failed'];
+
+/**
+ * Work through queued backfill jobs in the background
+ *
+ * If the worker cannot start now, its next scheduled run picks the jobs up.
+ */
+function runBackfillJobsInBackground(): void {
+  initializeWorker()
+    .then(() => worker.runBackfillJobs())
+    .catch(error => {
+      logger.error('Error running backfill jobs:', error);
+    });
+}
+
+/**
+ * Parse a backfill job request body into a job, or the reason it is invalid
+ */
+function parseBackfillJob(input: Record<string, unknown>): NewBackfillJob | string {
+  const chain = input.chain as string | undefined;
+  const supportedChains = easService.getIngestionChains();
+  if (!chain || !supportedChains.includes(chain)) {
+    return `Unsupported chain: ${chain}. Supported chains are: ${supportedChains.join(', ')}`;
+  }
+  
+  const hasTimestamps = input.fromTimestamp !== undefined || input.toTimestamp !== undefined;
+  const hasBlocks = input.fromBlock !== undefined || input.toBlock !== undefined;
+  if (hasTimestamps === hasBlocks) {
+    return 'Give either a timestamp range (fromTimestamp, toTimestamp) or a block range (fromBlock, toBlock)';
+  }
+  
+  const on_conflict = input.update === true || input.update === 'true' ? 'update' : 'skip';
+  
+  if (hasBlocks) {
+    const [from_block, to_block] = [input.fromBlock, input.toBlock].map(value => value === undefined ? undefined : Number(value));
+    if (from_block === undefined || !Number.isInteger(from_block) || from_block < 0) {
+      return 'fromBlock must be a non-negative integer';
+    }
+    if (to_block !== undefined && (!Number.isInteger(to_block) || to_block < from_block)) {
+      return 'toBlock must be an integer no lower than fromBlock';
+    }
+    return { chain, range_type: 'block', from_block, to_block, on_conflict };
+  }
+  
+  if (!easService.getGraphQLClients()[chain]) {
+    return `Chain ${chain} has no indexer, so it can only be backfilled by block range`;
+  }
+  
+  const from_timestamp = new Date(input.fromTimestamp as string);
+  // Without an end the job covers everything attested up to its creation
+  const to_timestamp = input.toTimestamp !== undefined ? new Date(input.toTimestamp as string) : new Date();
+  if (input.fromTimestamp === undefined || isNaN(from_timestamp.getTime())) {
+    return 'fromTimestamp must be an ISO 8601 datetime';
+  }
+  if (isNaN(to_timestamp.getTime()) || to_timestamp < from_timestamp) {
+    return 'toTimestamp must be an ISO 8601 datetime no earlier than fromTimestamp';
+  }
+  return { chain, range_type: 'timestamp', from_timestamp, to_timestamp, on_conflict };
+}
+
 /**
  * Controller for syncing attestations
  */
@@ -181,7 +267,31 @@ export class SyncController {
       const stats = worker.getStats();
       
       // Get supported chains
-      const supportedChains = Object.keys(easService.getGraphQLClients()).sort();
+      const supportedChains = easService.getIngestionChains().sort();
+      
+      // Get persisted sync checkpoints (shared by the cron handler and the background worker)
+      let checkpoints: SyncCheckpoint[] = [];
+      try {
+        checkpoints = await easService.getSyncCheckpoints();
+      } catch (checkpointError) {
+        logger.warn('Failed to load sync checkpoints:', checkpointError);
+      }
+      
+      // Get the per-chain leases that keep the cron handler and the background worker apart
+      let locks: SyncLock[] = [];
+      try {
+        locks = await easService.getSyncLocks();
+      } catch (lockError) {
+        logger.warn('Failed to load sync locks:', lockError);
+      }
+      
+      // Get each chain's lag from the worker's latest sample of its indexer and chain head
+      let lags: ChainLag[] = [];
+      try {
+        lags = await chainMonitorService.getChainLags();
+      } catch (lagError) {
+        logger.warn('Failed to load chain lags:', lagError);
+      }
       
       // Format statistics for response
       const response = {
@@ -197,7 +307,8 @@ export class SyncController {
             `${(stats.lastRunDuration / 1000).toFixed(2)}s` : null,
           totalRuns: stats.totalRuns,
           successfulRuns: stats.successfulRuns,
-          failedRuns: stats.failedRuns
+          failedRuns: stats.failedRuns,
+          lockHolder: worker.getLockHolder()
         },
         attestations: {
           totalIngested: Object.entries(stats.totalAttestationsIngested)
@@ -205,11 +316,56 @@ export class SyncController {
           byChain: stats.totalAttestationsIngested,
           lastRunIngested: stats.lastRunAttestationsIngested
         },
+        revocations: {
+          // Applied from indexer revocationTime changes or Revoked logs during ingestion
+          trackedByChain: stats.revoked
+        },
+        rejections: {
+          // Attestations turned away by the ingestion policies since the worker started
+          byChain: stats.rejected,
+          byPolicy: stats.rejectedByPolicy
+        },
         revocationChecks: {
           lastRun: stats.revocationChecks.lastRun,
           totalChecked: stats.revocationChecks.checkedCount,
           totalRevoked: stats.revocationChecks.revokedCount
         },
+        checkpoints: checkpoints.map(checkpoint => ({
+          chain: checkpoint.chain,
+          schemaUid: checkpoint.schema_uid,
+          lastTimestamp: checkpoint.last_timestamp,
+          lastUid: checkpoint.last_uid,
+          lastBlock: checkpoint.last_block,
+          lastRevocationTime: checkpoint.last_revocation_time,
+          lastRunAt: checkpoint.last_run_at,
+          lastRunStatus: checkpoint.last_run_status,
+          lastRunCount: checkpoint.last_run_count,
+          lastError: checkpoint.last_error
+        })),
+        locks: locks.map(lock => ({
+          chain: lock.chain,
+          job: lock.job,
+          holder: lock.holder,
+          held: new Date(lock.expires_at).getTime() > Date.now(),
+          acquiredAt: lock.acquired_at,
+          expiresAt: lock.expires_at
+        })),
+        lag: lags.map(lag => ({
+          chain: lag.chain,
+          ingestionSource: lag.ingestionSource,
+          status: lag.status,
+          indexerLagSeconds: lag.indexerLagSeconds,
+          checkpointLagSeconds: lag.checkpointLagSeconds,
+          checkpointLagBlocks: lag.checkpointLagBlocks,
+          indexerLatestTime: lag.sample?.indexer_latest_time ?? null,
+          headBlock: lag.sample?.head_block ?? null,
+          headTimestamp: lag.sample?.head_timestamp ?? null,
+          checkpointTimestamp: lag.sample?.checkpoint_timestamp ?? null,
+          checkedAt: lag.sample?.checked_at ?? null,
+          error: lag.sample?.error ?? null
+        })),
+        // Health of each chain's RPC and indexer endpoints, shared by every worker in this process
+        endpoints: getEndpointHealth(),
         supportedChains,
         // Include recent errors (up to 10)
         recentErrors: stats.errors.slice(-10).map(error => ({
@@ -244,7 +400,7 @@ export class SyncController {
       
       if (chain) {
         // Validate chain
-        const supportedChains = Object.keys(easService.getGraphQLClients());
+        const supportedChains = easService.getIngestionChains();
         if (!supportedChains.includes(chain)) {
           return res.status(400).json({ 
             status: 'error',
@@ -393,4 +549,398 @@ export class SyncController {
       });
     }
   }
-}
\ No newline at end of file
+  
+  /**
+   * List attestations in the ingestion dead-letter queue
+   * 
+   * Query params: chain, status (pending by default, or resolved), limit, offset
+   * 
+   * @param req Express request
+   * @param res Express response
+   */
+  static async getFailures(req: Request, res: Response) {
+    try {
+      const status = (req.query.status as string) || 'pending';
+      if (status !== 'pending' && status !== 'resolved') {
+        return res.status(400).json({
+          status: 'error',
+          message: 'Invalid status. Use "pending" or "resolved"'
+        });
+      }
+      
+      const limit = Math.min(parseInt(req.query.limit as string, 10) || 50, 500);
+      const offset = Math.max(parseInt(req.query.offset as string, 10) || 0, 0);
+      
+      const failures = await easService.getIngestionFailures({
+        chain: req.query.chain as string | undefined,
+        status,
+        limit,
+        offset
+      });
+      
+      res.json({
+        status: 'ok',
+        failures,
+        pagination: { limit, offset }
+      });
+    } catch (error) {
+      logger.error('Error listing ingestion failures:', error);
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to list ingestion failures',
+        error: (error as Error).message
+      });
+    }
+  }
+  
+  /**
+   * Retry one attestation from the ingestion dead-letter queue
+   * 
+   * @param req Express request
+   * @param res Express response
+   */
+  static async retryFailure(req: Request, res: Response) {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({
+          status: 'error',
+          message: 'Failure id must be a number'
+        });
+      }
+      
+      const result = await easService.retryIngestionFailure(id);
+      if (!result) {
+        return res.status(404).json({
+          status: 'error',
+          message: `Ingestion failure ${id} not found`
+        });
+      }
+      
+      res.json({
+        status: result.resolved > 0 ? 'success' : 'error',
+        message: result.resolved > 0 ? `Ingestion failure ${id} resolved` : `Retry of ingestion failure ${id} failed`,
+        result
+      });
+    } catch (error) {
+      logger.error('Error retrying ingestion failure:', error);
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to retry ingestion failure',
+        error: (error as Error).message
+      });
+    }
+  }
+  
+  /**
+   * Retry pending attestations in the ingestion dead-letter queue
+   * 
+   * Meant to be run after a parser fix is deployed. Query params: chain, limit (default 100)
+   * 
+   * @param req Express request
+   * @param res Express response
+   */
+  static async retryFailures(req: Request, res: Response) {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string, 10) || 100, 1000);
+      
+      const result = await easService.retryIngestionFailures({
+        chain: req.query.chain as string | undefined,
+        limit
+      });
+      
+      res.json({
+        status: 'success',
+        message: `Retried ${result.retried} ingestion failures: ${result.resolved} resolved, ${result.failed} still failing`,
+        result
+      });
+    } catch (error) {
+      logger.error('Error retrying ingestion failures:', error);
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to retry ingestion failures',
+        error: (error as Error).message
+      });
+    }
+  }
+  
+  /**
+   * Re-derive stored proofs from their archived attestations with the current conversion
+   * 
+   * Reports a field-level diff per changed proof and only writes it when dryRun is false.
+   * Params (query or JSON body): chain, uids (array or comma-separated), schemaVersion,
+   * afterUid, limit (default 100, max 1000), dryRun (default true)
+   * 
+   * @param req Express request
+   * @param res Express response
+   */
+  static async reprocess(req: Request, res: Response) {
+    try {
+      const input = { ...req.query, ...(req.body || {}) } as Record<string, unknown>;
+      const uids = Array.isArray(input.uids)
+        ? (input.uids as string[])
+        : typeof input.uids === 'string' ? input.uids.split(',').map(uid => uid.trim()).filter(Boolean) : undefined;
+      const limit = Math.min(parseInt(String(input.limit), 10) || 100, 1000);
+      const dryRun = input.dryRun !== false && input.dryRun !== 'false';
+      
+      const result = await reprocessService.reprocess({
+        chain: input.chain as string | undefined,
+        uids,
+        schemaVersion: input.schemaVersion as string | undefined,
+        afterUid: input.afterUid as string | undefined,
+        limit,
+        dryRun
+      });
+      
+      res.json({
+        status: 'success',
+        message: `Reprocessed ${result.processed} proofs${dryRun ? ' (dry run)' : ''}: ${result.changed} changed, ${result.unchanged} unchanged, ${result.failed} failed`,
+        result
+      });
+    } catch (error) {
+      logger.error('Error reprocessing location proofs:', error);
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to reprocess location proofs',
+        error: (error as Error).message
+      });
+    }
+  }
+  
+  /**
+   * List stored proofs that the current ingestion policies would reject
+   * 
+   * Scans one page of stored proofs in UID order; pass nextAfterUid back as
+   * afterUid for the next page until it is null.
+   * 
+   * Query params: chain, afterUid, limit (proofs scanned, default 100, max 1000)
+   * 
+   * @param req Express request
+   * @param res Express response
+   */
+  static async getPolicyViolations(req: Request, res: Response) {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string, 10) || 100, 1000);
+      
+      const result = await ingestionPolicyService.findViolations({
+        chain: req.query.chain as string | undefined,
+        afterUid: req.query.afterUid as string | undefined,
+        limit
+      });
+      
+      res.json({
+        status: 'ok',
+        policies: ingestionPolicyService.getPolicies(),
+        ...result
+      });
+    } catch (error) {
+      logger.error('Error listing ingestion policy violations:', error);
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to list ingestion policy violations',
+        error: (error as Error).message
+      });
+    }
+  }
+  
+  /**
+   * Queue a backfill job for a chain over a timestamp or block range
+   * 
+   * Body: chain, and either fromTimestamp and optional toTimestamp (ISO 8601,
+   * read from the indexer) or fromBlock and optional toBlock (scanned from
+   * contract logs); update: true rewrites proofs that are already stored.
+   * 
+   * @param req Express request
+   * @param res Express response
+   */
+  static async createJob(req: Request, res: Response) {
+    try {
+      const job = parseBackfillJob({ ...req.query, ...(req.body || {}) });
+      if (typeof job === 'string') {
+        return res.status(400).json({
+          status: 'error',
+          message: job
+        });
+      }
+      
+      const created = await backfillService.createJob(job);
+      runBackfillJobsInBackground();
+      
+      res.status(202).json({
+        status: 'success',
+        message: `Backfill job ${created.id} queued for ${created.chain}`,
+        job: created
+      });
+    } catch (error) {
+      logger.error('Error creating backfill job:', error);
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to create backfill job',
+        error: (error as Error).message
+      });
+    }
+  }
+  
+  /**
+   * List backfill jobs, most recent first
+   * 
+   * Query params: chain, status, limit (default 50, max 500), offset
+   * 
+   * @param req Express request
+   * @param res Express response
+   */
+  static async getJobs(req: Request, res: Response) {
+    try {
+      const status = req.query.status as BackfillJobStatus | undefined;
+      if (status && !BACKFILL_JOB_STATUSES.includes(status)) {
+        return res.status(400).json({
+          status: 'error',
+          message: `Invalid status. Use one of: ${BACKFILL_JOB_STATUSES.join(', ')}`
+        });
+      }
+      
+      const limit = Math.min(parseInt(req.query.limit as string, 10) || 50, 500);
+      const offset = Math.max(parseInt(req.query.offset as string, 10) || 0, 0);
+      
+      const jobs = await backfillService.getJobs({
+        chain: req.query.chain as string | undefined,
+        status,
+        limit,
+        offset
+      });
+      
+      res.json({
+        status: 'ok',
+        jobs,
+        pagination: { limit, offset }
+      });
+    } catch (error) {
+      logger.error('Error listing backfill jobs:', error);
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to list backfill jobs',
+        error: (error as Error).message
+      });
+    }
+  }
+  
+  /**
+   * Get a backfill job with its progress
+   * 
+   * @param req Express request
+   * @param res Express response
+   */
+  static async getJob(req: Request, res: Response) {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({
+          status: 'error',
+          message: 'Job id must be a number'
+        });
+      }
+      
+      const job = await backfillService.getJob(id);
+      if (!job) {
+        return res.status(404).json({
+          status: 'error',
+          message: `Backfill job ${id} not found`
+        });
+      }
+      
+      res.json({
+        status: 'ok',
+        job
+      });
+    } catch (error) {
+      logger.error('Error fetching backfill job:', error);
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to fetch backfill job',
+        error: (error as Error).message
+      });
+    }
+  }
+  
+  /**
+   * Cancel a pending or running backfill job; a running job stops after its current page
+   * 
+   * @param req Express request
+   * @param res Express response
+   */
+  static async cancelJob(req: Request, res: Response) {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({
+          status: 'error',
+          message: 'Job id must be a number'
+        });
+      }
+      
+      const job = await backfillService.cancelJob(id);
+      if (!job) {
+        const existing = await backfillService.getJob(id);
+        return res.status(existing ? 409 : 404).json({
+          status: 'error',
+          message: existing ? `Backfill job ${id} is already ${existing.status}` : `Backfill job ${id} not found`
+        });
+      }
+      
+      res.json({
+        status: 'success',
+        message: `Backfill job ${id} cancelled`,
+        job
+      });
+    } catch (error) {
+      logger.error('Error cancelling backfill job:', error);
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to cancel backfill job',
+        error: (error as Error).message
+      });
+    }
+  }
+  
+  /**
+   * Resume a cancelled or failed backfill job from its cursor
+   * 
+   * @param req Express request
+   * @param res Express response
+   */
+  static async resumeJob(req: Request, res: Response) {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({
+          status: 'error',
+          message: 'Job id must be a number'
+        });
+      }
+      
+      const job = await backfillService.resumeJob(id);
+      if (!job) {
+        const existing = await backfillService.getJob(id);
+        return res.status(existing ? 409 : 404).json({
+          status: 'error',
+          message: existing ? `Backfill job ${id} is ${existing.status}; only cancelled or failed jobs can be resumed` : `Backfill job ${id} not found`
+        });
+      }
+      
+      runBackfillJobsInBackground();
+      
+      res.status(202).json({
+        status: 'success',
+        message: `Backfill job ${id} queued to resume`,
+        job
+      });
+    } catch (error) {
+      logger.error('Error resuming backfill job:', error);
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to resume backfill job',
+        error: (error as Error).message
+      });
+    }
+  }
+}
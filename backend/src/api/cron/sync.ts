@@ -1,11 +1,20 @@
 import { Request, Response } from 'express';
 import { EasWorker } from '../../workers/eas-worker';
 import { logger } from '../../utils/logger';
+import { config, getEnabledChains } from '../../config';
 
 /**
  * Cron handler for Vercel to trigger the EAS sync process
  * This endpoint is called automatically by Vercel's cron scheduler
  * Can be triggered manually with a POST request to /api/cron/sync
+ * Chains are ingested under per-chain leases (sync_locks), so a run that
+ * overlaps the background worker skips the chains it is already syncing
+ * Ingestion stops at SYNC_TIME_BUDGET_MS after the request came in, before the
+ * function timeout; a partial run is picked up by the next tick from the checkpoints
+ * Each run then samples every chain's indexer and chain head for the lag
+ * reported by /api/sync/status
+ * Time left over after a complete run goes to queued backfill jobs, which
+ * likewise stop at the deadline and resume on a later tick
  */
 export default async function handler(req: Request, res: Response) {
   // Only allow POST requests from Vercel
@@ -13,6 +22,9 @@ export default async function handler(req: Request, res: Response) {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  // The budget covers worker initialization too
+  const deadline = new Date(Date.now() + (parseInt(config.SYNC_TIME_BUDGET_MS, 10) || 50000));
+
   try {
     logger.info('Cron job triggered for EAS sync');
     
@@ -21,10 +33,7 @@ export default async function handler(req: Request, res: Response) {
       nodeEnv: process.env.NODE_ENV,
       supabaseUrl: process.env.SUPABASE_URL ? 'Set' : 'Not set',
       supabaseServiceKey: process.env.SUPABASE_SERVICE_ROLE_KEY ? 'Set' : 'Not set',
-      easEndpointArbitrum: process.env.EAS_ENDPOINT_ARBITRUM ? 'Set' : 'Not set',
-      easEndpointCelo: process.env.EAS_ENDPOINT_CELO ? 'Set' : 'Not set',
-      easEndpointSepolia: process.env.EAS_ENDPOINT_SEPOLIA ? 'Set' : 'Not set',
-      easEndpointBase: process.env.EAS_ENDPOINT_BASE ? 'Set' : 'Not set',
+      chains: getEnabledChains().map(chain => `${chain.chain} (${chain.ingestionSource}${chain.indexerUrl ? ', indexer set' : ''})`),
       easSchemaUid: process.env.EAS_SCHEMA_UID ? 'Set' : 'Not set'
     });
     
@@ -32,7 +41,7 @@ export default async function handler(req: Request, res: Response) {
     logger.info('Initializing EAS worker for cron job');
     const worker = new EasWorker(
       60 * 1000, // 1 minute interval
-      60 * 60 * 1000, // 1 hour revocation check
+      24 * 60 * 60 * 1000, // 24 hour revocation sweep
       5, // 5 retries
       10000 // 10 second retry delay
     );
@@ -47,19 +56,31 @@ export default async function handler(req: Request, res: Response) {
       throw initError;
     }
     
-    // Process all chains with more detailed logging
-    logger.info('Starting ingestion in cron job');
-    const results = await worker.runIngestion()
+    // Process chains until the deadline
+    logger.info(`Starting ingestion in cron job, deadline ${deadline.toISOString()}`);
+    const run = await worker.runBudgetedIngestion(deadline)
       .catch(ingestionError => {
         logger.error('Ingestion failed in cron job:', ingestionError);
         throw ingestionError;
       });
     
-    logger.info('Ingestion completed successfully');
+    logger.info(run?.status === 'partial' ? 'Ingestion stopped at the time budget' : 'Ingestion completed successfully');
+    
+    // Sample the lags even after a partial run; it is a few requests per chain
+    await worker.monitorChains();
+    
+    // Spend what is left of the budget on queued backfill jobs
+    const backfillJobs = run?.status === 'partial'
+      ? []
+      : await worker.runBackfillJobs(deadline).catch(backfillError => {
+        // Log but don't fail the entire job; the jobs resume next tick
+        logger.error('Backfill jobs failed in cron job:', backfillError);
+        return [];
+      });
     
-    // Skip revocation checks for now to avoid database URL errors
-    // We'll fix the database URL issue in a separate PR
-    logger.info('Skipping revocation checks due to known database URL issue');
+    // Revocations are tracked incrementally during ingestion; the full sweep
+    // stays off here to avoid database URL errors
+    logger.info('Skipping the full revocation sweep due to known database URL issue');
     
     /*
     // Check for revocations
@@ -70,11 +91,18 @@ export default async function handler(req: Request, res: Response) {
       });
     */
     
-    // Return success
+    // Return success; a partial run resumes on the next tick
     logger.info('EAS sync cron job completed successfully');
     return res.status(200).json({
       success: true,
-      message: 'EAS sync completed successfully',
+      status: run?.status ?? 'complete',
+      message: run?.status === 'partial'
+        ? 'EAS sync reached its time budget, resuming next tick'
+        : 'EAS sync completed successfully',
+      resumeNextTick: run?.status === 'partial',
+      deadline: deadline.toISOString(),
+      chains: run?.chains ?? [],
+      backfillJobs: backfillJobs.map(job => ({ id: job.id, chain: job.chain, status: job.status, pagesDone: job.pages_done, inserted: job.inserted })),
       timestamp: new Date().toISOString()
     });
   } catch (error) {
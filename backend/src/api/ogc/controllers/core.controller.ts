@@ -1,7 +1,18 @@
 import { Request, Response } from 'express';
-import { config } from '../../../config';
+import { config, getEnabledChains } from '../../../config';
 import { logger } from '../../../utils/logger';
 
+/**
+ * Description and source chains of the location proofs collection, from the chain registry
+ */
+function locationProofsSource() {
+  const chains = getEnabledChains();
+  return {
+    description: `Blockchain-attested location proofs from ${chains.map(chain => chain.chain).join(', ')}`,
+    chains: chains.map(chain => ({ chain: chain.chain, chainId: chain.chainId }))
+  };
+}
+
 /**
  * OGC API Features Core controller
  * Implements the core OGC API Features functionality (landing page, conformance, collections)
@@ -119,7 +130,7 @@ export class OgcCoreController {
         {
           id: "location-proofs",
           title: "Location Proofs",
-          description: "Blockchain-attested location proofs from multiple chains",
+          ...locationProofsSource(),
           links: [
             {
               href: `${baseUrl}${ogcPath}/collections/location-proofs`,
@@ -211,7 +222,7 @@ export class OgcCoreController {
       const collection = {
         id: "location-proofs",
         title: "Location Proofs",
-        description: "Blockchain-attested location proofs from multiple chains",
+        ...locationProofsSource(),
         links: [
           {
             href: `${baseUrl}${ogcPath}/collections/location-proofs`,
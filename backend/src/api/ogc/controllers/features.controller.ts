@@ -3,6 +3,8 @@ import { supabaseService } from '../../../services/supabase.service';
 import { logger } from '../../../utils/logger';
 import { z } from 'zod';
 import { LocationProof } from '../../../models/types';
+import { isExpired } from '../../../utils/proof-validity';
+import { parseQualityFilter } from '../../../utils/location-quality';
 
 // GeoJSON geometry types
 interface GeoJSONGeometry {
@@ -80,7 +82,12 @@ export class OgcFeaturesController {
         queryParams.limit,
         queryParams.offset,
         queryParams.chain,
-        queryParams.prover
+        queryParams.prover,
+        queryParams.schema_version,
+        queryParams.validAt,
+        queryParams.quality,
+        queryParams.minAltitude,
+        queryParams.maxAltitude
       );
       
       // Build next/prev links for pagination
@@ -288,7 +295,55 @@ function parseQueryParams(req: Request) {
     
     // Additional filters for location proofs
     chain: z.string().optional(),
-    prover: z.string().optional()
+    prover: z.string().optional(),
+    schema_version: z.string().optional(),
+    
+    // Only features valid (attested, unrevoked and unexpired) at this instant
+    validAt: z.string().optional().transform(val => {
+      if (!val) return undefined;
+      
+      const date = new Date(val);
+      if (isNaN(date.getTime())) {
+        throw new Error('Invalid validAt. Use an ISO 8601 datetime');
+      }
+      
+      return date;
+    }),
+    
+    // Only features with any of these quality flags, or none for those without
+    quality: z.string().optional().transform(val => {
+      if (!val) return undefined;
+      
+      const quality = parseQualityFilter(val);
+      if (!quality) {
+        throw new Error('Invalid quality. Use a comma-separated list of quality flags or none');
+      }
+      
+      return quality;
+    }),
+    
+    // Altitude range, in the units of the location's Z values
+    minAltitude: z.string().optional().transform(val => {
+      if (!val) return undefined;
+      
+      const altitude = Number(val);
+      if (isNaN(altitude)) {
+        throw new Error('Invalid minAltitude. Use a number');
+      }
+      
+      return altitude;
+    }),
+    
+    maxAltitude: z.string().optional().transform(val => {
+      if (!val) return undefined;
+      
+      const altitude = Number(val);
+      if (isNaN(altitude)) {
+        throw new Error('Invalid maxAltitude. Use a number');
+      }
+      
+      return altitude;
+    })
   });
   
   // Parse and validate
@@ -305,7 +360,12 @@ function parseQueryParams(req: Request) {
       bbox: undefined,
       datetime: undefined,
       chain: undefined,
-      prover: undefined
+      prover: undefined,
+      schema_version: undefined,
+      validAt: undefined,
+      quality: undefined,
+      minAltitude: undefined,
+      maxAltitude: undefined
     };
   }
   
@@ -346,11 +406,11 @@ function locationProofToGeoJSONFeature(proof: LocationProof): GeoJSONFeature {
   } 
   
   // Fall back to longitude/latitude if available
-  if (!geometry && proof.longitude && proof.latitude) {
+  if (!geometry && proof.longitude != null && proof.latitude != null) {
     // Create a point geometry from lon/lat
     geometry = {
       type: 'Point',
-      coordinates: [proof.longitude, proof.latitude]
+      coordinates: proof.altitude != null ? [proof.longitude, proof.latitude, proof.altitude] : [proof.longitude, proof.latitude]
     };
   }
   
@@ -368,7 +428,19 @@ function locationProofToGeoJSONFeature(proof: LocationProof): GeoJSONFeature {
       location_type: proof.location_type,
       location: proof.location,
       srs: proof.srs,
+      altitude: proof.altitude ?? null,
+      source_srs: proof.source_srs ?? null,
+      source_geometry: proof.source_geometry ?? null,
+      srs_status: proof.srs_status ?? null,
+      quality_flags: proof.quality_flags ?? [],
       revoked: proof.revoked,
+      revocation_time: proof.revocation_time,
+      revoker: proof.revoker,
+      expiration_time: proof.expiration_time ?? null,
+      expired: isExpired(proof),
+      origin: proof.origin,
+      schema_uid: proof.schema_uid,
+      schema_version: proof.schema_version,
       // Include additional properties if available
       recipe_types: proof.recipe_types,
       recipe_payloads: proof.recipe_payloads,
@@ -388,7 +460,12 @@ async function getLocationProofsAsFeatures(
   limit: number = 10,
   offset: number = 0,
   chain?: string,
-  prover?: string
+  prover?: string,
+  schemaVersion?: string,
+  validAt?: Date,
+  quality?: string[],
+  minAltitude?: number,
+  maxAltitude?: number
 ) {
   // Get the Supabase client
   const client = supabaseService.getClient();
@@ -411,6 +488,26 @@ async function getLocationProofsAsFeatures(
       queryParams.prover = prover;
     }
     
+    if (schemaVersion) {
+      queryParams.schemaVersion = schemaVersion;
+    }
+    
+    if (validAt) {
+      queryParams.validAt = validAt;
+    }
+    
+    if (quality) {
+      queryParams.quality = quality;
+    }
+    
+    if (minAltitude !== undefined) {
+      queryParams.minAltitude = minAltitude;
+    }
+    
+    if (maxAltitude !== undefined) {
+      queryParams.maxAltitude = maxAltitude;
+    }
+    
     if (datetimeRange?.fromTimestamp) {
       queryParams.fromTimestamp = datetimeRange.fromTimestamp;
     }
@@ -13,6 +13,36 @@ syncRouter.post('/', SyncController.triggerSync);
 // Trigger revocation check
 syncRouter.post('/revocations', SyncController.triggerRevocationCheck);
 
+// List attestations in the ingestion dead-letter queue
+syncRouter.get('/failures', SyncController.getFailures);
+
+// Retry all pending ingestion failures (can be used with ?chain=xxx&limit=n)
+syncRouter.post('/failures/retry', SyncController.retryFailures);
+
+// Retry a single ingestion failure
+syncRouter.post('/failures/:id/retry', SyncController.retryFailure);
+
+// Re-derive stored proofs from their archived attestations (dry run unless dryRun=false)
+syncRouter.post('/reprocess', SyncController.reprocess);
+
+// List stored proofs that the ingestion policies would reject (one page of proofs per call)
+syncRouter.get('/policies/violations', SyncController.getPolicyViolations);
+
+// Queue a backfill job for a chain over a timestamp or block range
+syncRouter.post('/jobs', SyncController.createJob);
+
+// List backfill jobs, most recent first
+syncRouter.get('/jobs', SyncController.getJobs);
+
+// Get a backfill job with its progress
+syncRouter.get('/jobs/:id', SyncController.getJob);
+
+// Cancel a pending or running backfill job
+syncRouter.post('/jobs/:id/cancel', SyncController.cancelJob);
+
+// Resume a cancelled or failed backfill job from its cursor
+syncRouter.post('/jobs/:id/resume', SyncController.resumeJob);
+
 // Control the background worker
 syncRouter.post('/worker', SyncController.controlWorker);
 
@@ -1,5 +1,5 @@
 import { Request, Response } from 'express';
-import { easEndpoints, config } from '../../../config';
+import { chainRegistry, config } from '../../../config';
 import { logger } from '../../../utils/logger';
 
 /**
@@ -14,14 +14,24 @@ export class ConfigController {
    */
   static getConfig(req: Request, res: Response) {
     try {
+      const registry = Object.values(chainRegistry);
+      
       // Create a cleaned config object with only the needed information
+      // (RPC URLs are left out since they may embed provider keys)
       const configResponse = {
-        chains: {
-          arbitrum: !!easEndpoints.arbitrum,
-          celo: !!easEndpoints.celo,
-          sepolia: !!easEndpoints.sepolia,
-          base: !!easEndpoints.base,
-        },
+        chains: Object.fromEntries(registry.map(chain => [
+          chain.chain,
+          chain.enabled && (!!chain.indexerUrl || chain.ingestionSource === 'rpc')
+        ])),
+        networks: registry.map(chain => ({
+          chain: chain.chain,
+          chainId: chain.chainId,
+          enabled: chain.enabled,
+          easContractAddress: chain.easContractAddress,
+          schemaUIDs: chain.schemaUIDs,
+          deploymentBlock: chain.deploymentBlock,
+          ingestionSource: chain.ingestionSource,
+        })),
         schema: config.EAS_SCHEMA_UID,
         schema_fields: config.EAS_SCHEMA_RAW_STRING || undefined,
         version: 'v0',
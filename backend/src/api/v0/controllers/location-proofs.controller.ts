@@ -1,7 +1,11 @@
 import { Request, Response } from 'express';
 import { LocationProofQueryParams } from '../../../models/types';
+import { chainRegistry } from '../../../config';
 import { supabaseService } from '../../../services/supabase.service';
+import { offchainAttestationService, OffchainAttestationError } from '../../../services/offchain-attestation.service';
 import { logger } from '../../../utils/logger';
+import { withExpiry } from '../../../utils/proof-validity';
+import { LOCATION_QUALITY_FLAGS, parseQualityFilter } from '../../../utils/location-quality';
 
 /**
  * Controller for location proofs endpoints
@@ -27,7 +31,7 @@ export class LocationProofsController {
         return res.status(404).json({ error: 'Location proof not found' });
       }
       
-      return res.status(200).json(locationProof);
+      return res.status(200).json(withExpiry(locationProof));
     } catch (error) {
       logger.error('Error getting location proof:', error);
       return res.status(500).json({ error: 'Failed to get location proof' });
@@ -57,6 +61,10 @@ export class LocationProofsController {
         params.subject = req.query.subject as string;
       }
       
+      if (req.query.schemaVersion) {
+        params.schemaVersion = req.query.schemaVersion as string;
+      }
+      
       if (req.query.fromTimestamp) {
         params.fromTimestamp = new Date(req.query.fromTimestamp as string);
       }
@@ -65,6 +73,15 @@ export class LocationProofsController {
         params.toTimestamp = new Date(req.query.toTimestamp as string);
       }
       
+      if (req.query.validAt) {
+        const validAt = new Date(req.query.validAt as string);
+        
+        if (isNaN(validAt.getTime())) {
+          return res.status(400).json({ error: 'Invalid validAt. Expected an ISO 8601 datetime' });
+        }
+        params.validAt = validAt;
+      }
+      
       if (req.query.bbox) {
         const bboxString = req.query.bbox as string;
         const bboxValues = bboxString.split(',').map(Number);
@@ -76,6 +93,26 @@ export class LocationProofsController {
         }
       }
       
+      for (const bound of ['minAltitude', 'maxAltitude'] as const) {
+        if (req.query[bound] !== undefined) {
+          const altitude = Number(req.query[bound]);
+          
+          if (req.query[bound] === '' || isNaN(altitude)) {
+            return res.status(400).json({ error: `Invalid ${bound}. Expected a number` });
+          }
+          params[bound] = altitude;
+        }
+      }
+      
+      if (req.query.quality) {
+        const quality = parseQualityFilter(req.query.quality as string);
+        
+        if (!quality) {
+          return res.status(400).json({ error: `Invalid quality. Expected a comma-separated list of ${[...LOCATION_QUALITY_FLAGS, 'none'].join(', ')}` });
+        }
+        params.quality = quality;
+      }
+      
       // Parse pagination parameters
       if (req.query.limit) {
         const limit = parseInt(req.query.limit as string, 10);
@@ -101,7 +138,7 @@ export class LocationProofsController {
       
       // Build response with pagination details
       const response = {
-        data: locationProofs,
+        data: locationProofs.map(proof => withExpiry(proof)),
         pagination: {
           total,
           limit: params.limit || 20,
@@ -122,6 +159,28 @@ export class LocationProofsController {
     }
   }
   
+  /**
+   * Submit a signed EAS offchain attestation package as a location proof
+   * 
+   * @param req Express request, with the { sig, signer } package as body
+   * @param res Express response
+   */
+  static async submitOffchainAttestation(req: Request, res: Response) {
+    try {
+      const locationProof = await offchainAttestationService.submit(req.body);
+      
+      return res.status(201).json(locationProof);
+    } catch (error) {
+      if (error instanceof OffchainAttestationError) {
+        logger.warn(`Rejected offchain attestation (${error.code}): ${error.message}`);
+        return res.status(error.status).json(error.toJSON());
+      }
+      
+      logger.error('Error submitting offchain attestation:', error);
+      return res.status(500).json({ error: 'Failed to submit offchain attestation' });
+    }
+  }
+  
   /**
    * Get aggregate stats for location proofs
    * 
@@ -134,16 +193,24 @@ export class LocationProofsController {
       const total = await supabaseService.getLocationProofsCount();
       
       // Get counts by chain
-      const chains = ['arbitrum', 'celo', 'sepolia', 'base'];
+      const chains = Object.keys(chainRegistry);
       const chainCounts: Record<string, number> = {};
       
       for (const chain of chains) {
         chainCounts[chain] = await supabaseService.getLocationProofsCount({ chain });
       }
       
+      // Get counts by quality flag, and of proofs without flags
+      const qualityCounts: Record<string, number> = {};
+      
+      for (const flag of [...LOCATION_QUALITY_FLAGS, 'none']) {
+        qualityCounts[flag] = await supabaseService.getLocationProofsCount({ quality: [flag] });
+      }
+      
       return res.status(200).json({
         total,
         by_chain: chainCounts,
+        by_quality: qualityCounts,
       });
     } catch (error) {
       logger.error('Error getting location proofs stats:', error);
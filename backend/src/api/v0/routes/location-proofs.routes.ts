@@ -7,6 +7,9 @@ const locationProofsRouter = Router();
 // Get statistics about location proofs (must come before /:uid to not match "stats" as a UID)
 locationProofsRouter.get('/stats', LocationProofsController.getLocationProofsStats);
 
+// Submit a signed offchain attestation
+locationProofsRouter.post('/offchain', LocationProofsController.submitOffchainAttestation);
+
 // Get all location proofs with filters
 locationProofsRouter.get('/', LocationProofsController.queryLocationProofs);
 
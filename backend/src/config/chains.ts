@@ -0,0 +1,145 @@
+import { z } from 'zod';
+import { ChainConfig } from '../models/types';
+import easConfig from './EAS-config.json';
+
+// A chain entry as declared in EAS-config.json, after env overrides are applied
+const chainSchema = z.object({
+  chain: z.string().regex(/^[a-z0-9-]+$/, 'must be a lowercase network name'),
+  chainId: z.number().int().positive(),
+  enabled: z.boolean().default(true),
+  deploymentBlock: z.number().int().nonnegative(),
+  easContractAddress: z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'must be a contract address'),
+  schemaUIDs: z.array(z.string().regex(/^0x[0-9a-fA-F]{64}$/, 'must be a schema UID').transform(uid => uid.toLowerCase())).min(1),
+  rpcUrls: z.array(z.string().url()).min(1),
+  indexerUrl: z.string().url().optional(),
+  indexerUrls: z.array(z.string().url()).optional(),
+  ingestionSource: z.enum(['indexer', 'rpc']).default('indexer'),
+  confirmations: z.number().int().nonnegative().default(0),
+}).transform(chain => {
+  // indexerUrl is the primary endpoint; indexerUrls adds fallbacks after it
+  const indexerUrls = [...new Set([...(chain.indexerUrl ? [chain.indexerUrl] : []), ...(chain.indexerUrls ?? [])])];
+  return indexerUrls.length > 0 ? { ...chain, indexerUrl: indexerUrls[0], indexerUrls } : chain;
+});
+
+/**
+ * Env var suffix for a chain name (e.g. "arbitrum-nova" -> "ARBITRUM_NOVA")
+ */
+export const chainEnvSuffix = (chain: string): string => chain.toUpperCase().replace(/-/g, '_');
+
+// Split a comma-separated env list, dropping blanks
+const parseList = (value: string): string[] => value.split(',').map(item => item.trim()).filter(Boolean);
+
+/**
+ * Apply the per-chain env overrides to a chain entry
+ *
+ * Only variables that are set override the file. Values are left as parsed
+ * so that the schema reports bad input instead of it being silently dropped.
+ */
+function applyEnvOverrides(entry: Record<string, unknown>, env: NodeJS.ProcessEnv): Record<string, unknown> {
+  const suffix = chainEnvSuffix(String(entry.chain));
+  const merged = { ...entry };
+
+  const enabled = env[`EAS_CHAIN_ENABLED_${suffix}`];
+  if (enabled !== undefined) {
+    merged.enabled = enabled === 'true' ? true : enabled === 'false' ? false : enabled;
+  }
+
+  if (env[`EAS_ENDPOINT_${suffix}`]) {
+    const indexerUrls = parseList(env[`EAS_ENDPOINT_${suffix}`]!);
+    merged.indexerUrl = indexerUrls[0];
+    merged.indexerUrls = indexerUrls;
+  }
+
+  if (env[`EAS_RPC_URLS_${suffix}`]) {
+    merged.rpcUrls = parseList(env[`EAS_RPC_URLS_${suffix}`]!);
+  }
+
+  // A local mock EAS server (npm run mock:eas) stands in for every chain's indexer and RPC
+  if (env.EAS_MOCK_URL) {
+    const mockUrl = env.EAS_MOCK_URL.replace(/\/+$/, '');
+    merged.indexerUrl = `${mockUrl}/${entry.chain}/graphql`;
+    merged.indexerUrls = [merged.indexerUrl];
+    merged.rpcUrls = [`${mockUrl}/${entry.chain}/rpc`];
+  }
+
+  if (env[`EAS_INGESTION_SOURCE_${suffix}`]) {
+    merged.ingestionSource = env[`EAS_INGESTION_SOURCE_${suffix}`];
+  }
+
+  if (env[`EAS_CONFIRMATIONS_${suffix}`]) {
+    merged.confirmations = Number(env[`EAS_CONFIRMATIONS_${suffix}`]);
+  }
+
+  if (env[`EAS_DEPLOYMENT_BLOCK_${suffix}`]) {
+    merged.deploymentBlock = Number(env[`EAS_DEPLOYMENT_BLOCK_${suffix}`]);
+  }
+
+  // The global schema UID replaces the file's list; a per-chain list wins over both
+  if (env[`EAS_SCHEMA_UIDS_${suffix}`]) {
+    merged.schemaUIDs = parseList(env[`EAS_SCHEMA_UIDS_${suffix}`]!);
+  } else if (env.EAS_SCHEMA_UID) {
+    merged.schemaUIDs = [env.EAS_SCHEMA_UID];
+  }
+
+  return merged;
+}
+
+/**
+ * Build the chain registry from EAS-config.json style chain entries plus env overrides
+ *
+ * @param chains Chain entries keyed by chain id
+ * @param env Environment to read overrides from
+ * @param knownSchemaUids When given, every chain schema UID must be one of these
+ * @returns Validated chains keyed by network name, including disabled ones
+ * @throws Error listing every invalid entry
+ */
+export function buildChainRegistry(
+  chains: Record<string, unknown>,
+  env: NodeJS.ProcessEnv,
+  knownSchemaUids?: string[]
+): Record<string, ChainConfig> {
+  const registry: Record<string, ChainConfig> = {};
+  const problems: string[] = [];
+
+  for (const [chainId, entry] of Object.entries(chains)) {
+    const candidate = applyEnvOverrides({ ...(entry as Record<string, unknown>), chainId: Number(chainId) }, env);
+    const result = chainSchema.safeParse(candidate);
+
+    if (!result.success) {
+      const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+      problems.push(`chain ${candidate.chain ?? chainId} (${chainId}): ${issues}`);
+      continue;
+    }
+
+    const unknownSchemas = knownSchemaUids
+      ? result.data.schemaUIDs.filter(uid => !knownSchemaUids.includes(uid))
+      : [];
+    if (unknownSchemas.length > 0) {
+      problems.push(`chain ${result.data.chain} (${chainId}): schemaUIDs not in the schema registry: ${unknownSchemas.join(', ')}`);
+      continue;
+    }
+
+    if (registry[result.data.chain]) {
+      problems.push(`chain ${result.data.chain} (${chainId}): name is already used by chain id ${registry[result.data.chain].chainId}`);
+      continue;
+    }
+
+    registry[result.data.chain] = result.data;
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid chain registry:\n${problems.join('\n')}`);
+  }
+
+  return registry;
+}
+
+/**
+ * Load the chain registry from the bundled EAS-config.json
+ *
+ * @param env Environment to read overrides from
+ * @param knownSchemaUids When given, every chain schema UID must be one of these
+ */
+export function loadChainRegistry(env: NodeJS.ProcessEnv = process.env, knownSchemaUids?: string[]): Record<string, ChainConfig> {
+  return buildChainRegistry(easConfig.chains, env, knownSchemaUids);
+}
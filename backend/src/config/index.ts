@@ -1,5 +1,9 @@
 import dotenv from 'dotenv';
 import { z } from 'zod';
+import { ChainConfig, IngestionPolicy, SchemaDefinition } from '../models/types';
+import { loadChainRegistry } from './chains';
+import { loadIngestionPolicies } from './policies';
+import { loadSchemaRegistry } from './schemas';
 
 // Load environment variables
 dotenv.config();
@@ -18,11 +22,35 @@ const envSchema = z.object({
   SUPABASE_KEY: z.string().optional(),
   SUPABASE_SERVICE_ROLE_KEY: z.string(),
   
-  // EAS Endpoints
-  EAS_ENDPOINT_ARBITRUM: z.string().optional(),
-  EAS_ENDPOINT_CELO: z.string().optional(),
-  EAS_ENDPOINT_SEPOLIA: z.string().optional(),
-  EAS_ENDPOINT_BASE: z.string().optional(),
+  // Per-chain settings (EAS_ENDPOINT_<CHAIN>, EAS_RPC_URLS_<CHAIN>, ...) are
+  // read by the chain registry, see ./chains.ts, as is EAS_MOCK_URL;
+  // EAS_INGESTION_POLICIES is read by ./policies.ts
+  
+  // Number of blocks scanned per eth_getLogs call in rpc mode
+  EAS_LOG_BLOCK_RANGE: z.string().default('2000'),
+  
+  // How long a per-chain sync lease lasts before it must be renewed
+  SYNC_LOCK_TTL_MS: z.string().default('300000'),
+  
+  // How long a running backfill job may go without committing a page before
+  // another worker takes it over; longer than a page of ingestion can take
+  BACKFILL_STALE_MS: z.string().default('900000'),
+  
+  // How long a cron sync run may ingest before it stops and leaves the rest
+  // for the next run; keep it under the function timeout
+  SYNC_TIME_BUDGET_MS: z.string().default('50000'),
+  
+  // Per-endpoint limits of each chain's RPC and indexer endpoints
+  ENDPOINT_MAX_CONCURRENCY: z.string().default('8'),
+  ENDPOINT_MAX_RPS: z.string().default('25'),
+  // First backoff after a 429, doubled on each one in a row (up to a minute)
+  ENDPOINT_BACKOFF_MS: z.string().default('1000'),
+  ENDPOINT_TIMEOUT_MS: z.string().default('30000'),
+  
+  // Lag, in seconds, of the indexer or our checkpoint at which a chain is
+  // reported as degraded or stalled
+  CHAIN_LAG_DEGRADED_SECONDS: z.string().default('600'),
+  CHAIN_LAG_STALLED_SECONDS: z.string().default('3600'),
   
   // EAS Schema UID
   EAS_SCHEMA_UID: z.string().optional(),
@@ -43,10 +71,25 @@ if (!envParseResult.success) {
 // Extract validated env variables
 export const config = envParseResult.data;
 
-// EAS endpoint mapping
-export const easEndpoints = {
-  arbitrum: config.EAS_ENDPOINT_ARBITRUM,
-  celo: config.EAS_ENDPOINT_CELO,
-  sepolia: config.EAS_ENDPOINT_SEPOLIA,
-  base: config.EAS_ENDPOINT_BASE,
-};
\ No newline at end of file
+// Schema and chain registries and ingestion policies: config/EAS-config.json plus env overrides
+let schemas: Record<string, SchemaDefinition>;
+let registry: Record<string, ChainConfig>;
+let policies: IngestionPolicy[];
+try {
+  schemas = loadSchemaRegistry(process.env);
+  registry = loadChainRegistry(process.env, Object.keys(schemas));
+  policies = loadIngestionPolicies(process.env, Object.keys(registry));
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(1);
+}
+
+export const schemaRegistry = schemas;
+export const chainRegistry = registry;
+export const ingestionPolicies = policies;
+
+/**
+ * Get the registry entries of the chains that are enabled for ingestion
+ */
+export const getEnabledChains = (): ChainConfig[] =>
+  Object.values(chainRegistry).filter(chain => chain.enabled);
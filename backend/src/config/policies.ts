@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import { IngestionPolicy } from '../models/types';
+import easConfig from './EAS-config.json';
+
+const addressList = z.array(z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'must be an address').transform(address => address.toLowerCase())).min(1);
+const valueList = z.array(z.string().min(1)).min(1);
+
+// A policy as declared under policies in EAS-config.json or in EAS_INGESTION_POLICIES
+const policySchema = z.object({
+  name: z.string().min(1),
+  action: z.enum(['allow', 'deny']),
+  chains: valueList.optional(),
+  attesters: addressList.optional(),
+  recipients: addressList.optional(),
+  locationTypes: valueList.optional(),
+  recipeTypes: valueList.optional(),
+}).strict().refine(
+  policy => Boolean(policy.attesters || policy.recipients || policy.locationTypes || policy.recipeTypes),
+  'must set at least one of attesters, recipients, locationTypes or recipeTypes'
+);
+
+/**
+ * Build the ingestion policies from EAS-config.json style policy entries
+ *
+ * @param policies Policy entries, in the order they are evaluated
+ * @param knownChains When given, every chain a policy names must be one of these
+ * @returns Validated policies
+ * @throws Error listing every invalid entry
+ */
+export function buildIngestionPolicies(policies: unknown[], knownChains?: string[]): IngestionPolicy[] {
+  const built: IngestionPolicy[] = [];
+  const problems: string[] = [];
+
+  policies.forEach((entry, index) => {
+    const label = (entry as { name?: unknown } | null)?.name ?? `#${index}`;
+    const result = policySchema.safeParse(entry);
+    if (!result.success) {
+      const issues = result.error.issues.map(issue => `${issue.path.join('.') || '(policy)'}: ${issue.message}`).join('; ');
+      problems.push(`policy ${label}: ${issues}`);
+      return;
+    }
+
+    const unknownChains = knownChains ? (result.data.chains ?? []).filter(chain => !knownChains.includes(chain)) : [];
+    if (unknownChains.length > 0) {
+      problems.push(`policy ${label}: chains not in the chain registry: ${unknownChains.join(', ')}`);
+      return;
+    }
+
+    if (built.some(policy => policy.name === result.data.name)) {
+      problems.push(`policy ${label}: name is already used`);
+      return;
+    }
+
+    built.push(result.data);
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid ingestion policies:\n${problems.join('\n')}`);
+  }
+
+  return built;
+}
+
+/**
+ * Load the ingestion policies from the bundled EAS-config.json
+ *
+ * EAS_INGESTION_POLICIES, a JSON array of policies, replaces the file's list.
+ *
+ * @param env Environment to read the override from
+ * @param knownChains When given, every chain a policy names must be one of these
+ */
+export function loadIngestionPolicies(env: NodeJS.ProcessEnv = process.env, knownChains?: string[]): IngestionPolicy[] {
+  let policies: unknown = easConfig.policies;
+
+  if (env.EAS_INGESTION_POLICIES) {
+    try {
+      policies = JSON.parse(env.EAS_INGESTION_POLICIES);
+    } catch (error) {
+      throw new Error(`Invalid ingestion policies:\nEAS_INGESTION_POLICIES is not valid JSON (${(error as Error).message})`);
+    }
+  }
+
+  if (!Array.isArray(policies)) {
+    throw new Error('Invalid ingestion policies:\npolicies must be an array');
+  }
+
+  return buildIngestionPolicies(policies, knownChains);
+}
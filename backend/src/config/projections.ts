@@ -0,0 +1,44 @@
+/**
+ * proj4 definitions of the coordinate reference systems locations are
+ * reprojected from, keyed by EPSG code
+ *
+ * proj4 itself knows EPSG:4326, EPSG:4269 (NAD83) and EPSG:3857. To support
+ * another CRS, add its proj4 string from the EPSG registry here.
+ */
+export const PROJECTION_DEFINITIONS: Record<string, string> = {
+  // Geographic
+  'EPSG:4258': '+proj=longlat +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +no_defs', // ETRS89
+  'EPSG:4283': '+proj=longlat +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +no_defs', // GDA94
+  'EPSG:7844': '+proj=longlat +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +no_defs', // GDA2020
+  'EPSG:4674': '+proj=longlat +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +no_defs', // SIRGAS 2000
+
+  // World
+  'EPSG:3395': '+proj=merc +lon_0=0 +k=1 +x_0=0 +y_0=0 +datum=WGS84 +units=m +no_defs', // World Mercator
+
+  // Europe
+  'EPSG:3035': '+proj=laea +lat_0=52 +lon_0=10 +x_0=4321000 +y_0=3210000 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs', // ETRS89 / LAEA Europe
+  'EPSG:25832': '+proj=utm +zone=32 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs', // ETRS89 / UTM zone 32N
+  'EPSG:25833': '+proj=utm +zone=33 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs', // ETRS89 / UTM zone 33N
+  'EPSG:27700': '+proj=tmerc +lat_0=49 +lon_0=-2 +k=0.9996012717 +x_0=400000 +y_0=-100000 +ellps=airy +towgs84=446.448,-125.157,542.06,0.15,0.247,0.842,-20.489 +units=m +no_defs', // British National Grid
+  'EPSG:2154': '+proj=lcc +lat_0=46.5 +lon_0=3 +lat_1=49 +lat_2=44 +x_0=700000 +y_0=6600000 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs', // RGF93 / Lambert-93
+  'EPSG:2056': '+proj=somerc +lat_0=46.9524055555556 +lon_0=7.43958333333333 +k_0=1 +x_0=2600000 +y_0=1200000 +ellps=bessel +towgs84=674.374,15.056,405.346,0,0,0,0 +units=m +no_defs', // Swiss CH1903+ / LV95
+  'EPSG:28992': '+proj=sterea +lat_0=52.1561605555556 +lon_0=5.38763888888889 +k=0.9999079 +x_0=155000 +y_0=463000 +ellps=bessel +towgs84=565.4171,50.3319,465.5524,1.9342,-1.6677,9.1019,4.0725 +units=m +no_defs', // Amersfoort / RD New
+  'EPSG:3006': '+proj=utm +zone=33 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs', // SWEREF99 TM
+
+  // Americas
+  'EPSG:5070': '+proj=aea +lat_0=23 +lon_0=-96 +lat_1=29.5 +lat_2=45.5 +x_0=0 +y_0=0 +datum=NAD83 +units=m +no_defs', // NAD83 / Conus Albers
+
+  // Oceania
+  'EPSG:3577': '+proj=aea +lat_0=0 +lon_0=132 +lat_1=-18 +lat_2=-36 +x_0=0 +y_0=0 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs', // GDA94 / Australian Albers
+  'EPSG:2193': '+proj=tmerc +lat_0=0 +lon_0=173 +k=0.9996 +x_0=1600000 +y_0=10000000 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs' // NZGD2000 / NZTM
+};
+
+// UTM zones on WGS 84 (EPSG:32601-32660 north, 32701-32760 south) and NAD83 (EPSG:26901-26923)
+for (let zone = 1; zone <= 60; zone++) {
+  const padded = String(zone).padStart(2, '0');
+  PROJECTION_DEFINITIONS[`EPSG:326${padded}`] = `+proj=utm +zone=${zone} +datum=WGS84 +units=m +no_defs`;
+  PROJECTION_DEFINITIONS[`EPSG:327${padded}`] = `+proj=utm +zone=${zone} +south +datum=WGS84 +units=m +no_defs`;
+  if (zone <= 23) {
+    PROJECTION_DEFINITIONS[`EPSG:269${padded}`] = `+proj=utm +zone=${zone} +datum=NAD83 +units=m +no_defs`;
+  }
+}
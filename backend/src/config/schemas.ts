@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import { SchemaEncoder } from '@ethereum-attestation-service/eas-sdk';
+import { SchemaDefinition } from '../models/types';
+import easConfig from './EAS-config.json';
+
+// Model fields a schema may map onto differently named schema fields
+const locationFields = [
+  'eventTimestamp', 'srs', 'locationType', 'location',
+  'recipeType', 'recipePayload', 'mediaType', 'mediaData', 'memo'
+] as const;
+
+// A schema revision as declared in EAS-config.json (keyed by schema UID)
+const schemaEntrySchema = z.object({
+  version: z.string().min(1),
+  rawString: z.string().min(1),
+  fields: z.record(z.enum(locationFields), z.string()).optional(),
+});
+
+/**
+ * Build the schema registry from EAS-config.json style schema entries
+ *
+ * Each schema string must parse, and every field the proof model reads
+ * (directly or through the fields mapping) must exist in it, except the
+ * optional ones the decoders default.
+ *
+ * @param schemas Schema entries keyed by schema UID
+ * @returns Validated definitions keyed by lower-cased schema UID
+ * @throws Error listing every invalid entry
+ */
+export function buildSchemaRegistry(schemas: Record<string, unknown>): Record<string, SchemaDefinition> {
+  const registry: Record<string, SchemaDefinition> = {};
+  const problems: string[] = [];
+
+  for (const [uid, entry] of Object.entries(schemas)) {
+    if (!/^0x[0-9a-fA-F]{64}$/.test(uid)) {
+      problems.push(`schema ${uid}: key must be a schema UID`);
+      continue;
+    }
+
+    const result = schemaEntrySchema.safeParse(entry);
+    if (!result.success) {
+      const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+      problems.push(`schema ${uid}: ${issues}`);
+      continue;
+    }
+
+    let names: string[];
+    try {
+      names = new SchemaEncoder(result.data.rawString).schema.map(item => item.name);
+    } catch (error) {
+      problems.push(`schema ${uid}: rawString does not parse (${(error as Error).message})`);
+      continue;
+    }
+
+    // The location itself is the one field a proof cannot be built without
+    const required = new Set([...Object.values(result.data.fields ?? {}), result.data.fields?.location ?? 'location']);
+    const missing = [...required].filter(name => !names.includes(name));
+    if (missing.length > 0) {
+      problems.push(`schema ${uid}: fields not in rawString: ${missing.join(', ')}`);
+      continue;
+    }
+
+    registry[uid.toLowerCase()] = { uid: uid.toLowerCase(), ...result.data };
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid schema registry:\n${problems.join('\n')}`);
+  }
+
+  return registry;
+}
+
+/**
+ * Load the schema registry from the bundled EAS-config.json
+ *
+ * A global EAS_SCHEMA_UID that is not in the file is registered with
+ * EAS_SCHEMA_RAW_STRING (or the bundled schema string) as version "custom",
+ * so existing deployments that point at their own schema keep decoding.
+ */
+export function loadSchemaRegistry(env: NodeJS.ProcessEnv = process.env): Record<string, SchemaDefinition> {
+  const schemas: Record<string, unknown> = { ...easConfig.schemas };
+  const customUid = env.EAS_SCHEMA_UID;
+
+  if (customUid && !Object.keys(schemas).some(uid => uid.toLowerCase() === customUid.toLowerCase())) {
+    schemas[customUid] = {
+      version: 'custom',
+      rawString: env.EAS_SCHEMA_RAW_STRING || easConfig.schema.rawString
+    };
+  }
+
+  return buildSchemaRegistry(schemas);
+}
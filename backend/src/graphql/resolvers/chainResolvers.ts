@@ -0,0 +1,25 @@
+import { chainRegistry } from '../../config';
+import { ChainGraphQL } from '../types';
+
+/**
+ * Chain registry resolvers
+ */
+export const chainResolvers = {
+  Query: {
+    /**
+     * List the chains in the registry, optionally only enabled or disabled ones
+     */
+    chains: (_: unknown, { enabled }: { enabled?: boolean | null }): ChainGraphQL[] => {
+      return Object.values(chainRegistry)
+        .filter(chain => enabled === undefined || enabled === null || chain.enabled === enabled)
+        .map(chain => ({
+          chain: chain.chain,
+          chainId: chain.chainId,
+          enabled: chain.enabled,
+          easContractAddress: chain.easContractAddress,
+          schemaUIDs: chain.schemaUIDs,
+          ingestionSource: chain.ingestionSource
+        }));
+    }
+  }
+};
@@ -1,4 +1,5 @@
 import { locationProofResolvers } from './locationProofResolvers';
+import { chainResolvers } from './chainResolvers';
 import { jsonScalar } from './scalarResolvers';
 
 /**
@@ -7,7 +8,8 @@ import { jsonScalar } from './scalarResolvers';
 export const resolvers = {
   // Merge Query resolvers
   Query: {
-    ...locationProofResolvers.Query
+    ...locationProofResolvers.Query,
+    ...chainResolvers.Query
   },
   
   // No mutations - API is read-only
@@ -1,12 +1,16 @@
 import { supabaseService } from '../../services/supabase.service';
 import { LocationProof } from '../../models/types';
 import { 
+  GeoJSONGeometry,
   LocationProofGraphQL, 
   LocationProofFilter, 
   LocationProofStats,
-  ChainCount
+  ChainCount,
+  QualityCount
 } from '../types';
 import { logger } from '../../utils/logger';
+import { isExpired } from '../../utils/proof-validity';
+import { LOCATION_QUALITY_FLAGS, parseQualityFilter } from '../../utils/location-quality';
 
 /**
  * Map a database location proof to the GraphQL format
@@ -22,15 +26,27 @@ function mapProofToGraphQL(proof: LocationProof): LocationProofGraphQL {
     srs: proof.srs || null,
     locationType: proof.location_type || '',
     location: proof.location || '',
-    longitude: proof.longitude || null,
-    latitude: proof.latitude || null,
+    longitude: proof.longitude ?? null,
+    latitude: proof.latitude ?? null,
+    altitude: proof.altitude ?? null,
     geometry: proof.geometry || null,
+    sourceSrs: proof.source_srs || null,
+    sourceGeometry: (proof.source_geometry as GeoJSONGeometry | null) || null,
+    srsStatus: proof.srs_status || null,
+    qualityFlags: proof.quality_flags ?? [],
     recipeTypes: proof.recipe_types || null,
     recipePayloads: proof.recipe_payloads || null,
     mediaTypes: proof.media_types || null,
     mediaData: proof.media_data || null,
     memo: proof.memo || null,
     revoked: proof.revoked || false,
+    revocationTime: proof.revocation_time ? new Date(proof.revocation_time).toISOString() : null,
+    revoker: proof.revoker || null,
+    expirationTime: proof.expiration_time ? new Date(proof.expiration_time).toISOString() : null,
+    expired: isExpired(proof),
+    origin: proof.origin || 'onchain',
+    schemaUid: proof.schema_uid || null,
+    schemaVersion: proof.schema_version || null,
     createdAt: proof.created_at ? new Date(proof.created_at).toISOString() : new Date().toISOString(),
     updatedAt: proof.updated_at ? new Date(proof.updated_at).toISOString() : new Date().toISOString()
   };
@@ -38,15 +54,27 @@ function mapProofToGraphQL(proof: LocationProof): LocationProofGraphQL {
 
 /**
  * Convert a GraphQL filter to the format expected by the Supabase service
+ *
+ * @throws Error if the quality filter has a value that is not a quality flag or none
  */
 function mapFilterToSupabase(filter: LocationProofFilter = {}) {
+  const quality = filter.quality ? parseQualityFilter(filter.quality) : undefined;
+  if (quality === null) {
+    throw new Error(`Invalid quality filter. Expected quality flags (${LOCATION_QUALITY_FLAGS.join(', ')}) or none`);
+  }
+  
   return {
     chain: filter.chain,
     prover: filter.prover,
     subject: filter.subject,
+    schemaVersion: filter.schemaVersion,
     fromTimestamp: filter.fromTimestamp ? new Date(filter.fromTimestamp) : undefined,
     toTimestamp: filter.toTimestamp ? new Date(filter.toTimestamp) : undefined,
+    validAt: filter.validAt ? new Date(filter.validAt) : undefined,
     bbox: filter.bbox,
+    minAltitude: filter.minAltitude ?? undefined,
+    maxAltitude: filter.maxAltitude ?? undefined,
+    quality,
     limit: filter.limit || 10,
     offset: filter.offset || 0
   };
@@ -76,8 +104,8 @@ export const locationProofResolvers = {
      * Get multiple location proofs with optional filtering
      */
     locationProofs: async (_: any, { filter }: { filter?: LocationProofFilter }) => {
+      const supabaseFilter = mapFilterToSupabase(filter);
       try {
-        const supabaseFilter = mapFilterToSupabase(filter);
         const proofs = await supabaseService.queryLocationProofs(supabaseFilter);
         
         return proofs.map(mapProofToGraphQL);
@@ -91,8 +119,8 @@ export const locationProofResolvers = {
      * Get the number of location proofs matching a filter
      */
     locationProofsCount: async (_: any, { filter }: { filter?: LocationProofFilter }) => {
+      const supabaseFilter = mapFilterToSupabase(filter);
       try {
-        const supabaseFilter = mapFilterToSupabase(filter);
         return supabaseService.getLocationProofsCount(supabaseFilter);
       } catch (error) {
         logger.error('GraphQL error in locationProofsCount resolver:', error);
@@ -138,9 +166,16 @@ export const locationProofResolvers = {
           count
         }));
         
+        // Count each quality flag, and proofs without flags
+        const byQuality: QualityCount[] = [];
+        for (const flag of [...LOCATION_QUALITY_FLAGS, 'none']) {
+          byQuality.push({ flag, count: await supabaseService.getLocationProofsCount({ quality: [flag] }) });
+        }
+        
         return {
           total,
-          byChain
+          byChain,
+          byQuality
         };
       } catch (error) {
         logger.error('GraphQL error in locationProofsStats resolver:', error);
@@ -18,6 +18,9 @@ export const typeDefs = gql`
     
     "Get statistics about location proofs per chain"
     locationProofsStats: LocationProofStats!
+    
+    "Get the chains in the chain registry"
+    chains(enabled: Boolean): [Chain!]!
   }
 
   # Mutations have been intentionally removed to make the API read-only
@@ -29,6 +32,18 @@ export const typeDefs = gql`
     
     "Counts by blockchain network"
     byChain: [ChainCount!]!
+    
+    "Counts by location quality flag"
+    byQuality: [QualityCount!]!
+  }
+
+  "Count of location proofs with a quality flag"
+  type QualityCount {
+    "Quality flag, or none for proofs without flags"
+    flag: String!
+    
+    "Number of location proofs with this flag"
+    count: Int!
   }
 
   "Count of location proofs for a specific blockchain"
@@ -40,6 +55,27 @@ export const typeDefs = gql`
     count: Int!
   }
 
+  "A blockchain network from the chain registry"
+  type Chain {
+    "Network identifier used in the chain field of location proofs"
+    chain: String!
+    
+    "EVM chain id"
+    chainId: Int!
+    
+    "Whether location proofs are ingested from this chain"
+    enabled: Boolean!
+    
+    "Address of the EAS contract"
+    easContractAddress: String!
+    
+    "Location proof schema UIDs on this chain"
+    schemaUIDs: [String!]!
+    
+    "Ingestion source (indexer or rpc)"
+    ingestionSource: String!
+  }
+
   "Location proof attestation with geospatial data"
   type LocationProof {
     "Unique identifier (hash) of the attestation"
@@ -75,9 +111,24 @@ export const typeDefs = gql`
     "Latitude coordinate for point locations"
     latitude: Float
     
-    "GeoJSON geometry object"
+    "Altitude of the representative point, from the location's Z values"
+    altitude: Float
+    
+    "GeoJSON geometry object, with Z values when the location has them"
     geometry: GeoJSONGeometry
     
+    "The srs as an EPSG or OGC code, null if it was not recognized"
+    sourceSrs: String
+    
+    "The location in its source CRS, when that is not EPSG:4326"
+    sourceGeometry: GeoJSONGeometry
+    
+    "How the location came into EPSG:4326: native, reprojected, or unknown (stored without coordinates)"
+    srsStatus: String
+    
+    "Problems found with the location at ingest (null-island, out-of-range, axis-swap, invalid-ring, self-intersection, unparsable, reprojected, unknown-srs)"
+    qualityFlags: [String!]!
+    
     "Types of proof recipes used"
     recipeTypes: [String]
     
@@ -96,6 +147,27 @@ export const typeDefs = gql`
     "Whether the attestation has been revoked"
     revoked: Boolean!
     
+    "When the attestation was revoked, if it was"
+    revocationTime: String
+    
+    "Address that revoked the attestation"
+    revoker: String
+    
+    "When the attestation expires, if it does"
+    expirationTime: String
+    
+    "Whether the attestation has expired"
+    expired: Boolean!
+    
+    "Where the attestation lives: onchain, or offchain (signed and submitted to the API)"
+    origin: String!
+    
+    "EAS schema UID the attestation was made against"
+    schemaUid: String
+    
+    "Version of that schema in the schema registry"
+    schemaVersion: String
+    
     "When the record was created in the database"
     createdAt: String!
     
@@ -114,7 +186,7 @@ export const typeDefs = gql`
 
   "Filter parameters for location proofs queries"
   input LocationProofFilter {
-    "Filter by blockchain network"
+    "Filter by blockchain network (see the chains query)"
     chain: String
     
     "Filter by prover address"
@@ -123,15 +195,30 @@ export const typeDefs = gql`
     "Filter by subject address"
     subject: String
     
+    "Filter by location schema version (e.g. 0.1)"
+    schemaVersion: String
+    
     "Filter by event timestamp (starting from)"
     fromTimestamp: String
     
     "Filter by event timestamp (ending at)"
     toTimestamp: String
     
+    "Only proofs attested, unrevoked and unexpired at this datetime"
+    validAt: String
+    
     "Bounding box filter [minLon, minLat, maxLon, maxLat]"
     bbox: [Float]
     
+    "Only proofs with an altitude of at least this"
+    minAltitude: Float
+    
+    "Only proofs with an altitude of at most this"
+    maxAltitude: Float
+    
+    "Only proofs with any of these quality flags; none matches proofs without flags"
+    quality: [String!]
+    
     "Maximum number of results to return"
     limit: Int
     
@@ -20,13 +20,25 @@ export interface LocationProofGraphQL {
   location: string;
   longitude?: number | null;
   latitude?: number | null;
+  altitude?: number | null;
   geometry?: GeoJSONGeometry | null;
+  sourceSrs?: string | null;
+  sourceGeometry?: GeoJSONGeometry | null;
+  srsStatus?: string | null;
+  qualityFlags: string[];
   recipeTypes?: string[] | null;
   recipePayloads?: string[] | null;
   mediaTypes?: string[] | null;
   mediaData?: string[] | null;
   memo?: string | null;
   revoked: boolean;
+  revocationTime?: string | null;
+  revoker?: string | null;
+  expirationTime?: string | null;
+  expired: boolean;
+  origin: string;
+  schemaUid?: string | null;
+  schemaVersion?: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -35,9 +47,14 @@ export interface LocationProofFilter {
   chain?: string;
   prover?: string;
   subject?: string;
+  schemaVersion?: string;
   fromTimestamp?: string;
   toTimestamp?: string;
+  validAt?: string;
   bbox?: [number, number, number, number]; // [minLon, minLat, maxLon, maxLat]
+  minAltitude?: number;
+  maxAltitude?: number;
+  quality?: string[];
   limit?: number;
   offset?: number;
 }
@@ -47,9 +64,24 @@ export interface ChainCount {
   count: number;
 }
 
+export interface ChainGraphQL {
+  chain: string;
+  chainId: number;
+  enabled: boolean;
+  easContractAddress: string;
+  schemaUIDs: string[];
+  ingestionSource: string;
+}
+
+export interface QualityCount {
+  flag: string;
+  count: number;
+}
+
 export interface LocationProofStats {
   total: number;
   byChain: ChainCount[];
+  byQuality: QualityCount[];
 }
 
 export interface GraphQLContext {
@@ -0,0 +1,20 @@
+-- Create the sync_checkpoints table
+-- Persists the ingestion watermark per chain and schema so cold starts resume where the last run stopped
+CREATE TABLE IF NOT EXISTS sync_checkpoints (
+  chain VARCHAR NOT NULL,               -- Network identifier (e.g., arbitrum, celo)
+  schema_uid VARCHAR NOT NULL,          -- EAS schema UID being ingested
+  last_timestamp TIMESTAMPTZ,           -- timeCreated of the last committed attestation
+  last_uid VARCHAR,                     -- UID of the last committed attestation (tie-breaker for equal timestamps)
+  last_run_at TIMESTAMPTZ,              -- When the last ingestion run finished
+  last_run_status VARCHAR,              -- Outcome of the last run ("success", "partial" or "error")
+  last_run_count INTEGER DEFAULT 0,     -- Number of proofs created in the last run
+  last_error TEXT,                      -- Error message from the last failed run
+  created_at TIMESTAMPTZ DEFAULT NOW(), -- Record creation time
+  updated_at TIMESTAMPTZ DEFAULT NOW(), -- Record update time
+  PRIMARY KEY (chain, schema_uid)
+);
+
+CREATE TRIGGER sync_checkpoints_update_timestamp
+BEFORE UPDATE ON sync_checkpoints
+FOR EACH ROW
+EXECUTE FUNCTION update_timestamp();
@@ -0,0 +1,2 @@
+-- Track the last scanned block for chains ingested from EAS contract logs
+ALTER TABLE sync_checkpoints ADD COLUMN IF NOT EXISTS last_block BIGINT; -- Last fully scanned block (rpc ingestion mode)
@@ -0,0 +1,5 @@
+-- Record where each proof was included so reorged blocks can be detected
+ALTER TABLE location_proofs ADD COLUMN IF NOT EXISTS block_number BIGINT; -- Block the attestation was included in (rpc ingestion mode)
+ALTER TABLE location_proofs ADD COLUMN IF NOT EXISTS block_hash VARCHAR;  -- Hash of that block at ingestion time
+
+CREATE INDEX IF NOT EXISTS idx_location_proofs_chain_block ON location_proofs(chain, block_number);
@@ -0,0 +1,11 @@
+-- Record which schema revision each proof was decoded with
+ALTER TABLE location_proofs ADD COLUMN IF NOT EXISTS schema_uid VARCHAR;     -- EAS schema UID the attestation was made against
+ALTER TABLE location_proofs ADD COLUMN IF NOT EXISTS schema_version VARCHAR; -- Version label of that schema in the schema registry
+
+-- Every proof ingested before schema versioning used the v0.1 location schema
+UPDATE location_proofs
+SET schema_uid = '0xba4171c92572b1e4f241d044c32cdf083be9fd946b8766977558ca6378c824e2',
+    schema_version = '0.1'
+WHERE schema_uid IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_location_proofs_schema_version ON location_proofs(schema_version);
@@ -0,0 +1,5 @@
+-- Distinguish proofs submitted as signed offchain attestations from ingested onchain ones
+ALTER TABLE location_proofs ADD COLUMN IF NOT EXISTS origin VARCHAR NOT NULL DEFAULT 'onchain'
+  CHECK (origin IN ('onchain', 'offchain'));
+
+CREATE INDEX IF NOT EXISTS idx_location_proofs_origin ON location_proofs(origin);
@@ -0,0 +1,9 @@
+-- Record when and by whom each proof was revoked
+ALTER TABLE location_proofs ADD COLUMN IF NOT EXISTS revocation_time TIMESTAMPTZ; -- Revocation time reported by the indexer or contract
+ALTER TABLE location_proofs ADD COLUMN IF NOT EXISTS revoker VARCHAR;             -- Address that revoked the attestation
+
+-- Watermark for discovering revocations incrementally from the indexer
+ALTER TABLE sync_checkpoints ADD COLUMN IF NOT EXISTS last_revocation_time TIMESTAMPTZ; -- revocationTime of the last applied revocation
+ALTER TABLE sync_checkpoints ADD COLUMN IF NOT EXISTS last_revocation_uid VARCHAR;      -- UID of the last applied revocation (tie-breaker)
+
+CREATE INDEX IF NOT EXISTS idx_location_proofs_active ON location_proofs(chain, uid) WHERE revoked = FALSE;
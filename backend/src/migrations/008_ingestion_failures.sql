@@ -0,0 +1,26 @@
+-- Create the ingestion_failures table
+-- Dead-letter queue for attestations that could not be converted or stored, so they can be retried later
+CREATE TABLE IF NOT EXISTS ingestion_failures (
+  id BIGSERIAL PRIMARY KEY,                      -- Failure identifier used by the retry endpoint
+  chain VARCHAR NOT NULL,                        -- Network identifier (e.g., arbitrum, celo)
+  uid VARCHAR NOT NULL,                          -- UID of the failed attestation
+  stage VARCHAR NOT NULL
+    CHECK (stage IN ('lookup', 'convert', 'store')), -- Ingestion step that failed
+  error TEXT NOT NULL,                           -- Error message of the latest failure
+  attestation JSONB NOT NULL,                    -- Raw attestation as received from the indexer or contract
+  attempts INTEGER NOT NULL DEFAULT 1,           -- Number of failed attempts, including retries
+  status VARCHAR NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'resolved')),   -- Resolved once a retry stores the proof
+  last_failed_at TIMESTAMPTZ DEFAULT NOW(),      -- When the latest attempt failed
+  resolved_at TIMESTAMPTZ,                       -- When a retry succeeded
+  created_at TIMESTAMPTZ DEFAULT NOW(),          -- Record creation time
+  updated_at TIMESTAMPTZ DEFAULT NOW(),          -- Record update time
+  UNIQUE (chain, uid)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_failures_status ON ingestion_failures(status, chain);
+
+CREATE TRIGGER ingestion_failures_update_timestamp
+BEFORE UPDATE ON ingestion_failures
+FOR EACH ROW
+EXECUTE FUNCTION update_timestamp();
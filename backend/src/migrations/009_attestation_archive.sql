@@ -0,0 +1,28 @@
+-- Create the attestation_archive table
+-- Keeps each stored proof's attestation exactly as it was received, so the derived
+-- location_proofs fields can be re-derived later without going back to an indexer
+CREATE TABLE IF NOT EXISTS attestation_archive (
+  uid VARCHAR PRIMARY KEY
+    REFERENCES location_proofs(uid) ON DELETE CASCADE, -- Attestation UID; dropped with its proof (e.g. on reorg)
+  chain VARCHAR NOT NULL,                        -- Network identifier (e.g., arbitrum, celo)
+  source VARCHAR NOT NULL
+    CHECK (source IN ('indexer', 'rpc', 'offchain')), -- Where the attestation was received from
+  schema_uid VARCHAR,                            -- Schema UID the attestation was made with
+  data TEXT NOT NULL,                            -- Raw ABI-encoded attestation data
+  decoded_data_json TEXT,                        -- Decoded data as returned by the indexer or decoder
+  txid VARCHAR,                                  -- Transaction the attestation was made in (onchain only)
+  block_number BIGINT,                           -- Inclusion block (rpc ingestion only)
+  block_hash VARCHAR,                            -- Hash of that block when it was scanned
+  indexer_url VARCHAR,                           -- Indexer endpoint the attestation was fetched from
+  attestation JSONB NOT NULL,                    -- Full record as received, replayed by reprocessing
+  fetched_at TIMESTAMPTZ DEFAULT NOW(),          -- When the attestation was received
+  created_at TIMESTAMPTZ DEFAULT NOW(),          -- Record creation time
+  updated_at TIMESTAMPTZ DEFAULT NOW()           -- Record update time
+);
+
+CREATE INDEX IF NOT EXISTS idx_attestation_archive_chain ON attestation_archive(chain, uid);
+
+CREATE TRIGGER attestation_archive_update_timestamp
+BEFORE UPDATE ON attestation_archive
+FOR EACH ROW
+EXECUTE FUNCTION update_timestamp();
@@ -0,0 +1,18 @@
+-- Create the sync_locks table
+-- Per-chain leases so the cron handler and the background worker never run the same job on a chain at once
+CREATE TABLE IF NOT EXISTS sync_locks (
+  chain VARCHAR NOT NULL,                        -- Network identifier (e.g., arbitrum, celo)
+  job VARCHAR NOT NULL
+    CHECK (job IN ('ingest', 'revocations')),   -- Job the lease guards
+  holder VARCHAR NOT NULL,                       -- Worker instance holding the lease (host:pid:id)
+  acquired_at TIMESTAMPTZ NOT NULL DEFAULT NOW(), -- When the holder took the lease
+  expires_at TIMESTAMPTZ NOT NULL,               -- Lease is free after this; renewed while the job runs
+  created_at TIMESTAMPTZ DEFAULT NOW(),          -- Record creation time
+  updated_at TIMESTAMPTZ DEFAULT NOW(),          -- Record update time
+  PRIMARY KEY (chain, job)
+);
+
+CREATE TRIGGER sync_locks_update_timestamp
+BEFORE UPDATE ON sync_locks
+FOR EACH ROW
+EXECUTE FUNCTION update_timestamp();
@@ -0,0 +1,4 @@
+-- Record when each proof's attestation expires (EAS expirationTime, NULL if it never does)
+ALTER TABLE location_proofs ADD COLUMN IF NOT EXISTS expiration_time TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_location_proofs_expiration_time ON location_proofs(expiration_time) WHERE expiration_time IS NOT NULL;
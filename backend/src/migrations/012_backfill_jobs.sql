@@ -0,0 +1,38 @@
+-- Create the backfill_jobs table
+-- Historical syncs of a chain over a timestamp or block range, run by the worker with resumable progress
+CREATE TABLE IF NOT EXISTS backfill_jobs (
+  id BIGSERIAL PRIMARY KEY,                      -- Job identifier used by the jobs endpoints
+  chain VARCHAR NOT NULL,                        -- Network identifier (e.g., arbitrum, celo)
+  range_type VARCHAR NOT NULL
+    CHECK (range_type IN ('timestamp', 'block')), -- timestamp: read the indexer; block: scan contract logs
+  from_timestamp TIMESTAMPTZ,                    -- First attestation time of a timestamp range
+  to_timestamp TIMESTAMPTZ,                      -- Last attestation time of a timestamp range
+  from_block BIGINT,                             -- First block of a block range
+  to_block BIGINT,                               -- Last block of a block range
+  on_conflict VARCHAR NOT NULL DEFAULT 'skip'
+    CHECK (on_conflict IN ('skip', 'update')),   -- Whether stored proofs are rewritten
+  status VARCHAR NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'completed', 'cancelled', 'failed')),
+  holder VARCHAR,                                -- Worker instance that last ran the job (host:pid:id)
+  cursor_timestamp TIMESTAMPTZ,                  -- (timeCreated, uid) of the last committed attestation
+  cursor_uid VARCHAR,
+  cursor_block BIGINT,                           -- Last committed block of a block range
+  pages_done INTEGER NOT NULL DEFAULT 0,         -- Indexer pages or block ranges committed
+  inserted INTEGER NOT NULL DEFAULT 0,           -- Proofs inserted
+  updated INTEGER NOT NULL DEFAULT 0,            -- Stored proofs rewritten (on_conflict = 'update')
+  skipped INTEGER NOT NULL DEFAULT 0,            -- Proofs already stored
+  failed INTEGER NOT NULL DEFAULT 0,             -- Attestations sent to ingestion_failures
+  error TEXT,                                    -- Error the job failed with
+  started_at TIMESTAMPTZ,                        -- When the job first ran
+  finished_at TIMESTAMPTZ,                       -- When the job completed, was cancelled or failed
+  created_at TIMESTAMPTZ DEFAULT NOW(),          -- Record creation time
+  updated_at TIMESTAMPTZ DEFAULT NOW()           -- Record update time; a running job touches it on every page
+);
+
+CREATE INDEX IF NOT EXISTS idx_backfill_jobs_status ON backfill_jobs(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_backfill_jobs_chain ON backfill_jobs(chain, created_at DESC);
+
+CREATE TRIGGER backfill_jobs_update_timestamp
+BEFORE UPDATE ON backfill_jobs
+FOR EACH ROW
+EXECUTE FUNCTION update_timestamp();
@@ -0,0 +1,4 @@
+-- Record which kind of schema drift an attestation failed with (IngestionError code, NULL for other errors)
+ALTER TABLE ingestion_failures ADD COLUMN IF NOT EXISTS error_code VARCHAR;
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_failures_error_code ON ingestion_failures(error_code) WHERE error_code IS NOT NULL;
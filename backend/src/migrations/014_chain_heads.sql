@@ -0,0 +1,20 @@
+-- Create the chain_heads table
+-- Latest per-chain sample of the indexer's newest attestation, the chain head and our checkpoint, for lag monitoring
+CREATE TABLE IF NOT EXISTS chain_heads (
+  chain VARCHAR PRIMARY KEY,                     -- Network identifier (e.g., arbitrum, celo)
+  indexer_latest_time TIMESTAMPTZ,               -- timeCreated of the indexer's newest attestation of any schema
+  indexer_schema_latest_time TIMESTAMPTZ,        -- timeCreated of its newest attestation of the chain's location schemas
+  head_block BIGINT,                             -- Chain head block from the RPC
+  head_timestamp TIMESTAMPTZ,                    -- Chain head block time
+  checkpoint_timestamp TIMESTAMPTZ,              -- Our watermark: last ingested attestation time (block time in rpc mode)
+  checkpoint_block BIGINT,                       -- Last scanned block in rpc mode
+  error TEXT,                                    -- What could not be sampled, if anything
+  checked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(), -- When the sample was taken
+  created_at TIMESTAMPTZ DEFAULT NOW(),          -- Record creation time
+  updated_at TIMESTAMPTZ DEFAULT NOW()           -- Record update time
+);
+
+CREATE TRIGGER chain_heads_update_timestamp
+BEFORE UPDATE ON chain_heads
+FOR EACH ROW
+EXECUTE FUNCTION update_timestamp();
@@ -0,0 +1,7 @@
+-- Keep the source CRS of each proof's location, which is reprojected into the EPSG:4326 geometry
+ALTER TABLE location_proofs ADD COLUMN IF NOT EXISTS source_srs TEXT;        -- The srs as an EPSG or OGC code (e.g., EPSG:27700), NULL if not recognized
+ALTER TABLE location_proofs ADD COLUMN IF NOT EXISTS source_geometry JSONB;  -- GeoJSON geometry in the source CRS, when it is not EPSG:4326
+ALTER TABLE location_proofs ADD COLUMN IF NOT EXISTS srs_status TEXT          -- native, reprojected or unknown; NULL if unparsed or stored before reprojection
+  CHECK (srs_status IN ('native', 'reprojected', 'unknown'));
+
+CREATE INDEX IF NOT EXISTS idx_location_proofs_srs_status ON location_proofs(srs_status) WHERE srs_status <> 'native';
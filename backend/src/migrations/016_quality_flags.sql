@@ -0,0 +1,4 @@
+-- Quality flags the ingest validation found with each proof's location (null-island, out-of-range, axis-swap, ...)
+ALTER TABLE location_proofs ADD COLUMN IF NOT EXISTS quality_flags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_location_proofs_quality_flags ON location_proofs USING GIN(quality_flags);
@@ -0,0 +1,8 @@
+-- Keep the Z values of 3D locations: let the geometry column hold 2D and 3D geometries, still in EPSG:4326
+ALTER TABLE location_proofs ALTER COLUMN geometry TYPE GEOMETRY USING geometry;
+ALTER TABLE location_proofs DROP CONSTRAINT IF EXISTS location_proofs_geometry_srid;
+ALTER TABLE location_proofs ADD CONSTRAINT location_proofs_geometry_srid CHECK (ST_SRID(geometry) = 4326);
+
+ALTER TABLE location_proofs ADD COLUMN IF NOT EXISTS altitude NUMERIC; -- Altitude of the representative point (for convenience), NULL if the location has no Z values
+
+CREATE INDEX IF NOT EXISTS idx_location_proofs_altitude ON location_proofs(altitude) WHERE altitude IS NOT NULL;
@@ -0,0 +1,5 @@
+-- Record the block of each revocation read from contract logs, so a reorged one can be undone
+ALTER TABLE location_proofs ADD COLUMN IF NOT EXISTS revocation_block BIGINT;       -- Block of the Revoked log (rpc ingestion mode)
+ALTER TABLE location_proofs ADD COLUMN IF NOT EXISTS revocation_block_hash VARCHAR; -- Hash of that block when the revocation was recorded
+
+CREATE INDEX IF NOT EXISTS idx_location_proofs_chain_revocation_block ON location_proofs(chain, revocation_block);
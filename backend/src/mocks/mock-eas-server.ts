@@ -0,0 +1,588 @@
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { buildSchema, graphql, GraphQLSchema } from 'graphql';
+import { id, Interface, ZeroHash } from 'ethers';
+import { logger } from '../utils/logger';
+
+/**
+ * An attestation as the EAS indexer stores it, plus the blocks it was made
+ * and revoked in so the JSON-RPC side can serve its logs
+ */
+export interface MockAttestation {
+  id: string;
+  schemaId: string;
+  attester: string;
+  recipient: string;
+  refUID: string;
+  revocable: boolean;
+  revocationTime: number; // 0 if not revoked
+  expirationTime: number; // 0 if it never expires
+  timeCreated: number;
+  txid: string;
+  blockNumber: number;
+  revocationBlock?: number;
+  data: string;
+  decodedDataJson: string;
+}
+
+/**
+ * One chain's fixture file (src/mocks/fixtures/<chain>.json)
+ */
+export interface MockChainFixture {
+  chain: string;
+  chainId: number;
+  easContractAddress: string;
+  headBlock: number;
+  attestations: MockAttestation[];
+}
+
+export const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+/**
+ * Read every fixture file in a directory
+ *
+ * @param dir Directory of <chain>.json fixtures
+ */
+export function loadFixtures(dir: string = FIXTURES_DIR): MockChainFixture[] {
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')) as MockChainFixture);
+}
+
+const easInterface = new Interface([
+  'event Attested(address indexed recipient, address indexed attester, bytes32 uid, bytes32 indexed schemaUID)',
+  'event Revoked(address indexed recipient, address indexed attester, bytes32 uid, bytes32 indexed schemaUID)',
+  'function getAttestation(bytes32 uid) view returns (tuple(bytes32 uid, bytes32 schema, uint64 time, uint64 expirationTime, uint64 revocationTime, bytes32 refUID, address recipient, address attester, bool revocable, bytes data))'
+]);
+
+// The part of the EAS indexer's schema that the API and its scripts query
+const indexerSchema: GraphQLSchema = buildSchema(`
+  enum SortOrder { asc desc }
+  enum QueryMode { default insensitive }
+
+  input StringFilter {
+    equals: String
+    in: [String!]
+    notIn: [String!]
+    lt: String
+    lte: String
+    gt: String
+    gte: String
+    contains: String
+    startsWith: String
+    endsWith: String
+    mode: QueryMode
+    not: StringFilter
+  }
+
+  input IntFilter {
+    equals: Int
+    in: [Int!]
+    notIn: [Int!]
+    lt: Int
+    lte: Int
+    gt: Int
+    gte: Int
+    not: IntFilter
+  }
+
+  input BoolFilter {
+    equals: Boolean
+    not: BoolFilter
+  }
+
+  input AttestationWhereInput {
+    AND: [AttestationWhereInput!]
+    OR: [AttestationWhereInput!]
+    NOT: [AttestationWhereInput!]
+    id: StringFilter
+    schemaId: StringFilter
+    attester: StringFilter
+    recipient: StringFilter
+    refUID: StringFilter
+    txid: StringFilter
+    revocable: BoolFilter
+    revoked: BoolFilter
+    revocationTime: IntFilter
+    expirationTime: IntFilter
+    time: IntFilter
+    timeCreated: IntFilter
+    isOffchain: BoolFilter
+  }
+
+  input AttestationWhereUniqueInput {
+    id: String
+  }
+
+  input AttestationOrderByWithRelationInput {
+    id: SortOrder
+    schemaId: SortOrder
+    attester: SortOrder
+    recipient: SortOrder
+    revocationTime: SortOrder
+    expirationTime: SortOrder
+    time: SortOrder
+    timeCreated: SortOrder
+    txid: SortOrder
+  }
+
+  type Attestation {
+    id: String!
+    schemaId: String!
+    attester: String!
+    recipient: String!
+    refUID: String!
+    revocable: Boolean!
+    revoked: Boolean!
+    revocationTime: Int!
+    expirationTime: Int!
+    time: Int!
+    timeCreated: Int!
+    txid: String!
+    data: String!
+    decodedDataJson: String!
+    ipfsHash: String!
+    isOffchain: Boolean!
+  }
+
+  type Query {
+    attestations(
+      where: AttestationWhereInput
+      orderBy: [AttestationOrderByWithRelationInput!]
+      take: Int
+      skip: Int
+    ): [Attestation!]!
+    attestation(where: AttestationWhereUniqueInput!): Attestation
+  }
+`);
+
+type IndexerRecord = Record<string, string | number | boolean>;
+type FieldFilter = Record<string, unknown>;
+type WhereInput = Record<string, unknown>;
+
+interface LogFilter {
+  address?: string | string[];
+  fromBlock?: string;
+  toBlock?: string;
+  topics?: Array<string | string[] | null>;
+}
+
+// A JSON-RPC error with its code
+class RpcError extends Error {
+  constructor(public code: number, message: string) {
+    super(message);
+  }
+}
+
+// JSON-RPC quantities are unpadded hex
+const quantity = (value: number): string => `0x${value.toString(16)}`;
+
+// Indexer view of an attestation, as returned by the GraphQL API
+const toIndexerRecord = (attestation: MockAttestation): IndexerRecord => ({
+  id: attestation.id,
+  schemaId: attestation.schemaId,
+  attester: attestation.attester,
+  recipient: attestation.recipient,
+  refUID: attestation.refUID,
+  revocable: attestation.revocable,
+  revoked: attestation.revocationTime > 0,
+  revocationTime: attestation.revocationTime,
+  expirationTime: attestation.expirationTime,
+  time: attestation.timeCreated,
+  timeCreated: attestation.timeCreated,
+  txid: attestation.txid,
+  data: attestation.data,
+  decodedDataJson: attestation.decodedDataJson,
+  ipfsHash: '',
+  isOffchain: false
+});
+
+/**
+ * Match one field against a Prisma-style filter ({ equals, in, gt, not, ... })
+ */
+function matchesFilter(value: string | number | boolean, filter: FieldFilter): boolean {
+  const insensitive = filter.mode === 'insensitive';
+  const normalize = (operand: unknown) =>
+    insensitive && typeof operand === 'string' ? operand.toLowerCase() : operand;
+  const actual = normalize(value) as string | number | boolean;
+
+  for (const [op, operand] of Object.entries(filter)) {
+    if (operand === null || operand === undefined || op === 'mode') continue;
+
+    const expected = normalize(operand) as string | number;
+    const passes = (() => {
+      switch (op) {
+        case 'equals': return actual === expected;
+        case 'in': return (operand as unknown[]).map(normalize).includes(actual);
+        case 'notIn': return !(operand as unknown[]).map(normalize).includes(actual);
+        case 'lt': return actual < expected;
+        case 'lte': return actual <= expected;
+        case 'gt': return actual > expected;
+        case 'gte': return actual >= expected;
+        case 'contains': return String(actual).includes(String(expected));
+        case 'startsWith': return String(actual).startsWith(String(expected));
+        case 'endsWith': return String(actual).endsWith(String(expected));
+        case 'not': return !matchesFilter(value, { mode: filter.mode, ...(operand as FieldFilter) });
+        default: throw new Error(`Unsupported filter operator ${op}`);
+      }
+    })();
+
+    if (!passes) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Match a record against an AttestationWhereInput
+ */
+function matchesWhere(record: IndexerRecord, where: WhereInput): boolean {
+  for (const [key, condition] of Object.entries(where)) {
+    if (condition === null || condition === undefined) continue;
+
+    const clauses = condition as WhereInput[];
+    if (key === 'AND' && !clauses.every(clause => matchesWhere(record, clause))) return false;
+    if (key === 'OR' && !clauses.some(clause => matchesWhere(record, clause))) return false;
+    if (key === 'NOT' && clauses.some(clause => matchesWhere(record, clause))) return false;
+    if (key !== 'AND' && key !== 'OR' && key !== 'NOT' && !matchesFilter(record[key], condition as FieldFilter)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * One mocked chain: its attestations, served both as the EAS indexer and as
+ * the EAS contract behind a JSON-RPC endpoint
+ *
+ * Logs are derived from the attestations, so the two views never disagree.
+ * Tests can add attestations, revoke them and reorganize blocks while the
+ * server is running.
+ */
+export class MockChain {
+  readonly chain: string;
+  readonly chainId: number;
+  readonly easContractAddress: string;
+  headBlock: number;
+  private attestations: Map<string, MockAttestation>;
+  private blockHashes: Map<number, string>;
+
+  constructor(fixture: MockChainFixture) {
+    this.chain = fixture.chain;
+    this.chainId = fixture.chainId;
+    this.easContractAddress = fixture.easContractAddress;
+    this.headBlock = fixture.headBlock;
+    this.attestations = new Map();
+    this.blockHashes = new Map();
+
+    for (const attestation of fixture.attestations) {
+      this.attest(attestation);
+    }
+  }
+
+  /**
+   * Add an attestation, moving the head up to its block if needed
+   */
+  attest(attestation: MockAttestation): void {
+    this.attestations.set(attestation.id, { ...attestation });
+    this.headBlock = Math.max(this.headBlock, attestation.blockNumber, attestation.revocationBlock ?? 0);
+  }
+
+  /**
+   * Revoke an attestation in a block
+   */
+  revoke(uid: string, blockNumber: number, revocationTime: number = this.blockTimestamp(blockNumber)): void {
+    const attestation = this.attestations.get(uid);
+    if (!attestation) {
+      throw new Error(`No attestation ${uid} on ${this.chain}`);
+    }
+    attestation.revocationTime = revocationTime;
+    attestation.revocationBlock = blockNumber;
+    this.headBlock = Math.max(this.headBlock, blockNumber);
+  }
+
+  /**
+   * Replace a block with a sibling: it gets a new hash, its attestations are
+   * dropped and its revocations undone
+   */
+  reorg(blockNumber: number): void {
+    this.blockHashes.set(blockNumber, id(`${this.chain}:block:${blockNumber}:${this.blockHash(blockNumber)}`));
+
+    for (const [uid, attestation] of this.attestations) {
+      if (attestation.blockNumber === blockNumber) {
+        this.attestations.delete(uid);
+      } else if (attestation.revocationBlock === blockNumber) {
+        attestation.revocationTime = 0;
+        delete attestation.revocationBlock;
+      }
+    }
+  }
+
+  getAttestation(uid: string): MockAttestation | undefined {
+    return this.attestations.get(uid);
+  }
+
+  blockHash(blockNumber: number): string {
+    return this.blockHashes.get(blockNumber) ?? id(`${this.chain}:block:${blockNumber}`);
+  }
+
+  /**
+   * Time of the newest attestation at or before a block, standing in for the block timestamp
+   */
+  blockTimestamp(blockNumber: number): number {
+    const times = [...this.attestations.values()]
+      .filter(attestation => attestation.blockNumber <= blockNumber)
+      .map(attestation => attestation.timeCreated);
+    return times.length > 0 ? Math.max(...times) : 0;
+  }
+
+  /**
+   * Resolve the indexer's attestations query
+   */
+  queryAttestations(args: { where?: WhereInput; orderBy?: Array<Record<string, 'asc' | 'desc'>>; take?: number; skip?: number }): IndexerRecord[] {
+    const records = [...this.attestations.values()]
+      .map(toIndexerRecord)
+      .filter(record => !args.where || matchesWhere(record, args.where));
+
+    const orderBy = (args.orderBy ?? []).flatMap(order => Object.entries(order).filter(([, direction]) => direction));
+    records.sort((a, b) => {
+      for (const [field, direction] of orderBy) {
+        if (a[field] === b[field]) continue;
+        const ascending = a[field] < b[field] ? -1 : 1;
+        return direction === 'desc' ? -ascending : ascending;
+      }
+      return 0;
+    });
+
+    const skip = args.skip ?? 0;
+    return records.slice(skip, args.take === undefined || args.take === null ? undefined : skip + args.take);
+  }
+
+  /**
+   * Answer a JSON-RPC call, covering what EasLogService and ethers' provider send
+   */
+  rpc(method: string, params: unknown[]): unknown {
+    switch (method) {
+      case 'eth_chainId':
+        return quantity(this.chainId);
+      case 'net_version':
+        return String(this.chainId);
+      case 'eth_blockNumber':
+        return quantity(this.headBlock);
+      case 'eth_getLogs':
+        return this.getLogs(params[0] as LogFilter);
+      case 'eth_getBlockByNumber':
+        return this.getBlock(params[0] as string);
+      case 'eth_call':
+        return this.call(params[0] as { to?: string; data: string });
+      default:
+        throw new RpcError(-32601, `Method ${method} not supported by the mock EAS server`);
+    }
+  }
+
+  private getLogs(filter: LogFilter) {
+    const from = this.blockTag(filter.fromBlock ?? 'latest');
+    const to = this.blockTag(filter.toBlock ?? 'latest');
+    const addresses = [filter.address ?? []].flat().map(address => address.toLowerCase());
+    if (addresses.length > 0 && !addresses.includes(this.easContractAddress.toLowerCase())) {
+      return [];
+    }
+
+    const logs: Array<{ blockNumber: number; transactionHash: string; topics: readonly string[]; data: string }> = [];
+    for (const attestation of this.attestations.values()) {
+      const args = [attestation.recipient, attestation.attester, attestation.id, attestation.schemaId];
+      logs.push({ blockNumber: attestation.blockNumber, transactionHash: attestation.txid, ...easInterface.encodeEventLog('Attested', args) });
+      if (attestation.revocationBlock !== undefined) {
+        logs.push({ blockNumber: attestation.revocationBlock, transactionHash: id(`${attestation.id}:revoked`), ...easInterface.encodeEventLog('Revoked', args) });
+      }
+    }
+
+    // Each topic position is null (any), one value or a list of alternatives
+    const matchesTopics = (topics: readonly string[]) => (filter.topics ?? []).every((wanted, index) =>
+      wanted === null || [wanted].flat().map(topic => topic.toLowerCase()).includes(topics[index]?.toLowerCase())
+    );
+
+    return logs
+      .filter(log => log.blockNumber >= from && log.blockNumber <= to && matchesTopics(log.topics))
+      .sort((a, b) => a.blockNumber - b.blockNumber)
+      .map((log, index) => ({
+        address: this.easContractAddress,
+        topics: log.topics,
+        data: log.data,
+        blockNumber: quantity(log.blockNumber),
+        blockHash: this.blockHash(log.blockNumber),
+        transactionHash: log.transactionHash,
+        transactionIndex: '0x0',
+        logIndex: quantity(index),
+        removed: false
+      }));
+  }
+
+  private getBlock(tag: string) {
+    const number = this.blockTag(tag);
+    if (number > this.headBlock) {
+      return null;
+    }
+    return {
+      hash: this.blockHash(number),
+      parentHash: this.blockHash(number - 1),
+      number: quantity(number),
+      timestamp: quantity(this.blockTimestamp(number)),
+      nonce: '0x0000000000000000',
+      difficulty: '0x0',
+      gasLimit: '0x1c9c380',
+      gasUsed: '0x0',
+      miner: '0x0000000000000000000000000000000000000000',
+      extraData: '0x',
+      baseFeePerGas: '0x0',
+      transactions: []
+    };
+  }
+
+  // Only EAS.getAttestation is mocked; unknown UIDs read as the contract's empty struct
+  private call({ to, data }: { to?: string; data: string }): string {
+    if (to && to.toLowerCase() !== this.easContractAddress.toLowerCase()) {
+      return '0x';
+    }
+
+    let uid: string;
+    try {
+      [uid] = easInterface.decodeFunctionData('getAttestation', data);
+    } catch {
+      throw new RpcError(3, 'execution reverted');
+    }
+
+    const attestation = this.attestations.get(uid);
+    const zeroAddress = '0x0000000000000000000000000000000000000000';
+    return easInterface.encodeFunctionResult('getAttestation', [attestation
+      ? [
+        attestation.id, attestation.schemaId, attestation.timeCreated, attestation.expirationTime,
+        attestation.revocationTime, attestation.refUID, attestation.recipient, attestation.attester,
+        attestation.revocable, attestation.data
+      ]
+      : [ZeroHash, ZeroHash, 0, 0, 0, ZeroHash, zeroAddress, zeroAddress, false, '0x']
+    ]);
+  }
+
+  private blockTag(tag: string): number {
+    if (tag === 'latest' || tag === 'safe' || tag === 'finalized' || tag === 'pending') {
+      return this.headBlock;
+    }
+    return tag === 'earliest' ? 0 : parseInt(tag, 16);
+  }
+}
+
+/**
+ * Local stand-in for the EAS GraphQL indexers and the chains' JSON-RPC endpoints
+ *
+ * Each fixture chain is served at /<chain>/graphql and /<chain>/rpc, which is
+ * where EAS_MOCK_URL points the chain registry.
+ */
+export class MockEasServer {
+  private chains: Map<string, MockChain>;
+  private server: http.Server;
+
+  /**
+   * @param fixtures Chains to serve, by default every file in src/mocks/fixtures
+   */
+  constructor(fixtures: MockChainFixture[] = loadFixtures()) {
+    this.chains = new Map(fixtures.map(fixture => [fixture.chain, new MockChain(fixture)]));
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        logger.error('Mock EAS server request failed', error);
+        this.send(res, 500, { error: (error as Error).message });
+      });
+    });
+  }
+
+  /**
+   * Get a served chain, to change its state from a test
+   */
+  chain(name: string): MockChain {
+    const chain = this.chains.get(name);
+    if (!chain) {
+      throw new Error(`Mock EAS server has no fixture for ${name}`);
+    }
+    return chain;
+  }
+
+  /**
+   * Start listening
+   *
+   * @param port Port to listen on, 0 for any free port
+   * @returns The base URL to use as EAS_MOCK_URL
+   */
+  async start(port: number = 0, host: string = '127.0.0.1'): Promise<string> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => resolve());
+    });
+    return `http://${host}:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server.listening) return;
+    this.server.closeAllConnections();
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const [, chainName, endpoint] = (req.url ?? '/').split('?')[0].split('/');
+
+    if (!chainName) {
+      this.send(res, 200, {
+        chains: [...this.chains.values()].map(chain => ({ chain: chain.chain, chainId: chain.chainId, headBlock: chain.headBlock }))
+      });
+      return;
+    }
+
+    const chain = this.chains.get(chainName);
+    if (!chain || (endpoint !== 'graphql' && endpoint !== 'rpc') || req.method !== 'POST') {
+      this.send(res, 404, { error: `No mock endpoint at ${req.method} ${req.url}` });
+      return;
+    }
+
+    let body = '';
+    for await (const chunk of req) {
+      body += chunk;
+    }
+
+    if (endpoint === 'graphql') {
+      const { query, variables, operationName } = JSON.parse(body);
+      const result = await graphql({
+        schema: indexerSchema,
+        source: query,
+        variableValues: variables,
+        operationName,
+        rootValue: {
+          attestations: (args: Parameters<MockChain['queryAttestations']>[0]) => chain.queryAttestations(args),
+          attestation: ({ where }: { where: { id?: string } }) => {
+            const attestation = where.id ? chain.getAttestation(where.id) : undefined;
+            return attestation ? toIndexerRecord(attestation) : null;
+          }
+        }
+      });
+      this.send(res, 200, result);
+      return;
+    }
+
+    // ethers batches JSON-RPC calls into arrays
+    const payload = JSON.parse(body);
+    const answer = ({ id: requestId, method, params }: { id: number; method: string; params?: unknown[] }) => {
+      try {
+        return { jsonrpc: '2.0', id: requestId, result: chain.rpc(method, params ?? []) };
+      } catch (error) {
+        const code = error instanceof RpcError ? error.code : -32603;
+        return { jsonrpc: '2.0', id: requestId, error: { code, message: (error as Error).message } };
+      }
+    };
+    this.send(res, 200, Array.isArray(payload) ? payload.map(answer) : answer(payload));
+  }
+
+  private send(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -14,16 +14,131 @@ export interface EASSchema {
 }
 
 /**
- * Interface representing a chain configuration
+ * An attestation as returned by the EAS GraphQL indexer
+ * (on-chain log ingestion produces the same shape)
+ */
+export interface EASAttestation {
+  id: string; // This is the UID
+  attester: string;
+  recipient: string | null;
+  revocationTime: string; // "0" if not revoked
+  expirationTime?: string; // "0" if it never expires
+  timeCreated: string; // unix timestamp
+  data: string; // The raw attestation data
+  decodedDataJson: string; // JSON string of decoded data (may be directly on attestation or in data property)
+  schemaId?: string; // Schema UID the attestation was made with
+  blockNumber?: number; // Block the attestation was included in (log ingestion only)
+  blockHash?: string; // Hash of that block when it was scanned (log ingestion only)
+  txid?: string; // Transaction the attestation was made in
+}
+
+/**
+ * A revocation seen on the indexer or in a Revoked log
+ */
+export interface RevocationEvent {
+  uid: string;
+  revocationTime: Date;
+  revoker: string;
+  blockNumber?: number; // Block of the Revoked log, when read from contract logs
+  blockHash?: string;
+}
+
+/**
+ * A chain in the chain registry (config/EAS-config.json plus env overrides)
  */
 export interface ChainConfig {
-  chain: string;
-  deploymentBlock: number;
-  rpcUrl: string;
+  chain: string; // Network name used throughout the API (e.g. "arbitrum")
+  chainId: number;
+  enabled: boolean; // Disabled chains stay in the registry but are not ingested
+  deploymentBlock: number; // First block scanned in rpc ingestion mode
   easContractAddress: string;
-  schemaUID: string;
+  schemaUIDs: string[]; // Location proof schemas; the first keys the chain's sync checkpoint
+  rpcUrls: string[]; // JSON-RPC endpoints, tried in order of health
+  indexerUrl?: string; // Primary EAS GraphQL indexer endpoint
+  indexerUrls?: string[]; // Every indexer endpoint, primary first
+  ingestionSource: 'indexer' | 'rpc';
+  confirmations: number; // Reorg window re-checked in rpc ingestion mode
+}
+
+/**
+ * Fields of the common location proof model a schema decoder fills in
+ */
+export type LocationSchemaField = keyof EASSchema;
+
+/**
+ * A location proof schema revision in the schema registry
+ */
+export interface SchemaDefinition {
+  uid: string;
+  version: string; // Location Protocol schema version (e.g. "0.1")
+  rawString: string; // EAS schema string the attestation data is encoded with
+  fields?: Partial<Record<LocationSchemaField, string>>; // Schema field name per model field, when they differ
 }
 
+/**
+ * An ingestion policy (config/EAS-config.json or EAS_INGESTION_POLICIES)
+ *
+ * A policy matches an attestation when every criterion it sets matches; a
+ * criterion matches when the attestation's value is one of those listed.
+ * A matching deny policy rejects the attestation, and on a chain with allow
+ * policies an attestation must match one of them.
+ */
+export interface IngestionPolicy {
+  name: string;
+  action: 'allow' | 'deny';
+  chains?: string[]; // Chains the policy applies to; every chain when unset
+  attesters?: string[]; // Lower-cased addresses
+  recipients?: string[]; // Lower-cased addresses
+  locationTypes?: string[];
+  recipeTypes?: string[]; // Matches if any of the attestation's recipe types is listed
+}
+
+/**
+ * Whether the ingestion policies accept a proof, and if not, why
+ */
+export interface IngestionPolicyVerdict {
+  accepted: boolean;
+  policy: string | null; // Deny policy that matched, or null
+  reason: string | null;
+}
+
+/**
+ * A stored proof the current ingestion policies would reject
+ */
+export interface IngestionPolicyViolation {
+  uid: string;
+  chain: string;
+  prover: string;
+  subject?: string;
+  location_type: string;
+  recipe_types?: string[];
+  policy: string | null;
+  reason: string;
+}
+
+/**
+ * Parameters for listing stored proofs that violate the ingestion policies
+ */
+export interface IngestionPolicyViolationQueryParams {
+  chain?: string;
+  afterUid?: string; // Keyset cursor: only proofs with a greater UID
+  limit?: number; // Proofs scanned, not violations returned
+}
+
+/**
+ * One scanned page of stored proofs checked against the ingestion policies
+ */
+export interface IngestionPolicyViolationResult {
+  scanned: number;
+  nextAfterUid: string | null; // Cursor of the next page, or null after the last one
+  violations: IngestionPolicyViolation[];
+}
+
+/**
+ * Where a location proof's attestation lives: on an EAS contract, or signed offchain and submitted to the API
+ */
+export type LocationProofOrigin = 'onchain' | 'offchain';
+
 /**
  * The location proof data stored in the database
  */
@@ -39,17 +154,63 @@ export interface LocationProof {
   location: string;
   longitude?: number;
   latitude?: number;
-  geometry?: any; // PostGIS geometry
+  altitude?: number | null; // Altitude of the representative point, null if the location has none
+  geometry?: any; // GeoJSON geometry when converted, PostGIS geometry when read back
+  source_srs?: string | null; // The srs as an EPSG or OGC code, null if it was not recognized
+  source_geometry?: GeoJSONGeometry | null; // The location in its source CRS, when that is not EPSG:4326
+  srs_status?: SrsStatus | null; // Null if the location could not be parsed
+  quality_flags?: LocationQualityFlag[]; // Problems the ingest validation found with the location
   recipe_types?: string[];
   recipe_payloads?: string[];
   media_types?: string[];
   media_data?: string[];
   memo?: string;
   revoked: boolean;
+  revocation_time?: Date | null; // When the attestation was revoked, if known
+  revoker?: string | null; // Address that revoked it
+  revocation_block?: number | null; // Block of the revocation, used to undo it after a reorg
+  revocation_block_hash?: string | null;
+  expiration_time?: Date | null; // When the attestation expires, if it does
+  origin?: LocationProofOrigin; // Defaults to onchain when stored
+  schema_uid?: string | null; // Schema the attestation was decoded with
+  schema_version?: string | null;
+  block_number?: number | null; // Inclusion block, used to detect reorgs
+  block_hash?: string | null;
   created_at: Date;
   updated_at: Date;
 }
 
+/**
+ * What a batched proof write does with proofs that are already stored
+ */
+export type LocationProofConflictMode = 'skip' | 'update';
+
+/**
+ * Outcome of a batched proof write
+ */
+export interface LocationProofBatchResult {
+  inserted: number;
+  updated: number;
+  skipped: number; // Already stored (and unchanged, when updating)
+  uids: string[]; // Proofs that were inserted or updated
+}
+
+/**
+ * Outcome of ingesting a single attestation
+ */
+export type IngestionOutcome = 'inserted' | 'exists' | 'rejected';
+
+/**
+ * Outcome of ingesting a page of attestations
+ */
+export interface IngestionBatchResult {
+  inserted: number;
+  updated: number;
+  skipped: number;
+  failed: number; // Queued in the dead-letter queue
+  rejected: number; // Turned away by an ingestion policy
+}
+
 /**
  * Parameters for querying location proofs
  */
@@ -60,10 +221,282 @@ export interface LocationProofQueryParams {
   fromTimestamp?: Date;
   toTimestamp?: Date;
   bbox?: [number, number, number, number]; // [minLon, minLat, maxLon, maxLat]
+  schemaVersion?: string;
+  validAt?: Date; // Only proofs attested, unrevoked and unexpired at this moment
+  minAltitude?: number; // Proofs with an altitude of at least this
+  maxAltitude?: number; // Proofs with an altitude of at most this
+  quality?: string[]; // Proofs with any of these quality flags; none matches proofs without flags
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Persisted ingestion watermark for a chain and schema
+ */
+export interface SyncCheckpoint {
+  chain: string;
+  schema_uid: string;
+  last_timestamp: Date | null;
+  last_uid: string | null;
+  last_block?: number | null;
+  last_revocation_time?: Date | null; // revocationTime watermark of indexer revocation tracking
+  last_revocation_uid?: string | null;
+  last_run_at?: Date | null;
+  last_run_status?: 'success' | 'partial' | 'error' | null; // partial: stopped at the time budget
+  last_run_count?: number;
+  last_error?: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+/**
+ * How a chain fared in a time-budgeted sync run
+ *
+ * partial: stopped at the deadline after committing what it had; deferred:
+ * not started before the deadline; locked: another instance holds its lease.
+ */
+export type ChainSyncStatus = 'complete' | 'partial' | 'deferred' | 'locked' | 'error';
+
+/**
+ * Outcome of syncing one chain in a time-budgeted run
+ */
+export interface ChainSyncResult {
+  chain: string;
+  status: ChainSyncStatus;
+  processed: number; // Proofs inserted
+  error?: string;
+}
+
+/**
+ * Outcome of a time-budgeted sync run over all chains
+ */
+export interface SyncRunResult {
+  status: 'complete' | 'partial'; // partial: resume on the next run
+  startedAt: Date;
+  deadline: Date;
+  chains: ChainSyncResult[];
+}
+
+/**
+ * Latest lag sample of a chain (chain_heads table)
+ *
+ * Null fields could not be sampled, or do not apply to the chain's ingestion source.
+ */
+export interface ChainHeadSample {
+  chain: string;
+  indexer_latest_time: Date | null; // Newest attestation on the indexer, any schema
+  indexer_schema_latest_time: Date | null; // Newest attestation of the chain's location schemas on the indexer
+  head_block: number | null;
+  head_timestamp: Date | null;
+  checkpoint_timestamp: Date | null; // Our watermark (the checkpoint block's time in rpc mode)
+  checkpoint_block: number | null;
+  error: string | null;
+  checked_at: Date;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+/**
+ * How far behind a chain is, against the lag thresholds
+ *
+ * unknown: no sample yet, or nothing could be measured.
+ */
+export type ChainLagStatus = 'healthy' | 'degraded' | 'stalled' | 'unknown';
+
+/**
+ * A chain's lags computed from its latest sample
+ */
+export interface ChainLag {
+  chain: string;
+  ingestionSource: 'indexer' | 'rpc';
+  status: ChainLagStatus;
+  indexerLagSeconds: number | null; // Chain head time minus the indexer's newest attestation
+  checkpointLagSeconds: number | null; // Indexer's newest location attestation (chain head in rpc mode) minus our watermark
+  checkpointLagBlocks: number | null; // Chain head minus our last scanned block, rpc mode only
+  sample: ChainHeadSample | null;
+}
+
+/**
+ * Job a sync lease guards
+ */
+export type SyncLockJob = 'ingest' | 'revocations';
+
+/**
+ * A per-chain sync lease (sync_locks table)
+ */
+export interface SyncLock {
+  chain: string;
+  job: SyncLockJob;
+  holder: string; // Worker instance holding the lease
+  acquired_at: Date;
+  expires_at: Date; // Free after this unless renewed
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+/**
+ * Ingestion step an attestation failed at
+ */
+export type IngestionFailureStage = 'lookup' | 'convert' | 'store';
+
+/**
+ * An attestation in the ingestion dead-letter queue (ingestion_failures table)
+ */
+export interface IngestionFailure {
+  id: number;
+  chain: string;
+  uid: string;
+  stage: IngestionFailureStage;
+  error: string;
+  error_code?: string | null; // IngestionError code when the attestation drifted from the expected shape
+  attestation: EASAttestation; // Raw attestation as received, replayed on retry
+  attempts: number;
+  status: 'pending' | 'resolved';
+  last_failed_at: Date;
+  resolved_at?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+/**
+ * Parameters for listing ingestion failures
+ */
+export interface IngestionFailureQueryParams {
+  chain?: string;
+  status?: 'pending' | 'resolved';
   limit?: number;
   offset?: number;
 }
 
+/**
+ * Outcome of retrying ingestion failures
+ */
+export interface IngestionRetryResult {
+  retried: number;
+  resolved: number;
+  failed: number;
+  failures: Array<{ id: number; uid: string; stage: IngestionFailureStage; error: string; code?: string }>;
+}
+
+/**
+ * Lifecycle of a backfill job
+ *
+ * A cancelled or failed job keeps its cursor and can be resumed, which puts
+ * it back to pending.
+ */
+export type BackfillJobStatus = 'pending' | 'running' | 'completed' | 'cancelled' | 'failed';
+
+/**
+ * A historical sync of a chain over a timestamp or block range (backfill_jobs table)
+ */
+export interface BackfillJob {
+  id: number;
+  chain: string;
+  range_type: 'timestamp' | 'block'; // timestamp: read from the indexer; block: scan contract logs
+  from_timestamp?: Date | null;
+  to_timestamp?: Date | null;
+  from_block?: number | null;
+  to_block?: number | null;
+  on_conflict: LocationProofConflictMode;
+  status: BackfillJobStatus;
+  holder?: string | null; // Worker instance that last ran the job
+  cursor_timestamp?: Date | null; // (timeCreated, uid) of the last committed attestation
+  cursor_uid?: string | null;
+  cursor_block?: number | null; // Last committed block
+  pages_done: number;
+  inserted: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  error?: string | null;
+  started_at?: Date | null;
+  finished_at?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+/**
+ * A backfill job as requested, before it has run
+ */
+export type NewBackfillJob = Pick<BackfillJob, 'chain' | 'range_type'>
+  & Partial<Pick<BackfillJob, 'from_timestamp' | 'to_timestamp' | 'from_block' | 'to_block' | 'on_conflict'>>;
+
+/**
+ * Progress and state of a backfill job written while it runs
+ */
+export type BackfillJobUpdate = Partial<Omit<BackfillJob, 'id' | 'chain' | 'range_type' | 'created_at' | 'updated_at'>>;
+
+/**
+ * Parameters for listing backfill jobs
+ */
+export interface BackfillJobQueryParams {
+  chain?: string;
+  status?: BackfillJobStatus;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Where an archived attestation was received from
+ */
+export type AttestationSource = 'indexer' | 'rpc' | 'offchain';
+
+/**
+ * A proof's attestation as received, kept in the attestation_archive table
+ */
+export interface ArchivedAttestation {
+  uid: string;
+  chain: string;
+  source: AttestationSource;
+  schema_uid: string | null;
+  data: string;
+  decoded_data_json: string | null;
+  txid: string | null;
+  block_number: number | null;
+  block_hash: string | null;
+  indexer_url: string | null;
+  attestation: EASAttestation; // Full record as received, replayed by reprocessing
+  fetched_at?: Date;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+/**
+ * Selection of archived proofs to reprocess
+ */
+export interface ReprocessQueryParams {
+  chain?: string;
+  uids?: string[];
+  schemaVersion?: string;
+  afterUid?: string; // Keyset cursor: only proofs with a greater UID
+  limit?: number;
+  dryRun?: boolean; // Report the diff without writing (default true)
+}
+
+/**
+ * Field-level difference between a stored proof and its re-derived version
+ */
+export interface ReprocessDiff {
+  uid: string;
+  chain: string;
+  changes: Record<string, { before: unknown; after: unknown }>;
+}
+
+/**
+ * Outcome of reprocessing archived attestations
+ */
+export interface ReprocessResult {
+  dryRun: boolean;
+  processed: number;
+  changed: number;
+  unchanged: number;
+  failed: number;
+  missing: string[]; // Requested UIDs with no archived attestation or stored proof
+  nextAfterUid: string | null; // Cursor for the next page, null when the selection is exhausted
+  diffs: ReprocessDiff[];
+  errors: Array<{ uid: string; error: string }>;
+}
+
 /**
  * GeoJSON geometry types
  */
@@ -77,6 +510,65 @@ export enum GeoJSONGeometryType {
   GeometryCollection = 'GeometryCollection'
 }
 
+/**
+ * A GeoJSON position: [longitude, latitude] or [longitude, latitude, altitude]
+ */
+export type GeoJSONPosition = number[];
+
+/**
+ * Any GeoJSON geometry, as stored in a location proof's geometry column
+ */
+export type GeoJSONGeometry =
+  | { type: 'Point'; coordinates: GeoJSONPosition }
+  | { type: 'MultiPoint' | 'LineString'; coordinates: GeoJSONPosition[] }
+  | { type: 'MultiLineString' | 'Polygon'; coordinates: GeoJSONPosition[][] }
+  | { type: 'MultiPolygon'; coordinates: GeoJSONPosition[][][] }
+  | { type: 'GeometryCollection'; geometries: GeoJSONGeometry[] };
+
+/**
+ * How a proof's location came into EPSG:4326: it was already in it, it was
+ * reprojected from its srs, or its srs is not one we can reproject from
+ */
+export type SrsStatus = 'native' | 'reprojected' | 'unknown';
+
+/**
+ * A problem with a location found when it is validated at ingest
+ */
+export type LocationQualityFlag =
+  | 'null-island' // At exactly 0, 0
+  | 'out-of-range' // Coordinates outside EPSG:4326, even with the axes swapped
+  | 'axis-swap' // Stored with latitude and longitude swapped back
+  | 'invalid-ring' // A polygon ring is not closed, too short or has no area
+  | 'self-intersection' // A polygon ring crosses itself
+  | 'unparsable' // No parser could read the location
+  | 'reprojected' // Reprojected into EPSG:4326 from another CRS
+  | 'unknown-srs'; // Read in an srs that could not be reprojected
+
+/**
+ * What a location parser read from a location string
+ */
+export interface LocationParserOutput {
+  geometry: GeoJSONGeometry | null; // null if the location is not valid in the parser's format
+  srs?: string; // CRS the content or format itself declares, over the attested srs (EWKT SRID, cells in EPSG:4326)
+  flags?: LocationQualityFlag[]; // Quality problems the parser found, such as swapped axes
+  diagnostics: string[]; // How the location was read, or why it could not be
+}
+
+/**
+ * A location string read by the location parser registry and reprojected into EPSG:4326
+ */
+export interface LocationParseResult {
+  format: string | null; // Name of the parser that read the location, null if none could
+  geometry: GeoJSONGeometry | null; // In EPSG:4326; null if the location could not be read or placed
+  point: [number, number] | null; // Representative [longitude, latitude] of the geometry
+  altitude: number | null; // Altitude of the representative point, null if the geometry has no Z values
+  srs: string | null; // The source CRS as an EPSG or OGC code, null if it was not recognized
+  srsStatus: SrsStatus | null; // Null if no parser could read the location
+  sourceGeometry: GeoJSONGeometry | null; // The geometry in its source CRS, when that is not EPSG:4326
+  flags: LocationQualityFlag[]; // Quality problems found while reading and reprojecting
+  diagnostics: string[]; // How the location was read, or why it could not be
+}
+
 /**
  * GeoJSON Point geometry
  */
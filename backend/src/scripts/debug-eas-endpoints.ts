@@ -1,6 +1,7 @@
 #!/usr/bin/env ts-node
 import dotenv from 'dotenv';
 import fetch from 'node-fetch';
+import { loadChainRegistry } from '../config/chains';
 
 // Load environment variables directly from .env.development
 dotenv.config({ path: '.env.development' });
@@ -15,12 +16,9 @@ console.log('-------------------------\n');
 
 async function main() {
   // Test the introspection query to understand the GraphQL schema
-  const endpoints = {
-    arbitrum: process.env.EAS_ENDPOINT_ARBITRUM,
-    celo: process.env.EAS_ENDPOINT_CELO, 
-    sepolia: process.env.EAS_ENDPOINT_SEPOLIA,
-    base: process.env.EAS_ENDPOINT_BASE
-  };
+  const endpoints = Object.fromEntries(
+    Object.values(loadChainRegistry()).map(chain => [chain.chain, chain.indexerUrl])
+  );
 
   for (const [chain, endpoint] of Object.entries(endpoints)) {
     if (!endpoint) {
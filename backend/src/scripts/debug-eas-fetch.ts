@@ -1,18 +1,16 @@
 #!/usr/bin/env ts-node
 import dotenv from 'dotenv';
 import fetch from 'node-fetch';
+import { loadChainRegistry } from '../config/chains';
 
 // Load dotenv directly
 dotenv.config({ path: '.env.development' });
 
 async function main() {
   // Test each EAS endpoint
-  const endpoints = {
-    arbitrum: process.env.EAS_ENDPOINT_ARBITRUM,
-    celo: process.env.EAS_ENDPOINT_CELO,
-    sepolia: process.env.EAS_ENDPOINT_SEPOLIA,
-    base: process.env.EAS_ENDPOINT_BASE,
-  };
+  const endpoints = Object.fromEntries(
+    Object.values(loadChainRegistry()).map(chain => [chain.chain, chain.indexerUrl])
+  );
 
   const schemaUID = process.env.EAS_SCHEMA_UID || '0xba4171c92572b1e4f241d044c32cdf083be9fd946b8766977558ca6378c824e2';
   
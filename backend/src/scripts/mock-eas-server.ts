@@ -0,0 +1,50 @@
+/**
+ * Script to run the mock EAS indexer and JSON-RPC server for offline development
+ *
+ * Serves every chain in src/mocks/fixtures at /<chain>/graphql and /<chain>/rpc.
+ * Point the API, worker and scripts at it with EAS_MOCK_URL.
+ *
+ * Usage:
+ *   npm run mock:eas
+ *   npm run mock:eas -- --port=4001 --fixtures=./my-fixtures
+ *   EAS_MOCK_URL=http://127.0.0.1:4000 npm run test:ingest
+ */
+
+import path from 'path';
+import { FIXTURES_DIR, loadFixtures, MockEasServer } from '../mocks/mock-eas-server';
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const argValue = (name: string) => {
+  const arg = args.find(arg => arg.startsWith(`--${name}=`));
+  return arg ? arg.split('=')[1] : undefined;
+};
+const port = parseInt(argValue('port') || '', 10) || 4000;
+const fixturesDir = argValue('fixtures') ? path.resolve(argValue('fixtures')!) : FIXTURES_DIR;
+
+async function run() {
+  try {
+    const fixtures = loadFixtures(fixturesDir);
+    const server = new MockEasServer(fixtures);
+    const url = await server.start(port);
+
+    for (const fixture of fixtures) {
+      console.log(`${fixture.chain} (${fixture.chainId}): ${fixture.attestations.length} attestations, head block ${fixture.headBlock}`);
+      console.log(`  ${url}/${fixture.chain}/graphql`);
+      console.log(`  ${url}/${fixture.chain}/rpc`);
+    }
+    console.log(`Mock EAS server listening, set EAS_MOCK_URL=${url}`);
+
+    const shutdown = () => {
+      server.stop().then(() => process.exit(0));
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+  } catch (error) {
+    console.error('Error starting the mock EAS server', error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+run();
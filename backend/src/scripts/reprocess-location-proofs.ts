@@ -0,0 +1,79 @@
+/**
+ * Script to re-derive stored location proofs from their archived attestations
+ *
+ * Run after improving the attestation conversion to see, and apply, what it
+ * changes for proofs that are already stored. Without --apply it only reports.
+ *
+ * Usage:
+ *   npm run sync:reprocess
+ *   npm run sync:reprocess -- --chain=arbitrum --schema-version=0.1
+ *   npm run sync:reprocess -- --uid=0xabc...,0xdef... --apply
+ */
+
+import { DbService } from '../services/db.service';
+import { EasService } from '../services/eas.service';
+import { ReprocessService } from '../services/reprocess.service';
+import { logger } from '../utils/logger';
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const argValue = (name: string) => {
+  const arg = args.find(arg => arg.startsWith(`--${name}=`));
+  return arg ? arg.split('=')[1] : undefined;
+};
+const targetChain = argValue('chain');
+const schemaVersion = argValue('schema-version');
+const uids = argValue('uid')?.split(',').filter(Boolean);
+const limit = parseInt(argValue('limit') || '', 10) || 1000;
+const apply = args.includes('--apply');
+
+async function run() {
+  try {
+    const dbService = new DbService();
+    const reprocessService = new ReprocessService(dbService, new EasService(dbService));
+
+    logger.info(`Reprocessing archived proofs${targetChain ? ` on ${targetChain}` : ''}${apply ? '' : ' (dry run)'}`);
+
+    const totals = { processed: 0, changed: 0, unchanged: 0, failed: 0 };
+    let afterUid: string | null = '';
+
+    // Walk the selection page by page in UID order
+    while (afterUid !== null) {
+      const result = await reprocessService.reprocess({
+        chain: targetChain,
+        uids,
+        schemaVersion,
+        afterUid,
+        limit,
+        dryRun: !apply
+      });
+
+      for (const diff of result.diffs) {
+        for (const [field, change] of Object.entries(diff.changes)) {
+          logger.info(`${diff.uid} ${field}: ${JSON.stringify(change.before)} -> ${JSON.stringify(change.after)}`);
+        }
+      }
+      for (const error of result.errors) {
+        logger.warn(`Failed: ${error.uid}: ${error.error}`);
+      }
+      for (const uid of result.missing) {
+        logger.warn(`Not archived: ${uid}`);
+      }
+
+      totals.processed += result.processed;
+      totals.changed += result.changed;
+      totals.unchanged += result.unchanged;
+      totals.failed += result.failed;
+      afterUid = result.nextAfterUid;
+    }
+
+    logger.info(`Reprocessed ${totals.processed}: ${totals.changed} ${apply ? 'updated' : 'would change'}, ${totals.unchanged} unchanged, ${totals.failed} failed`);
+    process.exit(totals.failed > 0 ? 1 : 0);
+  } catch (error) {
+    logger.error('Error reprocessing location proofs', error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+run();
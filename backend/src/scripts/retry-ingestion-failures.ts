@@ -0,0 +1,43 @@
+/**
+ * Script to retry attestations in the ingestion dead-letter queue
+ * 
+ * Run after deploying a parser fix to replay the attestations it affected.
+ * 
+ * Usage:
+ *   npm run sync:retry-failures
+ *   npm run sync:retry-failures -- --chain=arbitrum --limit=500
+ */
+
+import { DbService } from '../services/db.service';
+import { EasService } from '../services/eas.service';
+import { logger } from '../utils/logger';
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const chainArg = args.find(arg => arg.startsWith('--chain='));
+const limitArg = args.find(arg => arg.startsWith('--limit='));
+const targetChain = chainArg ? chainArg.split('=')[1] : undefined;
+const limit = limitArg ? parseInt(limitArg.split('=')[1], 10) : 1000;
+
+async function run() {
+  try {
+    const dbService = new DbService();
+    const easService = new EasService(dbService);
+    
+    logger.info(`Retrying up to ${limit} pending ingestion failures${targetChain ? ` on ${targetChain}` : ''}`);
+    const result = await easService.retryIngestionFailures({ chain: targetChain, limit });
+    
+    for (const failure of result.failures) {
+      logger.warn(`Still failing: #${failure.id} ${failure.uid} at ${failure.stage}: ${failure.error}`);
+    }
+    
+    logger.info(`Retried ${result.retried}: ${result.resolved} resolved, ${result.failed} still failing`);
+    process.exit(result.failed > 0 ? 1 : 0);
+  } catch (error) {
+    logger.error('Error retrying ingestion failures', error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+run();
@@ -3,8 +3,8 @@
 import dotenv from 'dotenv';
 import { easService } from '../services/eas.service';
 import { supabaseService } from '../services/supabase.service';
+import { LocationProofConflictMode } from '../models/types';
 import { logger } from '../utils/logger';
-import { easEndpoints } from '../config';
 
 // Load environment variables
 dotenv.config();
@@ -16,19 +16,22 @@ supabaseService.initialize();
  * Sync historical attestations for a specific chain
  * 
  * @param chain The chain to sync attestations for
- * @param batchSize The number of attestations to fetch per batch
+ * @param batchSize The number of attestations to fetch per page
  * @param startFromScratch Whether to start from scratch or resume from the latest attestation
+ * @param onConflict Whether stored proofs are skipped or rewritten when they changed
  * @returns The number of attestations synced
  */
 async function syncHistoricalAttestations(
   chain: string,
   batchSize: number = 100,
-  startFromScratch: boolean = false
+  startFromScratch: boolean = false,
+  onConflict: LocationProofConflictMode = 'skip'
 ): Promise<number> {
   logger.info(`Starting historical attestation sync for chain: ${chain}`);
   
   let totalProcessed = 0;
-  let lastTimestamp = startFromScratch ? null : await supabaseService.getLatestLocationProofTimestamp(chain);
+  const totals = { inserted: 0, updated: 0, skipped: 0, failed: 0, rejected: 0 };
+  const lastTimestamp = startFromScratch ? null : await supabaseService.getLatestLocationProofTimestamp(chain);
   
   if (lastTimestamp) {
     logger.info(`Resuming from timestamp: ${lastTimestamp.toISOString()}`);
@@ -36,61 +39,30 @@ async function syncHistoricalAttestations(
     logger.info('Starting from the beginning');
   }
   
-  let moreAvailable = true;
-  
-  while (moreAvailable) {
-    try {
-      // Fetch attestations
-      const attestations = await easService.fetchAttestations(chain, batchSize, lastTimestamp ? lastTimestamp.toISOString() : undefined);
-      
-      if (attestations.length === 0) {
-        logger.info('No more attestations available');
-        moreAvailable = false;
-        break;
-      }
-      
-      logger.info(`Fetched ${attestations.length} attestations`);
-      
-      // Process attestations
-      for (const attestation of attestations) {
-        try {
-          const proofExists = await supabaseService.locationProofExists(attestation.id);
-          
-          if (!proofExists) {
-            const locationProof = await easService.convertAttestationToLocationProof(attestation, chain);
-            await supabaseService.createLocationProof(locationProof);
-            logger.debug(`Inserted attestation with UID: ${attestation.id}`);
-          } else {
-            logger.debug(`Attestation with UID: ${attestation.id} already exists, skipping`);
-          }
-        } catch (error) {
-          logger.error(`Error processing attestation with UID: ${attestation.id}:`, error);
-          // Continue processing other attestations
-        }
-      }
-      
-      // Update timestamp for next batch
-      if (attestations.length > 0) {
-        const lastAttestationTimestamp = new Date(attestations[attestations.length - 1].timeCreated);
-        // Add 1 millisecond to avoid duplicate attestations
-        lastAttestationTimestamp.setMilliseconds(lastAttestationTimestamp.getMilliseconds() + 1);
-        lastTimestamp = lastAttestationTimestamp;
-      }
-      
-      totalProcessed += attestations.length;
-      logger.info(`Processed ${totalProcessed} attestations so far`);
-      
-      // Check if we got fewer attestations than the batch size
-      if (attestations.length < batchSize) {
-        moreAvailable = false;
+  try {
+    // Walk every page after the resume point; each page is stored before the next is fetched
+    await easService.walkAttestations(chain, batchSize, lastTimestamp ? lastTimestamp.toISOString() : undefined, {
+      onPage: async (attestations) => {
+        logger.info(`Fetched ${attestations.length} attestations`);
+        
+        // Store the page with one batched write; failed attestations go to the dead-letter queue
+        const batch = await easService.ingestBatch(chain, attestations, onConflict);
+        totals.inserted += batch.inserted;
+        totals.updated += batch.updated;
+        totals.skipped += batch.skipped;
+        totals.failed += batch.failed;
+        totals.rejected += batch.rejected;
+        
+        totalProcessed += attestations.length;
+        logger.info(`Processed ${totalProcessed} attestations so far`);
       }
-    } catch (error) {
-      logger.error(`Error syncing historical attestations for chain ${chain}:`, error);
-      throw error;
-    }
+    });
+  } catch (error) {
+    logger.error(`Error syncing historical attestations for chain ${chain}:`, error);
+    throw error;
   }
   
-  logger.info(`Completed historical attestation sync for chain: ${chain}. Total processed: ${totalProcessed}`);
+  logger.info(`Completed historical attestation sync for chain: ${chain}. Total processed: ${totalProcessed} (${totals.inserted} inserted, ${totals.updated} updated, ${totals.skipped} skipped, ${totals.failed} failed, ${totals.rejected} rejected)`);
   return totalProcessed;
 }
 
@@ -100,29 +72,29 @@ async function syncHistoricalAttestations(
 async function main() {
   const args = process.argv.slice(2);
   const chain = args[0];
-  const batchSize = args[1] ? parseInt(args[1], 10) : 100;
-  const startFromScratch = args[2] === '--start-from-scratch';
+  const batchSize = parseInt(args[1], 10) || 100;
+  const startFromScratch = args.includes('--start-from-scratch');
+  const onConflict: LocationProofConflictMode = args.includes('--update') ? 'update' : 'skip';
   
   try {
     if (chain && chain !== 'all') {
       // Sync a specific chain
-      if (!easEndpoints[chain as keyof typeof easEndpoints]) {
+      if (!easService.getGraphQLClients()[chain]) {
         logger.error(`Unsupported chain: ${chain}`);
         process.exit(1);
       }
       
-      await syncHistoricalAttestations(chain, batchSize, startFromScratch);
+      await syncHistoricalAttestations(chain, batchSize, startFromScratch, onConflict);
     } else {
       // Sync all chains
-      const chains = Object.keys(easEndpoints).filter(
-        c => !!easEndpoints[c as keyof typeof easEndpoints]
-      );
+      // Historical sync walks the indexer, so only chains with an indexer URL qualify
+      const chains = Object.keys(easService.getGraphQLClients());
       
       let totalProcessed = 0;
       
       for (const c of chains) {
         try {
-          const processed = await syncHistoricalAttestations(c, batchSize, startFromScratch);
+          const processed = await syncHistoricalAttestations(c, batchSize, startFromScratch, onConflict);
           totalProcessed += processed;
         } catch (error) {
           logger.error(`Failed to sync chain ${c}:`, error);
@@ -3,6 +3,7 @@
  * This script uses direct API calls without needing environment setup
  */
 import { ApolloClient, InMemoryCache, gql } from '@apollo/client/core';
+import { parseGeoJSONGeometry, representativePoint } from '../utils/geometry';
 
 // Use colored console logging
 const log = {
@@ -14,8 +15,10 @@ const log = {
 // Schema UID for location attestations
 const SCHEMA_UID = '0xba4171c92572b1e4f241d044c32cdf083be9fd946b8766977558ca6378c824e2';
 
-// Base chain GraphQL endpoint
-const BASE_ENDPOINT = 'https://base.easscan.org/graphql';
+// Base chain GraphQL endpoint, or the mock EAS server's (npm run mock:eas)
+const BASE_ENDPOINT = process.env.EAS_MOCK_URL
+  ? `${process.env.EAS_MOCK_URL.replace(/\/+$/, '')}/base/graphql`
+  : 'https://base.easscan.org/graphql';
 
 // Query to fetch attestations
 const ATTESTATIONS_QUERY = gql`
@@ -43,124 +46,27 @@ const ATTESTATIONS_QUERY = gql`
   }
 `;
 
-// Helper function to extract coordinates from any GeoJSON geometry
+// Helper function to get the representative point of any GeoJSON geometry, as ingestion stores it
 function extractCoordinatesFromGeoJSON(location: string): { latitude?: number; longitude?: number } {
-  let latitude: number | undefined = undefined;
-  let longitude: number | undefined = undefined;
-  
+  let parsedLocation: unknown;
   try {
     // Try to parse as JSON first
-    const parsedLocation = JSON.parse(location);
-    
-    // Helper function to extract first valid coordinate pair from any GeoJSON geometry
-    const extractFirstCoordinate = (geom: any): [number, number] | null => {
-      if (!geom || !geom.type || !geom.coordinates) return null;
-      
-      switch (geom.type) {
-        case 'Point':
-          // Point: [longitude, latitude]
-          if (Array.isArray(geom.coordinates) && geom.coordinates.length >= 2) {
-            return [geom.coordinates[0], geom.coordinates[1]];
-          }
-          break;
-          
-        case 'LineString':
-          // LineString: [[lon1, lat1], [lon2, lat2], ...]
-          if (Array.isArray(geom.coordinates) && geom.coordinates.length > 0 && 
-              Array.isArray(geom.coordinates[0]) && geom.coordinates[0].length >= 2) {
-            return [geom.coordinates[0][0], geom.coordinates[0][1]];
-          }
-          break;
-          
-        case 'Polygon':
-          // Polygon: [[[lon1, lat1], [lon2, lat2], ...], [...]]
-          if (Array.isArray(geom.coordinates) && geom.coordinates.length > 0 && 
-              Array.isArray(geom.coordinates[0]) && geom.coordinates[0].length > 0 &&
-              Array.isArray(geom.coordinates[0][0]) && geom.coordinates[0][0].length >= 2) {
-            return [geom.coordinates[0][0][0], geom.coordinates[0][0][1]];
-          }
-          break;
-          
-        case 'MultiPoint':
-          // MultiPoint: [[lon1, lat1], [lon2, lat2], ...]
-          if (Array.isArray(geom.coordinates) && geom.coordinates.length > 0 && 
-              Array.isArray(geom.coordinates[0]) && geom.coordinates[0].length >= 2) {
-            return [geom.coordinates[0][0], geom.coordinates[0][1]];
-          }
-          break;
-          
-        case 'MultiLineString':
-          // MultiLineString: [[[lon1, lat1], [lon2, lat2], ...], [...]]
-          if (Array.isArray(geom.coordinates) && geom.coordinates.length > 0 && 
-              Array.isArray(geom.coordinates[0]) && geom.coordinates[0].length > 0 &&
-              Array.isArray(geom.coordinates[0][0]) && geom.coordinates[0][0].length >= 2) {
-            return [geom.coordinates[0][0][0], geom.coordinates[0][0][1]];
-          }
-          break;
-          
-        case 'MultiPolygon':
-          // MultiPolygon: [[[[lon1, lat1], [lon2, lat2], ...], [...]], [...]]
-          if (Array.isArray(geom.coordinates) && geom.coordinates.length > 0 && 
-              Array.isArray(geom.coordinates[0]) && geom.coordinates[0].length > 0 &&
-              Array.isArray(geom.coordinates[0][0]) && geom.coordinates[0][0].length > 0 &&
-              Array.isArray(geom.coordinates[0][0][0]) && geom.coordinates[0][0][0].length >= 2) {
-            return [geom.coordinates[0][0][0][0], geom.coordinates[0][0][0][1]];
-          }
-          break;
-      }
-      
-      return null;
-    };
-    
-    // Determine the type of GeoJSON
-    let coords: [number, number] | null = null;
-    
-    // Direct geometry object
-    if (parsedLocation.type && parsedLocation.coordinates) {
-      coords = extractFirstCoordinate(parsedLocation);
-      if (coords) {
-        log.info(`Parsed GeoJSON ${parsedLocation.type}: [${coords[0]}, ${coords[1]}]`);
-      }
-    } 
-    // Feature
-    else if (parsedLocation.type === 'Feature' && parsedLocation.geometry) {
-      coords = extractFirstCoordinate(parsedLocation.geometry);
-      if (coords) {
-        log.info(`Parsed GeoJSON Feature with ${parsedLocation.geometry.type}: [${coords[0]}, ${coords[1]}]`);
-      }
-    }
-    // FeatureCollection
-    else if (parsedLocation.type === 'FeatureCollection' && 
-            Array.isArray(parsedLocation.features) && 
-            parsedLocation.features.length > 0 &&
-            parsedLocation.features[0].geometry) {
-      coords = extractFirstCoordinate(parsedLocation.features[0].geometry);
-      if (coords) {
-        log.info(`Parsed GeoJSON FeatureCollection (first feature is ${parsedLocation.features[0].geometry.type}): [${coords[0]}, ${coords[1]}]`);
-      }
-    }
-    
-    // If coordinates were found, validate and assign them
-    if (coords) {
-      // GeoJSON coordinates are in [longitude, latitude] order
-      longitude = coords[0];
-      latitude = coords[1];
-      
-      // Validate coordinate ranges
-      if (!latitude || !longitude || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
-        log.warn(`Invalid GeoJSON coordinates: [${longitude}, ${latitude}]`);
-        latitude = undefined;
-        longitude = undefined;
-      }
-      
-      return { latitude, longitude };
-    }
+    parsedLocation = JSON.parse(location);
   } catch (e) {
     // Not JSON or invalid JSON
     return { latitude: undefined, longitude: undefined };
   }
   
-  return { latitude: undefined, longitude: undefined };
+  const geometry = parseGeoJSONGeometry(parsedLocation);
+  const point = geometry ? representativePoint(geometry) : null;
+  if (!geometry || !point) {
+    log.warn(`Invalid GeoJSON geometry: ${location.slice(0, 100)}`);
+    return { latitude: undefined, longitude: undefined };
+  }
+  
+  // GeoJSON coordinates are in [longitude, latitude] order
+  log.info(`Parsed GeoJSON ${geometry.type}: [${point[0]}, ${point[1]}]`);
+  return { longitude: point[0], latitude: point[1] };
 }
 
 // Helper function to extract coordinates from a simple string
@@ -1,10 +1,12 @@
 /**
  * Simple test script to verify the GeoJSON parsing functionality
  * 
- * This script directly tests the GeoJSON parsing logic without any dependencies
+ * This script directly tests the location parsers without any dependencies
  * on the EAS service or database.
  */
 
+import { locationParsers } from '../services/location-parser.service';
+
 // Define logging function
 const log = {
   info: (message: string) => console.log(`INFO: ${message}`),
@@ -35,6 +37,15 @@ const testLocations = [
     })
   },
   
+  // GeoJSON Point with altitude
+  {
+    format: "GeoJSON Point with altitude", 
+    value: JSON.stringify({
+      type: "Point",
+      coordinates: [-74.0060, 40.7128, 541.3] // NYC, One World Trade Center roof height (lng,lat,alt)
+    })
+  },
+  
   // GeoJSON LineString format
   {
     format: "GeoJSON LineString", 
@@ -186,168 +197,18 @@ const testLocations = [
   }
 ];
 
-// GeoJSON parsing function based on our implementation
-function parseLocation(location: string): { latitude?: number; longitude?: number } {
-  let latitude: number | undefined = undefined;
-  let longitude: number | undefined = undefined;
-  
-  // Try to parse GeoJSON format first
-  if (location) {
-    try {
-      // Try to parse as JSON first
-      const parsedLocation = JSON.parse(location);
-      
-      // Helper function to extract first valid coordinate pair from any GeoJSON geometry
-      const extractFirstCoordinate = (geom: any): [number, number] | null => {
-        if (!geom || !geom.type || !geom.coordinates) return null;
-        
-        switch (geom.type) {
-          case 'Point':
-            // Point: [longitude, latitude]
-            if (Array.isArray(geom.coordinates) && geom.coordinates.length >= 2) {
-              return [geom.coordinates[0], geom.coordinates[1]];
-            }
-            break;
-            
-          case 'LineString':
-            // LineString: [[lon1, lat1], [lon2, lat2], ...]
-            if (Array.isArray(geom.coordinates) && geom.coordinates.length > 0 && 
-                Array.isArray(geom.coordinates[0]) && geom.coordinates[0].length >= 2) {
-              return [geom.coordinates[0][0], geom.coordinates[0][1]];
-            }
-            break;
-            
-          case 'Polygon':
-            // Polygon: [[[lon1, lat1], [lon2, lat2], ...], [...]]
-            if (Array.isArray(geom.coordinates) && geom.coordinates.length > 0 && 
-                Array.isArray(geom.coordinates[0]) && geom.coordinates[0].length > 0 &&
-                Array.isArray(geom.coordinates[0][0]) && geom.coordinates[0][0].length >= 2) {
-              return [geom.coordinates[0][0][0], geom.coordinates[0][0][1]];
-            }
-            break;
-            
-          case 'MultiPoint':
-            // MultiPoint: [[lon1, lat1], [lon2, lat2], ...]
-            if (Array.isArray(geom.coordinates) && geom.coordinates.length > 0 && 
-                Array.isArray(geom.coordinates[0]) && geom.coordinates[0].length >= 2) {
-              return [geom.coordinates[0][0], geom.coordinates[0][1]];
-            }
-            break;
-            
-          case 'MultiLineString':
-            // MultiLineString: [[[lon1, lat1], [lon2, lat2], ...], [...]]
-            if (Array.isArray(geom.coordinates) && geom.coordinates.length > 0 && 
-                Array.isArray(geom.coordinates[0]) && geom.coordinates[0].length > 0 &&
-                Array.isArray(geom.coordinates[0][0]) && geom.coordinates[0][0].length >= 2) {
-              return [geom.coordinates[0][0][0], geom.coordinates[0][0][1]];
-            }
-            break;
-            
-          case 'MultiPolygon':
-            // MultiPolygon: [[[[lon1, lat1], [lon2, lat2], ...], [...]], [...]]
-            if (Array.isArray(geom.coordinates) && geom.coordinates.length > 0 && 
-                Array.isArray(geom.coordinates[0]) && geom.coordinates[0].length > 0 &&
-                Array.isArray(geom.coordinates[0][0]) && geom.coordinates[0][0].length > 0 &&
-                Array.isArray(geom.coordinates[0][0][0]) && geom.coordinates[0][0][0].length >= 2) {
-              return [geom.coordinates[0][0][0][0], geom.coordinates[0][0][0][1]];
-            }
-            break;
-        }
-        
-        return null;
-      };
-      
-      // Determine the type of GeoJSON
-      let coords: [number, number] | null = null;
-      
-      // Direct geometry object
-      if (parsedLocation.type && parsedLocation.coordinates) {
-        coords = extractFirstCoordinate(parsedLocation);
-        if (coords) {
-          log.info(`Parsed GeoJSON ${parsedLocation.type}: [${coords[0]}, ${coords[1]}]`);
-        }
-      } 
-      // Feature
-      else if (parsedLocation.type === 'Feature' && parsedLocation.geometry) {
-        coords = extractFirstCoordinate(parsedLocation.geometry);
-        if (coords) {
-          log.info(`Parsed GeoJSON Feature with ${parsedLocation.geometry.type}: [${coords[0]}, ${coords[1]}]`);
-        }
-      }
-      // FeatureCollection
-      else if (parsedLocation.type === 'FeatureCollection' && 
-              Array.isArray(parsedLocation.features) && 
-              parsedLocation.features.length > 0 &&
-              parsedLocation.features[0].geometry) {
-        coords = extractFirstCoordinate(parsedLocation.features[0].geometry);
-        if (coords) {
-          log.info(`Parsed GeoJSON FeatureCollection (first feature is ${parsedLocation.features[0].geometry.type}): [${coords[0]}, ${coords[1]}]`);
-        }
-      }
-      
-      // If coordinates were found, validate and assign them
-      if (coords) {
-        // GeoJSON coordinates are in [longitude, latitude] order
-        longitude = coords[0];
-        latitude = coords[1];
-        
-        // Validate coordinate ranges
-        if (!latitude || !longitude || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
-          log.warn(`Invalid GeoJSON coordinates: [${longitude}, ${latitude}]`);
-          latitude = undefined;
-          longitude = undefined;
-        }
-      }
-    } catch (e) {
-      // Not JSON or invalid JSON - try other parsing methods
-      // No need to log here, will attempt other formats
-    }
-  }
+// Parse a location the way ingestion does, keeping the altitude of 3D locations
+function parseLocation(location: string): { latitude?: number; longitude?: number; altitude?: number } {
+  const parsed = locationParsers.parse(location);
   
-  // If GeoJSON parsing didn't work, try simple coordinate format
-  if (latitude === undefined || longitude === undefined) {
-    // Try to parse simple coordinate format - could be "lat,lng" or "lng,lat"
-    if (location && location.includes(',')) {
-      const parts = location.split(',');
-      if (parts.length === 2) {
-        try {
-          // Parse both values
-          const val1 = parseFloat(parts[0].trim());
-          const val2 = parseFloat(parts[1].trim());
-          
-          // Ensure values are valid numbers
-          if (isNaN(val1) || isNaN(val2)) {
-            latitude = undefined;
-            longitude = undefined;
-          } else {
-            // Determine which is latitude and which is longitude based on value ranges
-            // Latitude: -90 to 90, Longitude: -180 to 180
-            if (Math.abs(val1) <= 90 && Math.abs(val2) <= 180) {
-              // Standard "lat,lng" format
-              latitude = val1;
-              longitude = val2;
-              log.info(`Parsed standard lat,lng format: [${longitude}, ${latitude}]`);
-            } else if (Math.abs(val2) <= 90 && Math.abs(val1) <= 180) {
-              // Reversed "lng,lat" format
-              latitude = val2;
-              longitude = val1;
-              log.info(`Parsed reversed lng,lat format: [${longitude}, ${latitude}]`);
-            } else {
-              // Values out of range, might not be coordinates
-              log.warn(`Coordinate values out of range in '${location}'`);
-              latitude = undefined;
-              longitude = undefined;
-            }
-          }
-        } catch (e) {
-          // Keep as undefined if parsing fails
-          log.warn(`Failed to parse coordinates from '${location}'`);
-        }
-      }
-    }
+  if (!parsed.point) {
+    log.warn(`Could not parse '${location}': ${parsed.diagnostics.join('; ')}`);
+    return {};
   }
   
-  return { latitude, longitude };
+  const [longitude, latitude] = parsed.point;
+  log.info(`Parsed ${parsed.format} location ${parsed.geometry?.type}: [${longitude}, ${latitude}${parsed.altitude !== null ? `, ${parsed.altitude}` : ''}]`);
+  return { longitude, latitude, altitude: parsed.altitude ?? undefined };
 }
 
 // Test the parsing function with all formats
@@ -364,7 +225,7 @@ function runTests() {
     // Parse the location
     const result = parseLocation(testCase.value);
     
-    console.log(`Parsed coordinates: [${result.longitude}, ${result.latitude}]`);
+    console.log(`Parsed coordinates: [${result.longitude}, ${result.latitude}${result.altitude !== undefined ? `, ${result.altitude}` : ''}]`);
     
     // Evaluate the test result
     if (testCase.format.includes('Invalid')) {
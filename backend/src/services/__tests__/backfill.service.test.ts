@@ -0,0 +1,169 @@
+import { BackfillService } from '../backfill.service';
+import { EasService } from '../eas.service';
+import { DbService } from '../db.service';
+import { makeAttestation } from './helpers/eas-fixtures';
+import { BackfillJob, BackfillJobStatus, BackfillJobUpdate } from '../../models/types';
+
+// Mock the config
+jest.mock('../../config', () => jest.requireActual('./helpers/eas-fixtures').mockConfig({ EAS_LOG_BLOCK_RANGE: '100' }));
+
+// Mock the DbService
+jest.mock('../db.service');
+
+// Mock the Apollo client
+jest.mock('@apollo/client/core', () => jest.requireActual('./helpers/eas-fixtures').mockApolloClient());
+
+const page = (offset: number, timeCreated: number) =>
+  Array.from({ length: 100 }, (_, i) => makeAttestation(`0x${(offset + i).toString(16).padStart(3, '0')}`, timeCreated));
+
+const newJob = (fields: Partial<BackfillJob>): BackfillJob => ({
+  id: 1,
+  chain: 'arbitrum',
+  range_type: 'timestamp',
+  on_conflict: 'skip',
+  status: 'running',
+  pages_done: 0,
+  inserted: 0,
+  updated: 0,
+  skipped: 0,
+  failed: 0,
+  ...fields
+});
+
+describe('BackfillService', () => {
+  let backfillService: BackfillService;
+  let easService: EasService;
+  let mockDbService: jest.Mocked<DbService>;
+  let query: jest.Mock;
+  let job: BackfillJob;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDbService = new DbService() as jest.Mocked<DbService>;
+    mockDbService.upsertLocationProofs.mockImplementation(async (proofs) => ({
+      inserted: proofs.length, updated: 0, skipped: 0, uids: proofs.map(proof => proof.uid)
+    }));
+
+    // One job row, updated in place like the backfill_jobs table
+    mockDbService.claimNextBackfillJob.mockImplementation(async (holder: string) => {
+      if (job.status !== 'pending') {
+        return null;
+      }
+      job = { ...job, status: 'running', holder };
+      return job;
+    });
+    mockDbService.getBackfillJob.mockImplementation(async () => job);
+    mockDbService.updateBackfillJob.mockImplementation(async (
+      _id: number,
+      update: BackfillJobUpdate,
+      fromStatuses?: BackfillJobStatus[],
+      holder?: string
+    ) => {
+      if ((fromStatuses && !fromStatuses.includes(job.status)) || (holder && job.holder !== holder)) {
+        return null;
+      }
+      job = { ...job, ...update };
+      return job;
+    });
+
+    easService = new EasService(mockDbService);
+    backfillService = new BackfillService(mockDbService, easService);
+    query = (easService as unknown as { graphqlClients: Record<string, { query: jest.Mock }> }).graphqlClients.arbitrum.query;
+    query.mockResolvedValue({ data: { attestations: [] } });
+  });
+
+  it('runs a timestamp range page by page and stops at the end of the range', async () => {
+    job = newJob({ status: 'pending', from_timestamp: new Date(1700000000 * 1000), to_timestamp: new Date(1700000100 * 1000) });
+    query
+      .mockResolvedValueOnce({ data: { attestations: page(0, 1700000000) } })
+      .mockResolvedValueOnce({ data: { attestations: [...page(100, 1700000100).slice(0, 50), ...page(150, 1700000200).slice(0, 50)] } });
+
+    const result = await backfillService.runNextJob();
+
+    expect(query).toHaveBeenCalledTimes(2);
+    expect(query.mock.calls[0][0].variables).toMatchObject({ timestamp: 1700000000, afterId: '' });
+    expect(mockDbService.upsertLocationProofs.mock.calls[1][0]).toHaveLength(50);
+    expect(result).toMatchObject({
+      status: 'completed',
+      pages_done: 2,
+      inserted: 150,
+      cursor_uid: '0x095',
+      cursor_timestamp: new Date(1700000100 * 1000)
+    });
+  });
+
+  it('stops a job cancelled mid-run after its current page and resumes it from the cursor', async () => {
+    job = newJob({ status: 'pending', from_timestamp: new Date(1700000000 * 1000), to_timestamp: new Date(1700009999 * 1000) });
+    query
+      .mockResolvedValueOnce({ data: { attestations: page(0, 1700000000) } })
+      .mockResolvedValueOnce({ data: { attestations: page(100, 1700000001) } });
+    mockDbService.upsertLocationProofs
+      .mockImplementationOnce(async (proofs) => ({ inserted: proofs.length, updated: 0, skipped: 0, uids: proofs.map(proof => proof.uid) }))
+      .mockImplementationOnce(async (proofs) => {
+        // The job is cancelled while its second page is being stored
+        await backfillService.cancelJob(1);
+        return { inserted: proofs.length, updated: 0, skipped: 0, uids: proofs.map(proof => proof.uid) };
+      });
+
+    const cancelled = await backfillService.runNextJob();
+
+    expect(query).toHaveBeenCalledTimes(2);
+    expect(cancelled).toMatchObject({ status: 'cancelled', pages_done: 1, inserted: 100, cursor_uid: '0x063' });
+    expect(cancelled!.finished_at).toBeInstanceOf(Date);
+
+    expect(await backfillService.resumeJob(1)).toMatchObject({ status: 'pending', finished_at: null });
+    query.mockClear();
+    query.mockResolvedValueOnce({ data: { attestations: page(100, 1700000001).slice(0, 10) } });
+    mockDbService.upsertLocationProofs.mockResolvedValueOnce({ inserted: 0, updated: 0, skipped: 10, uids: [] });
+
+    const resumed = await backfillService.runNextJob();
+
+    // The uncounted page is read again from the cursor; its proofs are already stored
+    expect(query.mock.calls[0][0].variables).toMatchObject({ timestamp: 1700000000, afterId: '0x063' });
+    expect(resumed).toMatchObject({ status: 'completed', pages_done: 2, inserted: 100, skipped: 10, cursor_uid: '0x06d' });
+  });
+
+  it('stops without saving its page when another worker takes the job over', async () => {
+    job = newJob({ status: 'pending', from_timestamp: new Date(1700000000 * 1000), to_timestamp: new Date(1700009999 * 1000) });
+    query
+      .mockResolvedValueOnce({ data: { attestations: page(0, 1700000000) } })
+      .mockResolvedValueOnce({ data: { attestations: page(100, 1700000001) } });
+    mockDbService.upsertLocationProofs
+      .mockImplementationOnce(async (proofs) => ({ inserted: proofs.length, updated: 0, skipped: 0, uids: proofs.map(proof => proof.uid) }))
+      .mockImplementationOnce(async (proofs) => {
+        // The job looked stale to another worker while its second page was being stored
+        job = { ...job, holder: 'other-worker' };
+        return { inserted: proofs.length, updated: 0, skipped: 0, uids: proofs.map(proof => proof.uid) };
+      });
+
+    const result = await backfillService.runNextJob();
+
+    expect(query).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ status: 'running', holder: 'other-worker', pages_done: 1, inserted: 100, cursor_uid: '0x063' });
+  });
+
+  it('scans a block range in chunks and goes back to pending at the deadline', async () => {
+    job = newJob({ status: 'pending', range_type: 'block', from_block: 1000, to_block: 1299 });
+    const deadline = Date.now() + 60000;
+    const now = jest.spyOn(Date, 'now');
+    const scanLogs = jest.spyOn(easService, 'scanLogs').mockImplementation(async (_chain, fromBlock) => {
+      // The second range uses up the budget
+      if (fromBlock === 1100) {
+        now.mockReturnValue(deadline);
+      }
+      return { attested: [makeAttestation(`0x${fromBlock}`, 1700000000)], revoked: [] };
+    });
+
+    const paused = await backfillService.runNextJob(deadline);
+    now.mockRestore();
+
+    expect(scanLogs.mock.calls.map(call => [call[1], call[2]])).toEqual([[1000, 1099], [1100, 1199]]);
+    expect(paused).toMatchObject({ status: 'pending', cursor_block: 1199, pages_done: 2, inserted: 2 });
+
+    scanLogs.mockClear();
+    const finished = await backfillService.runNextJob();
+
+    expect(scanLogs.mock.calls.map(call => [call[1], call[2]])).toEqual([[1200, 1299]]);
+    expect(finished).toMatchObject({ status: 'completed', cursor_block: 1299, pages_done: 3, inserted: 3 });
+  });
+});
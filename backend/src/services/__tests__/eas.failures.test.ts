@@ -0,0 +1,124 @@
+import { EasService } from '../eas.service';
+import { DbService } from '../db.service';
+import { makeAttestation } from './helpers/eas-fixtures';
+import { EASAttestation, IngestionFailure } from '../../models/types';
+
+// Mock the config
+jest.mock('../../config', () => jest.requireActual('./helpers/eas-fixtures').mockConfig());
+
+// Mock the DbService
+jest.mock('../db.service');
+
+// Mock the Apollo client
+jest.mock('@apollo/client/core', () => jest.requireActual('./helpers/eas-fixtures').mockApolloClient());
+
+// Build a queued failure for an attestation
+const makeFailure = (id: number, attestation: EASAttestation): IngestionFailure => ({
+  id,
+  chain: 'arbitrum',
+  uid: attestation.id,
+  stage: 'convert',
+  error: 'Unsupported location format',
+  attestation,
+  attempts: 1,
+  status: 'pending',
+  last_failed_at: new Date()
+});
+
+describe('EasService ingestion failures', () => {
+  let easService: EasService;
+  let mockDbService: jest.Mocked<DbService>;
+  let query: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDbService = new DbService() as jest.Mocked<DbService>;
+    mockDbService.locationProofExists.mockResolvedValue(false);
+    mockDbService.acquireSyncLock.mockImplementation(async (chain, job, holder) => ({
+      chain, job, holder, acquired_at: new Date(), expires_at: new Date(Date.now() + 300000)
+    }));
+    easService = new EasService(mockDbService);
+    query = (easService as unknown as { graphqlClients: Record<string, { query: jest.Mock }> }).graphqlClients.arbitrum.query;
+    query.mockResolvedValue({ data: { attestations: [] } });
+  });
+
+  it('queues an attestation that fails to convert and stores the rest of its page', async () => {
+    mockDbService.upsertLocationProofs.mockImplementation(async (proofs) => ({
+      inserted: proofs.length, updated: 0, skipped: 0, uids: proofs.map(proof => proof.uid)
+    }));
+    const broken = { ...makeAttestation('0xa', 1700000000), schemaId: '0x' + '11'.repeat(32) };
+    query.mockResolvedValueOnce({ data: { attestations: [broken, makeAttestation('0xb', 1700000001)] } });
+
+    const count = await easService.processChain('arbitrum');
+
+    expect(count).toBe(1);
+    expect(mockDbService.upsertLocationProofs).toHaveBeenCalledTimes(1);
+    expect(mockDbService.upsertLocationProofs).toHaveBeenCalledWith([expect.objectContaining({ uid: '0xb' })], 'skip');
+    expect(mockDbService.recordIngestionFailure).toHaveBeenCalledWith('arbitrum', broken, 'convert', expect.stringContaining('unregistered schema'), 'UNREGISTERED_SCHEMA');
+    expect(mockDbService.archiveAttestations).toHaveBeenCalledWith([expect.objectContaining({ uid: '0xb', source: 'indexer' })]);
+  });
+
+  it('queues malformed attestations with their error code and rejects a drifted page', async () => {
+    mockDbService.upsertLocationProofs.mockImplementation(async (proofs) => ({
+      inserted: proofs.length, updated: 0, skipped: 0, uids: proofs.map(proof => proof.uid)
+    }));
+    const malformed = { ...makeAttestation('0xa', 1700000000), data: 'not hex', revocationTime: 'never' };
+    query.mockResolvedValueOnce({ data: { attestations: [malformed, makeAttestation('0xb', 1700000001)] } });
+
+    expect(await easService.processChain('arbitrum')).toBe(1);
+    expect(mockDbService.recordIngestionFailure).toHaveBeenCalledWith(
+      'arbitrum', malformed, 'convert', expect.stringMatching(/revocationTime.*data|data.*revocationTime/), 'INVALID_ATTESTATION'
+    );
+
+    // A page without the fields its cursor needs is not retried
+    query.mockClear();
+    query.mockResolvedValueOnce({ data: { attestations: [{ attester: '0x123' }] } });
+
+    await expect(easService.fetchAttestations('arbitrum', 100, new Date(0).toISOString()))
+      .rejects.toMatchObject({ code: 'INVALID_RESPONSE' });
+    expect(query).toHaveBeenCalledTimes(1);
+  });
+
+  it('stores a page one by one when its batched write fails, queueing the row that fails', async () => {
+    mockDbService.upsertLocationProofs.mockRejectedValue(new Error('value too long for type character varying'));
+    mockDbService.createLocationProof
+      .mockRejectedValueOnce(new Error('value too long for type character varying'))
+      .mockImplementation(async (proof) => ({ ...proof, created_at: new Date(), updated_at: new Date() }));
+    const failing = makeAttestation('0xa', 1700000000);
+    query.mockResolvedValueOnce({ data: { attestations: [failing, makeAttestation('0xb', 1700000001)] } });
+
+    const count = await easService.processChain('arbitrum');
+
+    expect(count).toBe(1);
+    expect(mockDbService.recordIngestionFailure).toHaveBeenCalledWith(
+      'arbitrum', failing, 'store', 'value too long for type character varying', undefined
+    );
+    expect(mockDbService.upsertSyncCheckpoint).toHaveBeenCalledWith(expect.objectContaining({ last_uid: '0xb' }));
+  });
+
+  it('keeps the watermark before a page whose failed row cannot be queued', async () => {
+    mockDbService.upsertLocationProofs.mockRejectedValue(new Error('connection refused'));
+    mockDbService.createLocationProof.mockRejectedValue(new Error('connection refused'));
+    mockDbService.recordIngestionFailure.mockRejectedValue(new Error('connection refused'));
+    query.mockResolvedValueOnce({ data: { attestations: [makeAttestation('0xa', 1700000000), makeAttestation('0xb', 1700000001)] } });
+
+    await expect(easService.processChain('arbitrum')).rejects.toThrow('connection refused');
+
+    expect(mockDbService.upsertSyncCheckpoint).not.toHaveBeenCalledWith(expect.objectContaining({ last_uid: expect.anything() }));
+    expect((easService as unknown as { lastProcessedUids: Record<string, string> }).lastProcessedUids.arbitrum).toBeUndefined();
+  });
+
+  it('resolves retried failures that now ingest and re-queues the rest', async () => {
+    const fixed = makeAttestation('0xa', 1700000000);
+    const broken = { ...makeAttestation('0xb', 1700000000), schemaId: '0x' + '11'.repeat(32) };
+    mockDbService.getIngestionFailures.mockResolvedValue([makeFailure(1, fixed), makeFailure(2, broken)]);
+
+    const result = await easService.retryIngestionFailures({ chain: 'arbitrum' });
+
+    expect(mockDbService.getIngestionFailures).toHaveBeenCalledWith({ chain: 'arbitrum', status: 'pending', limit: 100 });
+    expect(mockDbService.createLocationProof).toHaveBeenCalledWith(expect.objectContaining({ uid: '0xa' }));
+    expect(mockDbService.resolveIngestionFailure).toHaveBeenCalledWith(1);
+    expect(mockDbService.recordIngestionFailure).toHaveBeenCalledWith('arbitrum', broken, 'convert', expect.stringContaining('unregistered schema'), 'UNREGISTERED_SCHEMA');
+    expect(result).toMatchObject({ retried: 2, resolved: 1, failed: 1, failures: [{ id: 2, uid: '0xb', stage: 'convert', code: 'UNREGISTERED_SCHEMA' }] });
+  });
+});
@@ -0,0 +1,181 @@
+import { EasService } from '../eas.service';
+import { DbService } from '../db.service';
+import { makeAttestation } from './helpers/eas-fixtures';
+
+// Mock the config
+jest.mock('../../config', () => jest.requireActual('./helpers/eas-fixtures').mockConfig());
+
+// Mock the DbService
+jest.mock('../db.service');
+
+// Mock the Apollo client
+jest.mock('@apollo/client/core', () => jest.requireActual('./helpers/eas-fixtures').mockApolloClient());
+
+// Private state the tests inspect
+interface EasServiceInternals {
+  graphqlClients: Record<string, { query: jest.Mock }>;
+  lastProcessedTimestamps: Record<string, number>;
+  lastProcessedUids: Record<string, string>;
+}
+
+describe('EasService pagination', () => {
+  let easService: EasService;
+  let mockDbService: jest.Mocked<DbService>;
+  let internals: EasServiceInternals;
+  let query: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDbService = new DbService() as jest.Mocked<DbService>;
+    mockDbService.acquireSyncLock.mockImplementation(async (chain, job, holder) => ({
+      chain, job, holder, acquired_at: new Date(), expires_at: new Date(Date.now() + 300000)
+    }));
+    easService = new EasService(mockDbService);
+    internals = easService as unknown as EasServiceInternals;
+    query = internals.graphqlClients.arbitrum.query;
+    // Anything not queued below (e.g. the revocation walk after ingestion) finds nothing
+    query.mockResolvedValue({ data: { attestations: [] } });
+  });
+
+  it('walks pages on (timeCreated, id) until the indexer runs dry', async () => {
+    query
+      .mockResolvedValueOnce({ data: { attestations: [makeAttestation('0xa', 1700000000), makeAttestation('0xb', 1700000000)] } })
+      .mockResolvedValueOnce({ data: { attestations: [makeAttestation('0xc', 1700000000), makeAttestation('0xd', 1700000100)] } })
+      .mockResolvedValueOnce({ data: { attestations: [] } });
+
+    const result = await easService.fetchAttestations('arbitrum', 2, new Date(1699999000 * 1000).toISOString());
+
+    expect(result.map(a => a.id)).toEqual(['0xa', '0xb', '0xc', '0xd']);
+    expect(query).toHaveBeenCalledTimes(3);
+    expect(query.mock.calls[0][0].variables).toMatchObject({ timestamp: 1699999000, afterId: '', limit: 2 });
+    expect(query.mock.calls[1][0].variables).toMatchObject({ timestamp: 1700000000, afterId: '0xb' });
+    expect(query.mock.calls[2][0].variables).toMatchObject({ timestamp: 1700000100, afterId: '0xd' });
+  });
+
+  it('stops after a short page', async () => {
+    query.mockResolvedValueOnce({ data: { attestations: [makeAttestation('0xa', 1700000000)] } });
+
+    const result = await easService.fetchAttestations('arbitrum', 2);
+
+    expect(result).toHaveLength(1);
+    expect(query).toHaveBeenCalledTimes(1);
+  });
+
+  it('commits each page before fetching the next one and counts what it walked', async () => {
+    const events: string[] = [];
+    query.mockImplementation(async ({ variables }) => {
+      events.push(`fetch:${variables.afterId}`);
+      return variables.afterId === ''
+        ? { data: { attestations: [makeAttestation('0xa', 1700000000), makeAttestation('0xb', 1700000001)] } }
+        : { data: { attestations: [] } };
+    });
+
+    const count = await easService.walkAttestations('arbitrum', 2, undefined, {
+      onPage: async (page) => {
+        events.push(`commit:${page.map(a => a.id).join(',')}`);
+      }
+    });
+
+    expect(events).toEqual(['fetch:', 'commit:0xa,0xb', 'fetch:0xb']);
+    expect(count).toBe(2);
+  });
+
+  it('processChain stores each page with one batched write and advances the watermark per page', async () => {
+    mockDbService.upsertLocationProofs.mockImplementation(async (proofs) => ({
+      inserted: proofs.length, updated: 0, skipped: 0, uids: proofs.map(proof => proof.uid)
+    }));
+
+    const page = Array.from({ length: 100 }, (_, i) => makeAttestation(`0x${i.toString(16).padStart(2, '0')}`, 1700000000));
+    query
+      .mockResolvedValueOnce({ data: { attestations: page } })
+      .mockResolvedValueOnce({ data: { attestations: [makeAttestation('0xff', 1700000000)] } });
+
+    internals.lastProcessedTimestamps.arbitrum = 1699999999;
+
+    const count = await easService.processChain('arbitrum');
+
+    expect(count).toBe(101);
+    expect(mockDbService.upsertLocationProofs).toHaveBeenCalledTimes(2);
+    expect(mockDbService.upsertLocationProofs.mock.calls[0][0]).toHaveLength(100);
+    expect(mockDbService.locationProofExists).not.toHaveBeenCalled();
+    expect(mockDbService.createLocationProof).not.toHaveBeenCalled();
+    expect(internals.lastProcessedTimestamps.arbitrum).toBe(1700000000);
+    expect(internals.lastProcessedUids.arbitrum).toBe('0xff');
+  });
+
+  it('a budgeted run stops after the page that reaches the deadline and the next run resumes there', async () => {
+    const deadline = new Date(Date.now() + 60000);
+    const now = jest.spyOn(Date, 'now');
+    mockDbService.getSyncCheckpoints.mockResolvedValue([]);
+    mockDbService.upsertLocationProofs.mockImplementation(async (proofs) => {
+      // Storing the first page uses up the budget
+      now.mockReturnValue(deadline.getTime());
+      return { inserted: proofs.length, updated: 0, skipped: 0, uids: proofs.map(proof => proof.uid) };
+    });
+    
+    const page = Array.from({ length: 100 }, (_, i) => makeAttestation(`0x${i.toString(16).padStart(2, '0')}`, 1700000000));
+    query.mockResolvedValueOnce({ data: { attestations: page } });
+    internals.lastProcessedTimestamps.arbitrum = 1699999999;
+    
+    const run = await easService.processAllChainsWithinBudget(deadline);
+    now.mockRestore();
+    
+    expect(run).toMatchObject({ status: 'partial', deadline, chains: [{ chain: 'arbitrum', status: 'partial', processed: 100 }] });
+    // Neither the next page nor the revocation walk was started
+    expect(query).toHaveBeenCalledTimes(1);
+    expect(mockDbService.upsertSyncCheckpoint).toHaveBeenCalledWith(expect.objectContaining({ last_uid: '0x63' }));
+    expect(mockDbService.upsertSyncCheckpoint).toHaveBeenLastCalledWith(expect.objectContaining({ last_run_status: 'partial', last_run_count: 100 }));
+    
+    query.mockClear();
+    const next = await easService.processAllChainsWithinBudget(new Date(Date.now() + 60000));
+    
+    expect(next.status).toBe('complete');
+    expect(query.mock.calls[0][0].variables).toMatchObject({ timestamp: 1700000000, afterId: '0x63' });
+  });
+
+  it('processChain resumes from the persisted checkpoint on a cold start', async () => {
+    mockDbService.getSyncCheckpoint.mockResolvedValue({
+      chain: 'arbitrum',
+      schema_uid: '0xba4171c92572b1e4f241d044c32cdf083be9fd946b8766977558ca6378c824e2',
+      last_timestamp: new Date(1700000000 * 1000),
+      last_uid: '0xb'
+    });
+    query.mockResolvedValueOnce({ data: { attestations: [] } });
+
+    await easService.processChain('arbitrum');
+
+    expect(query.mock.calls[0][0].variables).toMatchObject({ timestamp: 1700000000, afterId: '0xb' });
+    expect(mockDbService.upsertSyncCheckpoint).toHaveBeenCalledWith(expect.objectContaining({
+      chain: 'arbitrum',
+      last_run_status: 'success',
+      last_run_count: 0
+    }));
+  });
+
+  it('processChain applies indexer revocations after the revocation watermark', async () => {
+    mockDbService.getSyncCheckpoint.mockResolvedValue({
+      chain: 'arbitrum',
+      schema_uid: '0xba4171c92572b1e4f241d044c32cdf083be9fd946b8766977558ca6378c824e2',
+      last_timestamp: new Date(1700000000 * 1000),
+      last_uid: '0xb',
+      last_revocation_time: new Date(1700000500 * 1000),
+      last_revocation_uid: '0x01'
+    });
+    mockDbService.recordRevocations.mockResolvedValue(1);
+    query
+      .mockResolvedValueOnce({ data: { attestations: [] } })
+      .mockResolvedValueOnce({ data: { attestations: [{ id: '0x02', attester: '0x123', revocationTime: 1700000600 }] } });
+
+    await easService.processChain('arbitrum');
+
+    expect(query.mock.calls[1][0].variables).toMatchObject({ revocationTime: 1700000500, afterId: '0x01' });
+    expect(mockDbService.recordRevocations).toHaveBeenCalledWith([
+      { uid: '0x02', revocationTime: new Date(1700000600 * 1000), revoker: '0x123' }
+    ]);
+    expect(mockDbService.upsertSyncCheckpoint).toHaveBeenCalledWith(expect.objectContaining({
+      last_revocation_time: new Date(1700000600 * 1000),
+      last_revocation_uid: '0x02'
+    }));
+    expect(easService.getRevokedCounts()).toEqual({ arbitrum: 1 });
+  });
+});
@@ -0,0 +1,123 @@
+import { IngestionPolicyService, evaluateIngestionPolicies } from '../ingestion-policy.service';
+import { EasService } from '../eas.service';
+import { DbService } from '../db.service';
+import { makeAttestation } from './helpers/eas-fixtures';
+import { buildIngestionPolicies } from '../../config/policies';
+import { IngestionPolicy } from '../../models/types';
+
+// Mock the config
+jest.mock('../../config', () => jest.requireActual('./helpers/eas-fixtures').mockConfig());
+
+// Mock the DbService
+jest.mock('../db.service');
+
+// Mock the Apollo client
+jest.mock('@apollo/client/core', () => jest.requireActual('./helpers/eas-fixtures').mockApolloClient());
+
+const SPAMMER = '0x5ea5ea5ea5ea5ea5ea5ea5ea5ea5ea5ea5ea5ea5';
+const TRUSTED = '0x7e57ed7e57ed7e57ed7e57ed7e57ed7e57ed7e57';
+
+const proof = (prover: string, fields: { chain?: string; location_type?: string; recipe_types?: string[] } = {}) => ({
+  chain: 'arbitrum',
+  prover,
+  subject: '0x456',
+  location_type: 'geojson-point',
+  ...fields
+});
+
+describe('Ingestion policies', () => {
+  const spamDeny: IngestionPolicy = { name: 'spam', action: 'deny', attesters: [SPAMMER] };
+
+  it('rejects what a deny policy matches and what no allow policy of the chain matches', () => {
+    const policies: IngestionPolicy[] = [
+      spamDeny,
+      { name: 'wkt-only', action: 'deny', chains: ['celo'], locationTypes: ['wkt'] },
+      { name: 'trusted', action: 'allow', chains: ['base'], attesters: [TRUSTED] },
+      { name: 'photos', action: 'allow', chains: ['base'], recipeTypes: ['photo'] }
+    ];
+
+    // Addresses compare case-insensitively
+    expect(evaluateIngestionPolicies(proof(SPAMMER.toUpperCase().replace('0X', '0x')), policies))
+      .toEqual({ accepted: false, policy: 'spam', reason: 'denied by policy spam' });
+    expect(evaluateIngestionPolicies(proof(TRUSTED), policies).accepted).toBe(true);
+
+    // Chain-scoped policies leave other chains alone
+    expect(evaluateIngestionPolicies(proof(TRUSTED, { location_type: 'wkt' }), policies).accepted).toBe(true);
+    expect(evaluateIngestionPolicies(proof(TRUSTED, { chain: 'celo', location_type: 'wkt' }), policies).policy).toBe('wkt-only');
+
+    expect(evaluateIngestionPolicies(proof(TRUSTED, { chain: 'base' }), policies).accepted).toBe(true);
+    expect(evaluateIngestionPolicies(proof('0x456', { chain: 'base', recipe_types: ['wifi', 'photo'] }), policies).accepted).toBe(true);
+    expect(evaluateIngestionPolicies(proof('0x456', { chain: 'base' }), policies))
+      .toEqual({ accepted: false, policy: null, reason: 'not allowed by any of trusted, photos' });
+  });
+
+  it('validates configured policies', () => {
+    expect(buildIngestionPolicies([{ name: 'spam', action: 'deny', attesters: [SPAMMER.toUpperCase().replace('0X', '0x')] }], ['arbitrum']))
+      .toEqual([{ name: 'spam', action: 'deny', attesters: [SPAMMER] }]);
+
+    expect(() => buildIngestionPolicies([
+      { name: 'empty', action: 'deny' },
+      { name: 'typo', action: 'deny', attester: [SPAMMER] },
+      { name: 'elsewhere', action: 'allow', chains: ['optimism'], attesters: [TRUSTED] },
+      { name: 'short', action: 'deny', recipients: ['0x456'] }
+    ], ['arbitrum'])).toThrow(/policy empty: .*at least one.*\n.*policy typo: .*attester.*\n.*chains not in the chain registry: optimism\n.*policy short: recipients.0: must be an address/);
+  });
+
+  it('drops rejected attestations during ingestion and counts them', async () => {
+    const mockDbService = new DbService() as jest.Mocked<DbService>;
+    mockDbService.upsertLocationProofs.mockImplementation(async (proofs) => ({
+      inserted: proofs.length, updated: 0, skipped: 0, uids: proofs.map(row => row.uid)
+    }));
+    const easService = new EasService(mockDbService, [spamDeny]);
+
+    const result = await easService.ingestBatch('arbitrum', [
+      makeAttestation('0xa', 1700000000, { attester: SPAMMER, locationType: 'geojson-point' }),
+      makeAttestation('0xb', 1700000000, { attester: TRUSTED, locationType: 'geojson-point' })
+    ]);
+
+    expect(result).toEqual({ inserted: 1, updated: 0, skipped: 0, failed: 0, rejected: 1 });
+    expect(mockDbService.upsertLocationProofs).toHaveBeenCalledWith([expect.objectContaining({ uid: '0xb' })], 'skip');
+    expect(mockDbService.recordIngestionFailure).not.toHaveBeenCalled();
+    expect(easService.getRejectedCounts()).toEqual({ byChain: { arbitrum: 1 }, byPolicy: { spam: 1 } });
+  });
+
+  it('counts attestations rejected while a page is stored one by one as rejected', async () => {
+    const mockDbService = new DbService() as jest.Mocked<DbService>;
+    mockDbService.locationProofExists.mockResolvedValue(false);
+    mockDbService.upsertLocationProofs.mockRejectedValue(new Error('value too long for type character varying'));
+    mockDbService.createLocationProof.mockImplementation(async (row) => ({ ...row, created_at: new Date(), updated_at: new Date() }));
+    const easService = new EasService(mockDbService, [spamDeny]);
+    // Both pass the batched check, and the first is turned away when it is stored on its own
+    jest.spyOn(easService, 'checkIngestionPolicies')
+      .mockReturnValueOnce({ accepted: true, policy: null, reason: null })
+      .mockReturnValueOnce({ accepted: true, policy: null, reason: null })
+      .mockReturnValueOnce({ accepted: false, policy: 'spam', reason: 'denied by policy spam' });
+
+    const result = await easService.ingestBatch('arbitrum', [
+      makeAttestation('0xa', 1700000000, { attester: TRUSTED, locationType: 'geojson-point' }),
+      makeAttestation('0xb', 1700000000, { attester: TRUSTED, locationType: 'geojson-point' })
+    ]);
+
+    expect(result).toEqual({ inserted: 1, updated: 0, skipped: 0, failed: 0, rejected: 1 });
+    expect(mockDbService.createLocationProof).toHaveBeenCalledTimes(1);
+    expect(mockDbService.createLocationProof).toHaveBeenCalledWith(expect.objectContaining({ uid: '0xb' }));
+  });
+
+  it('lists stored proofs the policies would reject, a page of proofs at a time', async () => {
+    const mockDbService = new DbService() as jest.Mocked<DbService>;
+    mockDbService.getLocationProofPolicyFields.mockResolvedValue([
+      { uid: '0xa', ...proof(SPAMMER) },
+      { uid: '0xb', ...proof(TRUSTED) }
+    ]);
+    const service = new IngestionPolicyService(mockDbService, [spamDeny]);
+
+    const result = await service.findViolations({ chain: 'arbitrum', limit: 2 });
+
+    expect(mockDbService.getLocationProofPolicyFields).toHaveBeenCalledWith({ chain: 'arbitrum', limit: 2 });
+    expect(result).toEqual({
+      scanned: 2,
+      nextAfterUid: '0xb',
+      violations: [expect.objectContaining({ uid: '0xa', prover: SPAMMER, policy: 'spam', reason: 'denied by policy spam' })]
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { LocationParserRegistry, locationParsers } from '../location-parser.service';
+
+describe('LocationParserRegistry', () => {
+  it('reads GeoJSON, WKT and EWKT geometries', () => {
+    const feature = locationParsers.parse('{"type":"Feature","properties":{},"geometry":{"type":"Point","coordinates":[-122.4194,37.7749]}}', 'geojson-point');
+    expect(feature).toMatchObject({ format: 'geojson', geometry: { type: 'Point', coordinates: [-122.4194, 37.7749] }, point: [-122.4194, 37.7749], altitude: null });
+
+    const polygon = locationParsers.parse('SRID=4326;POLYGON Z ((0 0 1, 4 0 1, 4 4 1, 0 4 1, 0 0 1))', 'ewkt');
+    expect(polygon).toMatchObject({
+      format: 'wkt',
+      geometry: { type: 'Polygon', coordinates: [[[0, 0, 1], [4, 0, 1], [4, 4, 1], [0, 4, 1], [0, 0, 1]]] },
+      point: [2, 2],
+      altitude: 1
+    });
+
+    // Sniffed without a matching location_type
+    expect(locationParsers.parse('MULTIPOINT ((1 2), (3 4))').geometry).toEqual({ type: 'MultiPoint', coordinates: [[1, 2], [3, 4]] });
+    expect(locationParsers.parse('POLYGON ((0 0, 1 0, 1 1, 0 1))', 'wkt')).toMatchObject({ format: null, geometry: null });
+  });
+
+  it('reads decimal degree pairs in either order', () => {
+    expect(locationParsers.parse('40.7128, -74.0060', 'coordinates-decimal+lat-lng')).toMatchObject({ format: 'lat-lon', point: [-74.006, 40.7128] });
+    expect(locationParsers.parse('[-74.0060, 40.7128]', 'point')).toMatchObject({ format: 'lon-lat', point: [-74.006, 40.7128] });
+
+    // Only the swapped order is in range
+    const swapped = locationParsers.parse('151.2093, -33.8688');
+    expect(swapped.point).toEqual([151.2093, -33.8688]);
+    expect(swapped.diagnostics).toEqual(['lat-lon: latitude 151.2093 is out of range, read the pair as longitude, latitude']);
+    expect(swapped.flags).toEqual(['axis-swap']);
+  });
+
+  it('reads geohash, H3 and Open Location Code cells as their areas', () => {
+    const geohash = locationParsers.parse('u4pruydqqvj', 'geohash');
+    expect(geohash.geometry?.type).toBe('Polygon');
+    expect(geohash.point![0]).toBeCloseTo(10.40744, 4);
+    expect(geohash.point![1]).toBeCloseTo(57.64911, 4);
+
+    const h3 = locationParsers.parse('89283082803ffff', 'h3');
+    expect(h3.format).toBe('h3');
+    expect(h3.point![0]).toBeCloseTo(-122.41827, 4);
+    expect(h3.point![1]).toBeCloseTo(37.77352, 4);
+
+    const olc = locationParsers.parse('8FVC9G8F+6X', 'plus-code');
+    expect(olc.point![0]).toBeCloseTo(8.52494, 4);
+    expect(olc.point![1]).toBeCloseTo(47.36556, 4);
+    expect(locationParsers.parse('9G8F+6X', 'olc').diagnostics).toEqual(['olc: 9G8F+6X is a short code, which needs a reference location']);
+  });
+
+  it('falls back to the content when the location_type does not match, and reports what it tried', () => {
+    const mismatched = locationParsers.parse('40.7128, -74.0060', 'geojson');
+    expect(mismatched.format).toBe('lat-lon');
+    expect(mismatched.diagnostics[0]).toMatch(/^geojson: not valid JSON/);
+    expect(mismatched.diagnostics[1]).toBe('location_type geojson does not match the location, read it as lat-lon');
+
+    expect(locationParsers.parse('somewhere in Berlin', 'address')).toEqual({
+      format: null,
+      geometry: null,
+      point: null,
+      altitude: null,
+      srs: null,
+      srsStatus: null,
+      sourceGeometry: null,
+      flags: [],
+      diagnostics: ['no parser for location_type address or a location like somewhere in Berlin']
+    });
+  });
+
+  it('reprojects into EPSG:4326 from the attested srs or the CRS the location declares', () => {
+    // Big Ben on the British National Grid
+    const grid = locationParsers.parse('{"type":"Point","coordinates":[530268,179640]}', 'geojson', 'urn:ogc:def:crs:EPSG::27700');
+    expect(grid).toMatchObject({ srs: 'EPSG:27700', srsStatus: 'reprojected', sourceGeometry: { type: 'Point', coordinates: [530268, 179640] } });
+    expect(grid.point![0]).toBeCloseTo(-0.12463, 4);
+    expect(grid.point![1]).toBeCloseTo(51.50069, 4);
+
+    const mercator = locationParsers.parse('SRID=3857;POINT(1113194.9079327357 1118889.9748579594)', 'wkt', 'WGS84');
+    expect(mercator).toMatchObject({ srs: 'EPSG:3857', srsStatus: 'reprojected' });
+    expect(mercator.point![1]).toBeCloseTo(10, 6);
+    expect(mercator.diagnostics[0]).toBe('the location is in EPSG:3857, not the attested srs WGS84');
+
+    expect(locationParsers.parse('40.7128, -74.0060', 'coordinates-decimal', 'http://www.opengis.net/def/crs/OGC/1.3/CRS84'))
+      .toMatchObject({ srs: 'OGC:CRS84', srsStatus: 'native', sourceGeometry: null });
+
+    // Kept in its source CRS, but not placed
+    expect(locationParsers.parse('{"type":"Point","coordinates":[1,2]}', 'geojson', 'mars-2000')).toEqual({
+      format: 'geojson',
+      geometry: null,
+      point: null,
+      altitude: null,
+      srs: null,
+      srsStatus: 'unknown',
+      sourceGeometry: { type: 'Point', coordinates: [1, 2] },
+      flags: [],
+      diagnostics: ['srs mars-2000 is not an EPSG code, OGC CRS URI or WGS84']
+    });
+    expect(locationParsers.parse('{"type":"Point","coordinates":[1,2]}', 'geojson', 'EPSG:99999').diagnostics).toEqual(['no projection definition for EPSG:99999']);
+  });
+
+  it('takes new formats as registered parsers', () => {
+    const registry = new LocationParserRegistry(locationParsers.getAll());
+    registry.register({
+      name: 'what3words',
+      locationTypes: /^what3words$/,
+      sniff: () => false,
+      parse: () => ({ geometry: { type: 'Point', coordinates: [-0.1276, 51.5072] }, diagnostics: [] })
+    });
+
+    expect(registry.parse('filled.count.soap', 'what3words')).toMatchObject({ format: 'what3words', point: [-0.1276, 51.5072] });
+    expect(() => registry.register(locationParsers.getAll()[0])).toThrow('Location parser geojson is already registered');
+  });
+});
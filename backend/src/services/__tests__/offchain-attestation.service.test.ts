@@ -0,0 +1,126 @@
+import { EAS, Offchain, OffchainAttestationVersion, SchemaEncoder } from '@ethereum-attestation-service/eas-sdk';
+import { Wallet, ZeroHash } from 'ethers';
+import { OffchainAttestationService } from '../offchain-attestation.service';
+import { EasService } from '../eas.service';
+import { DbService } from '../db.service';
+import { SchemaRegistry } from '../schema-registry.service';
+import { SCHEMA_STRING, SCHEMA_UID } from './helpers/eas-fixtures';
+
+// Mock the config
+jest.mock('../../config', () => jest.requireActual('./helpers/eas-fixtures').mockConfig());
+
+// Mock the DbService
+jest.mock('../db.service');
+
+// Mock the Apollo client
+jest.mock('@apollo/client/core', () => jest.requireActual('./helpers/eas-fixtures').mockApolloClient());
+
+const EAS_ADDRESS = '0xbD75f629A22Dc1ceD33dDA0b68c546A1c035c458';
+const RECIPIENT = '0x2222222222222222222222222222222222222222';
+
+const prover = Wallet.createRandom();
+const point = JSON.stringify({ type: 'Point', coordinates: [-74.006, 40.7128] });
+
+// Sign a location attestation offchain and serialize the package as a client would send it
+const signPackage = async (chainId = 42161n) => {
+  const offchain = new Offchain({ address: EAS_ADDRESS, version: '1.0.1', chainId }, OffchainAttestationVersion.Version2, new EAS(EAS_ADDRESS));
+  const data = new SchemaEncoder(SCHEMA_STRING).encodeData([
+    { name: 'eventTimestamp', type: 'uint256', value: 1700000000n },
+    { name: 'srs', type: 'string', value: 'EPSG:4326' },
+    { name: 'locationType', type: 'string', value: 'geojson-point' },
+    { name: 'location', type: 'string', value: point },
+    { name: 'recipeType', type: 'string[]', value: [] },
+    { name: 'recipePayload', type: 'bytes[]', value: [] },
+    { name: 'mediaType', type: 'string[]', value: [] },
+    { name: 'mediaData', type: 'string[]', value: [] },
+    { name: 'memo', type: 'string', value: 'offchain' }
+  ]);
+  const sig = await offchain.signOffchainAttestation({
+    schema: SCHEMA_UID,
+    recipient: RECIPIENT,
+    time: 1700000100n,
+    expirationTime: 0n,
+    revocable: true,
+    refUID: ZeroHash,
+    data
+  }, prover);
+
+  return JSON.parse(JSON.stringify({ sig, signer: prover.address }, (_key, value) =>
+    typeof value === 'bigint' ? value.toString() : value
+  ));
+};
+
+describe('OffchainAttestationService', () => {
+  let mockDbService: jest.Mocked<DbService>;
+  let service: OffchainAttestationService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDbService = new DbService() as jest.Mocked<DbService>;
+    mockDbService.locationProofExists.mockResolvedValue(false);
+    service = new OffchainAttestationService(mockDbService, new EasService(mockDbService));
+  });
+
+  it('verifies, decodes and stores a signed package as an offchain proof', async () => {
+    const pkg = await signPackage();
+
+    const proof = await service.submit(pkg);
+
+    expect(proof).toMatchObject({
+      uid: pkg.sig.uid.toLowerCase(),
+      chain: 'arbitrum',
+      prover: prover.address,
+      subject: RECIPIENT,
+      location: point,
+      memo: 'offchain',
+      origin: 'offchain',
+      schema_version: '0.1',
+      revoked: false
+    });
+    expect(proof.event_timestamp).toEqual(new Date(1700000000 * 1000));
+    expect(mockDbService.createLocationProof).toHaveBeenCalledWith(proof);
+  });
+
+  it('rejects tampered packages and foreign signers with structured errors', async () => {
+    const pkg = await signPackage();
+
+    const tampered = { ...pkg, sig: { ...pkg.sig, message: { ...pkg.sig.message, time: '1700000200' } } };
+    await expect(service.submit(tampered)).rejects.toMatchObject({ code: 'UID_MISMATCH', status: 422 });
+
+    const impostor = { ...pkg, signer: Wallet.createRandom().address };
+    await expect(service.submit(impostor)).rejects.toMatchObject({ code: 'INVALID_SIGNATURE', status: 422 });
+
+    await expect(service.submit(await signPackage(1n))).rejects.toMatchObject({ code: 'UNSUPPORTED_CHAIN' });
+    await expect(service.submit({ sig: {} })).rejects.toMatchObject({ code: 'INVALID_PACKAGE', status: 400 });
+
+    expect(mockDbService.createLocationProof).not.toHaveBeenCalled();
+  });
+
+  it('refuses a package that is already stored', async () => {
+    mockDbService.locationProofExists.mockResolvedValue(true);
+
+    await expect(service.submit(await signPackage())).rejects.toMatchObject({ code: 'ALREADY_EXISTS', status: 409 });
+  });
+
+  it('refuses a package whose chain schema has no decoder in the schema registry', async () => {
+    (service as unknown as { schemas: SchemaRegistry }).schemas = new SchemaRegistry({});
+
+    await expect(service.submit(await signPackage())).rejects.toMatchObject({ code: 'UNSUPPORTED_SCHEMA', status: 422 });
+    expect(mockDbService.createLocationProof).not.toHaveBeenCalled();
+  });
+
+  it('refuses and counts a package the ingestion policies reject', async () => {
+    const easService = new EasService(mockDbService, [
+      { name: 'blocked-prover', action: 'deny', attesters: [prover.address.toLowerCase()] }
+    ]);
+    service = new OffchainAttestationService(mockDbService, easService);
+
+    await expect(service.submit(await signPackage())).rejects.toMatchObject({
+      code: 'POLICY_REJECTED',
+      status: 403,
+      details: { policy: 'blocked-prover' }
+    });
+    expect(mockDbService.createLocationProof).not.toHaveBeenCalled();
+    expect(easService.getRejectedCounts()).toEqual({ byChain: { arbitrum: 1 }, byPolicy: { 'blocked-prover': 1 } });
+  });
+});
@@ -0,0 +1,119 @@
+import { ReprocessService } from '../reprocess.service';
+import { EasService } from '../eas.service';
+import { DbService } from '../db.service';
+import { POINT, SCHEMA_UID, makeAttestation } from './helpers/eas-fixtures';
+import { ArchivedAttestation, EASAttestation, LocationProof } from '../../models/types';
+
+// Mock the config
+jest.mock('../../config', () => jest.requireActual('./helpers/eas-fixtures').mockConfig());
+
+// Mock the DbService
+jest.mock('../db.service');
+
+// Mock the Apollo client
+jest.mock('@apollo/client/core', () => jest.requireActual('./helpers/eas-fixtures').mockApolloClient());
+
+// Build an archived indexer attestation for a GeoJSON location
+const makeArchivedAttestation = (id: string, location: string): EASAttestation =>
+  makeAttestation(id, 1700000000, { location, memo: 'archived', schemaId: SCHEMA_UID, txid: '0xfeed' });
+
+const archive = (attestation: EASAttestation): ArchivedAttestation => ({
+  uid: attestation.id,
+  chain: 'arbitrum',
+  source: 'indexer',
+  schema_uid: SCHEMA_UID,
+  data: attestation.data,
+  decoded_data_json: attestation.decodedDataJson,
+  txid: attestation.txid ?? null,
+  block_number: null,
+  block_hash: null,
+  indexer_url: 'https://arbitrum.example.com/graphql',
+  attestation
+});
+
+describe('ReprocessService', () => {
+  let mockDbService: jest.Mocked<DbService>;
+  let easService: EasService;
+  let service: ReprocessService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDbService = new DbService() as jest.Mocked<DbService>;
+    easService = new EasService(mockDbService);
+    service = new ReprocessService(mockDbService, easService);
+  });
+
+  it('archives attestations as they are ingested', async () => {
+    mockDbService.upsertLocationProofs.mockResolvedValue({ inserted: 1, updated: 0, skipped: 0, uids: ['0xa'] });
+    const attestation = makeArchivedAttestation('0xa', POINT);
+
+    await easService.ingestBatch('arbitrum', [attestation]);
+
+    expect(mockDbService.archiveAttestations).toHaveBeenCalledWith([expect.objectContaining({
+      uid: '0xa',
+      chain: 'arbitrum',
+      source: 'indexer',
+      txid: '0xfeed',
+      decoded_data_json: attestation.decodedDataJson,
+      indexer_url: 'https://arbitrum.example.com/graphql',
+      attestation
+    })]);
+  });
+
+  it('reports a field-level diff and only writes it when not a dry run', async () => {
+    const polygon = '{"type":"Polygon","coordinates":[[[10,20],[12,20],[12,22],[10,22],[10,20]]]}';
+    const changed = makeArchivedAttestation('0xa', polygon);
+    const same = makeArchivedAttestation('0xb', POINT);
+    const sameProof = await easService.convertAttestationToLocationProof(same, 'arbitrum');
+
+    // As pg returns them: NUMERIC as strings, empty values as NULL
+    const stored: Record<string, LocationProof> = {
+      '0xa': { ...(await easService.convertAttestationToLocationProof(changed, 'arbitrum')), longitude: undefined, latitude: undefined, srs: null as unknown as string },
+      '0xb': { ...sameProof, longitude: '-74.006' as unknown as number, latitude: '40.7128' as unknown as number }
+    };
+    mockDbService.getArchivedAttestations.mockResolvedValue([archive(changed), archive(same)]);
+    mockDbService.getLocationProofByUid.mockImplementation(async uid => stored[uid]);
+    // As ST_AsGeoJSON returns them: members in its own order, coordinates to 9 decimals
+    mockDbService.getLocationProofGeometry.mockImplementation(async uid => uid === '0xa'
+      ? JSON.parse(polygon)
+      : { coordinates: [-74.006, 40.7128], type: 'Point' });
+
+    const report = await service.reprocess({ chain: 'arbitrum', uids: ['0xa', '0xb', '0xc'] });
+
+    expect(report).toMatchObject({ dryRun: true, processed: 2, changed: 1, unchanged: 1, failed: 0, missing: ['0xc'], nextAfterUid: null });
+    expect(report.diffs).toEqual([{
+      uid: '0xa',
+      chain: 'arbitrum',
+      changes: {
+        srs: { before: null, after: 'WGS84' },
+        longitude: { before: null, after: 11 },
+        latitude: { before: null, after: 21 }
+      }
+    }]);
+    expect(mockDbService.updateLocationProofContent).not.toHaveBeenCalled();
+
+    await service.reprocess({ chain: 'arbitrum', dryRun: false });
+
+    expect(mockDbService.updateLocationProofContent).toHaveBeenCalledTimes(1);
+    expect(mockDbService.updateLocationProofContent).toHaveBeenCalledWith(expect.objectContaining({ uid: '0xa', longitude: 11, latitude: 21 }));
+  });
+
+  it('reports and repairs a proof whose stored shape differs from the converted one', async () => {
+    const attestation = makeArchivedAttestation('0xa', '{"type":"LineString","coordinates":[[10,20],[12.1234567891,22]]}');
+    const proof = await easService.convertAttestationToLocationProof(attestation, 'arbitrum');
+    mockDbService.getArchivedAttestations.mockResolvedValue([archive(attestation)]);
+    mockDbService.getLocationProofByUid.mockResolvedValue(proof);
+    mockDbService.getLocationProofGeometry.mockResolvedValue({ type: 'LineString', coordinates: [[10, 20], [12, 20]] });
+
+    const report = await service.reprocess({ chain: 'arbitrum', dryRun: false });
+
+    expect(report).toMatchObject({ changed: 1, unchanged: 0 });
+    expect(report.diffs[0].changes).toEqual({
+      geometry: {
+        before: '{"type":"LineString","coordinates":[[10,20],[12,20]]}',
+        after: '{"type":"LineString","coordinates":[[10,20],[12.123456789,22]]}'
+      }
+    });
+    expect(mockDbService.updateLocationProofContent).toHaveBeenCalledWith(expect.objectContaining({ uid: '0xa', geometry: proof.geometry }));
+  });
+});
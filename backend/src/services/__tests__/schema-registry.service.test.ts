@@ -0,0 +1,96 @@
+import { SchemaEncoder } from '@ethereum-attestation-service/eas-sdk';
+import { SchemaRegistry, DecodedDataItem } from '../schema-registry.service';
+import { buildSchemaRegistry, loadSchemaRegistry } from '../../config/schemas';
+
+const V01_UID = '0xba4171c92572b1e4f241d044c32cdf083be9fd946b8766977558ca6378c824e2';
+const V02_UID = '0x' + '22'.repeat(32);
+const V01_SCHEMA = 'uint256 eventTimestamp,string srs,string locationType,string location,string[] recipeType,bytes[] recipePayload,string[] mediaType,string[] mediaData,string memo';
+// A later revision that renamed the location fields
+const V02_SCHEMA = 'uint256 eventTimestamp,string srs,string geometryType,string geometry,string[] recipeType,bytes[] recipePayload,string[] mediaType,string[] mediaData,string memo';
+
+const encode = (schema: string, locationType: string, location: string) =>
+  new SchemaEncoder(schema).encodeData([
+    { name: 'eventTimestamp', type: 'uint256', value: 1700000000n },
+    { name: 'srs', type: 'string', value: 'EPSG:4326' },
+    { name: schema === V01_SCHEMA ? 'locationType' : 'geometryType', type: 'string', value: locationType },
+    { name: schema === V01_SCHEMA ? 'location' : 'geometry', type: 'string', value: location },
+    { name: 'recipeType', type: 'string[]', value: [] },
+    { name: 'recipePayload', type: 'bytes[]', value: [] },
+    { name: 'mediaType', type: 'string[]', value: ['image/jpeg'] },
+    { name: 'mediaData', type: 'string[]', value: ['ipfs://photo'] },
+    { name: 'memo', type: 'string', value: 'hello' }
+  ]);
+
+describe('SchemaRegistry', () => {
+  const definitions = buildSchemaRegistry({
+    [V01_UID]: { version: '0.1', rawString: V01_SCHEMA },
+    [V02_UID]: { version: '0.2', rawString: V02_SCHEMA, fields: { locationType: 'geometryType', location: 'geometry' } }
+  });
+  const registry = new SchemaRegistry(definitions);
+
+  it('decodes each schema revision onto the same location fields', () => {
+    const point = JSON.stringify({ type: 'Point', coordinates: [-74.006, 40.7128] });
+
+    for (const [uid, schema] of [[V01_UID, V01_SCHEMA], [V02_UID, V02_SCHEMA]]) {
+      const decoder = registry.get(uid)!;
+      const items: DecodedDataItem[] = JSON.parse(decoder.decodeDataJson(encode(schema, 'point', point)));
+
+      expect(decoder.decode(items)).toEqual({
+        eventTimestamp: '1700000000',
+        srs: 'EPSG:4326',
+        locationType: 'point',
+        location: point,
+        recipeTypes: [],
+        recipePayloads: [],
+        mediaTypes: ['image/jpeg'],
+        mediaData: ['ipfs://photo'],
+        memo: 'hello'
+      });
+    }
+
+    expect(registry.get(V01_UID)!.version).toBe('0.1');
+    expect(registry.get(V02_UID)!.version).toBe('0.2');
+  });
+
+  it('decodes the raw data when decodedDataJson is missing or malformed', () => {
+    const decoder = registry.get(V01_UID)!;
+    const data = encode(V01_SCHEMA, 'point', '{"type":"Point","coordinates":[1,2]}');
+
+    for (const decodedDataJson of ['', '{"not":"items"}', '[{"name":"location"}']) {
+      const decoded = decoder.decodeAttestation({ id: '0xa', data, decodedDataJson });
+      expect(decoded.fallback).toBeDefined();
+      expect(decoder.decode(decoded.items)).toMatchObject({ eventTimestamp: '1700000000', location: '{"type":"Point","coordinates":[1,2]}', memo: 'hello' });
+    }
+
+    // Indexer payloads that serialize uint256 as a BigNumber decode to a decimal string
+    const { items } = decoder.decodeAttestation({
+      id: '0xa',
+      data: '0x',
+      decodedDataJson: JSON.stringify([{ name: 'eventTimestamp', type: 'uint256', value: { value: { type: 'BigNumber', hex: '0x6553f100' } } }])
+    });
+    expect(decoder.decode(items).eventTimestamp).toBe('1700000000');
+  });
+
+  it('reports undecodable data and mistyped fields as typed ingestion errors', () => {
+    const decoder = registry.get(V01_UID)!;
+
+    expect(() => decoder.decodeAttestation({ id: '0xa', data: '0x1234', decodedDataJson: 'not json' }))
+      .toThrow(expect.objectContaining({ name: 'IngestionError', code: 'DECODE_FAILED' }));
+    expect(() => decoder.decode([{ name: 'location', type: 'string[]', value: { value: ['1', '2'] } }]))
+      .toThrow(expect.objectContaining({ code: 'SCHEMA_MISMATCH', details: expect.objectContaining({ field: 'location' }) }));
+  });
+
+  it('rejects schemas that do not parse or lack mapped fields', () => {
+    expect(() => buildSchemaRegistry({
+      [V01_UID]: { version: '0.1', rawString: 'not a schema' },
+      [V02_UID]: { version: '0.2', rawString: V02_SCHEMA }
+    })).toThrow(new RegExp(`schema ${V01_UID}: rawString does not parse[\\s\\S]*schema ${V02_UID}: fields not in rawString: location`));
+  });
+
+  it('registers an unknown EAS_SCHEMA_UID with the bundled schema string', () => {
+    const loaded = loadSchemaRegistry({ EAS_SCHEMA_UID: V02_UID });
+
+    expect(loaded[V01_UID]).toMatchObject({ version: '0.1' });
+    expect(loaded[V02_UID]).toEqual({ uid: V02_UID, version: 'custom', rawString: V01_SCHEMA });
+  });
+});
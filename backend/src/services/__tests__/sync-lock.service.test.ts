@@ -0,0 +1,105 @@
+import { EasService } from '../eas.service';
+import { DbService } from '../db.service';
+import { SyncLockService } from '../sync-lock.service';
+import { makeAttestation } from './helpers/eas-fixtures';
+import { SyncLock } from '../../models/types';
+
+// Mock the config
+jest.mock('../../config', () => jest.requireActual('./helpers/eas-fixtures').mockConfig());
+
+// Mock the DbService
+jest.mock('../db.service');
+
+// Mock the Apollo client
+jest.mock('@apollo/client/core', () => jest.requireActual('./helpers/eas-fixtures').mockApolloClient());
+
+describe('EasService sync leases', () => {
+  let easService: EasService;
+  let mockDbService: jest.Mocked<DbService>;
+  let query: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDbService = new DbService() as jest.Mocked<DbService>;
+    easService = new EasService(mockDbService);
+    query = (easService as unknown as { graphqlClients: Record<string, { query: jest.Mock }> }).graphqlClients.arbitrum.query;
+    query.mockResolvedValue({ data: { attestations: [] } });
+  });
+
+  it('skips a chain whose ingest lease another worker holds', async () => {
+    const heldBy: SyncLock = {
+      chain: 'arbitrum',
+      job: 'ingest',
+      holder: 'cron-host:42:abcd1234',
+      acquired_at: new Date(),
+      expires_at: new Date(Date.now() + 60000)
+    };
+    mockDbService.acquireSyncLock.mockResolvedValue(null);
+    mockDbService.getSyncLocks.mockResolvedValue([heldBy]);
+
+    const count = await easService.processChain('arbitrum');
+    const run = await easService.withSyncLock('arbitrum', 'ingest', async () => 'ran');
+
+    expect(count).toBe(0);
+    expect(query).not.toHaveBeenCalled();
+    expect(mockDbService.upsertSyncCheckpoint).not.toHaveBeenCalled();
+    expect(run).toEqual({ acquired: false, heldBy });
+  });
+
+  it('takes the lease under its own holder id and releases it even when ingestion fails', async () => {
+    mockDbService.acquireSyncLock.mockImplementation(async (chain, job, holder) => ({
+      chain, job, holder, acquired_at: new Date(), expires_at: new Date(Date.now() + 300000)
+    }));
+    jest.spyOn(easService as unknown as { ingestChain: () => Promise<number> }, 'ingestChain')
+      .mockRejectedValue(new Error('indexer down'));
+
+    await expect(easService.processChain('arbitrum')).rejects.toThrow('indexer down');
+
+    const holder = easService.getSyncLockHolder();
+    expect(holder).not.toEqual(new EasService(mockDbService).getSyncLockHolder());
+    expect(mockDbService.acquireSyncLock).toHaveBeenCalledWith('arbitrum', 'ingest', holder, 300000);
+    expect(mockDbService.releaseSyncLock).toHaveBeenCalledWith('arbitrum', 'ingest', holder);
+  });
+
+  it('aborts the lease signal when the lease cannot be renewed', async () => {
+    jest.useFakeTimers();
+    mockDbService.acquireSyncLock.mockImplementation(async (chain, job, holder) => ({
+      chain, job, holder, acquired_at: new Date(), expires_at: new Date(Date.now() + 3000)
+    }));
+    mockDbService.renewSyncLock.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+    const syncLocks = new SyncLockService(mockDbService, 3000);
+
+    try {
+      const run = syncLocks.withLock('arbitrum', 'revocations', async (lease) => {
+        await jest.advanceTimersByTimeAsync(1000);
+        const afterRenewal = lease.aborted;
+        await jest.advanceTimersByTimeAsync(1000);
+        return [afterRenewal, lease.aborted];
+      });
+
+      expect(await run).toEqual({ acquired: true, result: [false, true] });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('stops ingesting a chain at the next page once its lease is lost', async () => {
+    const page = Array.from({ length: 100 }, (_, i) => makeAttestation(`0x${i.toString(16).padStart(3, '0')}`));
+    mockDbService.upsertLocationProofs.mockImplementation(async (proofs) => ({
+      inserted: proofs.length, updated: 0, skipped: 0, uids: proofs.map(proof => proof.uid)
+    }));
+    const lease = new AbortController();
+    query.mockImplementation(async () => {
+      // The lease is lost while the first page is being read
+      lease.abort();
+      return { data: { attestations: page } };
+    });
+    jest.spyOn((easService as unknown as { syncLocks: SyncLockService }).syncLocks, 'withLock')
+      .mockImplementation(async (_chain, _job, fn) => ({ acquired: true, result: await fn(lease.signal) }));
+
+    const result = await easService.processAllChainsWithinBudget(new Date(Date.now() + 60000));
+
+    expect(query).toHaveBeenCalledTimes(1);
+    expect(result.chains).toEqual([expect.objectContaining({ chain: 'arbitrum', status: 'partial' })]);
+  });
+});
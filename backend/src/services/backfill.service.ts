@@ -0,0 +1,353 @@
+import { config } from '../config';
+import {
+  BackfillJob,
+  BackfillJobQueryParams,
+  BackfillJobStatus,
+  BackfillJobUpdate,
+  IngestionBatchResult,
+  NewBackfillJob
+} from '../models/types';
+import { dbService, DbService } from './db.service';
+import { easService, EasService } from './eas.service';
+import { supabaseService } from './supabase.service';
+import { logger } from '../utils/logger';
+
+// Attestations per indexer page of a timestamp-range job
+const PAGE_SIZE = 100;
+
+// State of a job while this worker runs it
+interface BackfillRun {
+  // The job as last written, with its running counts and cursor
+  job: BackfillJob;
+  // Worker instance the job was claimed under
+  holder: string;
+  // Set when the job was cancelled or taken over by another worker while running
+  stopped: boolean;
+  // Set when the job stopped at the deadline with more left to do
+  outOfTime: boolean;
+}
+
+/**
+ * Historical syncs of a chain over a timestamp or block range
+ *
+ * Jobs are stored in backfill_jobs and run by the worker one page at a time.
+ * Each committed page moves the job's cursor and counts, so a job that is
+ * cancelled, fails, reaches a deadline or loses its worker resumes from
+ * where it stopped.
+ */
+export class BackfillService {
+  private dbService: DbService;
+  private easService: EasService;
+  private staleAfterMs: number;
+
+  /**
+   * @param staleAfterMs How long a running job may go without progress before another worker takes it over
+   */
+  constructor(dbService: DbService, easService: EasService, staleAfterMs: number = parseInt(config.BACKFILL_STALE_MS, 10) || 900000) {
+    this.dbService = dbService;
+    this.easService = easService;
+    this.staleAfterMs = staleAfterMs;
+  }
+
+  /**
+   * Queue a backfill job; the worker picks it up on its next run
+   */
+  async createJob(job: NewBackfillJob): Promise<BackfillJob> {
+    let created: BackfillJob | null;
+
+    try {
+      created = await this.dbService.createBackfillJob(job);
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.createBackfillJob failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        created = await supabaseService.createBackfillJob(job);
+      } else {
+        throw error;
+      }
+    }
+
+    if (!created) {
+      throw new Error(`Failed to create a backfill job for ${job.chain}`);
+    }
+
+    logger.info(`Created backfill job ${created.id} for ${created.chain} over ${this.describeRange(created)}`);
+    return created;
+  }
+
+  /**
+   * Get a backfill job by id
+   */
+  async getJob(id: number): Promise<BackfillJob | null> {
+    try {
+      return await this.dbService.getBackfillJob(id);
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.getBackfillJob failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        return supabaseService.getBackfillJob(id);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List backfill jobs, most recent first
+   */
+  async getJobs(params: BackfillJobQueryParams = {}): Promise<BackfillJob[]> {
+    try {
+      return await this.dbService.getBackfillJobs(params);
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.getBackfillJobs failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        return supabaseService.getBackfillJobs(params);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a pending or running job
+   *
+   * A running job stops after the page it is on; everything committed so far stays.
+   *
+   * @returns The cancelled job, or null if there is no such job or it has already finished
+   */
+  async cancelJob(id: number): Promise<BackfillJob | null> {
+    const job = await this.updateJob(id, { status: 'cancelled', finished_at: new Date() }, ['pending', 'running']);
+    if (job) {
+      logger.info(`Cancelled backfill job ${id} on ${job.chain}`);
+    }
+    return job;
+  }
+
+  /**
+   * Put a cancelled or failed job back in the queue to continue from its cursor
+   *
+   * @returns The pending job, or null if there is no such job or it is not cancelled or failed
+   */
+  async resumeJob(id: number): Promise<BackfillJob | null> {
+    const job = await this.updateJob(id, { status: 'pending', error: null, finished_at: null }, ['cancelled', 'failed']);
+    if (job) {
+      logger.info(`Resuming backfill job ${id} on ${job.chain} from ${this.describeCursor(job)}`);
+    }
+    return job;
+  }
+
+  /**
+   * Claim the oldest runnable job and run it
+   *
+   * @param deadline Optional time (ms since epoch) after which no new page is started;
+   *                 a job stopped there goes back to pending and resumes on a later run
+   * @returns The job as it was left, or null if there was nothing to run
+   */
+  async runNextJob(deadline?: number): Promise<BackfillJob | null> {
+    const job = await this.claimNextJob();
+    if (!job) {
+      return null;
+    }
+
+    logger.info(`Running backfill job ${job.id} on ${job.chain} over ${this.describeRange(job)} from ${this.describeCursor(job)}`);
+    return this.runJob(job, deadline);
+  }
+
+  /**
+   * Run a claimed job until it is done, cancelled, failed or out of time
+   */
+  private async runJob(job: BackfillJob, deadline?: number): Promise<BackfillJob> {
+    const run: BackfillRun = { job, holder: this.easService.getSyncLockHolder(), stopped: false, outOfTime: false };
+
+    try {
+      if (job.range_type === 'block') {
+        await this.runBlockRange(run, deadline);
+      } else {
+        await this.runTimestampRange(run, deadline);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`Backfill job ${job.id} on ${job.chain} failed: ${message}`);
+      return await this.updateJob(job.id, { status: 'failed', error: message, finished_at: new Date() }, ['running'], run.holder) ?? run.job;
+    }
+
+    if (run.stopped) {
+      // Cancelled or taken over while running; the job's state is recorded by whoever stopped it
+      return await this.getJob(job.id) ?? run.job;
+    }
+
+    if (run.outOfTime) {
+      logger.info(`Backfill job ${job.id} on ${job.chain} reached its deadline at ${this.describeCursor(run.job)}, resuming on a later run`);
+      return await this.updateJob(job.id, { status: 'pending' }, ['running'], run.holder) ?? run.job;
+    }
+
+    const finished = await this.updateJob(job.id, { status: 'completed', finished_at: new Date() }, ['running'], run.holder);
+    if (!finished) {
+      logger.info(`Backfill job ${job.id} on ${job.chain} was taken over before it could be completed`);
+      return await this.getJob(job.id) ?? run.job;
+    }
+    logger.info(`Backfill job ${job.id} on ${job.chain} completed: ${finished.pages_done} pages, ${finished.inserted} inserted, ${finished.updated} updated, ${finished.skipped} skipped, ${finished.failed} failed`);
+    return finished;
+  }
+
+  /**
+   * Walk the indexer over the job's timestamp range, committing a page at a time
+   */
+  private async runTimestampRange(run: BackfillRun, deadline?: number): Promise<void> {
+    const { job } = run;
+    const from = job.cursor_timestamp ?? job.from_timestamp ?? new Date(0);
+    const toUnix = job.to_timestamp ? Math.floor(new Date(job.to_timestamp).getTime() / 1000) : Infinity;
+    let reachedEnd = false;
+
+    await this.easService.walkAttestations(job.chain, PAGE_SIZE, new Date(from).toISOString(), {
+      afterUid: job.cursor_uid ?? undefined,
+      onPage: async (page) => {
+        const inRange = page.filter(attestation => parseInt(attestation.timeCreated) <= toUnix);
+        reachedEnd = inRange.length < page.length;
+
+        if (inRange.length === 0) {
+          return;
+        }
+
+        const batch = await this.easService.ingestBatch(job.chain, inRange, job.on_conflict);
+        const last = inRange[inRange.length - 1];
+        await this.saveProgress(run, batch, {
+          cursor_timestamp: new Date(parseInt(last.timeCreated) * 1000),
+          cursor_uid: last.id
+        });
+      },
+      shouldStop: () => reachedEnd || run.stopped || this.reachedDeadline(run, deadline)
+    });
+  }
+
+  /**
+   * Scan the job's block range of EAS contract logs, committing a block range at a time
+   *
+   * Without an end block the job runs to the chain head as of its first run.
+   */
+  private async runBlockRange(run: BackfillRun, deadline?: number): Promise<void> {
+    const blockRange = parseInt(config.EAS_LOG_BLOCK_RANGE, 10) || 2000;
+    const { job } = run;
+
+    let toBlock = job.to_block;
+    if (toBlock === null || toBlock === undefined) {
+      toBlock = await this.easService.getBlockNumber(job.chain);
+      const updated = await this.updateJob(job.id, { to_block: toBlock }, ['running'], run.holder);
+      if (!updated) {
+        run.stopped = true;
+        return;
+      }
+      run.job = updated;
+    }
+
+    let fromBlock = job.cursor_block !== null && job.cursor_block !== undefined ? job.cursor_block + 1 : job.from_block ?? 0;
+
+    while (fromBlock <= toBlock) {
+      const rangeEnd = Math.min(fromBlock + blockRange - 1, toBlock);
+      const { attested, revoked } = await this.easService.scanLogs(job.chain, fromBlock, rangeEnd);
+
+      const batch = attested.length > 0
+        ? await this.easService.ingestBatch(job.chain, attested, job.on_conflict)
+        : { inserted: 0, updated: 0, skipped: 0, failed: 0, rejected: 0 };
+
+      if (revoked.length > 0) {
+        await this.easService.recordRevocations(job.chain, revoked);
+      }
+
+      await this.saveProgress(run, batch, { cursor_block: rangeEnd });
+      fromBlock = rangeEnd + 1;
+
+      if (run.stopped || (fromBlock <= toBlock && this.reachedDeadline(run, deadline))) {
+        break;
+      }
+    }
+  }
+
+  /**
+   * Add a committed page to the job's counts and move its cursor
+   *
+   * Only called once ingestBatch has returned: a page with a row that was
+   * neither stored nor queued throws there and fails the job at its cursor.
+   *
+   * The write only applies while the job is still running under this
+   * worker, so a job that was cancelled or taken over in the meantime is
+   * marked stopped instead.
+   */
+  private async saveProgress(
+    run: BackfillRun,
+    batch: IngestionBatchResult,
+    cursor: BackfillJobUpdate
+  ): Promise<void> {
+    const updated = await this.updateJob(run.job.id, {
+      ...cursor,
+      pages_done: run.job.pages_done + 1,
+      inserted: run.job.inserted + batch.inserted,
+      updated: run.job.updated + batch.updated,
+      skipped: run.job.skipped + batch.skipped,
+      failed: run.job.failed + batch.failed
+    }, ['running'], run.holder);
+
+    if (updated) {
+      run.job = updated;
+    } else {
+      logger.info(`Backfill job ${run.job.id} on ${run.job.chain} is no longer running under ${run.holder}, stopping after page ${run.job.pages_done + 1}`);
+      run.stopped = true;
+    }
+  }
+
+  private reachedDeadline(run: BackfillRun, deadline?: number): boolean {
+    if (deadline !== undefined && Date.now() >= deadline) {
+      run.outOfTime = true;
+    }
+    return run.outOfTime;
+  }
+
+  private describeRange(job: BackfillJob): string {
+    if (job.range_type === 'block') {
+      return `blocks ${job.from_block ?? 0}-${job.to_block ?? 'head'}`;
+    }
+    const format = (value?: Date | null) => value ? new Date(value).toISOString() : '';
+    return `${format(job.from_timestamp) || 'the beginning'} to ${format(job.to_timestamp) || 'now'}`;
+  }
+
+  private describeCursor(job: BackfillJob): string {
+    if (job.range_type === 'block') {
+      return job.cursor_block !== null && job.cursor_block !== undefined ? `block ${job.cursor_block + 1}` : 'the start';
+    }
+    return job.cursor_timestamp ? `${new Date(job.cursor_timestamp).toISOString()} after ${job.cursor_uid}` : 'the start';
+  }
+
+  private async claimNextJob(): Promise<BackfillJob | null> {
+    const holder = this.easService.getSyncLockHolder();
+
+    try {
+      return await this.dbService.claimNextBackfillJob(holder, this.staleAfterMs);
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.claimNextBackfillJob failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        return supabaseService.claimNextBackfillJob(holder, this.staleAfterMs);
+      }
+      throw error;
+    }
+  }
+
+  private async updateJob(
+    id: number,
+    update: BackfillJobUpdate,
+    fromStatuses?: BackfillJobStatus[],
+    holder?: string
+  ): Promise<BackfillJob | null> {
+    try {
+      return await this.dbService.updateBackfillJob(id, update, fromStatuses, holder);
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.updateBackfillJob failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        return supabaseService.updateBackfillJob(id, update, fromStatuses, holder);
+      }
+      throw error;
+    }
+  }
+}
+
+export const backfillService = new BackfillService(dbService, easService);
@@ -0,0 +1,192 @@
+import { config } from '../config';
+import { ChainHeadSample, ChainLag, ChainLagStatus } from '../models/types';
+import { dbService, DbService } from './db.service';
+import { easService, EasService } from './eas.service';
+import { supabaseService } from './supabase.service';
+import { logger } from '../utils/logger';
+
+/**
+ * Lag, in seconds, at which a chain is reported as degraded or stalled
+ */
+export interface ChainLagThresholds {
+  degradedSeconds: number;
+  stalledSeconds: number;
+}
+
+const secondsBetween = (later: Date | null, earlier: Date | null): number | null =>
+  later && earlier ? Math.max(0, Math.round((new Date(later).getTime() - new Date(earlier).getTime()) / 1000)) : null;
+
+/**
+ * Compute a chain's lags from its latest sample and rate them against the thresholds
+ *
+ * The indexer lag is how far the indexer's newest attestation trails the
+ * chain head. The checkpoint lag is how far our watermark trails what there
+ * is to ingest: the indexer's newest location attestation, or the chain head
+ * in rpc mode. A chain is rated by the larger of the two.
+ */
+export function computeChainLag(
+  chain: string,
+  ingestionSource: 'indexer' | 'rpc',
+  sample: ChainHeadSample | null,
+  thresholds: ChainLagThresholds
+): ChainLag {
+  if (!sample) {
+    return { chain, ingestionSource, status: 'unknown', indexerLagSeconds: null, checkpointLagSeconds: null, checkpointLagBlocks: null, sample };
+  }
+
+  const indexerLagSeconds = secondsBetween(sample.head_timestamp, sample.indexer_latest_time);
+  let checkpointLagSeconds: number | null;
+  let checkpointLagBlocks: number | null = null;
+
+  if (ingestionSource === 'rpc') {
+    checkpointLagSeconds = secondsBetween(sample.head_timestamp, sample.checkpoint_timestamp);
+    if (sample.head_block !== null && sample.checkpoint_block !== null) {
+      checkpointLagBlocks = Math.max(0, sample.head_block - sample.checkpoint_block);
+    }
+  } else {
+    // Nothing of our schemas on the indexer means nothing to catch up on
+    checkpointLagSeconds = sample.indexer_schema_latest_time
+      ? secondsBetween(sample.indexer_schema_latest_time, sample.checkpoint_timestamp)
+      : 0;
+  }
+
+  const lags = [indexerLagSeconds, checkpointLagSeconds].filter((lag): lag is number => lag !== null);
+  let status: ChainLagStatus = 'unknown';
+  if (lags.length > 0) {
+    const worst = Math.max(...lags);
+    status = worst >= thresholds.stalledSeconds ? 'stalled' : worst >= thresholds.degradedSeconds ? 'degraded' : 'healthy';
+  }
+
+  return { chain, ingestionSource, status, indexerLagSeconds, checkpointLagSeconds, checkpointLagBlocks, sample };
+}
+
+/**
+ * Samples each chain's indexer, chain head and sync checkpoint to tell
+ * whether the indexer or our ingestion has fallen behind
+ *
+ * The latest sample per chain is kept in chain_heads, so every instance
+ * reports the lag the last worker saw.
+ */
+export class ChainMonitorService {
+  private dbService: DbService;
+  private easService: EasService;
+  private thresholds: ChainLagThresholds;
+
+  constructor(
+    dbService: DbService,
+    easService: EasService,
+    thresholds: ChainLagThresholds = {
+      degradedSeconds: parseInt(config.CHAIN_LAG_DEGRADED_SECONDS, 10) || 600,
+      stalledSeconds: parseInt(config.CHAIN_LAG_STALLED_SECONDS, 10) || 3600
+    }
+  ) {
+    this.dbService = dbService;
+    this.easService = easService;
+    this.thresholds = thresholds;
+  }
+
+  /**
+   * Sample every ingestion chain and store the samples
+   *
+   * A chain that cannot be fully sampled is stored with what was measured
+   * and the error.
+   */
+  async sampleChains(): Promise<ChainHeadSample[]> {
+    const samples: ChainHeadSample[] = [];
+    for (const chain of this.easService.getIngestionChains()) {
+      samples.push(await this.sampleChain(chain));
+    }
+    return samples;
+  }
+
+  /**
+   * Sample a chain's indexer, chain head and sync checkpoint and store the sample
+   */
+  async sampleChain(chain: string): Promise<ChainHeadSample> {
+    const errors: string[] = [];
+    const attempt = async <T>(what: string, probe: () => Promise<T>): Promise<T | null> => {
+      try {
+        return await probe();
+      } catch (error) {
+        errors.push(`${what}: ${error instanceof Error ? error.message : String(error)}`);
+        return null;
+      }
+    };
+
+    const indexer = await attempt('indexer', () => this.easService.getIndexerHead(chain));
+    const head = await attempt('chain head', () => this.easService.getBlockTime(chain, 'latest'));
+    const checkpoints = await attempt('checkpoint', () => this.easService.getSyncCheckpoints());
+    const checkpoint = checkpoints?.find(row => row.chain === chain && row.schema_uid === this.easService.getSchemaUid(chain));
+
+    let checkpointTimestamp = checkpoint?.last_timestamp ? new Date(checkpoint.last_timestamp) : null;
+    const checkpointBlock = checkpoint?.last_block ?? null;
+    if (this.easService.getIngestionSource(chain) === 'rpc' && checkpointBlock !== null) {
+      // The rpc watermark is a block; its time makes it comparable with the head
+      checkpointTimestamp = (await attempt('checkpoint block', () => this.easService.getBlockTime(chain, checkpointBlock)))?.timestamp ?? null;
+    }
+
+    const sample: ChainHeadSample = {
+      chain,
+      indexer_latest_time: indexer?.latest ?? null,
+      indexer_schema_latest_time: indexer?.latestOfSchemas ?? null,
+      head_block: head?.number ?? null,
+      head_timestamp: head?.timestamp ?? null,
+      checkpoint_timestamp: checkpointTimestamp,
+      checkpoint_block: checkpointBlock,
+      error: errors.length > 0 ? errors.join('; ') : null,
+      checked_at: new Date()
+    };
+
+    if (sample.error) {
+      logger.warn(`Could not fully sample ${chain} for lag monitoring: ${sample.error}`);
+    }
+
+    const lag = computeChainLag(chain, this.easService.getIngestionSource(chain), sample, this.thresholds);
+    if (lag.status === 'degraded' || lag.status === 'stalled') {
+      logger.warn(`Chain ${chain} is ${lag.status}: indexer lag ${lag.indexerLagSeconds ?? '?'}s, checkpoint lag ${lag.checkpointLagSeconds ?? '?'}s`);
+    }
+
+    return await this.saveSample(sample) ?? sample;
+  }
+
+  /**
+   * Get the lags of every ingestion chain from their latest samples
+   */
+  async getChainLags(): Promise<ChainLag[]> {
+    const samples = await this.getSamples();
+    return this.easService.getIngestionChains().sort().map(chain => computeChainLag(
+      chain,
+      this.easService.getIngestionSource(chain),
+      samples.find(sample => sample.chain === chain) ?? null,
+      this.thresholds
+    ));
+  }
+
+  private async saveSample(sample: ChainHeadSample): Promise<ChainHeadSample | null> {
+    try {
+      return await this.dbService.upsertChainHead(sample);
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.upsertChainHead failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        return supabaseService.upsertChainHead(sample);
+      }
+      throw error;
+    }
+  }
+
+  private async getSamples(): Promise<ChainHeadSample[]> {
+    try {
+      return await this.dbService.getChainHeads();
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.getChainHeads failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        return supabaseService.getChainHeads();
+      }
+      throw error;
+    }
+  }
+}
+
+export const chainMonitorService = new ChainMonitorService(dbService, easService);
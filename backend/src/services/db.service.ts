@@ -1,8 +1,60 @@
 import { Pool, PoolClient } from 'pg';
 import { config } from '../config';
-import { LocationProof, LocationProofQueryParams } from '../models/types';
+import {
+  ArchivedAttestation,
+  BackfillJob,
+  BackfillJobQueryParams,
+  BackfillJobStatus,
+  BackfillJobUpdate,
+  ChainHeadSample,
+  IngestionFailure,
+  IngestionFailureQueryParams,
+  IngestionFailureStage,
+  EASAttestation,
+  GeoJSONGeometry,
+  LocationProof,
+  LocationProofBatchResult,
+  LocationProofConflictMode,
+  LocationProofQueryParams,
+  NewBackfillJob,
+  ReprocessQueryParams,
+  RevocationEvent,
+  SyncCheckpoint,
+  SyncLock,
+  SyncLockJob
+} from '../models/types';
 import { logger } from '../utils/logger';
 
+// GeoJSON text of a converted proof's geometry; geometry read back from the database is left out
+const geometryJson = (proof: Pick<LocationProof, 'geometry'>): string | null =>
+  proof.geometry && typeof proof.geometry === 'object' ? JSON.stringify(proof.geometry) : null;
+
+// The stored geometry: the full GeoJSON geometry, or else a point from the coordinates
+const geometrySql = (geojson: string, longitude: string, latitude: string): string =>
+  `COALESCE(ST_SetSRID(ST_GeomFromGeoJSON(CAST(${geojson} AS TEXT)), 4326), ` +
+  `ST_SetSRID(ST_MakePoint(CAST(${longitude} AS NUMERIC), CAST(${latitude} AS NUMERIC)), 4326))`;
+
+// Source CRS columns of a proof, kept for round-tripping reprojected locations
+const sourceSrsValues = (proof: Pick<LocationProof, 'source_srs' | 'source_geometry' | 'srs_status'>) => [
+  proof.source_srs ?? null,
+  proof.source_geometry ? JSON.stringify(proof.source_geometry) : null,
+  proof.srs_status ?? null
+];
+
+// Proof columns rewritten when a batched write updates a stored proof
+const UPSERT_UPDATE_COLUMNS = [
+  'prover', 'subject', 'timestamp', 'event_timestamp', 'srs', 'location_type', 'location',
+  'longitude', 'latitude', 'altitude', 'source_srs', 'source_geometry', 'srs_status', 'quality_flags', 'recipe_types', 'recipe_payloads', 'media_types', 'media_data', 'memo',
+  'revoked', 'revocation_time', 'revoker', 'expiration_time', 'schema_uid', 'schema_version'
+];
+
+// Backfill job columns a job update may set
+const BACKFILL_JOB_UPDATE_COLUMNS: Array<keyof BackfillJobUpdate> = [
+  'from_timestamp', 'to_timestamp', 'from_block', 'to_block', 'on_conflict', 'status', 'holder',
+  'cursor_timestamp', 'cursor_uid', 'cursor_block', 'pages_done', 'inserted', 'updated', 'skipped', 'failed',
+  'error', 'started_at', 'finished_at'
+];
+
 /**
  * Database service for managing location proof data
  */
@@ -37,15 +89,8 @@ export class DbService {
     try {
       await client.query('BEGIN');
       
-      // Create the geometry from longitude and latitude if available
-      let geometrySql = 'NULL';
-      let hasCoordinates = false;
-      
-      if (proof.longitude && proof.latitude) {
-        // Both coordinates are available, use them to create a geometry
-        geometrySql = `ST_SetSRID(ST_MakePoint(CAST($1 AS NUMERIC), CAST($2 AS NUMERIC)), 4326)`;
-        hasCoordinates = true;
-      }
+      // Coordinates are only stored as a pair
+      const hasCoordinates = proof.longitude != null && proof.latitude != null;
       
       // Construct query based on whether we have coordinates
       let query;
@@ -54,14 +99,18 @@ export class DbService {
           INSERT INTO location_proofs (
             uid, chain, prover, subject, timestamp, event_timestamp, 
             srs, location_type, location, longitude, latitude, geometry,
-            recipe_types, recipe_payloads, media_types, media_data, memo, revoked
+            recipe_types, recipe_payloads, media_types, media_data, memo, revoked,
+            block_number, block_hash, schema_uid, schema_version, origin,
+            revocation_time, revoker, expiration_time, source_srs, source_geometry, srs_status, quality_flags, altitude
           ) VALUES (
             $3, $4, $5, $6, $7, $8, 
             $9, $10, $11, 
             CAST($1 AS NUMERIC), 
             CAST($2 AS NUMERIC), 
-            ${geometrySql},
-            $12, $13, $14, $15, $16, $17
+            ${geometrySql('$26', '$1', '$2')},
+            $12, $13, $14, $15, $16, $17,
+            $18, $19, $20, $21, $22,
+            $23, $24, $25, $27, $28, $29, $30, $31
           )
           RETURNING *;
         `;
@@ -70,12 +119,17 @@ export class DbService {
         query = `
           INSERT INTO location_proofs (
             uid, chain, prover, subject, timestamp, event_timestamp, 
-            srs, location_type, location,
-            recipe_types, recipe_payloads, media_types, media_data, memo, revoked
+            srs, location_type, location, geometry,
+            recipe_types, recipe_payloads, media_types, media_data, memo, revoked,
+            block_number, block_hash, schema_uid, schema_version, origin,
+            revocation_time, revoker, expiration_time, source_srs, source_geometry, srs_status, quality_flags, altitude
           ) VALUES (
             $3, $4, $5, $6, $7, $8, 
             $9, $10, $11, 
-            $12, $13, $14, $15, $16, $17
+            ST_SetSRID(ST_GeomFromGeoJSON(CAST($26 AS TEXT)), 4326),
+            $12, $13, $14, $15, $16, $17,
+            $18, $19, $20, $21, $22,
+            $23, $24, $25, $27, $28, $29, $30, $31
           )
           RETURNING *;
         `;
@@ -106,7 +160,19 @@ export class DbService {
         proof.media_types ? JSON.stringify(proof.media_types) : null,
         proof.media_data ? JSON.stringify(proof.media_data) : null,
         proof.memo || null,
-        proof.revoked || false
+        proof.revoked || false,
+        proof.block_number ?? null,
+        proof.block_hash || null,
+        proof.schema_uid || null,
+        proof.schema_version || null,
+        proof.origin || 'onchain',
+        proof.revocation_time ? proof.revocation_time.toISOString() : null,
+        proof.revoker || null,
+        proof.expiration_time ? proof.expiration_time.toISOString() : null,
+        geometryJson(proof),
+        ...sourceSrsValues(proof),
+        proof.quality_flags ?? [],
+        proof.altitude ?? null
       ];
       
       const result = await client.query(query, values);
@@ -122,6 +188,111 @@ export class DbService {
     }
   }
 
+  /**
+   * Write a batch of location proofs with one INSERT ... ON CONFLICT (uid)
+   *
+   * In 'skip' mode stored proofs are left alone. In 'update' mode they are
+   * rewritten, but only if their content changed; unchanged ones count as
+   * skipped, as do repeats of a UID within the batch.
+   */
+  async upsertLocationProofs(
+    proofs: Array<Omit<LocationProof, 'created_at' | 'updated_at'> | LocationProof>,
+    onConflict: LocationProofConflictMode = 'skip'
+  ): Promise<LocationProofBatchResult> {
+    // One statement cannot touch a row twice, so keep the last proof per UID
+    const unique = [...new Map(proofs.map(proof => [proof.uid, proof])).values()];
+    const result: LocationProofBatchResult = { inserted: 0, updated: 0, skipped: proofs.length - unique.length, uids: [] };
+    
+    if (unique.length === 0) {
+      return result;
+    }
+    
+    const values: unknown[] = [];
+    const rows = unique.map(proof => {
+      // Coordinates are only stored as a pair; the geometry is the full shape, or else built from them
+      const hasCoordinates = proof.longitude != null && proof.latitude != null;
+      const params = [
+        proof.uid,
+        proof.chain,
+        proof.prover,
+        proof.subject || null,
+        proof.timestamp ? proof.timestamp.toISOString() : null,
+        proof.event_timestamp ? proof.event_timestamp.toISOString() : new Date().toISOString(),
+        proof.srs || null,
+        proof.location_type,
+        proof.location,
+        hasCoordinates ? proof.longitude : null,
+        hasCoordinates ? proof.latitude : null,
+        proof.recipe_types ? JSON.stringify(proof.recipe_types) : null,
+        proof.recipe_payloads ? JSON.stringify(proof.recipe_payloads) : null,
+        proof.media_types ? JSON.stringify(proof.media_types) : null,
+        proof.media_data ? JSON.stringify(proof.media_data) : null,
+        proof.memo || null,
+        proof.revoked || false,
+        proof.block_number ?? null,
+        proof.block_hash || null,
+        proof.schema_uid || null,
+        proof.schema_version || null,
+        proof.origin || 'onchain',
+        proof.revocation_time ? proof.revocation_time.toISOString() : null,
+        proof.revoker || null,
+        proof.expiration_time ? proof.expiration_time.toISOString() : null,
+        ...sourceSrsValues(proof),
+        proof.quality_flags ?? [],
+        proof.altitude ?? null,
+        geometryJson(proof)
+      ];
+      
+      const placeholders = params.map((_, index) => `$${values.length + index + 1}`);
+      const [longitude, latitude, geojson] = [placeholders[9], placeholders[10], placeholders.pop()!];
+      placeholders.splice(9, 2,
+        `CAST(${longitude} AS NUMERIC)`,
+        `CAST(${latitude} AS NUMERIC)`,
+        geometrySql(geojson, longitude, latitude)
+      );
+      values.push(...params);
+      return `(${placeholders.join(', ')})`;
+    });
+    
+    const conflictClause = onConflict === 'update'
+      ? `DO UPDATE SET
+          ${UPSERT_UPDATE_COLUMNS.map(column => `${column} = EXCLUDED.${column}`).join(',\n          ')},
+          geometry = EXCLUDED.geometry,
+          block_number = COALESCE(EXCLUDED.block_number, location_proofs.block_number),
+          block_hash = COALESCE(EXCLUDED.block_hash, location_proofs.block_hash)
+        WHERE (${UPSERT_UPDATE_COLUMNS.map(column => `location_proofs.${column}`).join(', ')})
+          IS DISTINCT FROM (${UPSERT_UPDATE_COLUMNS.map(column => `EXCLUDED.${column}`).join(', ')})`
+      : 'DO NOTHING';
+    
+    // xmax is 0 for freshly inserted rows and set for updated ones
+    const query = `
+      INSERT INTO location_proofs (
+        uid, chain, prover, subject, timestamp, event_timestamp,
+        srs, location_type, location, longitude, latitude, geometry,
+        recipe_types, recipe_payloads, media_types, media_data, memo, revoked,
+        block_number, block_hash, schema_uid, schema_version, origin,
+        revocation_time, revoker, expiration_time, source_srs, source_geometry, srs_status, quality_flags, altitude
+      ) VALUES
+        ${rows.join(',\n        ')}
+      ON CONFLICT (uid) ${conflictClause}
+      RETURNING uid, (xmax = 0) AS inserted;
+    `;
+    
+    const { rows: written } = await this.pool.query(query, values);
+    
+    for (const row of written) {
+      if (row.inserted) {
+        result.inserted++;
+      } else {
+        result.updated++;
+      }
+      result.uids.push(row.uid);
+    }
+    result.skipped += unique.length - written.length;
+    
+    return result;
+  }
+
   /**
    * Get a location proof by its UID
    */
@@ -132,6 +303,18 @@ export class DbService {
     return result.rows[0] as LocationProof || null;
   }
 
+  /**
+   * Get the stored geometry of a location proof as GeoJSON
+   * 
+   * @returns The geometry, or null if there is no such proof or it has no geometry
+   */
+  async getLocationProofGeometry(uid: string): Promise<GeoJSONGeometry | null> {
+    const query = 'SELECT ST_AsGeoJSON(geometry) AS geometry FROM location_proofs WHERE uid = $1';
+    const result = await this.pool.query(query, [uid]);
+    
+    return result.rows[0]?.geometry ? JSON.parse(result.rows[0].geometry) : null;
+  }
+
   /**
    * Query location proofs with optional filters
    */
@@ -156,6 +339,11 @@ export class DbService {
       values.push(params.subject);
     }
     
+    if (params.schemaVersion) {
+      query += ` AND schema_version = $${valueIndex++}`;
+      values.push(params.schemaVersion);
+    }
+    
     if (params.fromTimestamp) {
       query += ` AND event_timestamp >= $${valueIndex++}`;
       values.push(params.fromTimestamp);
@@ -166,11 +354,40 @@ export class DbService {
       values.push(params.toTimestamp);
     }
     
+    if (params.validAt) {
+      // Attested by then, and not yet revoked or expired
+      const at = `$${valueIndex++}`;
+      query += ` AND (timestamp IS NULL OR timestamp <= ${at})`;
+      query += ` AND (revoked = FALSE OR revocation_time > ${at})`;
+      query += ` AND (expiration_time IS NULL OR expiration_time > ${at})`;
+      values.push(params.validAt);
+    }
+    
     if (params.bbox) {
       query += ` AND geometry && ST_MakeEnvelope($${valueIndex++}, $${valueIndex++}, $${valueIndex++}, $${valueIndex++}, 4326)`;
       values.push(params.bbox[0], params.bbox[1], params.bbox[2], params.bbox[3]);
     }
     
+    if (params.minAltitude !== undefined) {
+      query += ` AND altitude >= $${valueIndex++}`;
+      values.push(params.minAltitude);
+    }
+    
+    if (params.maxAltitude !== undefined) {
+      query += ` AND altitude <= $${valueIndex++}`;
+      values.push(params.maxAltitude);
+    }
+    
+    if (params.quality && params.quality.length > 0) {
+      // Any of the flags, or none for proofs without flags
+      const conditions = [`quality_flags && $${valueIndex++}::text[]`];
+      values.push(params.quality.filter(flag => flag !== 'none'));
+      if (params.quality.includes('none')) {
+        conditions.push('cardinality(quality_flags) = 0');
+      }
+      query += ` AND (${conditions.join(' OR ')})`;
+    }
+    
     // Order by event timestamp (newest first)
     query += ' ORDER BY event_timestamp DESC';
     
@@ -240,22 +457,110 @@ export class DbService {
   }
 
   /**
-   * Get active (non-revoked) location proofs for a specific chain
+   * Mark location proofs revoked, recording when and by whom
+   * 
+   * UIDs that are not stored are ignored.
+   * 
+   * @returns Number of proofs updated
+   */
+  async recordRevocations(revocations: RevocationEvent[]): Promise<number> {
+    if (revocations.length === 0) {
+      return 0;
+    }
+    
+    const query = `
+      UPDATE location_proofs AS p
+      SET revoked = TRUE, revocation_time = r.revocation_time, revoker = r.revoker,
+        revocation_block = r.revocation_block, revocation_block_hash = r.revocation_block_hash, updated_at = NOW()
+      FROM UNNEST($1::VARCHAR[], $2::TIMESTAMPTZ[], $3::VARCHAR[], $4::BIGINT[], $5::VARCHAR[])
+        AS r(uid, revocation_time, revoker, revocation_block, revocation_block_hash)
+      WHERE p.uid = r.uid
+    `;
+    const result = await this.pool.query(query, [
+      revocations.map(revocation => revocation.uid),
+      revocations.map(revocation => revocation.revocationTime.toISOString()),
+      revocations.map(revocation => revocation.revoker),
+      revocations.map(revocation => revocation.blockNumber ?? null),
+      revocations.map(revocation => revocation.blockHash ?? null)
+    ]);
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Get the distinct inclusion and revocation blocks of proofs stored for a chain from a block onwards
+   * 
+   * @param chain The chain to filter by
+   * @param fromBlock First block to include
+   * @returns Block numbers with the block hash recorded at ingestion or revocation time
+   */
+  async getLocationProofBlocks(chain: string, fromBlock: number): Promise<Array<{ block_number: number; block_hash: string | null }>> {
+    const query = `
+      SELECT block_number, block_hash FROM location_proofs
+      WHERE chain = $1 AND block_number >= $2
+      UNION
+      SELECT revocation_block, revocation_block_hash FROM location_proofs
+      WHERE chain = $1 AND revocation_block >= $2
+      ORDER BY block_number
+    `;
+    const result = await this.pool.query(query, [chain, fromBlock]);
+    
+    // BIGINT comes back from pg as a string
+    return result.rows.map(row => ({ block_number: Number(row.block_number), block_hash: row.block_hash }));
+  }
+
+  /**
+   * Delete the proofs of a chain that were included in the given blocks
+   * 
+   * @returns Number of proofs deleted
+   */
+  async deleteLocationProofsInBlocks(chain: string, blockNumbers: number[]): Promise<number> {
+    if (blockNumbers.length === 0) {
+      return 0;
+    }
+    
+    const query = 'DELETE FROM location_proofs WHERE chain = $1 AND block_number = ANY($2::BIGINT[])';
+    const result = await this.pool.query(query, [chain, blockNumbers]);
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Undo the revocations of a chain that were recorded from the given blocks
+   * 
+   * @returns Number of proofs no longer revoked
+   */
+  async clearRevocationsInBlocks(chain: string, blockNumbers: number[]): Promise<number> {
+    if (blockNumbers.length === 0) {
+      return 0;
+    }
+    
+    const query = `
+      UPDATE location_proofs
+      SET revoked = FALSE, revocation_time = NULL, revoker = NULL,
+        revocation_block = NULL, revocation_block_hash = NULL, updated_at = NOW()
+      WHERE chain = $1 AND revocation_block = ANY($2::BIGINT[])
+    `;
+    const result = await this.pool.query(query, [chain, blockNumbers]);
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Get active (non-revoked) location proofs for a specific chain, in UID order
    * 
    * @param chain The chain to filter by
    * @param limit Maximum number of proofs to retrieve
+   * @param afterUid Only return proofs after this UID (to page through all of them)
    * @returns Array of active location proofs
    */
-  async getActiveLocationProofs(chain: string, limit: number = 100): Promise<LocationProof[]> {
+  async getActiveLocationProofs(chain: string, limit: number = 100, afterUid: string = ''): Promise<LocationProof[]> {
     try {
       const query = `
         SELECT * FROM location_proofs
-        WHERE chain = $1 AND revoked = FALSE
-        ORDER BY timestamp DESC
+        WHERE chain = $1 AND revoked = FALSE AND uid > $3
+        ORDER BY uid
         LIMIT $2
       `;
       
-      const result = await this.pool.query(query, [chain, limit]);
+      const result = await this.pool.query(query, [chain, limit, afterUid]);
       return result.rows as LocationProof[];
     } catch (error) {
       logger.error('Error getting active location proofs:', error);
@@ -263,6 +568,630 @@ export class DbService {
     }
   }
 
+  /**
+   * Get the fields ingestion policies look at of a page of stored proofs, in UID order
+   * 
+   * @param params Chain to filter by, afterUid cursor and limit (default 100)
+   */
+  async getLocationProofPolicyFields(
+    params: Pick<ReprocessQueryParams, 'chain' | 'afterUid' | 'limit'> = {}
+  ): Promise<Array<Pick<LocationProof, 'uid' | 'chain' | 'prover' | 'subject' | 'location_type' | 'recipe_types'>>> {
+    let query = `
+      SELECT uid, chain, prover, subject, location_type, recipe_types FROM location_proofs
+      WHERE uid > $1
+    `;
+    const values: unknown[] = [params.afterUid ?? ''];
+    let valueIndex = 2;
+    
+    if (params.chain) {
+      query += ` AND chain = $${valueIndex++}`;
+      values.push(params.chain);
+    }
+    
+    query += ` ORDER BY uid LIMIT $${valueIndex++}`;
+    values.push(params.limit ?? 100);
+    
+    const result = await this.pool.query(query, values);
+    return result.rows;
+  }
+
+  /**
+   * Get the sync checkpoint for a chain and schema
+   * 
+   * @param chain The chain identifier
+   * @param schemaUid The schema UID being ingested
+   * @returns The checkpoint, or null if the chain has never been synced
+   */
+  async getSyncCheckpoint(chain: string, schemaUid: string): Promise<SyncCheckpoint | null> {
+    const query = 'SELECT * FROM sync_checkpoints WHERE chain = $1 AND schema_uid = $2';
+    const result = await this.pool.query(query, [chain, schemaUid]);
+    
+    return result.rows[0] ? this.toSyncCheckpoint(result.rows[0]) : null;
+  }
+
+  /**
+   * Get all sync checkpoints
+   */
+  async getSyncCheckpoints(): Promise<SyncCheckpoint[]> {
+    const query = 'SELECT * FROM sync_checkpoints ORDER BY chain, schema_uid';
+    const result = await this.pool.query(query);
+    
+    return result.rows.map(row => this.toSyncCheckpoint(row));
+  }
+
+  /**
+   * Create or update the sync checkpoint for a chain and schema
+   * 
+   * Fields that are not provided keep their stored value.
+   */
+  async upsertSyncCheckpoint(checkpoint: Partial<SyncCheckpoint> & Pick<SyncCheckpoint, 'chain' | 'schema_uid'>): Promise<SyncCheckpoint> {
+    const query = `
+      INSERT INTO sync_checkpoints (
+        chain, schema_uid, last_timestamp, last_uid,
+        last_run_at, last_run_status, last_run_count, last_error, last_block,
+        last_revocation_time, last_revocation_uid
+      ) VALUES ($1, $2, $3, $4, $5, $6, COALESCE($7, 0), $8, $9, $10, $11)
+      ON CONFLICT (chain, schema_uid) DO UPDATE SET
+        last_timestamp = COALESCE(EXCLUDED.last_timestamp, sync_checkpoints.last_timestamp),
+        last_uid = COALESCE(EXCLUDED.last_uid, sync_checkpoints.last_uid),
+        last_block = COALESCE(EXCLUDED.last_block, sync_checkpoints.last_block),
+        last_revocation_time = COALESCE(EXCLUDED.last_revocation_time, sync_checkpoints.last_revocation_time),
+        last_revocation_uid = COALESCE(EXCLUDED.last_revocation_uid, sync_checkpoints.last_revocation_uid),
+        last_run_at = COALESCE(EXCLUDED.last_run_at, sync_checkpoints.last_run_at),
+        last_run_status = COALESCE(EXCLUDED.last_run_status, sync_checkpoints.last_run_status),
+        last_run_count = COALESCE($7, sync_checkpoints.last_run_count),
+        last_error = CASE WHEN EXCLUDED.last_run_status IS NULL THEN sync_checkpoints.last_error ELSE EXCLUDED.last_error END
+      RETURNING *;
+    `;
+    
+    const values = [
+      checkpoint.chain,
+      checkpoint.schema_uid,
+      checkpoint.last_timestamp ? checkpoint.last_timestamp.toISOString() : null,
+      checkpoint.last_uid || null,
+      checkpoint.last_run_at ? checkpoint.last_run_at.toISOString() : null,
+      checkpoint.last_run_status || null,
+      checkpoint.last_run_count ?? null,
+      checkpoint.last_error || null,
+      checkpoint.last_block ?? null,
+      checkpoint.last_revocation_time ? checkpoint.last_revocation_time.toISOString() : null,
+      checkpoint.last_revocation_uid || null
+    ];
+    
+    const result = await this.pool.query(query, values);
+    return this.toSyncCheckpoint(result.rows[0]);
+  }
+
+  /**
+   * Convert a sync_checkpoints row (BIGINT comes back from pg as a string)
+   */
+  private toSyncCheckpoint(row: Record<string, unknown>): SyncCheckpoint {
+    return {
+      ...(row as unknown as SyncCheckpoint),
+      last_block: row.last_block !== null && row.last_block !== undefined ? Number(row.last_block) : null
+    };
+  }
+
+  /**
+   * Take a chain's sync lease if it is free, expired or already held by the holder
+   * 
+   * @returns The lease, or null if someone else holds it
+   */
+  async acquireSyncLock(chain: string, job: SyncLockJob, holder: string, ttlMs: number): Promise<SyncLock | null> {
+    const query = `
+      INSERT INTO sync_locks (chain, job, holder, acquired_at, expires_at)
+      VALUES ($1, $2, $3, NOW(), NOW() + $4 * INTERVAL '1 millisecond')
+      ON CONFLICT (chain, job) DO UPDATE SET
+        holder = EXCLUDED.holder,
+        acquired_at = EXCLUDED.acquired_at,
+        expires_at = EXCLUDED.expires_at
+      WHERE sync_locks.expires_at <= NOW() OR sync_locks.holder = EXCLUDED.holder
+      RETURNING *;
+    `;
+    const result = await this.pool.query(query, [chain, job, holder, ttlMs]);
+    
+    return (result.rows[0] as SyncLock) || null;
+  }
+
+  /**
+   * Extend a sync lease the holder still has
+   * 
+   * @returns False if the lease expired and was taken over
+   */
+  async renewSyncLock(chain: string, job: SyncLockJob, holder: string, ttlMs: number): Promise<boolean> {
+    const result = await this.pool.query(
+      "UPDATE sync_locks SET expires_at = NOW() + $4 * INTERVAL '1 millisecond' WHERE chain = $1 AND job = $2 AND holder = $3",
+      [chain, job, holder, ttlMs]
+    );
+    
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Give up a sync lease; the row stays as a record of the last holder
+   */
+  async releaseSyncLock(chain: string, job: SyncLockJob, holder: string): Promise<void> {
+    await this.pool.query(
+      'UPDATE sync_locks SET expires_at = NOW() WHERE chain = $1 AND job = $2 AND holder = $3',
+      [chain, job, holder]
+    );
+  }
+
+  /**
+   * Get all sync leases, held or not
+   */
+  async getSyncLocks(): Promise<SyncLock[]> {
+    const result = await this.pool.query('SELECT * FROM sync_locks ORDER BY chain, job');
+    
+    return result.rows as SyncLock[];
+  }
+
+  /**
+   * Replace a chain's lag sample
+   */
+  async upsertChainHead(sample: ChainHeadSample): Promise<ChainHeadSample> {
+    const query = `
+      INSERT INTO chain_heads (
+        chain, indexer_latest_time, indexer_schema_latest_time, head_block, head_timestamp,
+        checkpoint_timestamp, checkpoint_block, error, checked_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      ON CONFLICT (chain) DO UPDATE SET
+        indexer_latest_time = EXCLUDED.indexer_latest_time,
+        indexer_schema_latest_time = EXCLUDED.indexer_schema_latest_time,
+        head_block = EXCLUDED.head_block,
+        head_timestamp = EXCLUDED.head_timestamp,
+        checkpoint_timestamp = EXCLUDED.checkpoint_timestamp,
+        checkpoint_block = EXCLUDED.checkpoint_block,
+        error = EXCLUDED.error,
+        checked_at = EXCLUDED.checked_at
+      RETURNING *;
+    `;
+    const values = [
+      sample.chain,
+      sample.indexer_latest_time,
+      sample.indexer_schema_latest_time,
+      sample.head_block,
+      sample.head_timestamp,
+      sample.checkpoint_timestamp,
+      sample.checkpoint_block,
+      sample.error,
+      sample.checked_at
+    ];
+    const result = await this.pool.query(query, values);
+    
+    return this.toChainHead(result.rows[0]);
+  }
+
+  /**
+   * Get the latest lag sample of every chain
+   */
+  async getChainHeads(): Promise<ChainHeadSample[]> {
+    const result = await this.pool.query('SELECT * FROM chain_heads ORDER BY chain');
+    
+    return result.rows.map(row => this.toChainHead(row));
+  }
+
+  /**
+   * Convert a chain_heads row (BIGINT comes back from pg as a string)
+   */
+  private toChainHead(row: Record<string, unknown>): ChainHeadSample {
+    const toNumber = (value: unknown) => value !== null && value !== undefined ? Number(value) : null;
+    return {
+      ...(row as unknown as ChainHeadSample),
+      head_block: toNumber(row.head_block),
+      checkpoint_block: toNumber(row.checkpoint_block)
+    };
+  }
+
+  /**
+   * Add an attestation to the ingestion dead-letter queue
+   * 
+   * A UID that already failed on the chain is updated in place: the attempt
+   * count goes up and it is pending again with the latest stage and error.
+   */
+  async recordIngestionFailure(
+    chain: string,
+    attestation: EASAttestation,
+    stage: IngestionFailureStage,
+    error: string,
+    errorCode?: string
+  ): Promise<IngestionFailure> {
+    const query = `
+      INSERT INTO ingestion_failures (chain, uid, stage, error, attestation, error_code)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (chain, uid) DO UPDATE SET
+        stage = EXCLUDED.stage,
+        error = EXCLUDED.error,
+        error_code = EXCLUDED.error_code,
+        attestation = EXCLUDED.attestation,
+        attempts = ingestion_failures.attempts + 1,
+        status = 'pending',
+        last_failed_at = NOW(),
+        resolved_at = NULL
+      RETURNING *;
+    `;
+    const result = await this.pool.query(query, [chain, attestation.id, stage, error, JSON.stringify(attestation), errorCode ?? null]);
+    
+    return this.toIngestionFailure(result.rows[0]);
+  }
+
+  /**
+   * List ingestion failures, most recent first
+   */
+  async getIngestionFailures(params: IngestionFailureQueryParams = {}): Promise<IngestionFailure[]> {
+    let query = 'SELECT * FROM ingestion_failures WHERE true';
+    const values: unknown[] = [];
+    let valueIndex = 1;
+    
+    if (params.chain) {
+      query += ` AND chain = $${valueIndex++}`;
+      values.push(params.chain);
+    }
+    
+    if (params.status) {
+      query += ` AND status = $${valueIndex++}`;
+      values.push(params.status);
+    }
+    
+    query += ` ORDER BY last_failed_at DESC, id DESC LIMIT $${valueIndex++} OFFSET $${valueIndex++}`;
+    values.push(params.limit ?? 50, params.offset ?? 0);
+    
+    const result = await this.pool.query(query, values);
+    return result.rows.map(row => this.toIngestionFailure(row));
+  }
+
+  /**
+   * Get an ingestion failure by id
+   */
+  async getIngestionFailure(id: number): Promise<IngestionFailure | null> {
+    const result = await this.pool.query('SELECT * FROM ingestion_failures WHERE id = $1', [id]);
+    
+    return result.rows[0] ? this.toIngestionFailure(result.rows[0]) : null;
+  }
+
+  /**
+   * Mark an ingestion failure resolved after a successful retry
+   */
+  async resolveIngestionFailure(id: number): Promise<void> {
+    await this.pool.query(
+      "UPDATE ingestion_failures SET status = 'resolved', resolved_at = NOW() WHERE id = $1",
+      [id]
+    );
+  }
+
+  /**
+   * Convert an ingestion_failures row (BIGSERIAL comes back from pg as a string)
+   */
+  private toIngestionFailure(row: Record<string, unknown>): IngestionFailure {
+    return {
+      ...(row as unknown as IngestionFailure),
+      id: Number(row.id)
+    };
+  }
+
+  /**
+   * Create a pending backfill job
+   */
+  async createBackfillJob(job: NewBackfillJob): Promise<BackfillJob> {
+    const query = `
+      INSERT INTO backfill_jobs (chain, range_type, from_timestamp, to_timestamp, from_block, to_block, on_conflict)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *;
+    `;
+    const values = [
+      job.chain,
+      job.range_type,
+      job.from_timestamp ?? null,
+      job.to_timestamp ?? null,
+      job.from_block ?? null,
+      job.to_block ?? null,
+      job.on_conflict ?? 'skip'
+    ];
+    const result = await this.pool.query(query, values);
+    
+    return this.toBackfillJob(result.rows[0]);
+  }
+
+  /**
+   * Get a backfill job by id
+   */
+  async getBackfillJob(id: number): Promise<BackfillJob | null> {
+    const result = await this.pool.query('SELECT * FROM backfill_jobs WHERE id = $1', [id]);
+    
+    return result.rows[0] ? this.toBackfillJob(result.rows[0]) : null;
+  }
+
+  /**
+   * List backfill jobs, most recent first
+   */
+  async getBackfillJobs(params: BackfillJobQueryParams = {}): Promise<BackfillJob[]> {
+    let query = 'SELECT * FROM backfill_jobs WHERE true';
+    const values: unknown[] = [];
+    let valueIndex = 1;
+    
+    if (params.chain) {
+      query += ` AND chain = $${valueIndex++}`;
+      values.push(params.chain);
+    }
+    
+    if (params.status) {
+      query += ` AND status = $${valueIndex++}`;
+      values.push(params.status);
+    }
+    
+    query += ` ORDER BY created_at DESC, id DESC LIMIT $${valueIndex++} OFFSET $${valueIndex++}`;
+    values.push(params.limit ?? 50, params.offset ?? 0);
+    
+    const result = await this.pool.query(query, values);
+    return result.rows.map(row => this.toBackfillJob(row));
+  }
+
+  /**
+   * Update a backfill job's state and progress
+   * 
+   * @param fromStatuses Only update the job while it is in one of these statuses
+   * @param holder Only update the job while it is held by this worker
+   * @returns The updated job, or null if there is no such job in those statuses under that holder
+   */
+  async updateBackfillJob(
+    id: number,
+    update: BackfillJobUpdate,
+    fromStatuses?: BackfillJobStatus[],
+    holder?: string
+  ): Promise<BackfillJob | null> {
+    const columns = BACKFILL_JOB_UPDATE_COLUMNS.filter(column => update[column] !== undefined);
+    const values: unknown[] = [id, ...columns.map(column => update[column])];
+    
+    // With nothing to set, still touch updated_at so the update reports the job
+    let query = `UPDATE backfill_jobs SET ${columns.length > 0 ? columns.map((column, i) => `${column} = $${i + 2}`).join(', ') : 'updated_at = NOW()'} WHERE id = $1`;
+    
+    if (fromStatuses) {
+      query += ` AND status = ANY($${values.length + 1})`;
+      values.push(fromStatuses);
+    }
+    
+    if (holder) {
+      query += ` AND holder = $${values.length + 1}`;
+      values.push(holder);
+    }
+    
+    const result = await this.pool.query(`${query} RETURNING *`, values);
+    return result.rows[0] ? this.toBackfillJob(result.rows[0]) : null;
+  }
+
+  /**
+   * Claim the oldest backfill job that is pending, or running without progress for staleAfterMs
+   * 
+   * A job whose worker died stops touching updated_at, so it is taken over
+   * once it has been quiet for longer than a page can take.
+   * 
+   * @returns The claimed job, now running under the holder, or null if there is none
+   */
+  async claimNextBackfillJob(holder: string, staleAfterMs: number): Promise<BackfillJob | null> {
+    const query = `
+      UPDATE backfill_jobs SET
+        status = 'running',
+        holder = $1,
+        started_at = COALESCE(started_at, NOW()),
+        finished_at = NULL,
+        error = NULL
+      WHERE id = (
+        SELECT id FROM backfill_jobs
+        WHERE status = 'pending'
+          OR (status = 'running' AND updated_at <= NOW() - $2 * INTERVAL '1 millisecond')
+        ORDER BY created_at, id
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *;
+    `;
+    const result = await this.pool.query(query, [holder, staleAfterMs]);
+    
+    return result.rows[0] ? this.toBackfillJob(result.rows[0]) : null;
+  }
+
+  /**
+   * Convert a backfill_jobs row (BIGINT and BIGSERIAL come back from pg as strings)
+   */
+  private toBackfillJob(row: Record<string, unknown>): BackfillJob {
+    const toNumber = (value: unknown) => value !== null && value !== undefined ? Number(value) : null;
+    
+    return {
+      ...(row as unknown as BackfillJob),
+      id: Number(row.id),
+      from_block: toNumber(row.from_block),
+      to_block: toNumber(row.to_block),
+      cursor_block: toNumber(row.cursor_block)
+    };
+  }
+
+  /**
+   * Archive an attestation as received, replacing any earlier copy of the UID
+   */
+  async archiveAttestation(entry: Omit<ArchivedAttestation, 'fetched_at' | 'created_at' | 'updated_at'>): Promise<void> {
+    const query = `
+      INSERT INTO attestation_archive (
+        uid, chain, source, schema_uid, data, decoded_data_json,
+        txid, block_number, block_hash, indexer_url, attestation
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      ON CONFLICT (uid) DO UPDATE SET
+        chain = EXCLUDED.chain,
+        source = EXCLUDED.source,
+        schema_uid = EXCLUDED.schema_uid,
+        data = EXCLUDED.data,
+        decoded_data_json = EXCLUDED.decoded_data_json,
+        txid = EXCLUDED.txid,
+        block_number = EXCLUDED.block_number,
+        block_hash = EXCLUDED.block_hash,
+        indexer_url = EXCLUDED.indexer_url,
+        attestation = EXCLUDED.attestation,
+        fetched_at = NOW();
+    `;
+    await this.pool.query(query, [
+      entry.uid,
+      entry.chain,
+      entry.source,
+      entry.schema_uid,
+      entry.data,
+      entry.decoded_data_json,
+      entry.txid,
+      entry.block_number,
+      entry.block_hash,
+      entry.indexer_url,
+      JSON.stringify(entry.attestation)
+    ]);
+  }
+
+  /**
+   * Archive a batch of attestations with one INSERT ... ON CONFLICT (uid)
+   */
+  async archiveAttestations(entries: Array<Omit<ArchivedAttestation, 'fetched_at' | 'created_at' | 'updated_at'>>): Promise<void> {
+    // One statement cannot touch a row twice, so keep the last entry per UID
+    const unique = [...new Map(entries.map(entry => [entry.uid, entry])).values()];
+    
+    if (unique.length === 0) {
+      return;
+    }
+    
+    const values: unknown[] = [];
+    const rows = unique.map(entry => {
+      const params = [
+        entry.uid,
+        entry.chain,
+        entry.source,
+        entry.schema_uid,
+        entry.data,
+        entry.decoded_data_json,
+        entry.txid,
+        entry.block_number,
+        entry.block_hash,
+        entry.indexer_url,
+        JSON.stringify(entry.attestation)
+      ];
+      const placeholders = params.map((_, index) => `$${values.length + index + 1}`);
+      values.push(...params);
+      return `(${placeholders.join(', ')})`;
+    });
+    
+    const query = `
+      INSERT INTO attestation_archive (
+        uid, chain, source, schema_uid, data, decoded_data_json,
+        txid, block_number, block_hash, indexer_url, attestation
+      ) VALUES
+        ${rows.join(',\n        ')}
+      ON CONFLICT (uid) DO UPDATE SET
+        chain = EXCLUDED.chain,
+        source = EXCLUDED.source,
+        schema_uid = EXCLUDED.schema_uid,
+        data = EXCLUDED.data,
+        decoded_data_json = EXCLUDED.decoded_data_json,
+        txid = EXCLUDED.txid,
+        block_number = EXCLUDED.block_number,
+        block_hash = EXCLUDED.block_hash,
+        indexer_url = EXCLUDED.indexer_url,
+        attestation = EXCLUDED.attestation,
+        fetched_at = NOW();
+    `;
+    await this.pool.query(query, values);
+  }
+
+  /**
+   * Get archived attestations of stored proofs in UID order
+   */
+  async getArchivedAttestations(params: ReprocessQueryParams = {}): Promise<ArchivedAttestation[]> {
+    let query = `
+      SELECT a.* FROM attestation_archive a
+      JOIN location_proofs p ON p.uid = a.uid
+      WHERE a.uid > $1
+    `;
+    const values: unknown[] = [params.afterUid ?? ''];
+    let valueIndex = 2;
+    
+    if (params.chain) {
+      query += ` AND a.chain = $${valueIndex++}`;
+      values.push(params.chain);
+    }
+    
+    if (params.uids && params.uids.length > 0) {
+      query += ` AND a.uid = ANY($${valueIndex++})`;
+      values.push(params.uids);
+    }
+    
+    if (params.schemaVersion) {
+      query += ` AND p.schema_version = $${valueIndex++}`;
+      values.push(params.schemaVersion);
+    }
+    
+    query += ` ORDER BY a.uid LIMIT $${valueIndex++}`;
+    values.push(params.limit ?? 100);
+    
+    const result = await this.pool.query(query, values);
+    return result.rows.map(row => ({
+      ...(row as ArchivedAttestation),
+      block_number: row.block_number === null ? null : Number(row.block_number)
+    }));
+  }
+
+  /**
+   * Overwrite the fields of a stored proof that are derived from its attestation data
+   * 
+   * Revocation, origin and block fields are left as they are.
+   */
+  async updateLocationProofContent(proof: LocationProof): Promise<void> {
+    const hasCoordinates = proof.longitude != null && proof.latitude != null;
+    const query = `
+      UPDATE location_proofs SET
+        prover = $3,
+        subject = $4,
+        timestamp = $5,
+        event_timestamp = $6,
+        srs = $7,
+        location_type = $8,
+        location = $9,
+        longitude = CAST($1 AS NUMERIC),
+        latitude = CAST($2 AS NUMERIC),
+        geometry = ${geometrySql('$19', '$1', '$2')},
+        recipe_types = $10,
+        recipe_payloads = $11,
+        media_types = $12,
+        media_data = $13,
+        memo = $14,
+        schema_uid = $15,
+        schema_version = $16,
+        expiration_time = $18,
+        source_srs = $20,
+        source_geometry = $21,
+        srs_status = $22,
+        quality_flags = $23,
+        altitude = $24
+      WHERE uid = $17;
+    `;
+    await this.pool.query(query, [
+      hasCoordinates ? proof.longitude : null,
+      hasCoordinates ? proof.latitude : null,
+      proof.prover,
+      proof.subject || null,
+      proof.timestamp ? proof.timestamp.toISOString() : null,
+      proof.event_timestamp.toISOString(),
+      proof.srs || null,
+      proof.location_type,
+      proof.location,
+      proof.recipe_types ? JSON.stringify(proof.recipe_types) : null,
+      proof.recipe_payloads ? JSON.stringify(proof.recipe_payloads) : null,
+      proof.media_types ? JSON.stringify(proof.media_types) : null,
+      proof.media_data ? JSON.stringify(proof.media_data) : null,
+      proof.memo || null,
+      proof.schema_uid || null,
+      proof.schema_version || null,
+      proof.uid,
+      proof.expiration_time ? proof.expiration_time.toISOString() : null,
+      geometryJson(proof),
+      ...sourceSrsValues(proof),
+      proof.quality_flags ?? [],
+      proof.altitude ?? null
+    ]);
+  }
+
   /**
    * Close the database connection pool
    */
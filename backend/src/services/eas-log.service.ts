@@ -0,0 +1,191 @@
+import { Contract, Interface, JsonRpcProvider, Log } from 'ethers';
+import { EASAttestation, RevocationEvent } from '../models/types';
+import { logger } from '../utils/logger';
+import { SchemaRegistry } from './schema-registry.service';
+
+// Minimal EAS contract ABI: the two events we scan for and the attestation getter
+const EAS_ABI = [
+  'event Attested(address indexed recipient, address indexed attester, bytes32 uid, bytes32 indexed schemaUID)',
+  'event Revoked(address indexed recipient, address indexed attester, bytes32 uid, bytes32 indexed schemaUID)',
+  'function getAttestation(bytes32 uid) view returns (tuple(bytes32 uid, bytes32 schema, uint64 time, uint64 expirationTime, uint64 revocationTime, bytes32 refUID, address recipient, address attester, bool revocable, bytes data))'
+];
+
+const easInterface = new Interface(EAS_ABI);
+
+// Attestation struct as returned by EAS.getAttestation
+interface OnchainAttestation {
+  uid: string;
+  schema: string;
+  time: bigint;
+  expirationTime: bigint;
+  revocationTime: bigint;
+  recipient: string;
+  attester: string;
+  data: string;
+}
+
+/**
+ * Attestations found in a scanned block range
+ */
+export interface LogScanResult {
+  // Attestations created in the range
+  attested: EASAttestation[];
+  // Revocations made in the range
+  revoked: RevocationEvent[];
+}
+
+/**
+ * Reads attestations straight from the EAS contract event logs
+ *
+ * Produces the same EASAttestation shape as the GraphQL indexer so both
+ * sources can feed convertAttestationToLocationProof.
+ */
+export class EasLogService {
+  private provider: JsonRpcProvider;
+  private contract: Contract;
+  private contractAddress: string;
+  private schemaUIDs: string[];
+  private schemas: SchemaRegistry;
+
+  /**
+   * @param provider JSON-RPC provider for the chain
+   * @param contractAddress Address of the EAS contract
+   * @param schemaUIDs Schema UIDs to filter events by
+   * @param schemas Registry used to decode the raw attestation data of each schema
+   */
+  constructor(provider: JsonRpcProvider, contractAddress: string, schemaUIDs: string[], schemas: SchemaRegistry) {
+    this.provider = provider;
+    this.contractAddress = contractAddress;
+    this.schemaUIDs = schemaUIDs;
+    this.schemas = schemas;
+    this.contract = new Contract(contractAddress, easInterface, provider);
+  }
+
+  /**
+   * Get the current chain head block number
+   */
+  async getBlockNumber(): Promise<number> {
+    return this.provider.getBlockNumber();
+  }
+
+  /**
+   * Get the canonical hash of a block
+   *
+   * @returns The block hash, or null if the chain no longer has that block
+   */
+  async getBlockHash(blockNumber: number): Promise<string | null> {
+    const block = await this.provider.getBlock(blockNumber);
+    return block ? block.hash : null;
+  }
+
+  /**
+   * Get a block's number and time
+   *
+   * @returns The block, or null if the chain does not have it
+   */
+  async getBlockTime(blockTag: number | 'latest'): Promise<{ number: number; timestamp: Date } | null> {
+    const block = await this.provider.getBlock(blockTag);
+    return block ? { number: block.number, timestamp: new Date(block.timestamp * 1000) } : null;
+  }
+
+  /**
+   * Scan a block range for Attested and Revoked events of our schemas
+   *
+   * @param fromBlock First block of the range (inclusive)
+   * @param toBlock Last block of the range (inclusive)
+   * @returns The attestations created and revoked in the range
+   */
+  async scanRange(fromBlock: number, toBlock: number): Promise<LogScanResult> {
+    const attestedTopic = easInterface.getEvent('Attested')!.topicHash;
+    const revokedTopic = easInterface.getEvent('Revoked')!.topicHash;
+
+    // One query for both events: topic0 is the event, topic3 any of the indexed schema UIDs
+    const logs = await this.provider.getLogs({
+      address: this.contractAddress,
+      fromBlock,
+      toBlock,
+      topics: [[attestedTopic, revokedTopic], null, null, this.schemaUIDs]
+    });
+
+    logger.debug(`Found ${logs.length} EAS logs in blocks ${fromBlock}-${toBlock}`);
+
+    // Attested and revoked UIDs keep the log they were included in, revoked ones also the revoker
+    const attestedLogs = new Map<string, Log>();
+    const revokedLogs = new Map<string, { log: Log; revoker: string }>();
+
+    for (const log of logs) {
+      const event = this.parseEvent(log);
+      if (!event) continue;
+
+      if (log.topics[0] === attestedTopic) {
+        attestedLogs.set(event.uid, log);
+      } else {
+        // The Revoked event's attester is the account that revoked
+        revokedLogs.set(event.uid, { log, revoker: event.attester });
+      }
+    }
+
+    const attested: EASAttestation[] = [];
+    for (const [uid, log] of attestedLogs) {
+      attested.push({
+        ...await this.getAttestation(uid),
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        txid: log.transactionHash
+      });
+    }
+
+    const revoked: RevocationEvent[] = [];
+    for (const [uid, { log, revoker }] of revokedLogs) {
+      const attestation = await this.getAttestation(uid);
+      revoked.push({
+        uid,
+        revocationTime: new Date(parseInt(attestation.revocationTime) * 1000),
+        revoker,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash
+      });
+    }
+
+    return { attested, revoked };
+  }
+
+  /**
+   * Read an attestation from the contract and shape it like an indexer record
+   *
+   * @param uid The attestation UID
+   */
+  async getAttestation(uid: string): Promise<EASAttestation> {
+    const attestation = await this.contract.getAttestation(uid) as OnchainAttestation;
+
+    const decoder = this.schemas.get(attestation.schema);
+    if (!decoder) {
+      throw new Error(`Attestation ${uid} uses unregistered schema ${attestation.schema}`);
+    }
+
+    return {
+      id: attestation.uid,
+      schemaId: decoder.uid,
+      attester: attestation.attester,
+      recipient: attestation.recipient,
+      revocationTime: attestation.revocationTime.toString(),
+      expirationTime: attestation.expirationTime.toString(),
+      timeCreated: attestation.time.toString(),
+      data: attestation.data,
+      decodedDataJson: decoder.decodeDataJson(attestation.data)
+    };
+  }
+
+  /**
+   * Extract the attestation UID and attester from an Attested or Revoked log
+   */
+  private parseEvent(log: Log): { uid: string; attester: string } | null {
+    try {
+      const parsed = easInterface.parseLog({ topics: [...log.topics], data: log.data });
+      return parsed ? { uid: parsed.args.uid as string, attester: parsed.args.attester as string } : null;
+    } catch (error) {
+      logger.warn(`Failed to parse EAS log in tx ${log.transactionHash}`, error);
+      return null;
+    }
+  }
+}
@@ -1,68 +1,81 @@
-import { config, easEndpoints } from '../config';
-import { LocationProof } from '../models/types';
-import { EAS, SchemaEncoder } from '@ethereum-attestation-service/eas-sdk';
-import { JsonRpcProvider } from 'ethers';
+import { config, chainRegistry, ingestionPolicies, schemaRegistry } from '../config';
+import {
+  ArchivedAttestation,
+  AttestationSource,
+  ChainConfig,
+  ChainSyncResult,
+  EASAttestation,
+  IngestionBatchResult,
+  IngestionFailure,
+  IngestionFailureQueryParams,
+  IngestionFailureStage,
+  IngestionOutcome,
+  IngestionPolicy,
+  IngestionPolicyVerdict,
+  IngestionRetryResult,
+  LocationProof,
+  LocationProofBatchResult,
+  LocationProofConflictMode,
+  RevocationEvent,
+  SyncCheckpoint,
+  SyncLock,
+  SyncLockJob,
+  SyncRunResult
+} from '../models/types';
+import { EAS } from '@ethereum-attestation-service/eas-sdk';
+import { JsonRpcProvider, Network } from 'ethers';
 import { dbService, DbService } from './db.service';
 import { logger } from '../utils/logger';
 import { ApolloClient, InMemoryCache, gql } from '@apollo/client/core';
+import { HttpLink } from '@apollo/client/link/http';
 import { supabaseService } from './supabase.service';
+import { EasLogService, LogScanResult } from './eas-log.service';
+import { SchemaRegistry } from './schema-registry.service';
+import { evaluateIngestionPolicies } from './ingestion-policy.service';
+import { locationParsers } from './location-parser.service';
+import { validateLocation } from '../utils/location-quality';
+import { SyncLockResult, SyncLockService } from './sync-lock.service';
+import { createPooledFetch, createPooledRpcRequest, getEndpointPool } from './endpoint-pool.service';
+import {
+  attestationsResponseSchema,
+  indexerHeadResponseSchema,
+  IngestionError,
+  parseAttestation,
+  parseIndexerResponse,
+  revocationsResponseSchema
+} from './indexer-payload.service';
 
-// Define the interfaces for EAS GraphQL responses
-interface EASAttestation {
-  id: string; // This is the UID
-  attester: string;
-  recipient: string | null;
-  revocationTime: string; // "0" if not revoked
-  timeCreated: string; // unix timestamp
-  data: string; // The raw attestation data
-  decodedDataJson: string; // JSON string of decoded data (may be directly on attestation or in data property)
+// Position in the indexer's (timeCreated, id) ordering used for keyset pagination
+interface AttestationCursor {
+  timeCreated: number;
+  id: string;
 }
 
-interface GraphQLQueryResponse {
-  data: {
-    attestations: EASAttestation[];
-  };
+// Options for walking the indexer page by page
+interface FetchAttestationsOptions {
+  // Resume strictly after this UID at fromTimestamp
+  afterUid?: string;
+  // Checked after each page that may have more behind it; true ends the walk there
+  shouldStop?: () => boolean;
 }
 
-// Define a data structure for decoded attestation data
-interface DecodedDataItem {
-  name: string;
-  type: string;
-  value: {
-    value: string | number | boolean | string[] | number[] | boolean[];
-  };
+// Options for walking the indexer and handing each page to a callback
+interface WalkAttestationsOptions extends FetchAttestationsOptions {
+  // Called with each page, and awaited, before the next page is fetched
+  onPage: (attestations: EASAttestation[]) => Promise<void>;
 }
 
-// Get schema UID from config or environment
-const schemaUID = config.EAS_SCHEMA_UID || process.env.EAS_SCHEMA_UID || 
-  '0xba4171c92572b1e4f241d044c32cdf083be9fd946b8766977558ca6378c824e2';
-
-// Map of chain names to EAS contract addresses and RPC URLs
-const CHAIN_CONFIG = {
-  arbitrum: {
-    rpcUrl: 'https://arbitrum-mainnet.infura.io/v3/9aa3d95b3bc440fa88ea12eaa4456161',
-    contractAddress: '0xbD75f629A22Dc1ceD33dDA0b68c546A1c035c458',
-    schemaUID
-  },
-  celo: {
-    rpcUrl: 'https://celo-mainnet.infura.io/v3/9aa3d95b3bc440fa88ea12eaa4456161',
-    contractAddress: '0x72E1d8ccf5299fb36fEfD8CC4394B8ef7e98Af92',
-    schemaUID
-  },
-  sepolia: {
-    rpcUrl: 'https://sepolia.infura.io/v3/9aa3d95b3bc440fa88ea12eaa4456161',
-    contractAddress: '0xC2679fBD37d54388Ce493F1DB75320D236e1815e',
-    schemaUID
-  },
-  base: {
-    rpcUrl: 'https://base-mainnet.infura.io/v3/9aa3d95b3bc440fa88ea12eaa4456161',
-    contractAddress: '0x4200000000000000000000000000000000000021',
-    schemaUID
-  }
-};
+// Progress of one ingestion run of a chain
+interface ChainRunProgress {
+  processed: number;
+  // Time (ms since epoch) after which no further page or block range is started
+  deadline?: number;
+  // Aborted when the chain's lease is lost; no further page is started after that
+  lease?: AbortSignal;
+  // Set when the run stopped at the deadline, or lost its lease, with more left to ingest
+  partial: boolean;
+}
 
-// Define the schema string for location proofs
-const SCHEMA_STRING = "uint256 eventTimestamp,string srs,string locationType,string location,string[] recipeType,bytes[] recipePayload,string[] mediaType,string[] mediaData,string memo";
 
 export class EasService {
   private dbService: DbService;
@@ -70,72 +83,75 @@ export class EasService {
   private easClients: Record<string, EAS>;
   private graphqlClients: Record<string, ApolloClient<unknown>>;
   private lastProcessedTimestamps: Record<string, number>;
-  private schemaEncoder: SchemaEncoder;
-  private chainConfigs: typeof CHAIN_CONFIG;
-  
-  // GraphQL query to fetch attestations with correct syntax
-  private ATTESTATIONS_QUERY = gql`
-    query GetAttestations($schemaId: String!, $timestamp: Int!) {
-      attestations(
-        where: {
-          schemaId: {
-            equals: $schemaId
-          }
-          timeCreated: {
-            gt: $timestamp
-          }
-        }
-        take: 100
-        orderBy: { timeCreated: asc }
-      ) {
-        id
-        attester
-        recipient
-        revocationTime
-        timeCreated
-        data
-        decodedDataJson
-      }
-    }
-  `;
+  private lastProcessedUids: Record<string, string>;
+  private lastProcessedBlocks: Record<string, number>;
+  private logServices: Record<string, EasLogService>;
+  private reorgedCounts: Record<string, number>;
+  private lastRevocationTimes: Record<string, number>;
+  private lastRevocationUids: Record<string, string>;
+  private revokedCounts: Record<string, number>;
+  private rejectedCounts: Record<string, number>;
+  private rejectedByPolicy: Record<string, number>;
+  private policies: IngestionPolicy[];
+  private schemas: SchemaRegistry;
+  private chainConfigs: Record<string, ChainConfig>;
+  private syncLocks: SyncLockService;
   
-  constructor(dbService: DbService) {
+  constructor(dbService: DbService, policies: IngestionPolicy[] = ingestionPolicies ?? []) {
     this.dbService = dbService;
     this.providers = {};
     this.easClients = {};
     this.graphqlClients = {};
     this.lastProcessedTimestamps = {};
-    this.schemaEncoder = new SchemaEncoder(SCHEMA_STRING);
-    this.chainConfigs = CHAIN_CONFIG;
+    this.lastProcessedUids = {};
+    this.lastProcessedBlocks = {};
+    this.logServices = {};
+    this.reorgedCounts = {};
+    this.lastRevocationTimes = {};
+    this.lastRevocationUids = {};
+    this.revokedCounts = {};
+    this.rejectedCounts = {};
+    this.rejectedByPolicy = {};
+    this.policies = policies;
+    this.schemas = new SchemaRegistry(schemaRegistry);
+    this.chainConfigs = {};
+    this.syncLocks = new SyncLockService(dbService);
     
-    // Initialize providers, EAS clients, and GraphQL clients for each supported chain
-    for (const [chain, chainConfig] of Object.entries(CHAIN_CONFIG)) {
+    // Initialize providers, EAS clients, and GraphQL clients for each enabled chain in the registry
+    for (const chainConfig of Object.values(chainRegistry)) {
+      const chain = chainConfig.chain;
+      
+      if (!chainConfig.enabled) {
+        logger.info(`Chain ${chain} is disabled in the chain registry, skipping`);
+        continue;
+      }
+      
+      this.chainConfigs[chain] = chainConfig;
+      
       try {
-        // Initialize providers and EAS clients
-        const provider = new JsonRpcProvider(chainConfig.rpcUrl);
+        // Initialize providers and EAS clients; calls fail over across the chain's RPC URLs
+        const rpcPool = getEndpointPool(chain, 'rpc', chainConfig.rpcUrls);
+        const provider = new JsonRpcProvider(createPooledRpcRequest(rpcPool), Network.from(chainConfig.chainId), { staticNetwork: true });
         this.providers[chain] = provider;
         
-        const eas = new EAS(chainConfig.contractAddress);
+        const eas = new EAS(chainConfig.easContractAddress);
         // Use as unknown to bypass TypeScript checking since EAS.connect exists but TypeScript doesn't see it
         (eas as unknown as { connect: (provider: JsonRpcProvider) => void }).connect(provider);
         this.easClients[chain] = eas;
         
-        // Initialize GraphQL clients for each chain if endpoints are available
-        // First try from config
-        let endpoint = easEndpoints[chain as keyof typeof easEndpoints];
+        // Contract log reader used when the chain ingests over JSON-RPC
+        this.logServices[chain] = new EasLogService(provider, chainConfig.easContractAddress, chainConfig.schemaUIDs, this.schemas);
         
-        // If not found, try environment variables directly
-        if (!endpoint) {
-          const envVarName = `EAS_ENDPOINT_${chain.toUpperCase()}`;
-          endpoint = process.env[envVarName];
-        }
+        // Initialize GraphQL clients for each chain if an indexer is configured
+        const endpoints = chainConfig.indexerUrls?.length ? chainConfig.indexerUrls : chainConfig.indexerUrl ? [chainConfig.indexerUrl] : [];
         
-        if (endpoint) {
+        if (endpoints.length > 0) {
+          const indexerPool = getEndpointPool(chain, 'indexer', endpoints);
           this.graphqlClients[chain] = new ApolloClient({
-            uri: endpoint,
+            link: new HttpLink({ uri: endpoints[0], fetch: createPooledFetch(indexerPool) }),
             cache: new InMemoryCache(),
           });
-          logger.info(`Initialized GraphQL client for ${chain} with endpoint ${endpoint}`);
+          logger.info(`Initialized GraphQL client for ${chain} with ${endpoints.length} endpoint(s), primary ${endpoints[0]}`);
         } else {
           logger.warn(`No GraphQL endpoint configured for ${chain}, attestation fetching will be limited`);
         }
@@ -149,11 +165,19 @@ export class EasService {
   
   /**
    * Initialize last processed timestamps from the database
+   *
+   * Prefers the persisted sync checkpoint and only falls back to the newest
+   * stored proof when a chain has never been checkpointed.
    */
   async initialize(): Promise<void> {
     try {
       // For each chain that has a GraphQL client, get the latest timestamp from the database
-      for (const chain of Object.keys(this.graphqlClients)) {
+      for (const chain of this.getIngestionChains()) {
+        // Chains ingested from contract logs start at their deployment block when never checkpointed
+        if (await this.resumeFromCheckpoint(chain) || this.getIngestionSource(chain) === 'rpc') {
+          continue;
+        }
+        
         try {
           // First try with dbService
           const result = await this.dbService.getLatestLocationProofTimestamp(chain);
@@ -196,13 +220,53 @@ export class EasService {
   
   /**
    * Fetch attestations from a chain starting from a specific timestamp
+   *
+   * Collects every page in memory; use walkAttestations to go through a
+   * long range a page at a time.
    * 
    * @param chain The chain to fetch attestations from
-   * @param limit The maximum number of attestations to fetch
+   * @param limit The page size used for each indexer query
    * @param fromTimestamp The timestamp to start fetching from (ISO string)
+   * @param options Optional cursor UID and stop condition
    * @returns An array of EAS attestations
    */
-  async fetchAttestations(chain: string, limit: number = 100, fromTimestamp?: string): Promise<EASAttestation[]> {
+  async fetchAttestations(
+    chain: string,
+    limit: number = 100,
+    fromTimestamp?: string,
+    options: FetchAttestationsOptions = {}
+  ): Promise<EASAttestation[]> {
+    const attestations: EASAttestation[] = [];
+    await this.walkAttestations(chain, limit, fromTimestamp, {
+      ...options,
+      onPage: async (page) => {
+        attestations.push(...page);
+      }
+    });
+    return attestations;
+  }
+  
+  /**
+   * Walk a chain's attestations from a specific timestamp, a page at a time
+   *
+   * Walks the indexer with keyset pagination on (timeCreated, id) until it runs
+   * dry. Each page is handed to onPage and awaited before the next page is
+   * requested, so callers can commit a page (and advance their watermark)
+   * without ever skipping attestations that share a timestamp across a page
+   * boundary. Pages are not kept once onPage returns.
+   * 
+   * @param chain The chain to fetch attestations from
+   * @param limit The page size used for each indexer query
+   * @param fromTimestamp The timestamp to start fetching from (ISO string)
+   * @param options Per-page callback, optional cursor UID and stop condition
+   * @returns The number of attestations walked
+   */
+  async walkAttestations(
+    chain: string,
+    limit: number,
+    fromTimestamp: string | undefined,
+    options: WalkAttestationsOptions
+  ): Promise<number> {
     if (!this.easClients[chain]) {
       throw new Error(`Chain ${chain} is not supported`);
     }
@@ -211,7 +275,7 @@ export class EasService {
     const client = this.graphqlClients[chain];
     if (!client) {
       logger.warn(`No GraphQL client available for ${chain}, cannot fetch attestations`);
-      return [];
+      return 0;
     }
     
     let timestampUnix: number;
@@ -229,38 +293,97 @@ export class EasService {
     // Use the smaller of our timestamp or maxSafeInt to avoid overflow
     const safeTimestamp = Math.min(timestampUnix, maxSafeInt);
     
-    // Log the schema UID being used
-    const schemaId = this.chainConfigs[chain as keyof typeof CHAIN_CONFIG].schemaUID;
-    logger.info(`Using schema UID for ${chain}: ${schemaId}`);
+    // Log the schema UIDs being used
+    const schemaIds = this.getSchemaUids(chain);
+    logger.info(`Using schema UIDs for ${chain}: ${schemaIds.join(', ')}`);
     
+    // Without a UID the cursor sits just before the first attestation at fromTimestamp
+    let cursor: AttestationCursor = {
+      timeCreated: safeTimestamp,
+      id: options.afterUid || ''
+    };
+    
+    let count = 0;
+    let pageCount = 0;
+    
+    for (;;) {
+      const page = await this.fetchAttestationsPage(client, chain, schemaIds, cursor, limit);
+      pageCount++;
+      
+      if (page.length === 0) {
+        break;
+      }
+      
+      await options.onPage(page);
+      count += page.length;
+      
+      const last = page[page.length - 1];
+      cursor = { timeCreated: parseInt(last.timeCreated), id: last.id };
+      
+      // A short page means the indexer has nothing past the cursor
+      if (page.length < limit) {
+        break;
+      }
+      
+      if (options.shouldStop?.()) {
+        logger.info(`Stopping the ${chain} indexer walk after ${pageCount} page(s)`);
+        break;
+      }
+    }
+    
+    logger.info(`Fetched ${count} attestations from ${chain} in ${pageCount} page(s)`);
+    return count;
+  }
+  
+  /**
+   * Fetch a single page of attestations strictly after the given cursor
+   * 
+   * @param client The GraphQL client for the chain
+   * @param chain The chain to fetch attestations from
+   * @param schemaIds The schema UIDs to filter by
+   * @param cursor The (timeCreated, id) position to continue after
+   * @param limit The maximum number of attestations to fetch
+   * @returns An array of EAS attestations ordered by (timeCreated, id)
+   */
+  private async fetchAttestationsPage(
+    client: ApolloClient<unknown>,
+    chain: string,
+    schemaIds: string[],
+    cursor: AttestationCursor,
+    limit: number
+  ): Promise<EASAttestation[]> {
     // Retry logic for GraphQL queries
     const maxRetries = 3;
     let retryCount = 0;
     
     while (retryCount < maxRetries) {
       try {
-        logger.info(`Fetching ${limit} attestations for ${chain} since ${new Date(safeTimestamp * 1000).toISOString()} (attempt ${retryCount + 1}/${maxRetries})`);
+        logger.info(`Fetching ${limit} attestations for ${chain} after ${new Date(cursor.timeCreated * 1000).toISOString()}${cursor.id ? ` / ${cursor.id}` : ''} (attempt ${retryCount + 1}/${maxRetries})`);
         
-        // Create a custom query with the specified limit
+        // Keyset pagination: (timeCreated, id) > (cursor.timeCreated, cursor.id)
         const query = gql`
-          query GetAttestations($schemaId: String!, $timestamp: Int!, $limit: Int!) {
+          query GetAttestations($schemaIds: [String!]!, $timestamp: Int!, $afterId: String!, $limit: Int!) {
             attestations(
               where: {
                 schemaId: {
-                  equals: $schemaId
-                }
-                timeCreated: {
-                  gt: $timestamp
+                  in: $schemaIds
                 }
+                OR: [
+                  { timeCreated: { gt: $timestamp } }
+                  { timeCreated: { equals: $timestamp }, id: { gt: $afterId } }
+                ]
               }
               take: $limit
-              orderBy: { timeCreated: asc }
+              orderBy: [{ timeCreated: asc }, { id: asc }]
             ) {
               id
+              schemaId
               attester
               recipient
               revocationTime
+              expirationTime
               timeCreated
+              txid
               data
               decodedDataJson
             }
@@ -268,22 +391,25 @@ export class EasService {
         `;
         
         // Query the EAS indexer via GraphQL with timeout
+        let timer: NodeJS.Timeout | undefined;
         const response = await Promise.race([
           client.query({
             query,
             variables: {
-              schemaId,
-              timestamp: safeTimestamp,
+              schemaIds,
+              timestamp: cursor.timeCreated,
+              afterId: cursor.id,
               limit
             },
             fetchPolicy: 'network-only' // Skip cache to ensure fresh data
           }),
-          new Promise((_, reject) => 
-            setTimeout(() => reject(new Error(`GraphQL query timed out after 30s for chain ${chain}`)), 30000)
-          )
-        ]) as GraphQLQueryResponse;
+          new Promise((_, reject) => {
+            timer = setTimeout(() => reject(new Error(`GraphQL query timed out after 30s for chain ${chain}`)), 30000);
+          })
+        ]).finally(() => clearTimeout(timer)) as { data: unknown };
         
-        const attestations = response.data.attestations;
+        // Records are validated in full when converted; the page only needs its cursor fields
+        const attestations = parseIndexerResponse(attestationsResponseSchema, response.data, chain).attestations;
         
         logger.info(`Successfully fetched ${attestations.length} attestations from ${chain}`);
         return attestations;
@@ -291,7 +417,8 @@ export class EasService {
         retryCount++;
         logger.error(`Error fetching attestations from ${chain} (attempt ${retryCount}/${maxRetries}):`, error);
         
-        if (retryCount >= maxRetries) {
+        // A response that does not match the query will not match it on a retry either
+        if (retryCount >= maxRetries || error instanceof IngestionError) {
           logger.error(`Failed to fetch attestations from ${chain} after ${maxRetries} attempts`);
           throw error;
         }
@@ -310,188 +437,56 @@ export class EasService {
   /**
    * Convert an EAS attestation to a LocationProof
    * 
-   * @param attestation The EAS attestation
+   * @param received The EAS attestation as received
    * @param chain The chain the attestation is from
    * @returns A LocationProof object
+   * @throws IngestionError if the attestation is malformed or does not decode with its schema
    */
-  async convertAttestationToLocationProof(attestation: EASAttestation, chain: string): Promise<LocationProof> {
+  async convertAttestationToLocationProof(received: EASAttestation, chain: string): Promise<LocationProof> {
     try {
-      // Decode the attestation data from the JSON string
-      const decodedData = JSON.parse(attestation.decodedDataJson);
+      const attestation = parseAttestation(received);
       
-      // Helper function to find a value in the decoded data by name
-      const findValue = (name: string) => {
-        const item = decodedData.find((item: DecodedDataItem) => item.name === name);
-        return item ? item.value.value : null;
-      };
+      // Pick the decoder for the schema revision the attestation was made with
+      const schemaUid = attestation.schemaId || this.getSchemaUid(chain);
+      const schema = this.schemas.get(schemaUid);
+      if (!schema) {
+        throw new IngestionError('UNREGISTERED_SCHEMA', `Attestation ${attestation.id} uses unregistered schema ${schemaUid}`, { schemaUid });
+      }
       
-      // Extract values from the decoded data
-      const eventTimestamp = findValue('eventTimestamp');
-      const srs = findValue('srs') || 'WGS84'; // Default to WGS84 if not specified
-      const locationType = findValue('locationType') || 'point';
-      const location = findValue('location') || '';
-      const recipeTypes = findValue('recipeType') || [];
-      const recipePayloads = findValue('recipePayload') || [];
-      const mediaTypes = findValue('mediaType') || [];
-      const mediaData = findValue('mediaData') || [];
-      const memo = findValue('memo') || '';
-      
-      // Parse coordinates from the location string
-      let latitude: number | undefined = undefined;
-      let longitude: number | undefined = undefined;
-      
-      // Try to parse GeoJSON format first
-      if (location) {
-        try {
-          // Try to parse as JSON first
-          const parsedLocation = JSON.parse(location);
-          
-          // Helper function to extract first valid coordinate pair from any GeoJSON geometry
-          const extractFirstCoordinate = (geom: any): [number, number] | null => {
-            if (!geom || !geom.type || !geom.coordinates) return null;
-            
-            switch (geom.type) {
-              case 'Point':
-                // Point: [longitude, latitude]
-                if (Array.isArray(geom.coordinates) && geom.coordinates.length >= 2) {
-                  return [geom.coordinates[0], geom.coordinates[1]];
-                }
-                break;
-                
-              case 'LineString':
-                // LineString: [[lon1, lat1], [lon2, lat2], ...]
-                if (Array.isArray(geom.coordinates) && geom.coordinates.length > 0 && 
-                    Array.isArray(geom.coordinates[0]) && geom.coordinates[0].length >= 2) {
-                  return [geom.coordinates[0][0], geom.coordinates[0][1]];
-                }
-                break;
-                
-              case 'Polygon':
-                // Polygon: [[[lon1, lat1], [lon2, lat2], ...], [...]]
-                if (Array.isArray(geom.coordinates) && geom.coordinates.length > 0 && 
-                    Array.isArray(geom.coordinates[0]) && geom.coordinates[0].length > 0 &&
-                    Array.isArray(geom.coordinates[0][0]) && geom.coordinates[0][0].length >= 2) {
-                  return [geom.coordinates[0][0][0], geom.coordinates[0][0][1]];
-                }
-                break;
-                
-              case 'MultiPoint':
-                // MultiPoint: [[lon1, lat1], [lon2, lat2], ...]
-                if (Array.isArray(geom.coordinates) && geom.coordinates.length > 0 && 
-                    Array.isArray(geom.coordinates[0]) && geom.coordinates[0].length >= 2) {
-                  return [geom.coordinates[0][0], geom.coordinates[0][1]];
-                }
-                break;
-                
-              case 'MultiLineString':
-                // MultiLineString: [[[lon1, lat1], [lon2, lat2], ...], [...]]
-                if (Array.isArray(geom.coordinates) && geom.coordinates.length > 0 && 
-                    Array.isArray(geom.coordinates[0]) && geom.coordinates[0].length > 0 &&
-                    Array.isArray(geom.coordinates[0][0]) && geom.coordinates[0][0].length >= 2) {
-                  return [geom.coordinates[0][0][0], geom.coordinates[0][0][1]];
-                }
-                break;
-                
-              case 'MultiPolygon':
-                // MultiPolygon: [[[[lon1, lat1], [lon2, lat2], ...], [...]], [...]]
-                if (Array.isArray(geom.coordinates) && geom.coordinates.length > 0 && 
-                    Array.isArray(geom.coordinates[0]) && geom.coordinates[0].length > 0 &&
-                    Array.isArray(geom.coordinates[0][0]) && geom.coordinates[0][0].length > 0 &&
-                    Array.isArray(geom.coordinates[0][0][0]) && geom.coordinates[0][0][0].length >= 2) {
-                  return [geom.coordinates[0][0][0][0], geom.coordinates[0][0][0][1]];
-                }
-                break;
-            }
-            
-            return null;
-          };
-          
-          // Determine the type of GeoJSON
-          let coords: [number, number] | null = null;
-          
-          // Direct geometry object
-          if (parsedLocation.type && parsedLocation.coordinates) {
-            coords = extractFirstCoordinate(parsedLocation);
-            if (coords) {
-              logger.info(`Parsed GeoJSON ${parsedLocation.type}: [${coords[0]}, ${coords[1]}]`);
-            }
-          } 
-          // Feature
-          else if (parsedLocation.type === 'Feature' && parsedLocation.geometry) {
-            coords = extractFirstCoordinate(parsedLocation.geometry);
-            if (coords) {
-              logger.info(`Parsed GeoJSON Feature with ${parsedLocation.geometry.type}: [${coords[0]}, ${coords[1]}]`);
-            }
-          }
-          // FeatureCollection
-          else if (parsedLocation.type === 'FeatureCollection' && 
-                  Array.isArray(parsedLocation.features) && 
-                  parsedLocation.features.length > 0 &&
-                  parsedLocation.features[0].geometry) {
-            coords = extractFirstCoordinate(parsedLocation.features[0].geometry);
-            if (coords) {
-              logger.info(`Parsed GeoJSON FeatureCollection (first feature is ${parsedLocation.features[0].geometry.type}): [${coords[0]}, ${coords[1]}]`);
-            }
-          }
-          
-          // If coordinates were found, validate and assign them
-          if (coords) {
-            // GeoJSON coordinates are in [longitude, latitude] order
-            longitude = coords[0];
-            latitude = coords[1];
-            
-            // Validate coordinate ranges
-            if (!latitude || !longitude || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
-              logger.warn(`Invalid GeoJSON coordinates: [${longitude}, ${latitude}]`);
-              latitude = undefined;
-              longitude = undefined;
-            }
-          }
-        } catch (e) {
-          // Not JSON or invalid JSON - try other parsing methods
-          // No need to log here, will attempt other formats
-        }
+      // Decode the attestation data, from decodedDataJson or else the raw data
+      const decoded = schema.decodeAttestation(attestation);
+      if (decoded.fallback) {
+        logger.warn(`Attestation ${attestation.id}: ${decoded.fallback}, decoded its raw data with schema ${schema.version}`);
       }
+      const fields = schema.decode(decoded.items);
       
-      // If GeoJSON parsing didn't work, try simple coordinate format
-      if (latitude === undefined || longitude === undefined) {
-        // Try to parse simple coordinate format - could be "lat,lng" or "lng,lat"
-        if (location && location.includes(',')) {
-          const parts = location.split(',');
-          if (parts.length === 2) {
-            try {
-              // Parse both values
-              const val1 = parseFloat(parts[0].trim());
-              const val2 = parseFloat(parts[1].trim());
-              
-              // Ensure values are valid numbers
-              if (isNaN(val1) || isNaN(val2)) {
-                latitude = undefined;
-                longitude = undefined;
-              } else {
-                // Determine which is latitude and which is longitude based on value ranges
-                // Latitude: -90 to 90, Longitude: -180 to 180
-                if (Math.abs(val1) <= 90 && Math.abs(val2) <= 180) {
-                  // Standard "lat,lng" format
-                  latitude = val1;
-                  longitude = val2;
-                } else if (Math.abs(val2) <= 90 && Math.abs(val1) <= 180) {
-                  // Reversed "lng,lat" format
-                  latitude = val2;
-                  longitude = val1;
-                } else {
-                  // Values out of range, might not be coordinates
-                  logger.warn(`Coordinate values out of range in '${location}'`);
-                  latitude = undefined;
-                  longitude = undefined;
-                }
-              }
-            } catch (e) {
-              // Keep as undefined if parsing fails
-              logger.warn(`Failed to parse coordinates from '${location}'`, e);
-            }
-          }
-        }
+      // Extract values from the decoded data
+      const eventTimestamp = fields.eventTimestamp as string | null;
+      const srs = fields.srs || 'WGS84'; // Default to WGS84 if not specified
+      const locationType = fields.locationType || 'point';
+      const location = fields.location || '';
+      const recipeTypes = fields.recipeTypes;
+      const recipePayloads = fields.recipePayloads;
+      const mediaTypes = fields.mediaTypes;
+      const mediaData = fields.mediaData;
+      const memo = fields.memo || '';
+      
+      // Parse the geometry and a representative point from the location string, in EPSG:4326
+      const parsed = locationParsers.parse(location, locationType, srs);
+      const { geometry } = parsed;
+      const [longitude, latitude] = parsed.point ?? [];
+      const { altitude } = parsed;
+      if (geometry) {
+        logger.info(`Parsed ${parsed.format} location ${geometry.type}: [${longitude}, ${latitude}${altitude !== null ? `, ${altitude}` : ''}]`);
+        parsed.diagnostics.forEach(diagnostic => logger.debug(`Attestation ${attestation.id}: ${diagnostic}`));
+      } else if (parsed.srsStatus === 'unknown') {
+        logger.warn(`Attestation ${attestation.id} is in an unknown srs ${srs}, stored without coordinates: ${parsed.diagnostics.join('; ')}`);
+      } else if (location) {
+        logger.warn(`Could not parse the location of attestation ${attestation.id}: ${parsed.diagnostics.join('; ')}`);
+      }
+      const qualityFlags = validateLocation(parsed);
+      if (qualityFlags.length > 0) {
+        logger.debug(`Attestation ${attestation.id} has location quality flags: ${qualityFlags.join(', ')}`);
       }
       
       // Parse timestamps - handle potential parsing errors
@@ -527,8 +522,11 @@ export class EasService {
         event_timestamp = new Date();
       }
       
-      // Check if attestation is revoked
-      const revoked = attestation.revocationTime !== "0";
+      // Check if attestation is revoked (EAS only lets the attester revoke); the indexer returns an Int
+      const revoked = Number(attestation.revocationTime) !== 0;
+      const revocation_time = revoked ? new Date(parseInt(attestation.revocationTime) * 1000) : null;
+      const revoker = revoked ? attestation.attester : null;
+      const expiration_time = Number(attestation.expirationTime ?? 0) !== 0 ? new Date(Number(attestation.expirationTime) * 1000) : null;
       
       // Create the location proof
       const proof: LocationProof = {
@@ -543,19 +541,33 @@ export class EasService {
         location,
         longitude,
         latitude,
+        altitude,
+        geometry,
+        source_srs: parsed.srs,
+        source_geometry: parsed.sourceGeometry,
+        srs_status: parsed.srsStatus,
+        quality_flags: qualityFlags,
         recipe_types: recipeTypes,
         recipe_payloads: recipePayloads,
         media_types: mediaTypes,
         media_data: mediaData,
         memo,
         revoked,
+        revocation_time,
+        revoker,
+        expiration_time,
+        schema_uid: schema.uid,
+        schema_version: schema.version,
+        // Only known for log ingestion; left undefined so indexer inserts omit the columns
+        block_number: attestation.blockNumber,
+        block_hash: attestation.blockHash,
         created_at: new Date(),
         updated_at: new Date()
       };
       
       return proof;
     } catch (error) {
-      logger.error(`Failed to convert attestation ${attestation.id} to location proof`, error);
+      logger.error(`Failed to convert attestation ${received?.id} to location proof`, error);
       throw error;
     }
   }
@@ -575,97 +587,910 @@ export class EasService {
   
   /**
    * Process attestations for a single chain
+   *
+   * Runs under the chain's ingest lease, so only one worker instance ingests
+   * a chain at a time; if another holds it the chain is skipped and 0 returned.
    */
   async processChain(chain: string): Promise<number> {
+    const run = await this.syncLocks.withLock(chain, 'ingest', lease => this.ingestChain(chain, undefined, lease));
+    return run.acquired ? run.result.processed : 0;
+  }
+  
+  /**
+   * Process all chains until a deadline
+   *
+   * Chains whose last run is oldest go first, so a backlog on one chain
+   * cannot starve the others across runs. A chain that reaches the deadline
+   * stops after its current page or block range, with its checkpoint saved,
+   * and chains not started by then are deferred. Either makes the run
+   * partial: the next run resumes from the checkpoints.
+   * 
+   * @param deadline When to stop starting new work
+   */
+  async processAllChainsWithinBudget(deadline: Date): Promise<SyncRunResult> {
+    const startedAt = new Date();
+    const chains: ChainSyncResult[] = [];
+    
+    for (const chain of await this.getChainsByLastRun()) {
+      if (Date.now() >= deadline.getTime()) {
+        chains.push({ chain, status: 'deferred', processed: 0 });
+        continue;
+      }
+      
+      try {
+        const run = await this.syncLocks.withLock(chain, 'ingest', lease => this.ingestChain(chain, deadline.getTime(), lease));
+        if (!run.acquired) {
+          chains.push({ chain, status: 'locked', processed: 0 });
+        } else {
+          chains.push({ chain, status: run.result.partial ? 'partial' : 'complete', processed: run.result.processed });
+        }
+      } catch (error) {
+        logger.error(`Failed to process chain ${chain}`, error);
+        chains.push({ chain, status: 'error', processed: 0, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    
+    const partial = chains.some(result => result.status === 'partial' || result.status === 'deferred');
+    logger.info(`Sync run ${partial ? 'stopped at its deadline, resuming next run' : 'complete'}: ${chains.map(result => `${result.chain} ${result.status} (${result.processed})`).join(', ')}`);
+    
+    return { status: partial ? 'partial' : 'complete', startedAt, deadline, chains };
+  }
+  
+  /**
+   * Get the ingestion chains, the one whose last run finished longest ago (or never) first
+   */
+  private async getChainsByLastRun(): Promise<string[]> {
+    const chains = this.getIngestionChains();
+    let checkpoints: SyncCheckpoint[] = [];
+    
     try {
-      const timestamp = this.lastProcessedTimestamps[chain] || Math.floor(Date.now() / 1000) - 60 * 60 * 24 * 7; // Default to 7 days ago
-      const schemaUID = this.chainConfigs[chain as keyof typeof CHAIN_CONFIG].schemaUID;
+      checkpoints = await this.getSyncCheckpoints();
+    } catch (error) {
+      logger.warn(`Could not read sync checkpoints, keeping the registry order: ${(error as Error).message}`);
+    }
+    
+    const lastRunAt = (chain: string): number => {
+      const checkpoint = checkpoints.find(row => row.chain === chain && row.schema_uid === this.getSchemaUid(chain));
+      return checkpoint?.last_run_at ? new Date(checkpoint.last_run_at).getTime() : 0;
+    };
+    
+    // Array.prototype.sort is stable, so ties keep the registry order
+    return [...chains].sort((a, b) => lastRunAt(a) - lastRunAt(b));
+  }
+  
+  /**
+   * Whether a run has reached its deadline or lost its lease; marks it partial if so
+   */
+  private shouldStop(progress: ChainRunProgress): boolean {
+    if (progress.deadline !== undefined && Date.now() >= progress.deadline) {
+      progress.partial = true;
+    }
+    if (progress.lease?.aborted) {
+      progress.partial = true;
+    }
+    return progress.partial;
+  }
+  
+  /**
+   * Ingest a chain while holding its lease
+   *
+   * Reads from the chain's configured ingestion source (GraphQL indexer or
+   * EAS contract logs), applies revocations made since the last run, and
+   * records the run outcome in the sync checkpoint. With a deadline, or if
+   * the lease is lost, the run may end partial, with every committed page
+   * checkpointed.
+   */
+  private async ingestChain(chain: string, deadline?: number, lease?: AbortSignal): Promise<ChainRunProgress> {
+    const schemaUid = this.getSchemaUid(chain);
+    const progress: ChainRunProgress = { processed: 0, deadline, lease, partial: false };
+    
+    try {
+      // Another instance may have moved the watermark since this one last held the lease
+      await this.resumeFromCheckpoint(chain);
+      
+      if (this.getIngestionSource(chain) === 'rpc') {
+        await this.processChainFromLogs(chain, schemaUid, progress);
+      } else {
+        await this.processChainFromIndexer(chain, schemaUid, progress);
+        if (!this.shouldStop(progress)) {
+          await this.processRevocationsFromIndexer(chain, schemaUid, progress);
+        }
+      }
+      
+      await this.saveCheckpoint({
+        chain,
+        schema_uid: schemaUid,
+        last_run_at: new Date(),
+        last_run_status: progress.partial ? 'partial' : 'success',
+        last_run_count: progress.processed,
+        last_error: null
+      });
+      
+      return progress;
+    } catch (error) {
+      logger.error(`Error processing chain ${chain}`, error);
+      await this.saveCheckpoint({
+        chain,
+        schema_uid: schemaUid,
+        last_run_at: new Date(),
+        last_run_status: 'error',
+        last_run_count: progress.processed,
+        last_error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+  
+  /**
+   * Ingest from the GraphQL indexer
+   *
+   * Pages through everything the indexer has after the current watermark.
+   * Each page is stored before the watermark moves past it.
+   */
+  private async processChainFromIndexer(chain: string, schemaUid: string, progress: ChainRunProgress): Promise<void> {
+    const timestamp = this.lastProcessedTimestamps[chain] || Math.floor(Date.now() / 1000) - 60 * 60 * 24 * 7; // Default to 7 days ago
+    const afterUid = this.lastProcessedUids[chain];
 
-      logger.info(`Fetching attestations for ${chain} since ${new Date(timestamp * 1000).toISOString()}`);
+    logger.info(`Fetching attestations for ${chain} since ${new Date(timestamp * 1000).toISOString()}`);
+    
+    // Query the EAS indexer via GraphQL, committing each page before the next is fetched
+    const count = await this.walkAttestations(chain, 100, new Date(timestamp * 1000).toISOString(), {
+      afterUid,
+      onPage: async (page) => {
+        logger.info(`Processing ${page.length} attestations from ${chain}`);
+        
+        // Throws, leaving the watermark before the page, if a row was neither stored nor queued
+        const batch = await this.ingestBatch(chain, page);
+        progress.processed += batch.inserted;
+        
+        // Advance the watermark to the last attestation of the committed page
+        const last = page[page.length - 1];
+        this.lastProcessedTimestamps[chain] = parseInt(last.timeCreated);
+        this.lastProcessedUids[chain] = last.id;
+        logger.info(`Updated last timestamp for ${chain} to ${new Date(this.lastProcessedTimestamps[chain] * 1000).toISOString()}`);
+        
+        await this.saveCheckpoint({
+          chain,
+          schema_uid: schemaUid,
+          last_timestamp: new Date(this.lastProcessedTimestamps[chain] * 1000),
+          last_uid: last.id
+        });
+      },
+      shouldStop: () => this.shouldStop(progress)
+    });
+    
+    if (count === 0) {
+      logger.info(`No attestations found for chain ${chain}`);
+    }
+  }
+  
+  /**
+   * Ingest from EAS contract logs over JSON-RPC
+   *
+   * Scans Attested and Revoked events in fixed-size block ranges from the
+   * last scanned block up to the chain head. Each range is stored before the
+   * block watermark moves past it.
+   *
+   * The last confirmation-depth blocks of the previous scan may since have
+   * been reorganized, so they are reconciled and scanned again: proofs from
+   * blocks whose hash changed are deleted, revocations from them are undone,
+   * and the rescan re-ingests whatever the canonical chain now holds in that
+   * window.
+   */
+  private async processChainFromLogs(chain: string, schemaUid: string, progress: ChainRunProgress): Promise<void> {
+    const logService = this.logServices[chain];
+    const chainConfig = this.chainConfigs[chain];
+    const blockRange = parseInt(config.EAS_LOG_BLOCK_RANGE, 10) || 2000;
+    
+    const confirmations = this.getConfirmationDepth(chain);
+    
+    const headBlock = await logService.getBlockNumber();
+    let fromBlock = chainConfig.deploymentBlock;
+    
+    if (this.lastProcessedBlocks[chain] !== undefined) {
+      fromBlock = this.lastProcessedBlocks[chain] + 1;
       
-      // GraphQL Int is 32-bit signed integer (max: 2147483647), so we need to ensure the timestamp fits
-      const maxSafeInt = 2147483647;
-      // Use the smaller of our timestamp or maxSafeInt to avoid overflow
-      const safeTimestamp = Math.min(timestamp, maxSafeInt);
+      if (confirmations > 0) {
+        fromBlock = Math.max(fromBlock - confirmations, 0);
+        await this.reconcileReorgs(chain, fromBlock);
+      }
+    }
+    
+    logger.info(`Scanning ${chain} EAS logs from block ${fromBlock} to ${headBlock}`);
+    
+    while (fromBlock <= headBlock) {
+      const toBlock = Math.min(fromBlock + blockRange - 1, headBlock);
+      const { attested, revoked } = await logService.scanRange(fromBlock, toBlock);
       
-      // Query the EAS indexer via GraphQL
-      const attestations = await this.fetchAttestations(chain, 100, new Date(safeTimestamp * 1000).toISOString());
+      if (attested.length > 0) {
+        logger.info(`Processing ${attested.length} attestations from ${chain} blocks ${fromBlock}-${toBlock}`);
+        // Throws, leaving the block watermark before the range, if a row was neither stored nor queued
+        const batch = await this.ingestBatch(chain, attested);
+        progress.processed += batch.inserted;
+      }
       
-      if (attestations.length === 0) {
-        logger.info(`No attestations found for chain ${chain}`);
-        return 0;
+      if (revoked.length > 0) {
+        await this.recordRevocations(chain, revoked);
       }
       
-      logger.info(`Processing ${attestations.length} attestations from ${chain}`);
+      // Advance the block watermark past the committed range
+      this.lastProcessedBlocks[chain] = toBlock;
+      await this.saveCheckpoint({
+        chain,
+        schema_uid: schemaUid,
+        last_block: toBlock
+      });
       
-      let processedCount = 0;
+      fromBlock = toBlock + 1;
       
-      // Process each attestation
-      for (const attestation of attestations) {
-        try {
-          // Check if we already have this attestation
-          let exists = false;
-          
-          try {
-            exists = await this.dbService.locationProofExists(attestation.id);
-          } catch (error) {
-            // Fall back to Supabase if DbService fails
-            logger.warn(`DbService.locationProofExists failed, falling back to Supabase: ${(error as Error).message}`);
-            if (supabaseService && supabaseService.isAvailable()) {
-              exists = await supabaseService.locationProofExists(attestation.id);
-            } else {
-              throw error; // Re-throw if no fallback available
-            }
-          }
-          
-          if (!exists) {
-            // Convert the attestation to a location proof
-            const locationProof = await this.convertAttestationToLocationProof(attestation, chain);
-            
-            // Store in database (try DbService first, fall back to Supabase)
-            try {
-              await this.dbService.createLocationProof(locationProof);
-            } catch (error) {
-              // Fall back to Supabase if DbService fails
-              logger.warn(`DbService.createLocationProof failed, falling back to Supabase: ${(error as Error).message}`);
-              if (supabaseService && supabaseService.isAvailable()) {
-                await supabaseService.createLocationProof(locationProof);
-              } else {
-                throw error; // Re-throw if no fallback available
-              }
-            }
-            
-            processedCount++;
-          } else {
-            logger.debug(`Attestation ${attestation.id} already exists in database`);
+      if (fromBlock <= headBlock && this.shouldStop(progress)) {
+        logger.info(`Stopping the ${chain} log scan at block ${toBlock} of ${headBlock}`);
+        break;
+      }
+    }
+  }
+  
+  /**
+   * Delete stored proofs whose inclusion block is no longer canonical, and
+   * undo revocations recorded from such blocks
+   * 
+   * @param chain The chain to reconcile
+   * @param fromBlock First block of the reorg window
+   * @returns Number of proofs deleted
+   */
+  private async reconcileReorgs(chain: string, fromBlock: number): Promise<number> {
+    const logService = this.logServices[chain];
+    let stored: Array<{ block_number: number; block_hash: string | null }>;
+    
+    try {
+      stored = await this.dbService.getLocationProofBlocks(chain, fromBlock);
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.getLocationProofBlocks failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        stored = await supabaseService.getLocationProofBlocks(chain, fromBlock);
+      } else {
+        throw error; // Re-throw if no fallback available
+      }
+    }
+    
+    const reorgedBlocks: number[] = [];
+    for (const block of stored) {
+      const canonicalHash = await logService.getBlockHash(block.block_number);
+      if (canonicalHash !== block.block_hash) {
+        logger.warn(`Block ${block.block_number} on ${chain} was reorganized (stored ${block.block_hash}, now ${canonicalHash})`);
+        reorgedBlocks.push(block.block_number);
+      }
+    }
+    
+    if (reorgedBlocks.length === 0) {
+      return 0;
+    }
+    
+    let removed: number;
+    try {
+      removed = await this.dbService.deleteLocationProofsInBlocks(chain, reorgedBlocks);
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.deleteLocationProofsInBlocks failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        removed = await supabaseService.deleteLocationProofsInBlocks(chain, reorgedBlocks);
+      } else {
+        throw error; // Re-throw if no fallback available
+      }
+    }
+    
+    // Revocations still on the canonical chain are recorded again by the rescan of the window
+    let unrevoked: number;
+    try {
+      unrevoked = await this.dbService.clearRevocationsInBlocks(chain, reorgedBlocks);
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.clearRevocationsInBlocks failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        unrevoked = await supabaseService.clearRevocationsInBlocks(chain, reorgedBlocks);
+      } else {
+        throw error; // Re-throw if no fallback available
+      }
+    }
+    
+    this.reorgedCounts[chain] = (this.reorgedCounts[chain] || 0) + removed;
+    logger.warn(`Removed ${removed} reorged proofs and undid ${unrevoked} reorged revocations from ${reorgedBlocks.length} block(s) on ${chain}`);
+    return removed;
+  }
+  
+  /**
+   * Discover revocations from the GraphQL indexer
+   *
+   * Walks the chain's revoked attestations in (revocationTime, id) order from
+   * the revocation watermark, so a revocation is seen once however old the
+   * attestation is. The first run walks every revocation of the schemas.
+   */
+  private async processRevocationsFromIndexer(chain: string, schemaUid: string, progress: ChainRunProgress): Promise<void> {
+    const client = this.graphqlClients[chain];
+    const schemaIds = this.getSchemaUids(chain);
+    const limit = 100;
+    
+    let cursor: AttestationCursor = {
+      timeCreated: this.lastRevocationTimes[chain] || 0,
+      id: this.lastRevocationUids[chain] || ''
+    };
+    
+    for (;;) {
+      const page = await this.fetchRevocationsPage(client, chain, schemaIds, cursor, limit);
+      if (page.length === 0) {
+        break;
+      }
+      
+      await this.recordRevocations(chain, page);
+      
+      // Advance the revocation watermark past the applied page
+      const last = page[page.length - 1];
+      cursor = { timeCreated: Math.floor(last.revocationTime.getTime() / 1000), id: last.uid };
+      this.lastRevocationTimes[chain] = cursor.timeCreated;
+      this.lastRevocationUids[chain] = cursor.id;
+      
+      await this.saveCheckpoint({
+        chain,
+        schema_uid: schemaUid,
+        last_revocation_time: last.revocationTime,
+        last_revocation_uid: last.uid
+      });
+      
+      if (page.length < limit || this.shouldStop(progress)) {
+        break;
+      }
+    }
+  }
+  
+  /**
+   * Fetch one page of revoked attestations strictly after a (revocationTime, id) cursor
+   */
+  private async fetchRevocationsPage(
+    client: ApolloClient<unknown>,
+    chain: string,
+    schemaIds: string[],
+    cursor: AttestationCursor,
+    limit: number
+  ): Promise<RevocationEvent[]> {
+    const query = gql`
+      query GetRevocations($schemaIds: [String!]!, $revocationTime: Int!, $afterId: String!, $limit: Int!) {
+        attestations(
+          where: {
+            schemaId: { in: $schemaIds }
+            revocationTime: { gt: 0 }
+            OR: [
+              { revocationTime: { gt: $revocationTime } }
+              { revocationTime: { equals: $revocationTime }, id: { gt: $afterId } }
+            ]
           }
-        } catch (error) {
-          logger.error(`Error processing attestation ${attestation.id}`, error);
-          // Continue with next attestation
+          take: $limit
+          orderBy: [{ revocationTime: asc }, { id: asc }]
+        ) {
+          id
+          attester
+          revocationTime
         }
       }
-      
-      // Update last processed timestamp if we got any attestations
-      if (attestations.length > 0) {
-        const lastAttestationTime = Math.max(...attestations.map(a => parseInt(a.timeCreated)));
-        this.lastProcessedTimestamps[chain] = lastAttestationTime;
-        logger.info(`Updated last timestamp for ${chain} to ${new Date(lastAttestationTime * 1000).toISOString()}`);
+    `;
+    
+    let timer: NodeJS.Timeout | undefined;
+    const response = await Promise.race([
+      client.query({
+        query,
+        variables: { schemaIds, revocationTime: cursor.timeCreated, afterId: cursor.id, limit },
+        fetchPolicy: 'network-only'
+      }),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`GraphQL revocation query timed out after 30s for chain ${chain}`)), 30000);
+      })
+    ]).finally(() => clearTimeout(timer)) as { data: unknown };
+    
+    return parseIndexerResponse(revocationsResponseSchema, response.data, chain).attestations.map(attestation => ({
+      uid: attestation.id,
+      revocationTime: new Date(Number(attestation.revocationTime) * 1000),
+      revoker: attestation.attester
+    }));
+  }
+  
+  /**
+   * Record revocations on stored proofs (try DbService first, fall back to Supabase)
+   * 
+   * @returns Number of stored proofs updated
+   */
+  async recordRevocations(chain: string, revocations: RevocationEvent[]): Promise<number> {
+    let updated: number;
+    
+    try {
+      updated = await this.dbService.recordRevocations(revocations);
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.recordRevocations failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        updated = await supabaseService.recordRevocations(revocations);
+      } else {
+        throw error; // Re-throw if no fallback available
       }
-      
-      return processedCount;
+    }
+    
+    this.revokedCounts[chain] = (this.revokedCounts[chain] || 0) + updated;
+    logger.info(`Recorded ${revocations.length} revocations on ${chain} (${updated} stored proofs updated)`);
+    return updated;
+  }
+  
+  /**
+   * Load the persisted checkpoint for a chain into the in-memory watermark
+   * 
+   * @returns True if a checkpoint with a watermark was found
+   */
+  private async resumeFromCheckpoint(chain: string): Promise<boolean> {
+    const schemaUid = this.getSchemaUid(chain);
+    let checkpoint: SyncCheckpoint | null = null;
+    
+    try {
+      checkpoint = await this.dbService.getSyncCheckpoint(chain, schemaUid);
     } catch (error) {
-      logger.error(`Error processing chain ${chain}`, error);
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.getSyncCheckpoint failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        checkpoint = await supabaseService.getSyncCheckpoint(chain, schemaUid);
+      }
+    }
+    
+    if (!checkpoint) {
+      return false;
+    }
+    
+    if (checkpoint.last_revocation_time) {
+      this.lastRevocationTimes[chain] = Math.floor(new Date(checkpoint.last_revocation_time).getTime() / 1000);
+      this.lastRevocationUids[chain] = checkpoint.last_revocation_uid || '';
+    }
+    
+    if (checkpoint.last_block !== null && checkpoint.last_block !== undefined) {
+      this.lastProcessedBlocks[chain] = Number(checkpoint.last_block);
+      logger.info(`Resuming ${chain} from checkpoint block ${this.lastProcessedBlocks[chain]}`);
+    }
+    
+    if (!checkpoint.last_timestamp) {
+      return this.lastProcessedBlocks[chain] !== undefined;
+    }
+    
+    this.lastProcessedTimestamps[chain] = Math.floor(new Date(checkpoint.last_timestamp).getTime() / 1000);
+    if (checkpoint.last_uid) {
+      this.lastProcessedUids[chain] = checkpoint.last_uid;
+    }
+    
+    logger.info(`Resuming ${chain} from checkpoint: ${new Date(this.lastProcessedTimestamps[chain] * 1000).toISOString()} / ${checkpoint.last_uid}`);
+    return true;
+  }
+  
+  /**
+   * Persist checkpoint fields for a chain
+   *
+   * A failed write is logged rather than thrown: the in-memory watermark is
+   * still correct, and the next cold start just re-scans a little more.
+   */
+  private async saveCheckpoint(checkpoint: Partial<SyncCheckpoint> & Pick<SyncCheckpoint, 'chain' | 'schema_uid'>): Promise<void> {
+    try {
+      await this.dbService.upsertSyncCheckpoint(checkpoint);
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.upsertSyncCheckpoint failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        const result = await supabaseService.upsertSyncCheckpoint(checkpoint);
+        if (!result) {
+          logger.error(`Failed to save sync checkpoint for ${checkpoint.chain}`);
+        }
+      } else {
+        logger.error(`Failed to save sync checkpoint for ${checkpoint.chain}`, error);
+      }
+    }
+  }
+  
+  /**
+   * Get the persisted sync checkpoints for all chains
+   */
+  async getSyncCheckpoints(): Promise<SyncCheckpoint[]> {
+    try {
+      return await this.dbService.getSyncCheckpoints();
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.getSyncCheckpoints failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        return supabaseService.getSyncCheckpoints();
+      }
       throw error;
     }
   }
   
+  /**
+   * Convert and store an attestation, reporting the step it is at through progress
+   * 
+   * @returns Whether a new location proof was inserted, already existed or was rejected by an ingestion policy
+   * @throws The error of the step that failed
+   */
+  private async ingestAttestation(
+    attestation: EASAttestation,
+    chain: string,
+    progress: { stage: IngestionFailureStage }
+  ): Promise<IngestionOutcome> {
+    // Check if we already have this attestation
+    progress.stage = 'lookup';
+    let exists = false;
+    
+    try {
+      exists = await this.dbService.locationProofExists(attestation.id);
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.locationProofExists failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        exists = await supabaseService.locationProofExists(attestation.id);
+      } else {
+        throw error; // Re-throw if no fallback available
+      }
+    }
+    
+    if (exists) {
+      logger.debug(`Attestation ${attestation.id} already exists in database`);
+      return 'exists';
+    }
+    
+    // Convert the attestation to a location proof
+    progress.stage = 'convert';
+    const locationProof = await this.convertAttestationToLocationProof(attestation, chain);
+    if (this.isRejected(locationProof)) {
+      return 'rejected';
+    }
+    
+    // Store in database (try DbService first, fall back to Supabase)
+    progress.stage = 'store';
+    try {
+      await this.dbService.createLocationProof(locationProof);
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.createLocationProof failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        await supabaseService.createLocationProof(locationProof);
+      } else {
+        throw error; // Re-throw if no fallback available
+      }
+    }
+    
+    // Keep the attestation as received so the proof can be re-derived later
+    await this.archiveAttestation(chain, attestation, attestation.blockNumber !== undefined ? 'rpc' : 'indexer');
+    
+    return 'inserted';
+  }
+  
+  /**
+   * Convert and store a page of attestations with one batched write
+   * 
+   * Attestations that fail to convert go to the dead-letter queue, and those
+   * an ingestion policy rejects are dropped and counted. If the
+   * batched write itself fails, the page is stored one attestation at a time
+   * instead, so a bad row is queued without holding up the rest.
+   * 
+   * Throws if an attestation could be neither stored nor queued, so that the
+   * caller does not commit its watermark or cursor past the page.
+   * 
+   * @param chain The chain the attestations are from
+   * @param attestations The page of attestations
+   * @param onConflict Whether stored proofs are left alone (default) or rewritten when they changed
+   * @returns Inserted, updated, skipped, failed and rejected counts for the page
+   */
+  async ingestBatch(
+    chain: string,
+    attestations: EASAttestation[],
+    onConflict: LocationProofConflictMode = 'skip'
+  ): Promise<IngestionBatchResult> {
+    const proofs: LocationProof[] = [];
+    const converted: EASAttestation[] = [];
+    let failed = 0;
+    let rejected = 0;
+    
+    for (const attestation of attestations) {
+      try {
+        const proof = await this.convertAttestationToLocationProof(attestation, chain);
+        if (this.isRejected(proof)) {
+          rejected++;
+          continue;
+        }
+        proofs.push(proof);
+        converted.push(attestation);
+      } catch (error) {
+        failed++;
+        await this.recordIngestionFailure(chain, attestation, 'convert', error);
+      }
+    }
+    
+    let written: LocationProofBatchResult;
+    try {
+      written = await this.upsertLocationProofs(proofs, onConflict);
+    } catch (error) {
+      logger.warn(`Batched write of ${proofs.length} proofs on ${chain} failed, storing them one at a time: ${(error as Error).message}`);
+      const result = await this.ingestOneByOne(chain, converted);
+      result.failed += failed;
+      result.rejected += rejected;
+      return result;
+    }
+    
+    // Keep the attestations as received so the proofs can be re-derived later
+    const uids = new Set(written.uids);
+    await this.archiveAttestations(chain, converted.filter(attestation => uids.has(attestation.id)));
+    
+    const result = { inserted: written.inserted, updated: written.updated, skipped: written.skipped, failed, rejected };
+    logger.info(`Stored ${attestations.length} attestations from ${chain}: ${result.inserted} inserted, ${result.updated} updated, ${result.skipped} skipped, ${result.failed} failed, ${result.rejected} rejected`);
+    return result;
+  }
+  
+  /**
+   * Store attestations one at a time if they are not already in the database
+   * 
+   * An attestation that fails is written to the ingestion dead-letter queue
+   * so it can be retried once the watermark has moved past it. If it cannot
+   * be queued either, the page is aborted.
+   */
+  private async ingestOneByOne(chain: string, attestations: EASAttestation[]): Promise<IngestionBatchResult> {
+    const result: IngestionBatchResult = { inserted: 0, updated: 0, skipped: 0, failed: 0, rejected: 0 };
+    
+    for (const attestation of attestations) {
+      const progress: { stage: IngestionFailureStage } = { stage: 'lookup' };
+      try {
+        const outcome = await this.ingestAttestation(attestation, chain, progress);
+        if (outcome === 'inserted') {
+          result.inserted++;
+        } else if (outcome === 'rejected') {
+          result.rejected++;
+        } else {
+          result.skipped++;
+        }
+      } catch (error) {
+        logger.error(`Error processing attestation ${attestation.id}`, error);
+        await this.recordIngestionFailure(chain, attestation, progress.stage, error);
+        result.failed++;
+      }
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Check a converted proof against the ingestion policies, counting it if it is rejected
+   */
+  checkIngestionPolicies(proof: LocationProof): IngestionPolicyVerdict {
+    const verdict = evaluateIngestionPolicies(proof, this.policies);
+    if (verdict.accepted) {
+      return verdict;
+    }
+    
+    const key = verdict.policy ?? 'allowlist';
+    this.rejectedCounts[proof.chain] = (this.rejectedCounts[proof.chain] || 0) + 1;
+    this.rejectedByPolicy[key] = (this.rejectedByPolicy[key] || 0) + 1;
+    logger.debug(`Rejected attestation ${proof.uid} on ${proof.chain}: ${verdict.reason}`);
+    return verdict;
+  }
+  
+  private isRejected(proof: LocationProof): boolean {
+    return !this.checkIngestionPolicies(proof).accepted;
+  }
+  
+  private async upsertLocationProofs(proofs: LocationProof[], onConflict: LocationProofConflictMode): Promise<LocationProofBatchResult> {
+    try {
+      return await this.dbService.upsertLocationProofs(proofs, onConflict);
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.upsertLocationProofs failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        return supabaseService.upsertLocationProofs(proofs, onConflict);
+      }
+      throw error;
+    }
+  }
+  
+  /**
+   * Archive the attestation a stored proof was derived from
+   * 
+   * The proof is already stored, so a failed write is logged rather than thrown.
+   * 
+   * @param chain The chain the attestation is from
+   * @param attestation The attestation as received
+   * @param source Where it was received from
+   */
+  async archiveAttestation(chain: string, attestation: EASAttestation, source: AttestationSource): Promise<void> {
+    const entry = this.toArchiveEntry(chain, attestation, source);
+    
+    try {
+      await this.dbService.archiveAttestation(entry);
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.archiveAttestation failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        await supabaseService.archiveAttestation(entry);
+      } else {
+        logger.error(`Failed to archive attestation ${attestation.id}`, error);
+      }
+    }
+  }
+  
+  /**
+   * Archive the attestations of a stored page with one write; failures are logged
+   */
+  private async archiveAttestations(chain: string, attestations: EASAttestation[]): Promise<void> {
+    if (attestations.length === 0) {
+      return;
+    }
+    
+    const entries = attestations.map(attestation =>
+      this.toArchiveEntry(chain, attestation, attestation.blockNumber !== undefined ? 'rpc' : 'indexer')
+    );
+    
+    try {
+      await this.dbService.archiveAttestations(entries);
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.archiveAttestations failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        await supabaseService.archiveAttestations(entries);
+      } else {
+        logger.error(`Failed to archive ${entries.length} attestations on ${chain}`, error);
+      }
+    }
+  }
+  
+  private toArchiveEntry(chain: string, attestation: EASAttestation, source: AttestationSource): Omit<ArchivedAttestation, 'fetched_at' | 'created_at' | 'updated_at'> {
+    return {
+      uid: attestation.id,
+      chain,
+      source,
+      schema_uid: attestation.schemaId || this.getSchemaUid(chain),
+      data: attestation.data,
+      decoded_data_json: attestation.decodedDataJson ?? null,
+      txid: attestation.txid ?? null,
+      block_number: attestation.blockNumber ?? null,
+      block_hash: attestation.blockHash ?? null,
+      indexer_url: source === 'indexer' ? this.chainConfigs[chain]?.indexerUrl ?? null : null,
+      attestation
+    };
+  }
+  
+  /**
+   * Write a failed attestation to the dead-letter queue
+   * 
+   * Schema drift is recorded with its IngestionError code.
+   * 
+   * @throws The write error if the failure could not be queued anywhere; the
+   *         attestation is then neither stored nor queued, so the caller must
+   *         not move its watermark past it
+   */
+  private async recordIngestionFailure(
+    chain: string,
+    attestation: EASAttestation,
+    stage: IngestionFailureStage,
+    error: unknown
+  ): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    const code = error instanceof IngestionError ? error.code : undefined;
+    
+    try {
+      await this.dbService.recordIngestionFailure(chain, attestation, stage, message, code);
+    } catch (dbError) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.recordIngestionFailure failed, falling back to Supabase: ${(dbError as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        await supabaseService.recordIngestionFailure(chain, attestation, stage, message, code);
+      } else {
+        logger.error(`Failed to record ingestion failure for attestation ${attestation.id}`, dbError);
+        throw dbError;
+      }
+    }
+  }
+  
+  /**
+   * List attestations in the ingestion dead-letter queue
+   */
+  async getIngestionFailures(params: IngestionFailureQueryParams = {}): Promise<IngestionFailure[]> {
+    try {
+      return await this.dbService.getIngestionFailures(params);
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.getIngestionFailures failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        return supabaseService.getIngestionFailures(params);
+      }
+      throw error;
+    }
+  }
+  
+  /**
+   * Retry one attestation from the dead-letter queue
+   * 
+   * @param id The ingestion failure id
+   * @returns The retry outcome, or null if there is no such failure
+   */
+  async retryIngestionFailure(id: number): Promise<IngestionRetryResult | null> {
+    let failure: IngestionFailure | null;
+    
+    try {
+      failure = await this.dbService.getIngestionFailure(id);
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.getIngestionFailure failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        failure = await supabaseService.getIngestionFailure(id);
+      } else {
+        throw error;
+      }
+    }
+    
+    return failure ? this.retryFailures([failure]) : null;
+  }
+  
+  /**
+   * Retry pending attestations from the dead-letter queue, e.g. after a parser fix is deployed
+   * 
+   * @param params Chain and maximum number of failures to retry (default 100)
+   */
+  async retryIngestionFailures(params: Pick<IngestionFailureQueryParams, 'chain' | 'limit'> = {}): Promise<IngestionRetryResult> {
+    const failures = await this.getIngestionFailures({ ...params, status: 'pending', limit: params.limit ?? 100 });
+    return this.retryFailures(failures);
+  }
+  
+  /**
+   * Replay failed attestations through ingestion
+   * 
+   * Failures that now ingest, or whose proof was stored in the meantime, are
+   * resolved; the rest are recorded again with their new stage and error.
+   */
+  private async retryFailures(failures: IngestionFailure[]): Promise<IngestionRetryResult> {
+    const result: IngestionRetryResult = { retried: 0, resolved: 0, failed: 0, failures: [] };
+    
+    for (const failure of failures) {
+      result.retried++;
+      const progress: { stage: IngestionFailureStage } = { stage: 'lookup' };
+      
+      try {
+        await this.ingestAttestation(failure.attestation, failure.chain, progress);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn(`Retry of attestation ${failure.uid} on ${failure.chain} failed at ${progress.stage}: ${message}`);
+        // The failure stays pending in the queue even if its new error cannot be written
+        await this.recordIngestionFailure(failure.chain, failure.attestation, progress.stage, error).catch(() => undefined);
+        result.failed++;
+        result.failures.push({
+          id: failure.id,
+          uid: failure.uid,
+          stage: progress.stage,
+          error: message,
+          ...(error instanceof IngestionError ? { code: error.code } : {})
+        });
+        continue;
+      }
+      
+      try {
+        await this.dbService.resolveIngestionFailure(failure.id);
+      } catch (error) {
+        // Fall back to Supabase if DbService fails
+        logger.warn(`DbService.resolveIngestionFailure failed, falling back to Supabase: ${(error as Error).message}`);
+        if (supabaseService && supabaseService.isAvailable()) {
+          await supabaseService.resolveIngestionFailure(failure.id);
+        } else {
+          throw error;
+        }
+      }
+      result.resolved++;
+    }
+    
+    logger.info(`Retried ${result.retried} ingestion failures: ${result.resolved} resolved, ${result.failed} still failing`);
+    return result;
+  }
+  
   /**
    * Process all chains
    */
   async processAllChains(): Promise<Record<string, number>> {
     const results: Record<string, number> = {};
     
-    for (const chain of Object.keys(this.graphqlClients)) {
+    for (const chain of this.getIngestionChains()) {
       try {
         const count = await this.processChain(chain);
         results[chain] = count;
@@ -678,35 +1503,42 @@ export class EasService {
     return results;
   }
   
-  /**
-   * Helper to find a value in decoded data by name
-   */
-  private findValue(decodedData: DecodedDataItem[], name: string): string | number | boolean | string[] | number[] | boolean[] | null {
-    const item = decodedData.find(item => item.name === name);
-    return item ? item.value.value : null;
-  }
-
   /**
    * Check revocation status for a list of attestations
    * 
+   * Asks the indexer when the chain has one, otherwise reads each
+   * attestation from the EAS contract.
+   * 
    * @param chain The chain to check revocation on
    * @param uids List of attestation UIDs to check
-   * @returns Array of UIDs that have been revoked
+   * @returns The revocations of the UIDs that have been revoked
    */
-  async checkRevocationStatus(chain: string, uids: string[]): Promise<string[]> {
+  async checkRevocationStatus(chain: string, uids: string[]): Promise<RevocationEvent[]> {
     if (!this.easClients[chain]) {
       throw new Error(`Chain ${chain} is not supported`);
     }
 
-    // Check if we have a GraphQL client for this chain
-    const client = this.graphqlClients[chain];
-    if (!client) {
-      logger.warn(`No GraphQL client available for ${chain}, cannot check revocation status`);
+    if (uids.length === 0) {
       return [];
     }
 
-    if (uids.length === 0) {
-      return [];
+    // Without an indexer, read the current state from the contract
+    const client = this.graphqlClients[chain];
+    if (!client) {
+      const revocations: RevocationEvent[] = [];
+      for (const uid of uids) {
+        const attestation = await this.logServices[chain].getAttestation(uid);
+        if (attestation.revocationTime !== '0') {
+          revocations.push({
+            uid,
+            revocationTime: new Date(parseInt(attestation.revocationTime) * 1000),
+            revoker: attestation.attester
+          });
+        }
+      }
+      
+      logger.info(`Found ${revocations.length} revoked attestations out of ${uids.length} checked on ${chain}`);
+      return revocations;
     }
 
     try {
@@ -715,6 +1547,7 @@ export class EasService {
         query CheckRevocation($uids: [String!]!) {
           attestations(where: { id: { in: $uids } }) {
             id
+            attester
             revocationTime
           }
         }
@@ -729,19 +1562,170 @@ export class EasService {
         fetchPolicy: 'network-only' // Skip cache to get fresh data
       });
 
-      // Extract revoked attestations (revocationTime != "0")
-      const revokedUids = response.data.attestations
-        .filter((att: { id: string; revocationTime: string }) => att.revocationTime !== "0")
-        .map((att: { id: string }) => att.id);
+      // Extract revoked attestations (revocationTime != 0)
+      const revocations: RevocationEvent[] = parseIndexerResponse(revocationsResponseSchema, response.data, chain).attestations
+        .filter(att => Number(att.revocationTime) !== 0)
+        .map(att => ({
+          uid: att.id,
+          revocationTime: new Date(Number(att.revocationTime) * 1000),
+          revoker: att.attester
+        }));
 
-      logger.info(`Found ${revokedUids.length} revoked attestations out of ${uids.length} checked on ${chain}`);
-      return revokedUids;
+      logger.info(`Found ${revocations.length} revoked attestations out of ${uids.length} checked on ${chain}`);
+      return revocations;
     } catch (error) {
       logger.error(`Error checking revocation status on chain ${chain}`, error);
       throw error;
     }
   }
 
+  /**
+   * Get a block's number and time from the chain's JSON-RPC provider
+   * 
+   * @param blockTag Block number, or 'latest' for the chain head
+   * @returns The block, or null if the chain does not have it
+   */
+  async getBlockTime(chain: string, blockTag: number | 'latest'): Promise<{ number: number; timestamp: Date } | null> {
+    if (!this.logServices[chain]) {
+      throw new Error(`Chain ${chain} is not supported`);
+    }
+    return this.logServices[chain].getBlockTime(blockTag);
+  }
+  
+  /**
+   * Get the creation times of the indexer's newest attestation, of any schema
+   * and of the chain's location schemas
+   * 
+   * @returns The times (null when there is no such attestation), or null if the chain has no indexer
+   */
+  async getIndexerHead(chain: string): Promise<{ latest: Date | null; latestOfSchemas: Date | null } | null> {
+    const client = this.graphqlClients[chain];
+    if (!client) {
+      return null;
+    }
+    
+    const query = gql`
+      query GetIndexerHead($schemaIds: [String!]!) {
+        latest: attestations(take: 1, orderBy: [{ timeCreated: desc }]) {
+          timeCreated
+        }
+        latestOfSchemas: attestations(where: { schemaId: { in: $schemaIds } }, take: 1, orderBy: [{ timeCreated: desc }]) {
+          timeCreated
+        }
+      }
+    `;
+    
+    const response = await client.query({
+      query,
+      variables: { schemaIds: this.getSchemaUids(chain) },
+      fetchPolicy: 'network-only'
+    });
+    
+    const head = parseIndexerResponse(indexerHeadResponseSchema, response.data, chain);
+    const toDate = (page: Array<{ timeCreated: string }>) => page.length > 0 ? new Date(Number(page[0].timeCreated) * 1000) : null;
+    return { latest: toDate(head.latest), latestOfSchemas: toDate(head.latestOfSchemas) };
+  }
+  
+  /**
+   * Get the latest block number of a chain from its JSON-RPC provider
+   */
+  async getBlockNumber(chain: string): Promise<number> {
+    if (!this.logServices[chain]) {
+      throw new Error(`Chain ${chain} is not supported`);
+    }
+    return this.logServices[chain].getBlockNumber();
+  }
+  
+  /**
+   * Scan a block range of a chain's EAS contract logs, whatever the chain's ingestion source
+   */
+  async scanLogs(chain: string, fromBlock: number, toBlock: number): Promise<LogScanResult> {
+    if (!this.logServices[chain]) {
+      throw new Error(`Chain ${chain} is not supported`);
+    }
+    return this.logServices[chain].scanRange(fromBlock, toBlock);
+  }
+
+  /**
+   * Get the configured ingestion source for a chain
+   */
+  getIngestionSource(chain: string): 'indexer' | 'rpc' {
+    return this.chainConfigs[chain]?.ingestionSource || 'indexer';
+  }
+  
+  /**
+   * Get the primary schema UID of a chain (it keys the chain's sync checkpoint)
+   */
+  getSchemaUid(chain: string): string {
+    return this.chainConfigs[chain].schemaUIDs[0];
+  }
+  
+  /**
+   * Get every schema UID location proofs are ingested from on a chain
+   */
+  getSchemaUids(chain: string): string[] {
+    return this.chainConfigs[chain].schemaUIDs;
+  }
+  
+  /**
+   * Get the number of blocks behind the head that are re-checked for reorgs
+   */
+  getConfirmationDepth(chain: string): number {
+    return this.chainConfigs[chain]?.confirmations || 0;
+  }
+  
+  /**
+   * Run a job on a chain while holding the chain's lease for it
+   */
+  async withSyncLock<T>(chain: string, job: SyncLockJob, fn: (lease: AbortSignal) => Promise<T>): Promise<SyncLockResult<T>> {
+    return this.syncLocks.withLock(chain, job, fn);
+  }
+  
+  /**
+   * Get the holder id this instance takes sync leases under
+   */
+  getSyncLockHolder(): string {
+    return this.syncLocks.holder;
+  }
+  
+  /**
+   * Get the per-chain sync leases and who holds them
+   */
+  async getSyncLocks(): Promise<SyncLock[]> {
+    return this.syncLocks.getLocks();
+  }
+  
+  /**
+   * Get the number of proofs removed by reorg reconciliation since startup, per chain
+   */
+  getReorgedCounts(): Record<string, number> {
+    return { ...this.reorgedCounts };
+  }
+  
+  /**
+   * Get the number of stored proofs marked revoked by revocation tracking, per chain
+   */
+  getRevokedCounts(): Record<string, number> {
+    return { ...this.revokedCounts };
+  }
+  
+  /**
+   * Get the number of attestations rejected by the ingestion policies, per chain
+   * and per deny policy ("allowlist" for those no allow policy matched)
+   */
+  getRejectedCounts(): { byChain: Record<string, number>; byPolicy: Record<string, number> } {
+    return { byChain: { ...this.rejectedCounts }, byPolicy: { ...this.rejectedByPolicy } };
+  }
+  
+  /**
+   * Get the chains that can be ingested: indexer chains with a GraphQL client and all rpc chains
+   */
+  getIngestionChains(): string[] {
+    return Object.keys(this.easClients).filter(chain =>
+      this.getIngestionSource(chain) === 'rpc' || !!this.graphqlClients[chain]
+    );
+  }
+  
   /**
    * Get GraphQL clients for all chains
    */
@@ -0,0 +1,428 @@
+import { FetchRequest, GetUrlResponse } from 'ethers';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+/**
+ * What an endpoint pool talks to: a chain's JSON-RPC nodes or its GraphQL indexers
+ */
+export type EndpointKind = 'rpc' | 'indexer';
+
+/**
+ * How an endpoint answered a request
+ *
+ * rate-limited: the endpoint is backed off (for retryAfterMs if it said so);
+ * failed: the endpoint could not serve the request. Both move on to the next endpoint.
+ */
+export type EndpointOutcome =
+  | { result: 'ok' }
+  | { result: 'rate-limited'; retryAfterMs?: number }
+  | { result: 'failed'; error: string };
+
+/**
+ * Per-endpoint limits of a pool
+ */
+export interface EndpointLimits {
+  maxConcurrency: number; // Requests in flight at once
+  maxRps: number; // Requests started per second
+  backoffMs: number; // First backoff after a rate-limit response, doubled on each one in a row
+  maxBackoffMs: number;
+  timeoutMs: number; // Per attempt
+}
+
+/**
+ * Health of one endpoint as reported by /api/sync/status
+ */
+export interface EndpointHealth {
+  url: string; // Redacted, so provider keys are not exposed
+  status: 'healthy' | 'degraded' | 'backoff';
+  score: number; // 0-1, weighted towards recent requests
+  inFlight: number;
+  requests: number;
+  failures: number;
+  rateLimited: number;
+  latencyMs: number | null; // Weighted average of successful requests
+  backoffUntil: string | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+}
+
+// Weight of the latest request in the health score and latency averages
+const SCORE_WEIGHT = 0.2;
+// Time for an endpoint's score to climb back to 1 after its last failure
+const SCORE_RECOVERY_MS = 60000;
+// Below this score an endpoint is reported as degraded
+const DEGRADED_SCORE = 0.5;
+// Polling interval while every endpoint is at its limits
+const WAIT_INTERVAL_MS = 25;
+
+/**
+ * Limits from config, applied to every endpoint
+ */
+export const defaultEndpointLimits = (): EndpointLimits => ({
+  maxConcurrency: parseInt(config.ENDPOINT_MAX_CONCURRENCY, 10) || 8,
+  maxRps: parseInt(config.ENDPOINT_MAX_RPS, 10) || 25,
+  backoffMs: parseInt(config.ENDPOINT_BACKOFF_MS, 10) || 1000,
+  maxBackoffMs: 60000,
+  timeoutMs: parseInt(config.ENDPOINT_TIMEOUT_MS, 10) || 30000
+});
+
+/**
+ * Mask the parts of an endpoint URL that usually carry a provider key:
+ * credentials, query values and long path segments
+ */
+export function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.username = parsed.username ? '***' : '';
+    parsed.password = parsed.password ? '***' : '';
+    parsed.pathname = parsed.pathname
+      .split('/')
+      .map(segment => /^[A-Za-z0-9_-]{20,}$/.test(segment) ? '***' : segment)
+      .join('/');
+    for (const key of [...parsed.searchParams.keys()]) {
+      parsed.searchParams.set(key, '***');
+    }
+    return decodeURIComponent(parsed.toString());
+  } catch {
+    return '***';
+  }
+}
+
+// Retry-After in seconds or as an HTTP date
+const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Classify an HTTP status: 429 backs the endpoint off, and server, auth and
+ * not-found errors move on to the next endpoint. Other client errors are the
+ * request's fault, not the endpoint's.
+ */
+export function classifyStatus(status: number, retryAfter?: string | null): EndpointOutcome {
+  if (status === 429) {
+    return { result: 'rate-limited', retryAfterMs: parseRetryAfter(retryAfter) };
+  }
+  if (status >= 500 || status === 401 || status === 403 || status === 404) {
+    return { result: 'failed', error: `HTTP ${status}` };
+  }
+  return { result: 'ok' };
+}
+
+// One endpoint of a pool and its running health
+class Endpoint {
+  readonly url: string;
+  inFlight = 0;
+  requests = 0;
+  failures = 0;
+  rateLimited = 0;
+  latencyMs: number | null = null;
+  backoffUntil = 0;
+  lastError: string | null = null;
+  lastErrorAt = 0;
+  private score = 1;
+  private consecutiveRateLimits = 0;
+  // Start times of requests in the last second
+  private recent: number[] = [];
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  // Score with the recovery since the last failure, so a demoted endpoint is tried again
+  currentScore(now: number): number {
+    if (this.score >= 1 || !this.lastErrorAt) {
+      return this.score;
+    }
+    const recovered = Math.min(1, (now - this.lastErrorAt) / SCORE_RECOVERY_MS);
+    return this.score + (1 - this.score) * recovered;
+  }
+
+  // How long until the endpoint can take another request (0 when it can now)
+  readyIn(now: number, limits: EndpointLimits): number {
+    this.recent = this.recent.filter(started => now - started < 1000);
+    const waits = [this.backoffUntil - now];
+    if (this.inFlight >= limits.maxConcurrency) {
+      waits.push(WAIT_INTERVAL_MS);
+    }
+    if (this.recent.length >= limits.maxRps) {
+      waits.push(this.recent[0] + 1000 - now);
+    }
+    return Math.max(0, ...waits);
+  }
+
+  start(now: number): void {
+    this.inFlight++;
+    this.requests++;
+    this.recent.push(now);
+  }
+
+  succeed(latencyMs: number): void {
+    this.inFlight--;
+    this.score = this.currentScore(Date.now()) * (1 - SCORE_WEIGHT) + SCORE_WEIGHT;
+    this.latencyMs = this.latencyMs === null ? latencyMs : Math.round(this.latencyMs * (1 - SCORE_WEIGHT) + latencyMs * SCORE_WEIGHT);
+    this.consecutiveRateLimits = 0;
+  }
+
+  fail(error: string): void {
+    this.inFlight--;
+    this.failures++;
+    this.demote(error);
+  }
+
+  backOff(limits: EndpointLimits, retryAfterMs?: number): number {
+    this.inFlight--;
+    this.rateLimited++;
+    this.consecutiveRateLimits++;
+    const delay = retryAfterMs ?? Math.min(limits.backoffMs * 2 ** (this.consecutiveRateLimits - 1), limits.maxBackoffMs);
+    this.backoffUntil = Date.now() + delay;
+    this.demote('rate limited');
+    return delay;
+  }
+
+  health(now: number): EndpointHealth {
+    const score = this.currentScore(now);
+    return {
+      url: redactUrl(this.url),
+      status: this.backoffUntil > now ? 'backoff' : score < DEGRADED_SCORE ? 'degraded' : 'healthy',
+      score: Math.round(score * 100) / 100,
+      inFlight: this.inFlight,
+      requests: this.requests,
+      failures: this.failures,
+      rateLimited: this.rateLimited,
+      latencyMs: this.latencyMs,
+      backoffUntil: this.backoffUntil > now ? new Date(this.backoffUntil).toISOString() : null,
+      lastError: this.lastError,
+      lastErrorAt: this.lastErrorAt ? new Date(this.lastErrorAt).toISOString() : null
+    };
+  }
+
+  private demote(error: string): void {
+    const now = Date.now();
+    this.score = this.currentScore(now) * (1 - SCORE_WEIGHT);
+    this.lastError = error;
+    this.lastErrorAt = now;
+  }
+}
+
+/**
+ * A chain's RPC or indexer endpoints, used with failover
+ *
+ * Each request goes to the healthiest endpoint that is within its concurrency
+ * and requests-per-second limits and not backing off, preferring the
+ * configured order on a tie. An endpoint that rate-limits or fails is demoted
+ * and the request moves on to the next one; each endpoint is tried at most
+ * once per request. When every endpoint is at its limits the request waits.
+ */
+export class EndpointPool {
+  readonly chain: string;
+  readonly kind: EndpointKind;
+  readonly urls: string[];
+  private endpoints: Endpoint[];
+  private limits: EndpointLimits;
+
+  constructor(chain: string, kind: EndpointKind, urls: string[], limits: EndpointLimits = defaultEndpointLimits()) {
+    if (urls.length === 0) {
+      throw new Error(`No ${kind} endpoints configured for ${chain}`);
+    }
+    this.chain = chain;
+    this.kind = kind;
+    this.urls = urls;
+    this.endpoints = urls.map(url => new Endpoint(url));
+    this.limits = limits;
+  }
+
+  /**
+   * Send a request through the pool
+   *
+   * @param send Sends the request to one endpoint; aborted at the per-attempt timeout
+   * @param inspect Classifies a response as ok, rate-limited or failed
+   * @returns The first ok response, or the last endpoint's response if none was ok
+   * @throws The last endpoint's error if no endpoint returned a response
+   */
+  async request<T>(
+    send: (url: string, signal: AbortSignal) => Promise<T>,
+    inspect: (response: T) => EndpointOutcome | Promise<EndpointOutcome>
+  ): Promise<T> {
+    const tried = new Set<Endpoint>();
+    let lastResponse: { value: T } | null = null;
+    let lastError: unknown = null;
+
+    for (let endpoint = await this.acquire(tried); endpoint; endpoint = await this.acquire(tried)) {
+      tried.add(endpoint);
+      const startedAt = Date.now();
+      let outcome: EndpointOutcome;
+
+      try {
+        const response = await send(endpoint.url, AbortSignal.timeout(this.limits.timeoutMs));
+        lastResponse = { value: response };
+        outcome = await inspect(response);
+      } catch (error) {
+        lastError = error;
+        outcome = { result: 'failed', error: error instanceof Error ? error.message : String(error) };
+      }
+
+      if (outcome.result === 'ok') {
+        endpoint.succeed(Date.now() - startedAt);
+        return lastResponse!.value;
+      }
+
+      if (outcome.result === 'rate-limited') {
+        const delay = endpoint.backOff(this.limits, outcome.retryAfterMs);
+        logger.warn(`${this.chain} ${this.kind} endpoint ${redactUrl(endpoint.url)} is rate limiting, backing off for ${delay}ms`);
+      } else {
+        endpoint.fail(outcome.error);
+        logger.warn(`${this.chain} ${this.kind} endpoint ${redactUrl(endpoint.url)} failed: ${outcome.error}`);
+      }
+    }
+
+    if (lastResponse) {
+      return lastResponse.value;
+    }
+    throw lastError ?? new Error(`No ${this.kind} endpoint for ${this.chain} could serve the request`);
+  }
+
+  /**
+   * Health of every endpoint, in configured order
+   */
+  getHealth(): EndpointHealth[] {
+    const now = Date.now();
+    return this.endpoints.map(endpoint => endpoint.health(now));
+  }
+
+  // Wait for the best untried endpoint to be free and start a request on it
+  private async acquire(tried: Set<Endpoint>): Promise<Endpoint | null> {
+    for (;;) {
+      const now = Date.now();
+      const candidates = this.endpoints.filter(endpoint => !tried.has(endpoint));
+      if (candidates.length === 0) {
+        return null;
+      }
+
+      const ready = candidates
+        .filter(endpoint => endpoint.readyIn(now, this.limits) === 0)
+        .sort((a, b) => b.currentScore(now) - a.currentScore(now));
+
+      if (ready.length > 0) {
+        ready[0].start(now);
+        return ready[0];
+      }
+
+      const wait = Math.min(...candidates.map(endpoint => endpoint.readyIn(now, this.limits)));
+      await new Promise(resolve => setTimeout(resolve, Math.max(wait, 1)));
+    }
+  }
+}
+
+// Pools shared by every EasService instance in the process, keyed by chain and kind
+const pools = new Map<string, EndpointPool>();
+
+/**
+ * Get the process-wide pool for a chain's endpoints, creating it on first use
+ */
+export function getEndpointPool(chain: string, kind: EndpointKind, urls: string[]): EndpointPool {
+  const key = `${chain}:${kind}`;
+  const existing = pools.get(key);
+  if (existing && existing.urls.join(',') === urls.join(',')) {
+    return existing;
+  }
+
+  const pool = new EndpointPool(chain, kind, urls);
+  pools.set(key, pool);
+  return pool;
+}
+
+/**
+ * Health of every pooled endpoint, keyed by chain
+ */
+export function getEndpointHealth(): Record<string, Partial<Record<EndpointKind, EndpointHealth[]>>> {
+  const health: Record<string, Partial<Record<EndpointKind, EndpointHealth[]>>> = {};
+  for (const pool of pools.values()) {
+    health[pool.chain] = { ...health[pool.chain], [pool.kind]: pool.getHealth() };
+  }
+  return health;
+}
+
+// JSON-RPC errors that mean the node is throttling (-32005 is the usual "limit exceeded")
+const isRateLimitError = (error: { code?: number; message?: string } | undefined): boolean =>
+  !!error && (error.code === -32005 || error.code === 429 || /rate limit|too many requests/i.test(error.message ?? ''));
+
+/**
+ * An ethers request that sends every JSON-RPC call through a pool
+ *
+ * Rate-limit replies are retried on the pool's other endpoints instead of by
+ * ethers, so they back off the endpoint that sent them.
+ */
+export function createPooledRpcRequest(pool: EndpointPool): FetchRequest {
+  const request = new FetchRequest(pool.urls[0]);
+  request.retryFunc = async () => false;
+  request.getUrlFunc = async (req: FetchRequest): Promise<GetUrlResponse> => pool.request(
+    async (url, signal) => {
+      const response = await fetch(url, {
+        method: req.method,
+        headers: req.headers,
+        body: req.body ?? undefined,
+        signal
+      });
+      return {
+        statusCode: response.status,
+        statusMessage: response.statusText,
+        headers: Object.fromEntries(response.headers.entries()),
+        body: new Uint8Array(await response.arrayBuffer())
+      };
+    },
+    (response) => {
+      const outcome = classifyStatus(response.statusCode, response.headers['retry-after']);
+      if (outcome.result !== 'ok' || !response.body) {
+        return outcome;
+      }
+      try {
+        const payload = JSON.parse(Buffer.from(response.body).toString('utf8'));
+        const replies: Array<{ error?: { code?: number; message?: string } }> = Array.isArray(payload) ? payload : [payload];
+        return replies.some(reply => isRateLimitError(reply?.error)) ? { result: 'rate-limited' } : outcome;
+      } catch {
+        return outcome;
+      }
+    }
+  );
+  return request;
+}
+
+// A signal aborted by whichever of two signals aborts first (AbortSignal.any needs Node 20.3)
+const combineSignals = (first: AbortSignal, second: AbortSignal): { signal: AbortSignal; dispose: () => void } => {
+  const controller = new AbortController();
+  const listeners = [first, second].map(signal => {
+    const listener = () => controller.abort(signal.reason);
+    if (signal.aborted) {
+      listener();
+    } else {
+      signal.addEventListener('abort', listener, { once: true });
+    }
+    return () => signal.removeEventListener('abort', listener);
+  });
+  return { signal: controller.signal, dispose: () => listeners.forEach(remove => remove()) };
+};
+
+/**
+ * A fetch that sends every indexer request through a pool, for Apollo's HttpLink
+ */
+export function createPooledFetch(pool: EndpointPool): typeof fetch {
+  return async (_input, init) => pool.request(
+    (url, signal) => {
+      if (!init?.signal) {
+        return fetch(url, { ...init, signal });
+      }
+      // The caller's signal is long-lived, so stop listening once the attempt settles
+      const combined = combineSignals(init.signal, signal);
+      return fetch(url, { ...init, signal: combined.signal }).finally(combined.dispose);
+    },
+    (response) => classifyStatus(response.status, response.headers.get('retry-after'))
+  );
+}
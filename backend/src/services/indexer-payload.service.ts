@@ -0,0 +1,119 @@
+import { z } from 'zod';
+import { EASAttestation } from '../models/types';
+
+/**
+ * Why an attestation or indexer response could not be ingested
+ *
+ * INVALID_RESPONSE: the indexer's response is not shaped as queried;
+ * INVALID_ATTESTATION: an attestation is missing fields or has malformed ones;
+ * UNREGISTERED_SCHEMA: the attestation's schema is not in the schema registry;
+ * DECODE_FAILED: neither decodedDataJson nor the raw data decode with the schema;
+ * SCHEMA_MISMATCH: a decoded field does not have the type the location model expects.
+ */
+export type IngestionErrorCode =
+  | 'INVALID_RESPONSE'
+  | 'INVALID_ATTESTATION'
+  | 'UNREGISTERED_SCHEMA'
+  | 'DECODE_FAILED'
+  | 'SCHEMA_MISMATCH';
+
+/**
+ * An indexer payload that drifted from the shape ingestion expects
+ */
+export class IngestionError extends Error {
+  readonly code: IngestionErrorCode;
+  readonly details?: Record<string, unknown>;
+
+  constructor(code: IngestionErrorCode, message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'IngestionError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+// Issues of a failed parse as "path: message" strings
+export const describeIssues = (error: z.ZodError): string[] =>
+  error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+
+// The indexer returns Int fields as numbers; the API keeps them as strings
+const intString = z.union([z.string().regex(/^\d+$/), z.number().int().nonnegative()]).transform(value => value.toString());
+const hexString = z.string().regex(/^0x[0-9a-fA-F]*$/, 'must be a hex string');
+
+/**
+ * An attestation as returned by the indexer's attestations query
+ *
+ * decodedDataJson may be missing or null; decoding then falls back to data.
+ */
+export const easAttestationSchema = z.object({
+  id: hexString,
+  attester: z.string().min(1),
+  recipient: z.string().nullable(),
+  revocationTime: intString,
+  expirationTime: intString.optional(),
+  timeCreated: intString,
+  data: hexString,
+  decodedDataJson: z.string().nullish().transform(value => value ?? ''),
+  schemaId: hexString.optional(),
+  blockNumber: z.number().int().nonnegative().optional(),
+  blockHash: hexString.optional(),
+  txid: z.string().optional()
+});
+
+/**
+ * A page of the indexer's attestations query
+ *
+ * Only the fields the page cursor needs are checked here; each attestation is
+ * validated in full when it is converted, so one bad record is dead-lettered
+ * instead of failing its page. The records are typed as attestations from then on.
+ */
+export const attestationsResponseSchema = z.object({
+  attestations: z.array(
+    z.object({ id: z.string().min(1), timeCreated: intString }).passthrough().pipe(z.custom<EASAttestation>())
+  )
+});
+
+/**
+ * A page of the indexer's revoked attestations query
+ */
+export const revocationsResponseSchema = z.object({
+  attestations: z.array(z.object({ id: z.string().min(1), attester: z.string().min(1), revocationTime: intString }))
+});
+
+/**
+ * The indexer's newest attestation, of any schema and of the location schemas
+ */
+export const indexerHeadResponseSchema = z.object({
+  latest: z.array(z.object({ timeCreated: intString })),
+  latestOfSchemas: z.array(z.object({ timeCreated: intString }))
+});
+
+/**
+ * Validate an indexer response against the shape it was queried with
+ *
+ * @throws IngestionError INVALID_RESPONSE listing the fields that drifted
+ */
+export function parseIndexerResponse<T extends z.ZodTypeAny>(schema: T, data: unknown, chain: string): z.infer<T> {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const issues = describeIssues(result.error);
+    throw new IngestionError('INVALID_RESPONSE', `Indexer response for ${chain} does not match the query: ${issues.slice(0, 5).join('; ')}`, { issues });
+  }
+  return result.data;
+}
+
+/**
+ * Validate an attestation before it is converted
+ *
+ * @returns The attestation with Int fields as strings and decodedDataJson as '' when missing
+ * @throws IngestionError INVALID_ATTESTATION listing the malformed fields
+ */
+export function parseAttestation(attestation: unknown): EASAttestation {
+  const result = easAttestationSchema.safeParse(attestation);
+  if (!result.success) {
+    const issues = describeIssues(result.error);
+    const id = (attestation as { id?: unknown } | null)?.id;
+    throw new IngestionError('INVALID_ATTESTATION', `Attestation ${id ?? '(no id)'} is malformed: ${issues.join('; ')}`, { issues });
+  }
+  return result.data;
+}
@@ -0,0 +1,116 @@
+import { ingestionPolicies } from '../config';
+import {
+  IngestionPolicy,
+  IngestionPolicyVerdict,
+  IngestionPolicyViolation,
+  IngestionPolicyViolationQueryParams,
+  IngestionPolicyViolationResult,
+  LocationProof
+} from '../models/types';
+import { dbService, DbService } from './db.service';
+import { supabaseService } from './supabase.service';
+import { logger } from '../utils/logger';
+
+// The proof fields the policies look at
+export type PolicyFields = Pick<LocationProof, 'chain' | 'prover' | 'subject' | 'location_type' | 'recipe_types'>;
+
+const ACCEPTED: IngestionPolicyVerdict = { accepted: true, policy: null, reason: null };
+
+// Whether every criterion the policy sets matches the proof
+const matches = (policy: IngestionPolicy, proof: PolicyFields): boolean =>
+  (!policy.attesters || policy.attesters.includes(proof.prover.toLowerCase())) &&
+  (!policy.recipients || policy.recipients.includes((proof.subject ?? '').toLowerCase())) &&
+  (!policy.locationTypes || policy.locationTypes.includes(proof.location_type)) &&
+  (!policy.recipeTypes || (proof.recipe_types ?? []).some(type => policy.recipeTypes!.includes(type)));
+
+/**
+ * Check a proof against the ingestion policies of its chain
+ *
+ * Deny policies are checked first, in order; then, if any allow policy
+ * applies to the chain, the proof must match one of them.
+ */
+export function evaluateIngestionPolicies(proof: PolicyFields, policies: IngestionPolicy[]): IngestionPolicyVerdict {
+  const applicable = policies.filter(policy => !policy.chains || policy.chains.includes(proof.chain));
+
+  const denied = applicable.find(policy => policy.action === 'deny' && matches(policy, proof));
+  if (denied) {
+    return { accepted: false, policy: denied.name, reason: `denied by policy ${denied.name}` };
+  }
+
+  const allows = applicable.filter(policy => policy.action === 'allow');
+  if (allows.length > 0 && !allows.some(policy => matches(policy, proof))) {
+    return { accepted: false, policy: null, reason: `not allowed by any of ${allows.map(policy => policy.name).join(', ')}` };
+  }
+
+  return ACCEPTED;
+}
+
+/**
+ * Finds stored proofs that the current ingestion policies would reject,
+ * such as those ingested before a policy was added, so they can be cleaned up
+ */
+export class IngestionPolicyService {
+  private dbService: DbService;
+  private policies: IngestionPolicy[];
+
+  constructor(dbService: DbService, policies: IngestionPolicy[] = ingestionPolicies ?? []) {
+    this.dbService = dbService;
+    this.policies = policies;
+  }
+
+  /**
+   * Get the configured policies, in the order they are evaluated
+   */
+  getPolicies(): IngestionPolicy[] {
+    return this.policies;
+  }
+
+  /**
+   * Check one page of stored proofs against the policies
+   *
+   * @param params Chain to filter by, afterUid cursor and number of proofs to scan (default 100)
+   * @returns The violations among the scanned proofs and the cursor of the next page
+   */
+  async findViolations(params: IngestionPolicyViolationQueryParams = {}): Promise<IngestionPolicyViolationResult> {
+    const limit = params.limit ?? 100;
+    const proofs = this.policies.length > 0 ? await this.getPolicyFields({ ...params, limit }) : [];
+    const violations: IngestionPolicyViolation[] = [];
+
+    for (const proof of proofs) {
+      const verdict = evaluateIngestionPolicies(proof, this.policies);
+      if (!verdict.accepted) {
+        violations.push({
+          uid: proof.uid,
+          chain: proof.chain,
+          prover: proof.prover,
+          subject: proof.subject,
+          location_type: proof.location_type,
+          recipe_types: proof.recipe_types,
+          policy: verdict.policy,
+          reason: verdict.reason!
+        });
+      }
+    }
+
+    return {
+      scanned: proofs.length,
+      nextAfterUid: proofs.length === limit ? proofs[proofs.length - 1].uid : null,
+      violations
+    };
+  }
+
+  private async getPolicyFields(params: IngestionPolicyViolationQueryParams) {
+    try {
+      return await this.dbService.getLocationProofPolicyFields(params);
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.getLocationProofPolicyFields failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        return supabaseService.getLocationProofPolicyFields(params);
+      }
+      throw error;
+    }
+  }
+}
+
+export const ingestionPolicyService = new IngestionPolicyService(dbService);
@@ -0,0 +1,438 @@
+import { cellToBoundary, cellToLatLng, isValidCell } from 'h3-js';
+import { GeoJSONGeometry, GeoJSONPosition, LocationParserOutput, LocationParseResult, LocationQualityFlag } from '../models/types';
+import { hasInvalidRing, isGeoJSONGeometry, mapPositions, parseGeoJSONGeometry, representativeAltitude, representativePoint } from '../utils/geometry';
+import { normalizeSrs, reprojectToWgs84 } from '../utils/srs';
+
+/**
+ * Reads one location format into a GeoJSON geometry
+ */
+export interface LocationParser {
+  name: string;
+  locationTypes: RegExp; // location_type values that name this format
+  sniff(location: string): boolean; // Whether the content looks like this format, whatever its location_type
+  parse(location: string, locationType: string): LocationParserOutput;
+}
+
+const invalid = (...diagnostics: string[]): LocationParserOutput => ({ geometry: null, diagnostics });
+
+const NUMBER = '[-+]?(?:\\d+\\.?\\d*|\\.\\d+)';
+
+// A south-west to north-east box as a polygon
+const box = (west: number, south: number, east: number, north: number): GeoJSONGeometry => ({
+  type: 'Polygon',
+  coordinates: [[[west, south], [east, south], [east, north], [west, north], [west, south]]]
+});
+
+// A decimal degree pair as a point, swapping the axes when only the swapped order is in range
+function decimalPoint(first: number, second: number, order: 'lat-lon' | 'lon-lat'): LocationParserOutput {
+  let [longitude, latitude] = order === 'lon-lat' ? [first, second] : [second, first];
+  const diagnostics: string[] = [];
+  const flags: LocationQualityFlag[] = [];
+
+  if (Math.abs(latitude) > 90 && Math.abs(longitude) <= 90) {
+    diagnostics.push(`latitude ${latitude} is out of range, read the pair as ${order === 'lat-lon' ? 'longitude, latitude' : 'latitude, longitude'}`);
+    flags.push('axis-swap');
+    [longitude, latitude] = [latitude, longitude];
+  }
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    return { geometry: null, flags: ['out-of-range'], diagnostics: [`coordinates ${first}, ${second} are out of range`] };
+  }
+
+  return { geometry: { type: 'Point', coordinates: [longitude, latitude] }, flags, diagnostics };
+}
+
+const geojsonParser: LocationParser = {
+  name: 'geojson',
+  locationTypes: /^geojson/i,
+  sniff: location => location.startsWith('{'),
+  parse(location) {
+    let value: { type?: unknown; features?: unknown; crs?: { properties?: { name?: unknown } } };
+    try {
+      value = JSON.parse(location);
+    } catch (error) {
+      return invalid(`not valid JSON (${(error as Error).message})`);
+    }
+
+    // Coordinates are checked once they are in EPSG:4326
+    const geometry = parseGeoJSONGeometry(value, false);
+    if (!geometry) {
+      return hasInvalidRing(value)
+        ? { geometry: null, flags: ['invalid-ring'], diagnostics: ['a polygon ring is too short or not closed'] }
+        : invalid('not a valid GeoJSON geometry, Feature or FeatureCollection');
+    }
+
+    const diagnostics: string[] = [];
+    if (value.type === 'Feature' || (value.type === 'FeatureCollection' && (value.features as unknown[]).length === 1)) {
+      diagnostics.push(`read the geometry of a ${value.type}`);
+    } else if (value.type === 'FeatureCollection') {
+      diagnostics.push(`merged ${(value.features as unknown[]).length} features into a GeometryCollection`);
+    }
+
+    // GeoJSON before RFC 7946 could name its CRS
+    const crs = value.crs?.properties?.name;
+    return typeof crs === 'string' ? { geometry, srs: crs, diagnostics } : { geometry, diagnostics };
+  }
+};
+
+const WKT_TYPE = /^(POINT|LINESTRING|POLYGON|MULTIPOINT|MULTILINESTRING|MULTIPOLYGON|GEOMETRYCOLLECTION)(ZM|Z|M)?$/;
+
+// Read a WKT geometry; throws with what was wrong
+function readWkt(text: string): GeoJSONGeometry {
+  const tokens = text.match(new RegExp(`\\(|\\)|,|[A-Za-z]+|${NUMBER}(?:[eE][-+]?\\d+)?|\\S`, 'g')) ?? [];
+  let i = 0;
+  const peek = () => tokens[i]?.toUpperCase();
+  const expect = (token: string) => {
+    if (peek() !== token) {
+      throw new Error(`expected ${token} but found ${tokens[i] ?? 'the end'}`);
+    }
+    i++;
+  };
+  const list = <T>(item: () => T): T[] => {
+    expect('(');
+    const items = [item()];
+    while (peek() === ',') {
+      i++;
+      items.push(item());
+    }
+    expect(')');
+    return items;
+  };
+
+  // Positions keep x, y and z; m values are dropped
+  const position = (dimensions: string): GeoJSONPosition => {
+    const values: number[] = [];
+    while (i < tokens.length && !['(', ')', ','].includes(tokens[i])) {
+      const value = Number(tokens[i++]);
+      if (!Number.isFinite(value)) {
+        throw new Error(`unexpected ${tokens[i - 1]}`);
+      }
+      values.push(value);
+    }
+    const expected = dimensions === 'ZM' ? 4 : dimensions ? 3 : values.length;
+    if (values.length < 2 || values.length > 4 || values.length !== expected) {
+      throw new Error(`position of ${values.length} values in a ${dimensions || 'XY'} geometry`);
+    }
+    return dimensions === 'M' ? values.slice(0, 2) : values.slice(0, 3);
+  };
+
+  const geometry = (): GeoJSONGeometry => {
+    const keyword = peek() ?? '';
+    const match = WKT_TYPE.exec(keyword);
+    if (!match) {
+      throw new Error(`unknown geometry type ${tokens[i] ?? '(none)'}`);
+    }
+    i++;
+    let dimensions = match[2] ?? '';
+    if (!dimensions && ['Z', 'M', 'ZM'].includes(peek())) {
+      dimensions = peek();
+      i++;
+    }
+    if (peek() === 'EMPTY') {
+      throw new Error(`${match[1]} EMPTY has no location`);
+    }
+
+    const at = () => position(dimensions);
+    switch (match[1]) {
+      case 'POINT': {
+        const [coordinates, ...rest] = list(at);
+        if (rest.length > 0) {
+          throw new Error('POINT with more than one position');
+        }
+        return { type: 'Point', coordinates };
+      }
+      case 'LINESTRING':
+        return { type: 'LineString', coordinates: list(at) };
+      case 'POLYGON':
+        return { type: 'Polygon', coordinates: list(() => list(at)) };
+      case 'MULTIPOINT':
+        // Both MULTIPOINT(1 2, 3 4) and MULTIPOINT((1 2), (3 4)) are in use
+        return { type: 'MultiPoint', coordinates: list(() => peek() === '(' ? list(at)[0] : at()) };
+      case 'MULTILINESTRING':
+        return { type: 'MultiLineString', coordinates: list(() => list(at)) };
+      case 'MULTIPOLYGON':
+        return { type: 'MultiPolygon', coordinates: list(() => list(() => list(at))) };
+      default:
+        return { type: 'GeometryCollection', geometries: list(geometry) };
+    }
+  };
+
+  const result = geometry();
+  if (i < tokens.length) {
+    throw new Error(`unexpected ${tokens[i]} after the geometry`);
+  }
+  return result;
+}
+
+const wktParser: LocationParser = {
+  name: 'wkt',
+  locationTypes: /^e?wkt/i,
+  sniff: location => WKT_TYPE.test(/^(?:SRID=\d+\s*;\s*)?([A-Za-z]+)/.exec(location)?.[1].toUpperCase() ?? ''),
+  parse(location) {
+    const ewkt = /^SRID=(\d+)\s*;/i.exec(location);
+
+    let geometry: GeoJSONGeometry;
+    try {
+      geometry = readWkt(ewkt ? location.slice(ewkt[0].length) : location);
+    } catch (error) {
+      return invalid(`not valid WKT: ${(error as Error).message}`);
+    }
+
+    // Coordinates are checked once they are in EPSG:4326
+    if (!isGeoJSONGeometry(geometry, false)) {
+      return hasInvalidRing(geometry)
+        ? { geometry: null, flags: ['invalid-ring'], diagnostics: ['a polygon ring is too short or not closed'] }
+        : invalid('a line is too short');
+    }
+    return ewkt ? { geometry, srs: `EPSG:${ewkt[1]}`, diagnostics: [] } : { geometry, diagnostics: [] };
+  }
+};
+
+const latLonParser: LocationParser = {
+  name: 'lat-lon',
+  locationTypes: /^(coordinates?-decimal(\+lat-lo?ng)?|decimal-degrees|lat-?lo?ng)$/i,
+  sniff: location => new RegExp(`^${NUMBER}\\s*,\\s*${NUMBER}$`).test(location),
+  parse(location) {
+    const match = new RegExp(`^(${NUMBER})\\s*,\\s*(${NUMBER})$`).exec(location);
+    return match ? decimalPoint(Number(match[1]), Number(match[2]), 'lat-lon') : invalid('not a "latitude, longitude" pair');
+  }
+};
+
+const lonLatParser: LocationParser = {
+  name: 'lon-lat',
+  locationTypes: /^(coordinates?-decimal\+lo?ng-lat|lo?ng-?lat)$/i,
+  sniff: location => new RegExp(`^\\[\\s*${NUMBER}\\s*,\\s*${NUMBER}\\s*\\]$`).test(location),
+  parse(location) {
+    // Brackets are optional when the location_type gives the order
+    const match = new RegExp(`^(\\[\\s*)?(${NUMBER})\\s*,\\s*(${NUMBER})(\\s*\\])?$`).exec(location);
+    if (!match || Boolean(match[1]) !== Boolean(match[4])) {
+      return invalid('not a "[longitude, latitude]" pair');
+    }
+    return decimalPoint(Number(match[2]), Number(match[3]), 'lon-lat');
+  }
+};
+
+const h3Parser: LocationParser = {
+  name: 'h3',
+  locationTypes: /^h3/i,
+  sniff: location => /^8[0-9a-f]{14}$/i.test(location),
+  parse(location) {
+    const cell = location.toLowerCase();
+    if (!isValidCell(cell)) {
+      return invalid(`${location} is not a valid H3 cell`);
+    }
+
+    const ring = cellToBoundary(cell, true);
+    const longitudes = ring.map(position => position[0]);
+    if (Math.max(...longitudes) - Math.min(...longitudes) > 180) {
+      const [latitude, longitude] = cellToLatLng(cell);
+      return { geometry: { type: 'Point', coordinates: [longitude, latitude] }, srs: 'EPSG:4326', diagnostics: ['cell crosses the antimeridian, stored as its center'] };
+    }
+    return { geometry: { type: 'Polygon', coordinates: [ring] }, srs: 'EPSG:4326', diagnostics: [] };
+  }
+};
+
+const GEOHASH_ALPHABET = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+const geohashParser: LocationParser = {
+  name: 'geohash',
+  locationTypes: /^geohash/i,
+  sniff: location => /^[0-9b-hjkmnp-z]{1,12}$/i.test(location),
+  parse(location) {
+    const longitude = [-180, 180];
+    const latitude = [-90, 90];
+    let even = true;
+
+    // Each character holds five bits, alternately halving longitude and latitude
+    for (const character of location.toLowerCase()) {
+      const index = GEOHASH_ALPHABET.indexOf(character);
+      if (index < 0) {
+        return invalid(`${location} is not a geohash`);
+      }
+      for (let bit = 4; bit >= 0; bit--) {
+        const range = even ? longitude : latitude;
+        range[(index >> bit) & 1 ? 0 : 1] = (range[0] + range[1]) / 2;
+        even = !even;
+      }
+    }
+
+    return { geometry: box(longitude[0], latitude[0], longitude[1], latitude[1]), srs: 'EPSG:4326', diagnostics: [] };
+  }
+};
+
+const OLC_ALPHABET = '23456789CFGHJMPQRVWX';
+
+const olcParser: LocationParser = {
+  name: 'olc',
+  locationTypes: /^(olc|open-?location-?code|plus-?code)/i,
+  sniff: location => /^[23456789CFGHJMPQRVWX0]{2,8}\+[23456789CFGHJMPQRVWX]*$/i.test(location),
+  parse(location) {
+    const code = location.toUpperCase();
+    if (!/^[23456789CFGHJMPQRVWX]{2,8}0*\+[23456789CFGHJMPQRVWX]*$/.test(code)) {
+      return invalid(`${location} is not an Open Location Code`);
+    }
+    if (code.indexOf('+') !== 8) {
+      return invalid(`${location} is a short code, which needs a reference location`);
+    }
+    if (/0\+./.test(code)) {
+      return invalid(`${location} is padded but has digits after the +`);
+    }
+    const digits = code.replace('+', '').replace(/0+$/, '');
+    if (digits.length % 2 === 1 && digits.length < 10) {
+      return invalid(`${location} is padded to an odd length`);
+    }
+
+    let south = -90;
+    let west = -180;
+    let height = 400;
+    let width = 400;
+
+    // Digit pairs of latitude and longitude in base 20, then a 5 by 4 grid per digit
+    for (let i = 0; i < digits.length; i++) {
+      const value = OLC_ALPHABET.indexOf(digits[i]);
+      if (i < 10) {
+        if (i % 2 === 0) {
+          height /= 20;
+          south += value * height;
+        } else {
+          width /= 20;
+          west += value * width;
+        }
+      } else {
+        height /= 5;
+        width /= 4;
+        south += Math.floor(value / 4) * height;
+        west += (value % 4) * width;
+      }
+    }
+
+    if (south >= 90 || west >= 180) {
+      return invalid(`${location} is out of range`);
+    }
+    return { geometry: box(west, south, west + width, Math.min(90, south + height)), srs: 'EPSG:4326', diagnostics: [] };
+  }
+};
+
+/**
+ * Parsers of location strings, chosen by location_type and by content
+ *
+ * Parsers named by the location_type are tried first, then any other parser
+ * whose format the content looks like, in the order they were registered.
+ * The first to read a geometry wins.
+ */
+export class LocationParserRegistry {
+  private parsers: LocationParser[] = [];
+
+  constructor(parsers: LocationParser[] = []) {
+    parsers.forEach(parser => this.register(parser));
+  }
+
+  /**
+   * Add a parser, after those already registered
+   *
+   * @throws Error if a parser of the same name is registered
+   */
+  register(parser: LocationParser): void {
+    if (this.parsers.some(registered => registered.name === parser.name)) {
+      throw new Error(`Location parser ${parser.name} is already registered`);
+    }
+    this.parsers.push(parser);
+  }
+
+  /**
+   * Get every registered parser, in the order they are tried
+   */
+  getAll(): LocationParser[] {
+    return [...this.parsers];
+  }
+
+  /**
+   * Read a location string into an EPSG:4326 geometry and its representative point
+   *
+   * The geometry is reprojected from the CRS its content declares, such as
+   * an EWKT SRID, or else from the attested srs. Z values are kept, and the
+   * point's altitude is read from them.
+   *
+   * @param location The attestation's location
+   * @param locationType The attestation's location_type
+   * @param srs The attestation's srs
+   * @returns The geometry, or null if no parser could read it or it could not be placed, with the diagnostics of every step
+   */
+  parse(location: string, locationType = '', srs = 'EPSG:4326'): LocationParseResult {
+    const content = location.trim();
+    const unparsed = { format: null, geometry: null, point: null, altitude: null, srs: null, srsStatus: null, sourceGeometry: null, flags: [] };
+    if (!content) {
+      return { ...unparsed, diagnostics: ['location is empty'] };
+    }
+
+    const named = this.parsers.filter(parser => parser.locationTypes.test(locationType));
+    const sniffed = this.parsers.filter(parser => !named.includes(parser) && parser.sniff(content));
+    const diagnostics: string[] = [];
+    const flags: LocationQualityFlag[] = [];
+
+    for (const parser of [...named, ...sniffed]) {
+      const output = parser.parse(content, locationType);
+      diagnostics.push(...output.diagnostics.map(diagnostic => `${parser.name}: ${diagnostic}`));
+      if (output.geometry) {
+        if (named.length > 0 && !named.includes(parser)) {
+          diagnostics.push(`location_type ${locationType} does not match the location, read it as ${parser.name}`);
+        }
+        // Only the flags of the parser that read the location apply to it
+        const read = [...(output.flags ?? [])];
+        return { format: parser.name, ...this.reproject(output.geometry, output.srs, srs, diagnostics, read), flags: read, diagnostics };
+      }
+      flags.push(...(output.flags ?? []));
+    }
+
+    if (named.length === 0 && sniffed.length === 0) {
+      diagnostics.push(`no parser for location_type ${locationType || '(none)'} or a location like ${content.slice(0, 40)}`);
+    }
+    return { ...unparsed, flags: [...new Set(flags)], diagnostics };
+  }
+
+  // Bring a parsed geometry into EPSG:4326, keeping the source geometry when it was not
+  private reproject(source: GeoJSONGeometry, declared: string | undefined, attested: string, diagnostics: string[], flags: LocationQualityFlag[]) {
+    if (declared && normalizeSrs(declared) !== normalizeSrs(attested)) {
+      diagnostics.push(`the location is in ${declared}, not the attested srs ${attested}`);
+    }
+
+    const reprojected = reprojectToWgs84(source, declared ?? attested);
+    diagnostics.push(...reprojected.diagnostics);
+
+    let geometry = reprojected.geometry;
+    if (geometry && !isGeoJSONGeometry(geometry)) {
+      // Latitude, longitude order in a CRS that is longitude, latitude
+      const swapped = reprojected.status === 'native' ? mapPositions(geometry, ([x, y, ...rest]) => [y, x, ...rest]) : null;
+      if (swapped && isGeoJSONGeometry(swapped)) {
+        diagnostics.push('coordinates are out of range for EPSG:4326, read them as latitude, longitude');
+        flags.push('axis-swap');
+        geometry = swapped;
+      } else {
+        diagnostics.push('coordinates are out of range for EPSG:4326');
+        flags.push('out-of-range');
+        geometry = null;
+      }
+    }
+
+    return {
+      geometry,
+      point: geometry ? representativePoint(geometry) : null,
+      altitude: geometry ? representativeAltitude(geometry) : null,
+      srs: reprojected.srs,
+      srsStatus: reprojected.status,
+      sourceGeometry: reprojected.status === 'native' ? null : source
+    };
+  }
+}
+
+/**
+ * The registry attestations are converted with; register parsers here to read new formats
+ */
+export const locationParsers = new LocationParserRegistry([
+  geojsonParser,
+  wktParser,
+  h3Parser, // Before geohash, whose alphabet H3 cell ids also fit
+  geohashParser,
+  olcParser,
+  latLonParser,
+  lonLatParser
+]);
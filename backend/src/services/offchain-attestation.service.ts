@@ -0,0 +1,305 @@
+import { z } from 'zod';
+import { EAS, Offchain, OffchainAttestationVersion, SignedOffchainAttestation } from '@ethereum-attestation-service/eas-sdk';
+import { getAddress, isAddress } from 'ethers';
+import { chainRegistry, schemaRegistry } from '../config';
+import { ChainConfig, EASAttestation, LocationProof } from '../models/types';
+import { dbService, DbService } from './db.service';
+import { easService, EasService } from './eas.service';
+import { IngestionError } from './indexer-payload.service';
+import { SchemaRegistry } from './schema-registry.service';
+import { supabaseService } from './supabase.service';
+import { logger } from '../utils/logger';
+
+/**
+ * Reasons an offchain attestation package is refused
+ */
+export type OffchainAttestationErrorCode =
+  | 'INVALID_PACKAGE'
+  | 'UNSUPPORTED_CHAIN'
+  | 'UNSUPPORTED_SCHEMA'
+  | 'INVALID_DOMAIN'
+  | 'UID_MISMATCH'
+  | 'INVALID_SIGNATURE'
+  | 'DECODE_FAILED'
+  | 'ALREADY_EXISTS'
+  | 'POLICY_REJECTED';
+
+// HTTP status each refusal maps to
+const ERROR_STATUS: Record<OffchainAttestationErrorCode, number> = {
+  INVALID_PACKAGE: 400,
+  UNSUPPORTED_CHAIN: 422,
+  UNSUPPORTED_SCHEMA: 422,
+  INVALID_DOMAIN: 422,
+  UID_MISMATCH: 422,
+  INVALID_SIGNATURE: 422,
+  DECODE_FAILED: 422,
+  ALREADY_EXISTS: 409,
+  POLICY_REJECTED: 403
+};
+
+/**
+ * An offchain attestation package that failed verification or decoding
+ */
+export class OffchainAttestationError extends Error {
+  readonly code: OffchainAttestationErrorCode;
+  readonly status: number;
+  readonly details?: Record<string, unknown>;
+
+  constructor(code: OffchainAttestationErrorCode, message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'OffchainAttestationError';
+    this.code = code;
+    this.status = ERROR_STATUS[code];
+    this.details = details;
+  }
+
+  toJSON() {
+    return { error: this.message, code: this.code, ...(this.details ? { details: this.details } : {}) };
+  }
+}
+
+// Integers arrive as JSON numbers or decimal/hex strings (bigints do not survive JSON)
+const bigintish = z.union([z.string().regex(/^(0x[0-9a-fA-F]+|\d+)$/), z.number().int().nonnegative()])
+  .transform(value => BigInt(value));
+const hex = (bytes?: number) => z.string().regex(bytes ? new RegExp(`^0x[0-9a-fA-F]{${bytes * 2}}$`) : /^0x([0-9a-fA-F]{2})*$/);
+const address = z.string().refine(value => isAddress(value), 'must be an address');
+// Field types the EAS offchain typed data is made of
+const typedDataType = z.enum(['bool', 'uint8', 'uint16', 'uint32', 'uint64', 'uint128', 'uint256', 'address', 'string', 'bytes', 'bytes32']);
+
+// The EAS shareable package ({ sig, signer }) as produced by the eas-sdk and easscan
+const packageSchema = z.object({
+  signer: address,
+  sig: z.object({
+    version: z.nativeEnum(OffchainAttestationVersion).optional(),
+    uid: hex(32),
+    domain: z.object({
+      name: z.string(),
+      version: z.string(),
+      chainId: bigintish,
+      verifyingContract: address
+    }),
+    primaryType: z.string(),
+    types: z.record(z.array(z.object({ name: z.string(), type: typedDataType }))),
+    message: z.object({
+      version: z.nativeEnum(OffchainAttestationVersion).optional(),
+      schema: hex(32),
+      recipient: address,
+      time: bigintish,
+      expirationTime: bigintish,
+      revocable: z.boolean(),
+      refUID: hex(32),
+      data: hex(),
+      salt: hex(32).optional()
+    }),
+    signature: z.object({
+      v: z.number().int(),
+      r: hex(32),
+      s: hex(32)
+    })
+  }).transform((sig): SignedOffchainAttestation => {
+    // Packages without a version predate versioning, which the sdk treats as legacy
+    const version = sig.version ?? sig.message.version ?? OffchainAttestationVersion.Legacy;
+    return { ...sig, version, message: { ...sig.message, version } };
+  })
+});
+
+/**
+ * Verifies EAS offchain attestation packages and stores them as location proofs
+ */
+export class OffchainAttestationService {
+  private dbService: DbService;
+  private easService: EasService;
+  private schemas: SchemaRegistry;
+
+  constructor(dbService: DbService, easService: EasService) {
+    this.dbService = dbService;
+    this.easService = easService;
+    this.schemas = new SchemaRegistry(schemaRegistry);
+  }
+
+  /**
+   * Verify a signed offchain attestation package and store it
+   *
+   * @param body Request body holding the package ({ sig, signer })
+   * @returns The stored location proof
+   * @throws OffchainAttestationError when the package is malformed, unverifiable, already stored or rejected by an ingestion policy
+   */
+  async submit(body: unknown): Promise<LocationProof> {
+    const parsed = packageSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new OffchainAttestationError('INVALID_PACKAGE', 'Body is not an EAS offchain attestation package', {
+        issues: parsed.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }))
+      });
+    }
+
+    const { signer, sig } = parsed.data;
+    const chainConfig = this.findChain(sig.domain.chainId);
+    this.verify(chainConfig, signer, sig);
+
+    const uid = sig.uid.toLowerCase();
+    if (await this.exists(uid)) {
+      throw new OffchainAttestationError('ALREADY_EXISTS', `Location proof ${uid} already exists`, { uid });
+    }
+
+    const { attestation, proof } = await this.decode(chainConfig, signer, sig);
+
+    // Offchain proofs are held to the same policies as ingested ones, and counted with them
+    const verdict = this.easService.checkIngestionPolicies(proof);
+    if (!verdict.accepted) {
+      throw new OffchainAttestationError('POLICY_REJECTED', `Location proof ${uid} is rejected by the ingestion policies`, {
+        policy: verdict.policy,
+        reason: verdict.reason
+      });
+    }
+
+    await this.store(proof);
+    await this.easService.archiveAttestation(chainConfig.chain, attestation, 'offchain');
+
+    logger.info(`Stored offchain attestation ${uid} from ${proof.prover} on ${chainConfig.chain}`);
+    return proof;
+  }
+
+  /**
+   * Find the enabled registry chain an EIP-712 domain's chain id belongs to
+   */
+  private findChain(chainId: bigint): ChainConfig {
+    const chainConfig = Object.values(chainRegistry).find(entry => entry.enabled && BigInt(entry.chainId) === chainId);
+    if (!chainConfig) {
+      throw new OffchainAttestationError('UNSUPPORTED_CHAIN', `Chain id ${chainId} is not an enabled chain`, {
+        chainId: chainId.toString()
+      });
+    }
+    return chainConfig;
+  }
+
+  /**
+   * Check the schema, domain, UID and EIP-712 signature of an attestation against its chain
+   */
+  private verify(chainConfig: ChainConfig, signer: string, sig: SignedOffchainAttestation): void {
+    const schemaUid = sig.message.schema.toLowerCase();
+    if (!chainConfig.schemaUIDs.includes(schemaUid)) {
+      throw new OffchainAttestationError('UNSUPPORTED_SCHEMA', `Schema ${schemaUid} is not a location schema on ${chainConfig.chain}`, {
+        schema: schemaUid,
+        supported: chainConfig.schemaUIDs
+      });
+    }
+
+    if (getAddress(sig.domain.verifyingContract) !== getAddress(chainConfig.easContractAddress)) {
+      throw new OffchainAttestationError('INVALID_DOMAIN', 'Attestation was signed for a different EAS contract', {
+        verifyingContract: sig.domain.verifyingContract,
+        expected: chainConfig.easContractAddress
+      });
+    }
+
+    const { schema, recipient, time, expirationTime, revocable, refUID, data, salt } = sig.message;
+    const expectedUid = Offchain.getOffchainUID(sig.version, schema, recipient, time, expirationTime, revocable, refUID, data, salt);
+    if (expectedUid.toLowerCase() !== sig.uid.toLowerCase()) {
+      throw new OffchainAttestationError('UID_MISMATCH', 'UID does not match the attestation contents', {
+        uid: sig.uid,
+        expected: expectedUid
+      });
+    }
+
+    // The sdk compares domains verbatim, so use the signed address casing (checked equal above)
+    const offchain = new Offchain(
+      { address: sig.domain.verifyingContract, version: sig.domain.version, chainId: BigInt(chainConfig.chainId) },
+      sig.version,
+      new EAS(chainConfig.easContractAddress)
+    );
+
+    let valid: boolean;
+    try {
+      valid = offchain.verifyOffchainAttestationSignature(signer, sig);
+    } catch (error) {
+      // The sdk throws for a mismatched domain, primary type or type set
+      throw new OffchainAttestationError('INVALID_SIGNATURE', 'Signature could not be verified', {
+        reason: (error as Error).name || (error as Error).message
+      });
+    }
+
+    if (!valid) {
+      throw new OffchainAttestationError('INVALID_SIGNATURE', `Signature was not made by ${signer}`, { signer });
+    }
+  }
+
+  /**
+   * Decode a verified attestation into a location proof with the location schema
+   *
+   * @returns The indexer-shaped attestation, kept in the archive, and the proof derived from it
+   */
+  private async decode(
+    chainConfig: ChainConfig,
+    signer: string,
+    sig: SignedOffchainAttestation
+  ): Promise<{ attestation: EASAttestation; proof: LocationProof }> {
+    const schema = this.schemas.get(sig.message.schema);
+    if (!schema) {
+      // The chain lists the schema, but the schema registry has no decoder for it
+      throw new OffchainAttestationError('UNSUPPORTED_SCHEMA', `Schema ${sig.message.schema.toLowerCase()} is not in the schema registry`, {
+        schema: sig.message.schema.toLowerCase()
+      });
+    }
+
+    let decodedDataJson: string;
+    try {
+      decodedDataJson = schema.decodeDataJson(sig.message.data);
+    } catch (error) {
+      throw new OffchainAttestationError('DECODE_FAILED', `Data does not decode with location schema ${schema.version}`, {
+        reason: (error as Error).message
+      });
+    }
+
+    // Offchain attestations are shaped like indexer results so they share the conversion
+    const attestation: EASAttestation = {
+      id: sig.uid.toLowerCase(),
+      attester: getAddress(signer),
+      recipient: sig.message.recipient,
+      revocationTime: '0',
+      expirationTime: sig.message.expirationTime.toString(),
+      timeCreated: sig.message.time.toString(),
+      data: sig.message.data,
+      decodedDataJson,
+      schemaId: schema.uid
+    };
+
+    let proof: LocationProof;
+    try {
+      proof = await this.easService.convertAttestationToLocationProof(attestation, chainConfig.chain);
+    } catch (error) {
+      if (error instanceof IngestionError) {
+        throw new OffchainAttestationError('DECODE_FAILED', error.message, { reason: error.code, ...error.details });
+      }
+      throw error;
+    }
+    return { attestation, proof: { ...proof, origin: 'offchain' } };
+  }
+
+  private async exists(uid: string): Promise<boolean> {
+    try {
+      return await this.dbService.locationProofExists(uid);
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.locationProofExists failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        return supabaseService.locationProofExists(uid);
+      }
+      throw error;
+    }
+  }
+
+  private async store(proof: LocationProof): Promise<void> {
+    try {
+      await this.dbService.createLocationProof(proof);
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.createLocationProof failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        await supabaseService.createLocationProof(proof);
+      } else {
+        throw error;
+      }
+    }
+  }
+}
+
+export const offchainAttestationService = new OffchainAttestationService(dbService, easService);
@@ -0,0 +1,238 @@
+import {
+  ArchivedAttestation,
+  GeoJSONGeometry,
+  LocationProof,
+  ReprocessDiff,
+  ReprocessQueryParams,
+  ReprocessResult
+} from '../models/types';
+import { dbService, DbService } from './db.service';
+import { easService, EasService } from './eas.service';
+import { supabaseService } from './supabase.service';
+import { logger } from '../utils/logger';
+
+// Proof fields derived from the attestation data, compared and rewritten by reprocessing
+const DERIVED_FIELDS: Array<keyof LocationProof> = [
+  'prover',
+  'subject',
+  'timestamp',
+  'event_timestamp',
+  'srs',
+  'location_type',
+  'location',
+  'longitude',
+  'latitude',
+  'altitude',
+  'geometry',
+  'source_srs',
+  'source_geometry',
+  'srs_status',
+  'quality_flags',
+  'recipe_types',
+  'recipe_payloads',
+  'media_types',
+  'media_data',
+  'memo',
+  'expiration_time',
+  'schema_uid',
+  'schema_version'
+];
+
+// ST_AsGeoJSON writes coordinates with at most 9 decimals
+const roundCoordinates = (value: unknown): unknown =>
+  Array.isArray(value) ? value.map(roundCoordinates) : Number((value as number).toFixed(9));
+
+// A geometry with only its GeoJSON members, in a fixed key order (JSONB reorders keys)
+const canonicalGeometry = (geometry: GeoJSONGeometry): unknown =>
+  geometry.type === 'GeometryCollection'
+    ? { type: geometry.type, geometries: geometry.geometries.map(canonicalGeometry) }
+    : { type: geometry.type, coordinates: roundCoordinates(geometry.coordinates) };
+
+/**
+ * Bring a stored or re-derived field value to one comparable form
+ *
+ * pg returns NUMERIC columns as strings, Supabase returns timestamps as strings,
+ * and empty strings are stored as NULL.
+ */
+const normalizeField = (field: keyof LocationProof, value: unknown): unknown => {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (field === 'geometry' || field === 'source_geometry') {
+    return JSON.stringify(canonicalGeometry(value as GeoJSONGeometry));
+  }
+  if (field === 'longitude' || field === 'latitude' || field === 'altitude') {
+    return Number(value);
+  }
+  if (field === 'timestamp' || field === 'event_timestamp' || field === 'expiration_time') {
+    return new Date(value as string | Date).toISOString();
+  }
+  if (Array.isArray(value)) {
+    return JSON.stringify(value);
+  }
+  return value;
+};
+
+/**
+ * Re-runs the current attestation conversion over archived attestations and
+ * reports, and optionally applies, the fields that come out differently
+ */
+export class ReprocessService {
+  private dbService: DbService;
+  private easService: EasService;
+
+  constructor(dbService: DbService, easService: EasService) {
+    this.dbService = dbService;
+    this.easService = easService;
+  }
+
+  /**
+   * Reprocess one page of archived proofs
+   *
+   * @param params Proofs to select (chain, uids, schema version, afterUid cursor, limit
+   *               default 100) and whether to only report the diff (dryRun, default true)
+   */
+  async reprocess(params: ReprocessQueryParams = {}): Promise<ReprocessResult> {
+    const dryRun = params.dryRun !== false;
+    const limit = params.limit ?? 100;
+    const archived = await this.getArchivedAttestations({ ...params, limit });
+    const nextAfterUid = archived.length === limit ? archived[archived.length - 1].uid : null;
+
+    const result: ReprocessResult = {
+      dryRun,
+      processed: 0,
+      changed: 0,
+      unchanged: 0,
+      failed: 0,
+      missing: [],
+      nextAfterUid,
+      diffs: [],
+      errors: []
+    };
+
+    // Requested UIDs this page should have covered but has no archive for
+    if (params.uids) {
+      const found = new Set(archived.map(entry => entry.uid));
+      result.missing = params.uids.filter(uid =>
+        !found.has(uid) && uid > (params.afterUid ?? '') && (nextAfterUid === null || uid <= nextAfterUid)
+      );
+    }
+
+    for (const entry of archived) {
+      result.processed++;
+
+      try {
+        const proof = await this.getLocationProof(entry.uid);
+        if (!proof) {
+          result.missing.push(entry.uid);
+          continue;
+        }
+        // The geometry column is read back as GeoJSON to compare it with the converted one
+        const stored = { ...proof, geometry: await this.getLocationProofGeometry(entry.uid) };
+
+        const derived = await this.easService.convertAttestationToLocationProof(entry.attestation, entry.chain);
+        const diff = this.diff(stored, derived);
+        if (Object.keys(diff.changes).length === 0) {
+          result.unchanged++;
+          continue;
+        }
+
+        result.changed++;
+        result.diffs.push(diff);
+
+        if (!dryRun) {
+          await this.updateLocationProofContent(derived);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn(`Reprocessing of ${entry.uid} on ${entry.chain} failed: ${message}`);
+        result.failed++;
+        result.errors.push({ uid: entry.uid, error: message });
+      }
+    }
+
+    logger.info(`Reprocessed ${result.processed} proofs${dryRun ? ' (dry run)' : ''}: ${result.changed} changed, ${result.unchanged} unchanged, ${result.failed} failed`);
+    return result;
+  }
+
+  /**
+   * Compare the derived fields of a stored proof with a freshly converted one
+   */
+  private diff(stored: LocationProof, derived: LocationProof): ReprocessDiff {
+    // Coordinates are only stored as a pair, and without a full shape the
+    // geometry is the point they make; mirror that before comparing
+    const hasCoordinates = derived.longitude != null && derived.latitude != null;
+    const expected: LocationProof = {
+      ...derived,
+      longitude: hasCoordinates ? derived.longitude : undefined,
+      latitude: hasCoordinates ? derived.latitude : undefined,
+      geometry: derived.geometry ?? (hasCoordinates ? { type: 'Point', coordinates: [derived.longitude, derived.latitude] } : null)
+    };
+    const changes: ReprocessDiff['changes'] = {};
+
+    for (const field of DERIVED_FIELDS) {
+      const before = normalizeField(field, stored[field]);
+      const after = normalizeField(field, expected[field]);
+      if (before !== after) {
+        changes[field] = { before, after };
+      }
+    }
+
+    return { uid: stored.uid, chain: stored.chain, changes };
+  }
+
+  private async getArchivedAttestations(params: ReprocessQueryParams): Promise<ArchivedAttestation[]> {
+    try {
+      return await this.dbService.getArchivedAttestations(params);
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.getArchivedAttestations failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        return supabaseService.getArchivedAttestations(params);
+      }
+      throw error;
+    }
+  }
+
+  private async getLocationProof(uid: string): Promise<LocationProof | null> {
+    try {
+      return await this.dbService.getLocationProofByUid(uid);
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.getLocationProofByUid failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        return supabaseService.getLocationProofByUid(uid);
+      }
+      throw error;
+    }
+  }
+
+  private async getLocationProofGeometry(uid: string): Promise<GeoJSONGeometry | null> {
+    try {
+      return await this.dbService.getLocationProofGeometry(uid);
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.getLocationProofGeometry failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        return supabaseService.getLocationProofGeometry(uid);
+      }
+      throw error;
+    }
+  }
+
+  private async updateLocationProofContent(proof: LocationProof): Promise<void> {
+    try {
+      await this.dbService.updateLocationProofContent(proof);
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.updateLocationProofContent failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        await supabaseService.updateLocationProofContent(proof);
+      } else {
+        throw error;
+      }
+    }
+  }
+}
+
+export const reprocessService = new ReprocessService(dbService, easService);
@@ -0,0 +1,197 @@
+import { SchemaEncoder } from '@ethereum-attestation-service/eas-sdk';
+import { z } from 'zod';
+import { EASAttestation, LocationSchemaField, SchemaDefinition } from '../models/types';
+import { describeIssues, IngestionError } from './indexer-payload.service';
+
+// Older indexer payloads serialize uint256 values as ethers v5 BigNumbers
+const bigNumber = z.object({ type: z.literal('BigNumber'), hex: z.string().regex(/^0x[0-9a-fA-F]+$/) })
+  .transform(value => BigInt(value.hex).toString());
+
+const decodedValueSchema = z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+  bigNumber,
+  z.array(z.string()),
+  z.array(z.number()),
+  z.array(z.boolean())
+]);
+
+/**
+ * A decoded schema field, as found in the indexer's decodedDataJson
+ */
+export const decodedDataItemSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  value: z.object({ value: decodedValueSchema }).passthrough()
+}).passthrough();
+
+// Value types a decoded schema field can hold
+export type DecodedValue = z.infer<typeof decodedValueSchema>;
+
+// A decoded schema field, as found in the indexer's decodedDataJson
+export type DecodedDataItem = z.infer<typeof decodedDataItemSchema>;
+
+// Types the location model reads each field as
+const FIELD_SCHEMAS: Record<LocationSchemaField, z.ZodTypeAny> = {
+  eventTimestamp: z.union([z.string().regex(/^\d+$/), z.number()]),
+  srs: z.string(),
+  locationType: z.string(),
+  location: z.string(),
+  recipeType: z.array(z.string()),
+  recipePayload: z.array(z.string()),
+  mediaType: z.array(z.string()),
+  mediaData: z.array(z.string()),
+  memo: z.string()
+};
+
+/**
+ * An attestation's decoded schema items
+ */
+export interface DecodedAttestation {
+  items: DecodedDataItem[];
+  fallback?: string; // Why decodedDataJson was not used, when the raw data was decoded instead
+}
+
+/**
+ * Location proof fields read from an attestation, before coordinate parsing
+ */
+export interface DecodedLocationFields {
+  eventTimestamp: DecodedValue | null;
+  srs: string | null;
+  locationType: string | null;
+  location: string | null;
+  recipeTypes: string[];
+  recipePayloads: string[];
+  mediaTypes: string[];
+  mediaData: string[];
+  memo: string | null;
+}
+
+/**
+ * Decoder for one location proof schema revision
+ *
+ * Maps the revision's fields onto the common location proof model, using the
+ * definition's field mapping where a revision renamed a field.
+ */
+export class SchemaDecoder {
+  readonly uid: string;
+  readonly version: string;
+  private encoder: SchemaEncoder;
+  private fields: Partial<Record<LocationSchemaField, string>>;
+
+  constructor(definition: SchemaDefinition) {
+    this.uid = definition.uid.toLowerCase();
+    this.version = definition.version;
+    this.encoder = new SchemaEncoder(definition.rawString);
+    this.fields = definition.fields || {};
+  }
+
+  /**
+   * Decode raw attestation data into the indexer's decodedDataJson format
+   */
+  decodeDataJson(data: string): string {
+    const decoded = this.encoder.decodeData(data);
+    // uint256 fields decode to bigint, which JSON cannot represent natively
+    return JSON.stringify(decoded, (_key, value) =>
+      typeof value === 'bigint' ? value.toString() : value
+    );
+  }
+
+  /**
+   * Get an attestation's decoded schema items
+   *
+   * Reads the indexer's decodedDataJson, or decodes the raw data with this
+   * revision when decodedDataJson is missing or malformed.
+   *
+   * @throws IngestionError DECODE_FAILED if neither decodes
+   */
+  decodeAttestation(attestation: Pick<EASAttestation, 'id' | 'data' | 'decodedDataJson'>): DecodedAttestation {
+    let problem = 'decodedDataJson is missing';
+
+    if (attestation.decodedDataJson) {
+      try {
+        const result = z.array(decodedDataItemSchema).safeParse(JSON.parse(attestation.decodedDataJson));
+        if (result.success) {
+          return { items: result.data };
+        }
+        problem = `decodedDataJson is malformed (${describeIssues(result.error).slice(0, 3).join('; ')})`;
+      } catch (error) {
+        problem = `decodedDataJson is not JSON (${(error as Error).message})`;
+      }
+    }
+
+    try {
+      return { items: z.array(decodedDataItemSchema).parse(JSON.parse(this.decodeDataJson(attestation.data))), fallback: problem };
+    } catch (error) {
+      throw new IngestionError('DECODE_FAILED', `Attestation ${attestation.id} does not decode with schema ${this.version}: ${problem}, and its raw data failed to decode: ${(error as Error).message}`, {
+        schemaUid: this.uid
+      });
+    }
+  }
+
+  /**
+   * Read the location proof fields from decoded schema items
+   *
+   * @throws IngestionError SCHEMA_MISMATCH if a field does not have the type the location model reads it as
+   */
+  decode(items: DecodedDataItem[]): DecodedLocationFields {
+    const read = (field: LocationSchemaField): DecodedValue | null => {
+      const name = this.fields[field] || field;
+      const item = items.find(item => item.name === name);
+      if (!item) {
+        return null;
+      }
+      if (!FIELD_SCHEMAS[field].safeParse(item.value.value).success) {
+        throw new IngestionError('SCHEMA_MISMATCH', `Field ${name} (${item.type}) of schema ${this.version} does not hold a ${field} value`, {
+          schemaUid: this.uid,
+          field: name,
+          type: item.type
+        });
+      }
+      return item.value.value;
+    };
+
+    return {
+      eventTimestamp: read('eventTimestamp'),
+      srs: read('srs') as string | null,
+      locationType: read('locationType') as string | null,
+      location: read('location') as string | null,
+      recipeTypes: (read('recipeType') || []) as string[],
+      recipePayloads: (read('recipePayload') || []) as string[],
+      mediaTypes: (read('mediaType') || []) as string[],
+      mediaData: (read('mediaData') || []) as string[],
+      memo: read('memo') as string | null
+    };
+  }
+}
+
+/**
+ * Decoders for every registered location proof schema, by schema UID
+ */
+export class SchemaRegistry {
+  private decoders: Map<string, SchemaDecoder>;
+
+  /**
+   * @param definitions Schema definitions keyed by schema UID
+   */
+  constructor(definitions: Record<string, SchemaDefinition>) {
+    this.decoders = new Map(
+      Object.values(definitions).map(definition => [definition.uid.toLowerCase(), new SchemaDecoder(definition)])
+    );
+  }
+
+  /**
+   * Get the decoder for a schema UID
+   */
+  get(uid: string): SchemaDecoder | undefined {
+    return this.decoders.get(uid.toLowerCase());
+  }
+
+  /**
+   * Get all registered decoders
+   */
+  getAll(): SchemaDecoder[] {
+    return [...this.decoders.values()];
+  }
+}
@@ -1,7 +1,73 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { config } from '../config';
-import { LocationProof, LocationProofQueryParams } from '../models/types';
+import {
+  ArchivedAttestation,
+  BackfillJob,
+  BackfillJobQueryParams,
+  BackfillJobStatus,
+  BackfillJobUpdate,
+  ChainHeadSample,
+  IngestionFailure,
+  IngestionFailureQueryParams,
+  IngestionFailureStage,
+  EASAttestation,
+  GeoJSONGeometry,
+  LocationProof,
+  LocationProofBatchResult,
+  LocationProofConflictMode,
+  LocationProofQueryParams,
+  NewBackfillJob,
+  ReprocessQueryParams,
+  RevocationEvent,
+  SyncCheckpoint,
+  SyncLock,
+  SyncLockJob
+} from '../models/types';
 import { logger } from '../utils/logger';
+import { isValidAt } from '../utils/proof-validity';
+import { matchesQuality } from '../utils/location-quality';
+
+// Proof columns rewritten when a batched write updates a stored proof
+const UPSERT_UPDATE_COLUMNS = [
+  'prover', 'subject', 'timestamp', 'event_timestamp', 'srs', 'location_type', 'location',
+  'longitude', 'latitude', 'altitude', 'source_srs', 'srs_status', 'quality_flags', 'recipe_types', 'recipe_payloads', 'media_types', 'media_data', 'memo',
+  'revoked', 'revocation_time', 'revoker', 'expiration_time', 'schema_uid', 'schema_version'
+];
+
+/**
+ * Whether a stored proof row already holds a new row's content
+ *
+ * Supabase returns timestamps and NUMERIC columns in other forms than they
+ * are written in, so those are compared by value.
+ */
+const isUnchanged = (stored: Record<string, unknown>, row: Record<string, unknown>): boolean =>
+  UPSERT_UPDATE_COLUMNS.every(column => {
+    const [before, after] = [stored[column], row[column]].map(value => value === undefined || value === '' ? null : value);
+    if (before === null || after === null) {
+      return before === after;
+    }
+    if (column === 'timestamp' || column === 'event_timestamp' || column === 'revocation_time' || column === 'expiration_time') {
+      return new Date(before as string).getTime() === new Date(after as string).getTime();
+    }
+    if (column === 'longitude' || column === 'latitude' || column === 'altitude') {
+      return Number(before) === Number(after);
+    }
+    return JSON.stringify(before) === JSON.stringify(after);
+  });
+
+// PostgREST condition of a quality filter: any of the flags, or none for proofs without flags
+const qualityFilter = (quality: string[]): string => {
+  const flags = quality.filter(flag => flag !== 'none');
+  return [
+    ...(flags.length > 0 ? [`quality_flags.ov.{${flags.join(',')}}`] : []),
+    ...(quality.includes('none') ? ['quality_flags.eq.{}'] : [])
+  ].join(',');
+};
+
+// GeoJSON text of a converted proof's geometry, which PostGIS reads into the geometry
+// column with SRID 4326; geometry read back from the database is left out
+const geometryJson = (proof: Pick<LocationProof, 'geometry'>): string | null =>
+  proof.geometry && typeof proof.geometry === 'object' ? JSON.stringify(proof.geometry) : null;
 
 /**
  * Supabase service for real-time updates, authentication, and CRUD operations
@@ -9,6 +75,12 @@ import { logger } from '../utils/logger';
 class SupabaseService {
   private client: SupabaseClient | null = null;
   private readonly TABLE_NAME = 'location_proofs';
+  private readonly CHECKPOINTS_TABLE_NAME = 'sync_checkpoints';
+  private readonly FAILURES_TABLE_NAME = 'ingestion_failures';
+  private readonly ARCHIVE_TABLE_NAME = 'attestation_archive';
+  private readonly LOCKS_TABLE_NAME = 'sync_locks';
+  private readonly JOBS_TABLE_NAME = 'backfill_jobs';
+  private readonly HEADS_TABLE_NAME = 'chain_heads';
 
   /**
    * Initialize the Supabase client
@@ -69,7 +141,7 @@ class SupabaseService {
     try {
       const { data, error } = await client
         .from(this.TABLE_NAME)
-        .insert(proof)
+        .insert({ ...proof, geometry: geometryJson(proof) })
         .select()
         .single();
       
@@ -85,6 +157,121 @@ class SupabaseService {
     }
   }
 
+  /**
+   * Write a batch of location proofs with one upsert on uid
+   * 
+   * In 'skip' mode stored proofs are left alone. In 'update' mode they are
+   * rewritten if their content changed, keeping their block when the new
+   * proof has none. Unlike the single-row writes this throws on failure, so
+   * the caller knows the batch was not stored.
+   * 
+   * @param proofs The location proofs to write
+   * @param onConflict What to do with proofs that are already stored
+   * @returns Inserted, updated and skipped counts
+   */
+  async upsertLocationProofs(
+    proofs: Array<Omit<LocationProof, 'created_at' | 'updated_at'> | LocationProof>,
+    onConflict: LocationProofConflictMode = 'skip'
+  ): Promise<LocationProofBatchResult> {
+    const client = this.getClient();
+    
+    if (!client) {
+      throw new Error('Supabase client not available');
+    }
+    
+    // Keep the last proof per UID, the upsert cannot write a row twice
+    const unique = [...new Map(proofs.map(proof => [proof.uid, proof])).values()];
+    const result: LocationProofBatchResult = { inserted: 0, updated: 0, skipped: proofs.length - unique.length, uids: [] };
+    
+    if (unique.length === 0) {
+      return result;
+    }
+    
+    const { data: storedRows, error: lookupError } = await client
+      .from(this.TABLE_NAME)
+      .select(onConflict === 'update' ? '*' : 'uid')
+      .in('uid', unique.map(proof => proof.uid));
+    
+    if (lookupError) {
+      throw new Error(`Error looking up stored location proofs: ${lookupError.message}`);
+    }
+    
+    const stored = new Map((storedRows as unknown as Record<string, unknown>[]).map(row => [row.uid as string, row]));
+    const rows: Record<string, unknown>[] = [];
+    
+    for (const proof of unique) {
+      const existing = stored.get(proof.uid);
+      if (existing && onConflict === 'skip') {
+        continue;
+      }
+      
+      const hasCoordinates = proof.longitude != null && proof.latitude != null;
+      const row: Record<string, unknown> = {
+        uid: proof.uid,
+        chain: proof.chain,
+        prover: proof.prover,
+        subject: proof.subject || null,
+        timestamp: proof.timestamp ? proof.timestamp.toISOString() : null,
+        event_timestamp: proof.event_timestamp ? proof.event_timestamp.toISOString() : new Date().toISOString(),
+        srs: proof.srs || null,
+        location_type: proof.location_type,
+        location: proof.location,
+        longitude: hasCoordinates ? proof.longitude : null,
+        latitude: hasCoordinates ? proof.latitude : null,
+        altitude: proof.altitude ?? null,
+        geometry: geometryJson(proof),
+        source_srs: proof.source_srs ?? null,
+        source_geometry: proof.source_geometry ?? null,
+        srs_status: proof.srs_status ?? null,
+        quality_flags: proof.quality_flags ?? [],
+        recipe_types: proof.recipe_types ?? null,
+        recipe_payloads: proof.recipe_payloads ?? null,
+        media_types: proof.media_types ?? null,
+        media_data: proof.media_data ?? null,
+        memo: proof.memo || null,
+        revoked: proof.revoked || false,
+        revocation_time: proof.revocation_time ? proof.revocation_time.toISOString() : null,
+        revoker: proof.revoker || null,
+        expiration_time: proof.expiration_time ? proof.expiration_time.toISOString() : null,
+        block_number: proof.block_number ?? existing?.block_number ?? null,
+        block_hash: proof.block_hash ?? existing?.block_hash ?? null,
+        schema_uid: proof.schema_uid || null,
+        schema_version: proof.schema_version || null,
+        origin: existing?.origin ?? proof.origin ?? 'onchain',
+        updated_at: new Date().toISOString()
+      };
+      
+      if (existing && isUnchanged(existing, row)) {
+        continue;
+      }
+      rows.push(row);
+    }
+    
+    if (rows.length > 0) {
+      // With ignoreDuplicates only the rows actually inserted come back
+      const { data: written, error } = await client
+        .from(this.TABLE_NAME)
+        .upsert(rows, { onConflict: 'uid', ignoreDuplicates: onConflict === 'skip' })
+        .select('uid');
+      
+      if (error) {
+        throw new Error(`Error upserting location proofs: ${error.message}`);
+      }
+      
+      for (const { uid } of written as Array<{ uid: string }>) {
+        if (stored.has(uid)) {
+          result.updated++;
+        } else {
+          result.inserted++;
+        }
+        result.uids.push(uid);
+      }
+    }
+    
+    result.skipped += unique.length - result.uids.length;
+    return result;
+  }
+
   /**
    * Get a location proof by its UID
    * 
@@ -122,6 +309,38 @@ class SupabaseService {
     }
   }
 
+  /**
+   * Get the stored geometry of a location proof as GeoJSON (PostgREST returns geometry columns as GeoJSON)
+   * 
+   * @returns The geometry, or null if there is no such proof or it has no geometry
+   */
+  async getLocationProofGeometry(uid: string): Promise<GeoJSONGeometry | null> {
+    const client = this.getClient();
+    
+    if (!client) {
+      logger.error('Supabase client not available');
+      return null;
+    }
+    
+    try {
+      const { data, error } = await client
+        .from(this.TABLE_NAME)
+        .select('geometry')
+        .eq('uid', uid)
+        .maybeSingle();
+      
+      if (error) {
+        logger.error('Error fetching location proof geometry:', error);
+        return null;
+      }
+      
+      return (data?.geometry as GeoJSONGeometry | undefined) ?? null;
+    } catch (error) {
+      logger.error('Exception fetching location proof geometry:', error);
+      return null;
+    }
+  }
+
   /**
    * Query location proofs with filters
    * 
@@ -154,6 +373,10 @@ class SupabaseService {
         query = query.eq('subject', params.subject);
       }
       
+      if (params.schemaVersion) {
+        query = query.eq('schema_version', params.schemaVersion);
+      }
+      
       if (params.fromTimestamp) {
         query = query.gte('event_timestamp', params.fromTimestamp.toISOString());
       }
@@ -162,6 +385,27 @@ class SupabaseService {
         query = query.lte('event_timestamp', params.toTimestamp.toISOString());
       }
       
+      if (params.validAt) {
+        // Attested by then, and not yet revoked or expired
+        const at = params.validAt.toISOString();
+        query = query
+          .or(`timestamp.is.null,timestamp.lte.${at}`)
+          .or(`revoked.eq.false,revocation_time.gt.${at}`)
+          .or(`expiration_time.is.null,expiration_time.gt.${at}`);
+      }
+      
+      if (params.minAltitude !== undefined) {
+        query = query.gte('altitude', params.minAltitude);
+      }
+      
+      if (params.maxAltitude !== undefined) {
+        query = query.lte('altitude', params.maxAltitude);
+      }
+      
+      if (params.quality && params.quality.length > 0) {
+        query = query.or(qualityFilter(params.quality));
+      }
+      
       // Apply bounding box filter if provided
       if (params.bbox) {
         const [minLon, minLat, maxLon, maxLat] = params.bbox;
@@ -185,9 +429,14 @@ class SupabaseService {
           if (params.chain && proof.chain !== params.chain) match = false;
           if (params.prover && proof.prover !== params.prover) match = false;
           if (params.subject && proof.subject !== params.subject) match = false;
+          if (params.schemaVersion && proof.schema_version !== params.schemaVersion) match = false;
           
           if (params.fromTimestamp && new Date(proof.event_timestamp) < params.fromTimestamp) match = false;
           if (params.toTimestamp && new Date(proof.event_timestamp) > params.toTimestamp) match = false;
+          if (params.validAt && !isValidAt(proof, params.validAt)) match = false;
+          if (params.minAltitude !== undefined && !(proof.altitude != null && Number(proof.altitude) >= params.minAltitude)) match = false;
+          if (params.maxAltitude !== undefined && !(proof.altitude != null && Number(proof.altitude) <= params.maxAltitude)) match = false;
+          if (params.quality && params.quality.length > 0 && !matchesQuality(proof, params.quality)) match = false;
           
           return match;
         });
@@ -330,6 +579,175 @@ class SupabaseService {
     }
   }
 
+  /**
+   * Mark location proofs revoked, recording when and by whom
+   * 
+   * @param revocations The revocations to apply; UIDs that are not stored are ignored
+   * @returns The number of proofs updated
+   */
+  async recordRevocations(revocations: RevocationEvent[]): Promise<number> {
+    if (revocations.length === 0) {
+      return 0;
+    }
+    
+    const client = this.getClient();
+    
+    if (!client) {
+      logger.error('Supabase client not available');
+      return 0;
+    }
+    
+    let updated = 0;
+    
+    try {
+      // Each revocation carries its own time and revoker, so update row by row
+      for (const revocation of revocations) {
+        const { error, count } = await client
+          .from(this.TABLE_NAME)
+          .update({
+            revoked: true,
+            revocation_time: revocation.revocationTime.toISOString(),
+            revoker: revocation.revoker,
+            revocation_block: revocation.blockNumber ?? null,
+            revocation_block_hash: revocation.blockHash ?? null,
+            updated_at: new Date().toISOString()
+          }, { count: 'exact' })
+          .eq('uid', revocation.uid);
+        
+        if (error) {
+          logger.error(`Error recording revocation of ${revocation.uid}:`, error);
+          continue;
+        }
+        
+        updated += count || 0;
+      }
+      
+      return updated;
+    } catch (error) {
+      logger.error('Exception recording revocations:', error);
+      return updated;
+    }
+  }
+
+  /**
+   * Get the distinct inclusion and revocation blocks of proofs stored for a chain from a block onwards
+   */
+  async getLocationProofBlocks(chain: string, fromBlock: number): Promise<Array<{ block_number: number; block_hash: string | null }>> {
+    const client = this.getClient();
+    
+    if (!client) {
+      logger.error('Supabase client not available');
+      return [];
+    }
+    
+    try {
+      const [included, revoked] = await Promise.all([
+        client
+          .from(this.TABLE_NAME)
+          .select('block_number, block_hash')
+          .eq('chain', chain)
+          .gte('block_number', fromBlock),
+        client
+          .from(this.TABLE_NAME)
+          .select('block_number:revocation_block, block_hash:revocation_block_hash')
+          .eq('chain', chain)
+          .gte('revocation_block', fromBlock)
+      ]);
+      
+      const error = included.error || revoked.error;
+      if (error) {
+        logger.error('Error getting location proof blocks:', error);
+        return [];
+      }
+      
+      // PostgREST has no DISTINCT or UNION, so collapse proofs sharing a block here
+      const blocks = new Map<string, { block_number: number; block_hash: string | null }>();
+      for (const row of [...(included.data || []), ...(revoked.data || [])]) {
+        blocks.set(`${row.block_number}:${row.block_hash}`, { block_number: Number(row.block_number), block_hash: row.block_hash });
+      }
+      
+      return [...blocks.values()].sort((a, b) => a.block_number - b.block_number);
+    } catch (error) {
+      logger.error('Exception getting location proof blocks:', error);
+      return [];
+    }
+  }
+  
+  /**
+   * Delete the proofs of a chain that were included in the given blocks
+   */
+  async deleteLocationProofsInBlocks(chain: string, blockNumbers: number[]): Promise<number> {
+    if (blockNumbers.length === 0) {
+      return 0;
+    }
+    
+    const client = this.getClient();
+    
+    if (!client) {
+      logger.error('Supabase client not available');
+      return 0;
+    }
+    
+    try {
+      const { error, count } = await client
+        .from(this.TABLE_NAME)
+        .delete({ count: 'exact' })
+        .eq('chain', chain)
+        .in('block_number', blockNumbers);
+      
+      if (error) {
+        logger.error('Error deleting reorged location proofs:', error);
+        return 0;
+      }
+      
+      return count || 0;
+    } catch (error) {
+      logger.error('Exception deleting reorged location proofs:', error);
+      return 0;
+    }
+  }
+  
+  /**
+   * Undo the revocations of a chain that were recorded from the given blocks
+   */
+  async clearRevocationsInBlocks(chain: string, blockNumbers: number[]): Promise<number> {
+    if (blockNumbers.length === 0) {
+      return 0;
+    }
+    
+    const client = this.getClient();
+    
+    if (!client) {
+      logger.error('Supabase client not available');
+      return 0;
+    }
+    
+    try {
+      const { error, count } = await client
+        .from(this.TABLE_NAME)
+        .update({
+          revoked: false,
+          revocation_time: null,
+          revoker: null,
+          revocation_block: null,
+          revocation_block_hash: null,
+          updated_at: new Date().toISOString()
+        }, { count: 'exact' })
+        .eq('chain', chain)
+        .in('revocation_block', blockNumbers);
+      
+      if (error) {
+        logger.error('Error clearing reorged revocations:', error);
+        return 0;
+      }
+      
+      return count || 0;
+    } catch (error) {
+      logger.error('Exception clearing reorged revocations:', error);
+      return 0;
+    }
+  }
+  
   /**
    * Get the latest timestamp for a specific chain
    * Used for tracking the last processed attestation
@@ -404,63 +822,1000 @@ class SupabaseService {
   }
 
   /**
-   * Subscribe to real-time updates for location_proofs table
-   * 
-   * @param event The event to subscribe to ('INSERT' | 'UPDATE' | 'DELETE' | '*')
-   * @param callback The callback function to execute when an event occurs
+   * Get the fields ingestion policies look at of a page of stored proofs, in UID order
    */
-  subscribeToLocationProofs(event: 'INSERT' | 'UPDATE' | 'DELETE' | '*', callback: (payload: any) => void) {
+  async getLocationProofPolicyFields(
+    params: Pick<ReprocessQueryParams, 'chain' | 'afterUid' | 'limit'> = {}
+  ): Promise<Array<Pick<LocationProof, 'uid' | 'chain' | 'prover' | 'subject' | 'location_type' | 'recipe_types'>>> {
     const client = this.getClient();
     
     if (!client) {
       logger.error('Supabase client not available');
-      return null;
+      return [];
     }
     
-    return client
-      .channel('location_proofs_channel')
-      .on(
-        'postgres_changes' as any,
-        {
-          event,
-          schema: 'public',
-          table: this.TABLE_NAME,
-        },
-        callback
-      )
-      .subscribe();
+    try {
+      let query = client
+        .from(this.TABLE_NAME)
+        .select('uid, chain, prover, subject, location_type, recipe_types')
+        .gt('uid', params.afterUid ?? '');
+      
+      if (params.chain) {
+        query = query.eq('chain', params.chain);
+      }
+      
+      const { data, error } = await query
+        .order('uid', { ascending: true })
+        .limit(params.limit ?? 100);
+      
+      if (error) {
+        logger.error('Error fetching location proofs for the ingestion policies:', error);
+        return [];
+      }
+      
+      return data || [];
+    } catch (error) {
+      logger.error('Exception fetching location proofs for the ingestion policies:', error);
+      return [];
+    }
   }
 
   /**
-   * Get a count of location proofs with optional filters
+   * Get the sync checkpoint for a chain and schema
    * 
-   * @param params Optional query parameters
-   * @returns The count of matching location proofs
+   * @param chain The chain identifier
+   * @param schemaUid The schema UID being ingested
+   * @returns The checkpoint, or null if the chain has never been synced
    */
-  async getLocationProofsCount(params: Partial<LocationProofQueryParams> = {}): Promise<number> {
+  async getSyncCheckpoint(chain: string, schemaUid: string): Promise<SyncCheckpoint | null> {
     const client = this.getClient();
     
     if (!client) {
       logger.error('Supabase client not available');
-      return 0;
+      return null;
     }
     
     try {
-      let query = client
-        .from(this.TABLE_NAME)
-        .select('*', { count: 'exact', head: true });
+      const { data, error } = await client
+        .from(this.CHECKPOINTS_TABLE_NAME)
+        .select('*')
+        .eq('chain', chain)
+        .eq('schema_uid', schemaUid)
+        .maybeSingle();
       
-      // Apply filters
-      if (params.chain) {
-        query = query.eq('chain', params.chain);
+      if (error) {
+        logger.error('Error fetching sync checkpoint:', error);
+        return null;
       }
       
-      if (params.prover) {
-        query = query.eq('prover', params.prover);
-      }
+      return data ? this.toSyncCheckpoint(data) : null;
+    } catch (error) {
+      logger.error('Exception fetching sync checkpoint:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get all sync checkpoints
+   * 
+   * @returns An array of sync checkpoints
+   */
+  async getSyncCheckpoints(): Promise<SyncCheckpoint[]> {
+    const client = this.getClient();
+    
+    if (!client) {
+      logger.error('Supabase client not available');
+      return [];
+    }
+    
+    try {
+      const { data, error } = await client
+        .from(this.CHECKPOINTS_TABLE_NAME)
+        .select('*')
+        .order('chain', { ascending: true });
       
-      if (params.subject) {
-        query = query.eq('subject', params.subject);
+      if (error) {
+        logger.error('Error fetching sync checkpoints:', error);
+        return [];
+      }
+      
+      return (data || []).map(row => this.toSyncCheckpoint(row));
+    } catch (error) {
+      logger.error('Exception fetching sync checkpoints:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create or update the sync checkpoint for a chain and schema
+   * 
+   * Fields that are not provided keep their stored value.
+   * 
+   * @param checkpoint The checkpoint fields to write
+   * @returns The stored checkpoint, or null if the write failed
+   */
+  async upsertSyncCheckpoint(checkpoint: Partial<SyncCheckpoint> & Pick<SyncCheckpoint, 'chain' | 'schema_uid'>): Promise<SyncCheckpoint | null> {
+    const client = this.getClient();
+    
+    if (!client) {
+      logger.error('Supabase client not available');
+      return null;
+    }
+    
+    try {
+      // Drop undefined fields so the upsert only touches the columns we were given
+      const row = Object.fromEntries(
+        Object.entries(checkpoint).filter(([, value]) => value !== undefined)
+      );
+      
+      const { data, error } = await client
+        .from(this.CHECKPOINTS_TABLE_NAME)
+        .upsert(row, { onConflict: 'chain,schema_uid' })
+        .select()
+        .single();
+      
+      if (error) {
+        logger.error('Error upserting sync checkpoint:', error);
+        return null;
+      }
+      
+      return this.toSyncCheckpoint(data);
+    } catch (error) {
+      logger.error('Exception upserting sync checkpoint:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Replace a chain's lag sample
+   * 
+   * @returns The stored sample, or null on error
+   */
+  async upsertChainHead(sample: ChainHeadSample): Promise<ChainHeadSample | null> {
+    const client = this.getClient();
+    
+    if (!client) {
+      logger.error('Supabase client not available');
+      return null;
+    }
+    
+    try {
+      const { data, error } = await client
+        .from(this.HEADS_TABLE_NAME)
+        .upsert(sample, { onConflict: 'chain' })
+        .select()
+        .single();
+      
+      if (error) {
+        logger.error('Error upserting chain head:', error);
+        return null;
+      }
+      
+      return this.toChainHead(data);
+    } catch (error) {
+      logger.error('Exception upserting chain head:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the latest lag sample of every chain
+   */
+  async getChainHeads(): Promise<ChainHeadSample[]> {
+    const client = this.getClient();
+    
+    if (!client) {
+      logger.error('Supabase client not available');
+      return [];
+    }
+    
+    try {
+      const { data, error } = await client
+        .from(this.HEADS_TABLE_NAME)
+        .select('*')
+        .order('chain', { ascending: true });
+      
+      if (error) {
+        logger.error('Error fetching chain heads:', error);
+        return [];
+      }
+      
+      return (data || []).map(row => this.toChainHead(row));
+    } catch (error) {
+      logger.error('Exception fetching chain heads:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Add an attestation to the ingestion dead-letter queue
+   * 
+   * @param chain The chain the attestation is from
+   * @param attestation The raw attestation
+   * @param stage The ingestion step that failed
+   * @param error The error message
+   * @param errorCode The IngestionError code, if the attestation drifted from the expected shape
+   * @returns The stored failure, or null on error
+   */
+  async recordIngestionFailure(
+    chain: string,
+    attestation: EASAttestation,
+    stage: IngestionFailureStage,
+    error: string,
+    errorCode?: string
+  ): Promise<IngestionFailure | null> {
+    const client = this.getClient();
+    
+    if (!client) {
+      logger.error('Supabase client not available');
+      return null;
+    }
+    
+    try {
+      // Upserts cannot increment, so read the previous attempt count first
+      const { data: existing } = await client
+        .from(this.FAILURES_TABLE_NAME)
+        .select('attempts')
+        .eq('chain', chain)
+        .eq('uid', attestation.id)
+        .maybeSingle();
+      
+      const { data, error: upsertError } = await client
+        .from(this.FAILURES_TABLE_NAME)
+        .upsert({
+          chain,
+          uid: attestation.id,
+          stage,
+          error,
+          error_code: errorCode ?? null,
+          attestation,
+          attempts: (existing?.attempts || 0) + 1,
+          status: 'pending',
+          last_failed_at: new Date().toISOString(),
+          resolved_at: null
+        }, { onConflict: 'chain,uid' })
+        .select()
+        .single();
+      
+      if (upsertError) {
+        logger.error('Error recording ingestion failure:', upsertError);
+        return null;
+      }
+      
+      return this.toIngestionFailure(data);
+    } catch (error) {
+      logger.error('Exception recording ingestion failure:', error);
+      return null;
+    }
+  }
+
+  /**
+   * List ingestion failures, most recent first
+   */
+  async getIngestionFailures(params: IngestionFailureQueryParams = {}): Promise<IngestionFailure[]> {
+    const client = this.getClient();
+    
+    if (!client) {
+      logger.error('Supabase client not available');
+      return [];
+    }
+    
+    try {
+      const limit = params.limit ?? 50;
+      const offset = params.offset ?? 0;
+      let query = client
+        .from(this.FAILURES_TABLE_NAME)
+        .select('*');
+      
+      if (params.chain) {
+        query = query.eq('chain', params.chain);
+      }
+      
+      if (params.status) {
+        query = query.eq('status', params.status);
+      }
+      
+      const { data, error } = await query
+        .order('last_failed_at', { ascending: false })
+        .order('id', { ascending: false })
+        .range(offset, offset + limit - 1);
+      
+      if (error) {
+        logger.error('Error fetching ingestion failures:', error);
+        return [];
+      }
+      
+      return (data || []).map(row => this.toIngestionFailure(row));
+    } catch (error) {
+      logger.error('Exception fetching ingestion failures:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get an ingestion failure by id
+   */
+  async getIngestionFailure(id: number): Promise<IngestionFailure | null> {
+    const client = this.getClient();
+    
+    if (!client) {
+      logger.error('Supabase client not available');
+      return null;
+    }
+    
+    try {
+      const { data, error } = await client
+        .from(this.FAILURES_TABLE_NAME)
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+      
+      if (error) {
+        logger.error('Error fetching ingestion failure:', error);
+        return null;
+      }
+      
+      return data ? this.toIngestionFailure(data) : null;
+    } catch (error) {
+      logger.error('Exception fetching ingestion failure:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Mark an ingestion failure resolved after a successful retry
+   */
+  async resolveIngestionFailure(id: number): Promise<void> {
+    const client = this.getClient();
+    
+    if (!client) {
+      logger.error('Supabase client not available');
+      return;
+    }
+    
+    const { error } = await client
+      .from(this.FAILURES_TABLE_NAME)
+      .update({ status: 'resolved', resolved_at: new Date().toISOString() })
+      .eq('id', id);
+    
+    if (error) {
+      logger.error('Error resolving ingestion failure:', error);
+    }
+  }
+
+  /**
+   * Archive an attestation as received, replacing any earlier copy of the UID
+   */
+  async archiveAttestation(entry: Omit<ArchivedAttestation, 'fetched_at' | 'created_at' | 'updated_at'>): Promise<void> {
+    const client = this.getClient();
+    
+    if (!client) {
+      logger.error('Supabase client not available');
+      return;
+    }
+    
+    const { error } = await client
+      .from(this.ARCHIVE_TABLE_NAME)
+      .upsert({ ...entry, fetched_at: new Date().toISOString() }, { onConflict: 'uid' });
+    
+    if (error) {
+      logger.error(`Error archiving attestation ${entry.uid}:`, error);
+    }
+  }
+
+  /**
+   * Archive a batch of attestations with one upsert on uid
+   */
+  async archiveAttestations(entries: Array<Omit<ArchivedAttestation, 'fetched_at' | 'created_at' | 'updated_at'>>): Promise<void> {
+    const client = this.getClient();
+    
+    if (!client) {
+      logger.error('Supabase client not available');
+      return;
+    }
+    
+    // Keep the last entry per UID, the upsert cannot write a row twice
+    const unique = [...new Map(entries.map(entry => [entry.uid, entry])).values()];
+    if (unique.length === 0) {
+      return;
+    }
+    
+    const fetchedAt = new Date().toISOString();
+    const { error } = await client
+      .from(this.ARCHIVE_TABLE_NAME)
+      .upsert(unique.map(entry => ({ ...entry, fetched_at: fetchedAt })), { onConflict: 'uid' });
+    
+    if (error) {
+      logger.error(`Error archiving ${unique.length} attestations:`, error);
+    }
+  }
+
+  /**
+   * Get archived attestations of stored proofs in UID order
+   */
+  async getArchivedAttestations(params: ReprocessQueryParams = {}): Promise<ArchivedAttestation[]> {
+    const client = this.getClient();
+    
+    if (!client) {
+      logger.error('Supabase client not available');
+      return [];
+    }
+    
+    try {
+      // The inner join on the proof keeps only archived attestations that still have a proof
+      let query = client
+        .from(this.ARCHIVE_TABLE_NAME)
+        .select('*, location_proofs!inner(schema_version)')
+        .gt('uid', params.afterUid ?? '');
+      
+      if (params.chain) {
+        query = query.eq('chain', params.chain);
+      }
+      
+      if (params.uids && params.uids.length > 0) {
+        query = query.in('uid', params.uids);
+      }
+      
+      if (params.schemaVersion) {
+        query = query.eq('location_proofs.schema_version', params.schemaVersion);
+      }
+      
+      const { data, error } = await query
+        .order('uid', { ascending: true })
+        .limit(params.limit ?? 100);
+      
+      if (error) {
+        logger.error('Error fetching archived attestations:', error);
+        return [];
+      }
+      
+      return (data || []).map(({ location_proofs: _proof, ...row }) => row as ArchivedAttestation);
+    } catch (error) {
+      logger.error('Exception fetching archived attestations:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Overwrite the fields of a stored proof that are derived from its attestation data
+   * 
+   * Revocation, origin and block fields are left as they are.
+   */
+  async updateLocationProofContent(proof: LocationProof): Promise<void> {
+    const client = this.getClient();
+    
+    if (!client) {
+      logger.error('Supabase client not available');
+      return;
+    }
+    
+    const { error } = await client
+      .from(this.TABLE_NAME)
+      .update({
+        prover: proof.prover,
+        subject: proof.subject || null,
+        timestamp: proof.timestamp ? proof.timestamp.toISOString() : null,
+        event_timestamp: proof.event_timestamp.toISOString(),
+        srs: proof.srs || null,
+        location_type: proof.location_type,
+        location: proof.location,
+        longitude: proof.longitude ?? null,
+        latitude: proof.latitude ?? null,
+        altitude: proof.altitude ?? null,
+        geometry: geometryJson(proof),
+        source_srs: proof.source_srs ?? null,
+        source_geometry: proof.source_geometry ?? null,
+        srs_status: proof.srs_status ?? null,
+        quality_flags: proof.quality_flags ?? [],
+        recipe_types: proof.recipe_types ?? null,
+        recipe_payloads: proof.recipe_payloads ?? null,
+        media_types: proof.media_types ?? null,
+        media_data: proof.media_data ?? null,
+        memo: proof.memo || null,
+        expiration_time: proof.expiration_time ? proof.expiration_time.toISOString() : null,
+        schema_uid: proof.schema_uid || null,
+        schema_version: proof.schema_version || null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('uid', proof.uid);
+    
+    if (error) {
+      logger.error(`Error updating location proof ${proof.uid}:`, error);
+    }
+  }
+
+  /**
+   * Take a chain's sync lease if it is free, expired or already held by the holder
+   * 
+   * @returns The lease, or null if someone else holds it
+   */
+  async acquireSyncLock(chain: string, job: SyncLockJob, holder: string, ttlMs: number): Promise<SyncLock | null> {
+    const client = this.getClient();
+    
+    if (!client) {
+      logger.error('Supabase client not available');
+      return null;
+    }
+    
+    try {
+      const now = new Date().toISOString();
+      const lease = { holder, acquired_at: now, expires_at: new Date(Date.now() + ttlMs).toISOString() };
+      
+      // Take over an expired lease, or one the holder already has
+      const { data: updated, error: updateError } = await client
+        .from(this.LOCKS_TABLE_NAME)
+        .update(lease)
+        .eq('chain', chain)
+        .eq('job', job)
+        .or(`expires_at.lte."${now}",holder.eq."${holder}"`)
+        .select();
+      
+      if (updateError) {
+        logger.error('Error acquiring sync lock:', updateError);
+        return null;
+      }
+      
+      if (updated && updated.length > 0) {
+        return this.toSyncLock(updated[0]);
+      }
+      
+      // No lease row yet; a concurrent insert wins on the primary key
+      const { data, error } = await client
+        .from(this.LOCKS_TABLE_NAME)
+        .insert({ chain, job, ...lease })
+        .select()
+        .maybeSingle();
+      
+      if (error) {
+        if (error.code !== '23505') { // Unique violation: someone else holds it
+          logger.error('Error acquiring sync lock:', error);
+        }
+        return null;
+      }
+      
+      return data ? this.toSyncLock(data) : null;
+    } catch (error) {
+      logger.error('Exception acquiring sync lock:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Extend a sync lease the holder still has
+   * 
+   * @returns False if the lease expired and was taken over
+   */
+  async renewSyncLock(chain: string, job: SyncLockJob, holder: string, ttlMs: number): Promise<boolean> {
+    const client = this.getClient();
+    
+    if (!client) {
+      logger.error('Supabase client not available');
+      return false;
+    }
+    
+    const { data, error } = await client
+      .from(this.LOCKS_TABLE_NAME)
+      .update({ expires_at: new Date(Date.now() + ttlMs).toISOString() })
+      .eq('chain', chain)
+      .eq('job', job)
+      .eq('holder', holder)
+      .select();
+    
+    if (error) {
+      logger.error('Error renewing sync lock:', error);
+      return false;
+    }
+    
+    return (data || []).length > 0;
+  }
+
+  /**
+   * Give up a sync lease; the row stays as a record of the last holder
+   */
+  async releaseSyncLock(chain: string, job: SyncLockJob, holder: string): Promise<void> {
+    const client = this.getClient();
+    
+    if (!client) {
+      logger.error('Supabase client not available');
+      return;
+    }
+    
+    const { error } = await client
+      .from(this.LOCKS_TABLE_NAME)
+      .update({ expires_at: new Date().toISOString() })
+      .eq('chain', chain)
+      .eq('job', job)
+      .eq('holder', holder);
+    
+    if (error) {
+      logger.error('Error releasing sync lock:', error);
+    }
+  }
+
+  /**
+   * Get all sync leases, held or not
+   */
+  async getSyncLocks(): Promise<SyncLock[]> {
+    const client = this.getClient();
+    
+    if (!client) {
+      logger.error('Supabase client not available');
+      return [];
+    }
+    
+    try {
+      const { data, error } = await client
+        .from(this.LOCKS_TABLE_NAME)
+        .select('*')
+        .order('chain', { ascending: true })
+        .order('job', { ascending: true });
+      
+      if (error) {
+        logger.error('Error fetching sync locks:', error);
+        return [];
+      }
+      
+      return (data || []).map(row => this.toSyncLock(row));
+    } catch (error) {
+      logger.error('Exception fetching sync locks:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create a pending backfill job
+   */
+  async createBackfillJob(job: NewBackfillJob): Promise<BackfillJob | null> {
+    const client = this.getClient();
+    
+    if (!client) {
+      logger.error('Supabase client not available');
+      return null;
+    }
+    
+    const { data, error } = await client
+      .from(this.JOBS_TABLE_NAME)
+      .insert({
+        chain: job.chain,
+        range_type: job.range_type,
+        from_timestamp: job.from_timestamp ? job.from_timestamp.toISOString() : null,
+        to_timestamp: job.to_timestamp ? job.to_timestamp.toISOString() : null,
+        from_block: job.from_block ?? null,
+        to_block: job.to_block ?? null,
+        on_conflict: job.on_conflict ?? 'skip'
+      })
+      .select()
+      .single();
+    
+    if (error) {
+      logger.error('Error creating backfill job:', error);
+      return null;
+    }
+    
+    return this.toBackfillJob(data);
+  }
+
+  /**
+   * Get a backfill job by id
+   */
+  async getBackfillJob(id: number): Promise<BackfillJob | null> {
+    const client = this.getClient();
+    
+    if (!client) {
+      logger.error('Supabase client not available');
+      return null;
+    }
+    
+    try {
+      const { data, error } = await client
+        .from(this.JOBS_TABLE_NAME)
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+      
+      if (error) {
+        logger.error('Error fetching backfill job:', error);
+        return null;
+      }
+      
+      return data ? this.toBackfillJob(data) : null;
+    } catch (error) {
+      logger.error('Exception fetching backfill job:', error);
+      return null;
+    }
+  }
+
+  /**
+   * List backfill jobs, most recent first
+   */
+  async getBackfillJobs(params: BackfillJobQueryParams = {}): Promise<BackfillJob[]> {
+    const client = this.getClient();
+    
+    if (!client) {
+      logger.error('Supabase client not available');
+      return [];
+    }
+    
+    try {
+      const limit = params.limit ?? 50;
+      const offset = params.offset ?? 0;
+      let query = client
+        .from(this.JOBS_TABLE_NAME)
+        .select('*');
+      
+      if (params.chain) {
+        query = query.eq('chain', params.chain);
+      }
+      
+      if (params.status) {
+        query = query.eq('status', params.status);
+      }
+      
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .range(offset, offset + limit - 1);
+      
+      if (error) {
+        logger.error('Error fetching backfill jobs:', error);
+        return [];
+      }
+      
+      return (data || []).map(row => this.toBackfillJob(row));
+    } catch (error) {
+      logger.error('Exception fetching backfill jobs:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Update a backfill job's state and progress
+   * 
+   * @param fromStatuses Only update the job while it is in one of these statuses
+   * @param holder Only update the job while it is held by this worker
+   * @returns The updated job, or null if there is no such job in those statuses under that holder
+   */
+  async updateBackfillJob(
+    id: number,
+    update: BackfillJobUpdate,
+    fromStatuses?: BackfillJobStatus[],
+    holder?: string
+  ): Promise<BackfillJob | null> {
+    const client = this.getClient();
+    
+    if (!client) {
+      logger.error('Supabase client not available');
+      return null;
+    }
+    
+    const row = Object.fromEntries(
+      Object.entries(update)
+        .filter(([, value]) => value !== undefined)
+        .map(([column, value]) => [column, value instanceof Date ? value.toISOString() : value])
+    );
+    
+    // With nothing to set, still touch updated_at so the update reports the job
+    let query = client
+      .from(this.JOBS_TABLE_NAME)
+      .update(Object.keys(row).length > 0 ? row : { updated_at: new Date().toISOString() })
+      .eq('id', id);
+    
+    if (fromStatuses) {
+      query = query.in('status', fromStatuses);
+    }
+    
+    if (holder) {
+      query = query.eq('holder', holder);
+    }
+    
+    const { data, error } = await query.select();
+    
+    if (error) {
+      logger.error('Error updating backfill job:', error);
+      return null;
+    }
+    
+    return data && data.length > 0 ? this.toBackfillJob(data[0]) : null;
+  }
+
+  /**
+   * Claim the oldest backfill job that is pending, or running without progress for staleAfterMs
+   * 
+   * The claim only succeeds if the job is unchanged since it was read, so two
+   * workers never claim the same job; the loser finds nothing this time.
+   * 
+   * @returns The claimed job, now running under the holder, or null if there is none
+   */
+  async claimNextBackfillJob(holder: string, staleAfterMs: number): Promise<BackfillJob | null> {
+    const client = this.getClient();
+    
+    if (!client) {
+      logger.error('Supabase client not available');
+      return null;
+    }
+    
+    try {
+      const staleBefore = new Date(Date.now() - staleAfterMs).toISOString();
+      const { data: candidates, error: selectError } = await client
+        .from(this.JOBS_TABLE_NAME)
+        .select('*')
+        .or(`status.eq.pending,and(status.eq.running,updated_at.lte."${staleBefore}")`)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .limit(1);
+      
+      if (selectError) {
+        logger.error('Error finding a backfill job to run:', selectError);
+        return null;
+      }
+      
+      const candidate = candidates?.[0];
+      if (!candidate) {
+        return null;
+      }
+      
+      const { data, error } = await client
+        .from(this.JOBS_TABLE_NAME)
+        .update({
+          status: 'running',
+          holder,
+          started_at: candidate.started_at ?? new Date().toISOString(),
+          finished_at: null,
+          error: null
+        })
+        .eq('id', candidate.id)
+        .eq('status', candidate.status)
+        .eq('updated_at', candidate.updated_at)
+        .select();
+      
+      if (error) {
+        logger.error('Error claiming backfill job:', error);
+        return null;
+      }
+      
+      return data && data.length > 0 ? this.toBackfillJob(data[0]) : null;
+    } catch (error) {
+      logger.error('Exception claiming backfill job:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Convert a backfill_jobs row into a BackfillJob with Date fields
+   */
+  private toBackfillJob(row: Record<string, unknown>): BackfillJob {
+    const toDate = (value: unknown) => value ? new Date(value as string) : null;
+    const toNumber = (value: unknown) => value !== null && value !== undefined ? Number(value) : null;
+    
+    return {
+      ...(row as unknown as BackfillJob),
+      id: Number(row.id),
+      from_timestamp: toDate(row.from_timestamp),
+      to_timestamp: toDate(row.to_timestamp),
+      from_block: toNumber(row.from_block),
+      to_block: toNumber(row.to_block),
+      cursor_timestamp: toDate(row.cursor_timestamp),
+      cursor_block: toNumber(row.cursor_block),
+      started_at: toDate(row.started_at),
+      finished_at: toDate(row.finished_at)
+    };
+  }
+
+  /**
+   * Convert an ingestion_failures row into an IngestionFailure with Date fields
+   */
+  private toIngestionFailure(row: Record<string, unknown>): IngestionFailure {
+    return {
+      ...(row as unknown as IngestionFailure),
+      id: Number(row.id),
+      last_failed_at: new Date(row.last_failed_at as string),
+      resolved_at: row.resolved_at ? new Date(row.resolved_at as string) : null
+    };
+  }
+
+  /**
+   * Convert a sync_locks row into a SyncLock with Date fields
+   */
+  private toSyncLock(row: Record<string, unknown>): SyncLock {
+    return {
+      ...(row as unknown as SyncLock),
+      acquired_at: new Date(row.acquired_at as string),
+      expires_at: new Date(row.expires_at as string)
+    };
+  }
+
+  /**
+   * Convert a chain_heads row into a ChainHeadSample with Date fields
+   */
+  private toChainHead(row: Record<string, unknown>): ChainHeadSample {
+    const toDate = (value: unknown) => value ? new Date(value as string) : null;
+    
+    return {
+      ...(row as unknown as ChainHeadSample),
+      indexer_latest_time: toDate(row.indexer_latest_time),
+      indexer_schema_latest_time: toDate(row.indexer_schema_latest_time),
+      head_timestamp: toDate(row.head_timestamp),
+      checkpoint_timestamp: toDate(row.checkpoint_timestamp),
+      checked_at: new Date(row.checked_at as string)
+    };
+  }
+
+  /**
+   * Convert a sync_checkpoints row into a SyncCheckpoint with Date fields
+   */
+  private toSyncCheckpoint(row: Record<string, unknown>): SyncCheckpoint {
+    const toDate = (value: unknown) => value ? new Date(value as string) : null;
+    
+    return {
+      ...(row as unknown as SyncCheckpoint),
+      last_timestamp: toDate(row.last_timestamp),
+      last_run_at: toDate(row.last_run_at),
+      last_revocation_time: toDate(row.last_revocation_time)
+    };
+  }
+
+  /**
+   * Subscribe to real-time updates for location_proofs table
+   * 
+   * @param event The event to subscribe to ('INSERT' | 'UPDATE' | 'DELETE' | '*')
+   * @param callback The callback function to execute when an event occurs
+   */
+  subscribeToLocationProofs(event: 'INSERT' | 'UPDATE' | 'DELETE' | '*', callback: (payload: any) => void) {
+    const client = this.getClient();
+    
+    if (!client) {
+      logger.error('Supabase client not available');
+      return null;
+    }
+    
+    return client
+      .channel('location_proofs_channel')
+      .on(
+        'postgres_changes' as any,
+        {
+          event,
+          schema: 'public',
+          table: this.TABLE_NAME,
+        },
+        callback
+      )
+      .subscribe();
+  }
+
+  /**
+   * Get a count of location proofs with optional filters
+   * 
+   * @param params Optional query parameters
+   * @returns The count of matching location proofs
+   */
+  async getLocationProofsCount(params: Partial<LocationProofQueryParams> = {}): Promise<number> {
+    const client = this.getClient();
+    
+    if (!client) {
+      logger.error('Supabase client not available');
+      return 0;
+    }
+    
+    try {
+      let query = client
+        .from(this.TABLE_NAME)
+        .select('*', { count: 'exact', head: true });
+      
+      // Apply filters
+      if (params.chain) {
+        query = query.eq('chain', params.chain);
+      }
+      
+      if (params.prover) {
+        query = query.eq('prover', params.prover);
+      }
+      
+      if (params.subject) {
+        query = query.eq('subject', params.subject);
+      }
+      
+      if (params.schemaVersion) {
+        query = query.eq('schema_version', params.schemaVersion);
       }
       
       if (params.fromTimestamp) {
@@ -471,6 +1826,27 @@ class SupabaseService {
         query = query.lte('event_timestamp', params.toTimestamp.toISOString());
       }
       
+      if (params.validAt) {
+        // Attested by then, and not yet revoked or expired
+        const at = params.validAt.toISOString();
+        query = query
+          .or(`timestamp.is.null,timestamp.lte.${at}`)
+          .or(`revoked.eq.false,revocation_time.gt.${at}`)
+          .or(`expiration_time.is.null,expiration_time.gt.${at}`);
+      }
+      
+      if (params.minAltitude !== undefined) {
+        query = query.gte('altitude', params.minAltitude);
+      }
+      
+      if (params.maxAltitude !== undefined) {
+        query = query.lte('altitude', params.maxAltitude);
+      }
+      
+      if (params.quality && params.quality.length > 0) {
+        query = query.or(qualityFilter(params.quality));
+      }
+      
       // Apply bounding box filter if provided
       if (params.bbox) {
         const [minLon, minLat, maxLon, maxLat] = params.bbox;
@@ -493,9 +1869,14 @@ class SupabaseService {
           if (params.chain && proof.chain !== params.chain) match = false;
           if (params.prover && proof.prover !== params.prover) match = false;
           if (params.subject && proof.subject !== params.subject) match = false;
+          if (params.schemaVersion && proof.schema_version !== params.schemaVersion) match = false;
           
           if (params.fromTimestamp && new Date(proof.event_timestamp) < params.fromTimestamp) match = false;
           if (params.toTimestamp && new Date(proof.event_timestamp) > params.toTimestamp) match = false;
+          if (params.validAt && !isValidAt(proof, params.validAt)) match = false;
+          if (params.minAltitude !== undefined && !(proof.altitude != null && Number(proof.altitude) >= params.minAltitude)) match = false;
+          if (params.maxAltitude !== undefined && !(proof.altitude != null && Number(proof.altitude) <= params.maxAltitude)) match = false;
+          if (params.quality && params.quality.length > 0 && !matchesQuality(proof, params.quality)) match = false;
           
           return match;
         }).length;
@@ -0,0 +1,138 @@
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { config } from '../config';
+import { SyncLock, SyncLockJob } from '../models/types';
+import { DbService } from './db.service';
+import { supabaseService } from './supabase.service';
+import { logger } from '../utils/logger';
+
+/**
+ * Outcome of running a job under a sync lease
+ */
+export type SyncLockResult<T> =
+  | { acquired: true; result: T }
+  | { acquired: false; heldBy: SyncLock | null };
+
+/**
+ * Per-chain leases in the sync_locks table
+ *
+ * Every worker instance (the cron handler's, the API's, a script's) is its own
+ * holder, so two instances never run the same job on a chain at once even in
+ * one process. A lease is renewed while its job runs and expires on its own if
+ * the holder dies.
+ */
+export class SyncLockService {
+  readonly holder: string;
+  private dbService: DbService;
+  private ttlMs: number;
+
+  constructor(dbService: DbService, ttlMs: number = parseInt(config.SYNC_LOCK_TTL_MS, 10) || 300000) {
+    this.dbService = dbService;
+    this.ttlMs = ttlMs;
+    this.holder = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  }
+
+  /**
+   * Run a job while holding the chain's lease for it
+   *
+   * The job is skipped if another holder has the lease, or if the lease
+   * cannot be read at all. The job gets a signal that is aborted if the
+   * lease is lost while it runs; it should stop at its next page boundary.
+   */
+  async withLock<T>(chain: string, job: SyncLockJob, fn: (lease: AbortSignal) => Promise<T>): Promise<SyncLockResult<T>> {
+    let lock: SyncLock | null;
+
+    try {
+      lock = await this.acquire(chain, job);
+    } catch (error) {
+      logger.error(`Could not take the ${job} lease for ${chain}, skipping`, error);
+      return { acquired: false, heldBy: null };
+    }
+
+    if (!lock) {
+      const heldBy = (await this.getLocks().catch(() => [])).find(entry => entry.chain === chain && entry.job === job) || null;
+      logger.info(`Skipping ${job} on ${chain}: lease held by ${heldBy?.holder ?? 'another worker'} until ${heldBy ? new Date(heldBy.expires_at).toISOString() : 'unknown'}`);
+      return { acquired: false, heldBy };
+    }
+
+    // Keep the lease alive for jobs that outlast it
+    const lease = new AbortController();
+    const renewal = setInterval(() => {
+      this.renew(chain, job)
+        .then(renewed => {
+          if (!renewed && !lease.signal.aborted) {
+            logger.error(`Lost the ${job} lease for ${chain} while the job was still running, stopping it`);
+            lease.abort();
+          }
+        })
+        .catch(error => logger.warn(`Failed to renew the ${job} lease for ${chain}`, error));
+    }, Math.max(Math.floor(this.ttlMs / 3), 1000));
+    renewal.unref?.();
+
+    try {
+      return { acquired: true, result: await fn(lease.signal) };
+    } finally {
+      clearInterval(renewal);
+      await this.release(chain, job);
+    }
+  }
+
+  /**
+   * Get all leases, held or not
+   */
+  async getLocks(): Promise<SyncLock[]> {
+    try {
+      return await this.dbService.getSyncLocks();
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.getSyncLocks failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        return supabaseService.getSyncLocks();
+      }
+      throw error;
+    }
+  }
+
+  private async acquire(chain: string, job: SyncLockJob): Promise<SyncLock | null> {
+    try {
+      return await this.dbService.acquireSyncLock(chain, job, this.holder, this.ttlMs);
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.acquireSyncLock failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        return supabaseService.acquireSyncLock(chain, job, this.holder, this.ttlMs);
+      }
+      throw error;
+    }
+  }
+
+  private async renew(chain: string, job: SyncLockJob): Promise<boolean> {
+    try {
+      return await this.dbService.renewSyncLock(chain, job, this.holder, this.ttlMs);
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.renewSyncLock failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        return supabaseService.renewSyncLock(chain, job, this.holder, this.ttlMs);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Give up a lease; a failed release is logged, the lease then simply expires
+   */
+  private async release(chain: string, job: SyncLockJob): Promise<void> {
+    try {
+      await this.dbService.releaseSyncLock(chain, job, this.holder);
+    } catch (error) {
+      // Fall back to Supabase if DbService fails
+      logger.warn(`DbService.releaseSyncLock failed, falling back to Supabase: ${(error as Error).message}`);
+      if (supabaseService && supabaseService.isAvailable()) {
+        await supabaseService.releaseSyncLock(chain, job, this.holder);
+      } else {
+        logger.error(`Failed to release the ${job} lease for ${chain}`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,342 @@
+import { GeoJSONGeometry, GeoJSONPosition } from '../models/types';
+
+type Ring = GeoJSONPosition[];
+type Polygon = Ring[];
+
+// At least four positions, the last the same as the first
+const isClosedRing = (ring: unknown[]): boolean => {
+  const [first, last] = [ring[0], ring[ring.length - 1]] as unknown[][];
+  return ring.length >= 4 && Array.isArray(first) && Array.isArray(last) && first[0] === last[0] && first[1] === last[1];
+};
+
+/**
+ * Check a GeoJSON geometry object, recursively for collections
+ *
+ * Positions are [x, y] with an optional altitude. Unless only the structure
+ * is checked, they must be a longitude and latitude in range.
+ *
+ * @param geographic Whether positions must be in range for EPSG:4326
+ */
+export function isGeoJSONGeometry(value: unknown, geographic = true): value is GeoJSONGeometry {
+  const isPosition = (position: unknown): position is GeoJSONPosition =>
+    Array.isArray(position) && (position.length === 2 || position.length === 3) &&
+    position.every(n => typeof n === 'number' && Number.isFinite(n)) &&
+    (!geographic || (Math.abs(position[0]) <= 180 && Math.abs(position[1]) <= 90));
+  const isPositions = (positions: unknown, min: number): positions is GeoJSONPosition[] =>
+    Array.isArray(positions) && positions.length >= min && positions.every(isPosition);
+  const isRing = (ring: unknown): ring is Ring => isPositions(ring, 4) && isClosedRing(ring);
+  const isPolygon = (polygon: unknown): polygon is Polygon => Array.isArray(polygon) && polygon.length > 0 && polygon.every(isRing);
+
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const { type, coordinates, geometries } = value as { type?: unknown; coordinates?: unknown; geometries?: unknown };
+  switch (type) {
+    case 'Point':
+      return isPosition(coordinates);
+    case 'MultiPoint':
+      return isPositions(coordinates, 1);
+    case 'LineString':
+      return isPositions(coordinates, 2);
+    case 'MultiLineString':
+      return Array.isArray(coordinates) && coordinates.length > 0 && coordinates.every(line => isPositions(line, 2));
+    case 'Polygon':
+      return isPolygon(coordinates);
+    case 'MultiPolygon':
+      return Array.isArray(coordinates) && coordinates.length > 0 && coordinates.every(isPolygon);
+    case 'GeometryCollection':
+      return Array.isArray(geometries) && geometries.length > 0 && geometries.every(part => isGeoJSONGeometry(part, geographic));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Get the geometry of a parsed GeoJSON geometry, Feature or FeatureCollection
+ *
+ * A FeatureCollection of several features becomes a GeometryCollection.
+ *
+ * @param geographic Whether positions must be in range for EPSG:4326
+ * @returns The geometry, or null if the value is not valid GeoJSON
+ */
+export function parseGeoJSONGeometry(value: unknown, geographic = true): GeoJSONGeometry | null {
+  const geojson = value as { type?: unknown; geometry?: unknown; features?: unknown } | null;
+
+  if (geojson?.type === 'Feature') {
+    return isGeoJSONGeometry(geojson.geometry, geographic) ? geojson.geometry : null;
+  }
+
+  if (geojson?.type === 'FeatureCollection') {
+    if (!Array.isArray(geojson.features) || geojson.features.length === 0) {
+      return null;
+    }
+    const geometries = geojson.features.map(feature => parseGeoJSONGeometry(feature, geographic));
+    if (geometries.some(geometry => geometry === null)) {
+      return null;
+    }
+    return geometries.length === 1 ? geometries[0] : { type: 'GeometryCollection', geometries: geometries as GeoJSONGeometry[] };
+  }
+
+  return isGeoJSONGeometry(geojson, geographic) ? geojson : null;
+}
+
+/**
+ * Check whether a Polygon or MultiPolygon, also in a Feature or collection,
+ * has a ring that is not closed or has fewer than four positions
+ */
+export function hasInvalidRing(value: unknown): boolean {
+  const { type, coordinates, geometries, geometry, features } = (value ?? {}) as Record<string, unknown>;
+  const invalidPolygon = (polygon: unknown) => Array.isArray(polygon) && polygon.some(ring => Array.isArray(ring) && !isClosedRing(ring));
+
+  switch (type) {
+    case 'Polygon':
+      return invalidPolygon(coordinates);
+    case 'MultiPolygon':
+      return Array.isArray(coordinates) && coordinates.some(invalidPolygon);
+    case 'GeometryCollection':
+      return Array.isArray(geometries) && geometries.some(hasInvalidRing);
+    case 'FeatureCollection':
+      return Array.isArray(features) && features.some(hasInvalidRing);
+    case 'Feature':
+      return hasInvalidRing(geometry);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Apply a function to every position of a geometry
+ */
+export function mapPositions(geometry: GeoJSONGeometry, map: (position: GeoJSONPosition) => GeoJSONPosition): GeoJSONGeometry {
+  switch (geometry.type) {
+    case 'Point':
+      return { type: geometry.type, coordinates: map(geometry.coordinates) };
+    case 'MultiPoint':
+    case 'LineString':
+      return { type: geometry.type, coordinates: geometry.coordinates.map(map) };
+    case 'MultiLineString':
+    case 'Polygon':
+      return { type: geometry.type, coordinates: geometry.coordinates.map(line => line.map(map)) };
+    case 'MultiPolygon':
+      return { type: geometry.type, coordinates: geometry.coordinates.map(polygon => polygon.map(ring => ring.map(map))) };
+    case 'GeometryCollection':
+      return { type: geometry.type, geometries: geometry.geometries.map(part => mapPositions(part, map)) };
+  }
+}
+
+// The points, lines and polygons a geometry is made of
+function components(geometry: GeoJSONGeometry, into = { points: [] as GeoJSONPosition[], lines: [] as GeoJSONPosition[][], polygons: [] as Polygon[] }) {
+  switch (geometry.type) {
+    case 'Point':
+      into.points.push(geometry.coordinates);
+      break;
+    case 'MultiPoint':
+      into.points.push(...geometry.coordinates);
+      break;
+    case 'LineString':
+      into.lines.push(geometry.coordinates);
+      break;
+    case 'MultiLineString':
+      into.lines.push(...geometry.coordinates);
+      break;
+    case 'Polygon':
+      into.polygons.push(geometry.coordinates);
+      break;
+    case 'MultiPolygon':
+      into.polygons.push(...geometry.coordinates);
+      break;
+    case 'GeometryCollection':
+      geometry.geometries.forEach(part => components(part, into));
+      break;
+  }
+  return into;
+}
+
+// Signed area and centroid of a ring (shoelace formula)
+function ringMoments(ring: Ring): { area: number; x: number; y: number } {
+  let area = 0;
+  let x = 0;
+  let y = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const cross = ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+    area += cross;
+    x += (ring[i][0] + ring[i + 1][0]) * cross;
+    y += (ring[i][1] + ring[i + 1][1]) * cross;
+  }
+  area /= 2;
+  return area === 0 ? { area, x: ring[0][0], y: ring[0][1] } : { area, x: x / (6 * area), y: y / (6 * area) };
+}
+
+/**
+ * Get the rings of every polygon in a geometry, outer rings and holes
+ */
+export function polygonRings(geometry: GeoJSONGeometry): GeoJSONPosition[][] {
+  return components(geometry).polygons.flat();
+}
+
+/**
+ * Get the unsigned area of a ring, in squared coordinate units
+ */
+export function ringArea(ring: GeoJSONPosition[]): number {
+  return Math.abs(ringMoments(ring).area);
+}
+
+// Which side of the line through a and b that c is on: 1, -1, or 0 if on it
+function orientation(a: GeoJSONPosition, b: GeoJSONPosition, c: GeoJSONPosition): number {
+  return Math.sign((b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]));
+}
+
+// Whether c, on the line through a and b, is between them
+function onSegment(a: GeoJSONPosition, b: GeoJSONPosition, c: GeoJSONPosition): boolean {
+  return Math.min(a[0], b[0]) <= c[0] && c[0] <= Math.max(a[0], b[0]) && Math.min(a[1], b[1]) <= c[1] && c[1] <= Math.max(a[1], b[1]);
+}
+
+function segmentsIntersect(a: GeoJSONPosition, b: GeoJSONPosition, c: GeoJSONPosition, d: GeoJSONPosition): boolean {
+  const [o1, o2, o3, o4] = [orientation(a, b, c), orientation(a, b, d), orientation(c, d, a), orientation(c, d, b)];
+  if (o1 !== o2 && o3 !== o4) {
+    return true;
+  }
+  return (o1 === 0 && onSegment(a, b, c)) || (o2 === 0 && onSegment(a, b, d)) ||
+    (o3 === 0 && onSegment(c, d, a)) || (o4 === 0 && onSegment(c, d, b));
+}
+
+/**
+ * Check whether a closed ring crosses or touches itself, other than where
+ * neighbouring segments meet
+ *
+ * Compares every pair of segments, so callers should cap the ring size.
+ */
+export function ringSelfIntersects(ring: GeoJSONPosition[]): boolean {
+  const segments = ring.length - 1;
+  for (let i = 0; i < segments; i++) {
+    for (let j = i + 2; j < segments; j++) {
+      // The first and last segments share the closing position
+      if (i === 0 && j === segments - 1) {
+        continue;
+      }
+      if (segmentsIntersect(ring[i], ring[i + 1], ring[j], ring[j + 1])) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+// Even-odd test, so holes are outside
+function inPolygon([x, y]: [number, number], polygon: Polygon): boolean {
+  let inside = false;
+  for (const ring of polygon) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      if ((ring[i][1] > y) !== (ring[j][1] > y) &&
+          x < (ring[j][0] - ring[i][0]) * (y - ring[i][1]) / (ring[j][1] - ring[i][1]) + ring[i][0]) {
+        inside = !inside;
+      }
+    }
+  }
+  return inside;
+}
+
+// Middle of the widest span of a horizontal line through the middle of the polygon
+function pointOnSurface(polygon: Polygon): [number, number] | null {
+  const ys = polygon[0].map(position => position[1]);
+  const y = (Math.min(...ys) + Math.max(...ys)) / 2;
+  const xs: number[] = [];
+
+  for (const ring of polygon) {
+    for (let i = 0; i < ring.length - 1; i++) {
+      const [a, b] = [ring[i], ring[i + 1]];
+      if ((a[1] > y) !== (b[1] > y)) {
+        xs.push(a[0] + (y - a[1]) * (b[0] - a[0]) / (b[1] - a[1]));
+      }
+    }
+  }
+
+  xs.sort((a, b) => a - b);
+  let best: [number, number] | null = null;
+  let widest = 0;
+  for (let i = 0; i + 1 < xs.length; i += 2) {
+    if (xs[i + 1] - xs[i] > widest) {
+      widest = xs[i + 1] - xs[i];
+      best = [(xs[i] + xs[i + 1]) / 2, y];
+    }
+  }
+  return best;
+}
+
+/**
+ * Get the altitude of a geometry's representative point
+ *
+ * This is the Z value of a point, or the mean Z value of the positions of
+ * any other geometry, counting the closing position of a ring once.
+ *
+ * @returns The altitude, or null if a position has no Z value
+ */
+export function representativeAltitude(geometry: GeoJSONGeometry): number | null {
+  const { points, lines, polygons } = components(geometry);
+  const positions = [...points, ...lines.flat(), ...polygons.flat().flatMap(ring => ring.slice(0, -1))];
+
+  if (positions.length === 0 || positions.some(position => position.length < 3)) {
+    return null;
+  }
+  return positions.reduce((sum, position) => sum + position[2], 0) / positions.length;
+}
+
+/**
+ * Get a representative [longitude, latitude] of a geometry
+ *
+ * This is the centroid of its highest-dimension parts, weighted by area or
+ * length as PostGIS's ST_Centroid does. When the centroid of a polygonal
+ * geometry falls outside it, as for a crescent, a point on its surface is used.
+ */
+export function representativePoint(geometry: GeoJSONGeometry): [number, number] | null {
+  const { points, lines, polygons } = components(geometry);
+
+  let area = 0;
+  let x = 0;
+  let y = 0;
+  for (const polygon of polygons) {
+    // Holes take their area away from the outer ring
+    polygon.forEach((ring, index) => {
+      const moments = ringMoments(ring);
+      const weight = Math.abs(moments.area) * (index === 0 ? 1 : -1);
+      area += weight;
+      x += moments.x * weight;
+      y += moments.y * weight;
+    });
+  }
+  if (area > 0) {
+    const centroid: [number, number] = [x / area, y / area];
+    if (polygons.some(polygon => inPolygon(centroid, polygon))) {
+      return centroid;
+    }
+    const largest = polygons.reduce((a, b) => Math.abs(ringMoments(a[0]).area) >= Math.abs(ringMoments(b[0]).area) ? a : b);
+    return pointOnSurface(largest) ?? centroid;
+  }
+
+  // Lines, or polygons without area, by the midpoints of their segments
+  let length = 0;
+  x = 0;
+  y = 0;
+  for (const line of [...lines, ...polygons.flat()]) {
+    for (let i = 0; i < line.length - 1; i++) {
+      const segment = Math.hypot(line[i + 1][0] - line[i][0], line[i + 1][1] - line[i][1]);
+      length += segment;
+      x += (line[i][0] + line[i + 1][0]) / 2 * segment;
+      y += (line[i][1] + line[i + 1][1]) / 2 * segment;
+    }
+  }
+  if (length > 0) {
+    return [x / length, y / length];
+  }
+
+  // Points, or lines without length, by their mean
+  const vertices = [...points, ...lines.flat(), ...polygons.flat(2)];
+  if (vertices.length === 0) {
+    return null;
+  }
+  return [
+    vertices.reduce((sum, position) => sum + position[0], 0) / vertices.length,
+    vertices.reduce((sum, position) => sum + position[1], 0) / vertices.length
+  ];
+}
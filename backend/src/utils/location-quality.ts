@@ -0,0 +1,78 @@
+import { LocationParseResult, LocationProof, LocationQualityFlag } from '../models/types';
+import { polygonRings, ringArea, ringSelfIntersects } from './geometry';
+
+/**
+ * Every quality flag, in the order they are stored
+ */
+export const LOCATION_QUALITY_FLAGS: LocationQualityFlag[] = [
+  'null-island',
+  'out-of-range',
+  'axis-swap',
+  'invalid-ring',
+  'self-intersection',
+  'unparsable',
+  'reprojected',
+  'unknown-srs'
+];
+
+// Rings with more positions are not checked for self-intersection, which compares every pair of segments
+const MAX_CHECKED_RING_POSITIONS = 2000;
+
+/**
+ * Validate a parsed location into the quality flags stored with its proof
+ *
+ * Adds to the flags the parsers found (axis swaps, coordinates out of range,
+ * unclosed rings) those of the geometry itself and of how it was placed.
+ *
+ * @returns The flags, without duplicates, in the order of LOCATION_QUALITY_FLAGS
+ */
+export function validateLocation(parsed: LocationParseResult): LocationQualityFlag[] {
+  const flags = new Set(parsed.flags);
+
+  if (!parsed.format && flags.size === 0) {
+    flags.add('unparsable');
+  }
+  if (parsed.srsStatus === 'reprojected') {
+    flags.add('reprojected');
+  } else if (parsed.srsStatus === 'unknown') {
+    flags.add('unknown-srs');
+  }
+
+  if (parsed.point && parsed.point[0] === 0 && parsed.point[1] === 0) {
+    flags.add('null-island');
+  }
+
+  if (parsed.geometry) {
+    for (const ring of polygonRings(parsed.geometry)) {
+      if (ringArea(ring) === 0) {
+        flags.add('invalid-ring');
+      }
+      if (ring.length <= MAX_CHECKED_RING_POSITIONS && ringSelfIntersects(ring)) {
+        flags.add('self-intersection');
+      }
+    }
+  }
+
+  return LOCATION_QUALITY_FLAGS.filter(flag => flags.has(flag));
+}
+
+/**
+ * Check a proof against a quality filter
+ *
+ * @param quality Flags to match any of; none matches proofs without flags
+ */
+export function matchesQuality(proof: Pick<LocationProof, 'quality_flags'>, quality: string[]): boolean {
+  const flags = proof.quality_flags ?? [];
+  return quality.some(flag => flag === 'none' ? flags.length === 0 : flags.includes(flag as LocationQualityFlag));
+}
+
+/**
+ * Parse a comma-separated quality filter, such as axis-swap,out-of-range or none
+ *
+ * @returns The flags, or null if one is not a quality flag or none
+ */
+export function parseQualityFilter(value: string | string[]): string[] | null {
+  const flags = (Array.isArray(value) ? value : value.split(',')).map(flag => flag.trim()).filter(Boolean);
+  const valid = flags.length > 0 && flags.every(flag => flag === 'none' || LOCATION_QUALITY_FLAGS.includes(flag as LocationQualityFlag));
+  return valid ? flags : null;
+}
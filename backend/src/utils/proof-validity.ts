@@ -0,0 +1,34 @@
+import { LocationProof } from '../models/types';
+
+type ProofValidityFields = Pick<LocationProof, 'timestamp' | 'revoked' | 'revocation_time' | 'expiration_time'>;
+
+/**
+ * Whether a proof's attestation has expired at a moment (now by default)
+ *
+ * EAS treats an attestation as expired from its expirationTime on.
+ */
+export function isExpired(proof: Pick<LocationProof, 'expiration_time'>, at: Date = new Date()): boolean {
+  return proof.expiration_time ? new Date(proof.expiration_time).getTime() <= at.getTime() : false;
+}
+
+/**
+ * Whether a proof had been attested and was neither revoked nor expired at a moment
+ *
+ * A revoked proof without a known revocation time counts as revoked throughout.
+ */
+export function isValidAt(proof: ProofValidityFields, at: Date): boolean {
+  if (proof.timestamp && new Date(proof.timestamp).getTime() > at.getTime()) {
+    return false;
+  }
+  if (proof.revoked && (!proof.revocation_time || new Date(proof.revocation_time).getTime() <= at.getTime())) {
+    return false;
+  }
+  return !isExpired(proof, at);
+}
+
+/**
+ * A proof as returned by the API, with whether it has expired by now
+ */
+export function withExpiry<T extends Pick<LocationProof, 'expiration_time'>>(proof: T): T & { expired: boolean } {
+  return { ...proof, expiration_time: proof.expiration_time ?? null, expired: isExpired(proof) };
+}
@@ -0,0 +1,82 @@
+import proj4 from 'proj4';
+import { PROJECTION_DEFINITIONS } from '../config/projections';
+import { GeoJSONGeometry, SrsStatus } from '../models/types';
+import { mapPositions } from './geometry';
+
+proj4.defs(Object.entries(PROJECTION_DEFINITIONS));
+
+// Codes whose coordinates are already WGS 84 longitude, latitude (and height)
+const WGS84_CODES = ['EPSG:4326', 'EPSG:4979', 'OGC:CRS84', 'OGC:CRS84h'];
+
+/**
+ * Normalize an srs value to an EPSG or OGC code
+ *
+ * Takes EPSG codes (EPSG:27700), OGC CRS URNs and URIs
+ * (urn:ogc:def:crs:EPSG::27700, http://www.opengis.net/def/crs/EPSG/0/27700),
+ * CRS84 and the names WGS84 and WGS 84.
+ *
+ * @returns The code, such as EPSG:27700 or OGC:CRS84, or null if the value is not recognized
+ */
+export function normalizeSrs(srs: string): string | null {
+  const value = srs.trim();
+  if (/^WGS[\s_-]?84$/i.test(value)) {
+    return 'EPSG:4326';
+  }
+
+  const epsg = /^EPSG:+(\d+)$/i.exec(value) ||
+    /^urn:ogc:def:crs:EPSG:[\d.]*:(\d+)$/i.exec(value) ||
+    /^https?:\/\/www\.opengis\.net\/def\/crs\/EPSG\/[^/]+\/(\d+)$/i.exec(value);
+  if (epsg) {
+    return `EPSG:${Number(epsg[1])}`;
+  }
+
+  const ogc = /^(?:OGC:|urn:ogc:def:crs:OGC:[\d.]*:|https?:\/\/www\.opengis\.net\/def\/crs\/OGC\/[^/]+\/)?(CRS84h?)$/i.exec(value);
+  if (ogc) {
+    return ogc[1].toLowerCase() === 'crs84h' ? 'OGC:CRS84h' : 'OGC:CRS84';
+  }
+
+  return null;
+}
+
+/**
+ * A geometry brought into EPSG:4326
+ */
+export interface ReprojectionResult {
+  srs: string | null; // The normalized source CRS
+  status: SrsStatus;
+  geometry: GeoJSONGeometry | null; // Null if the srs is unknown or the geometry could not be reprojected
+  diagnostics: string[];
+}
+
+/**
+ * Reproject a geometry from its srs into EPSG:4326 with the bundled definitions
+ *
+ * Coordinates are read as easting, northing (longitude, latitude for
+ * geographic CRSs), the GeoJSON order. Heights are kept as they are.
+ */
+export function reprojectToWgs84(geometry: GeoJSONGeometry, srs: string): ReprojectionResult {
+  const code = normalizeSrs(srs);
+  if (!code) {
+    return { srs: null, status: 'unknown', geometry: null, diagnostics: [`srs ${srs} is not an EPSG code, OGC CRS URI or WGS84`] };
+  }
+  if (WGS84_CODES.includes(code)) {
+    return { srs: code, status: 'native', geometry, diagnostics: [] };
+  }
+  if (!proj4.defs(code)) {
+    return { srs: code, status: 'unknown', geometry: null, diagnostics: [`no projection definition for ${code}`] };
+  }
+
+  try {
+    const converter = proj4(code, 'EPSG:4326');
+    const reprojected = mapPositions(geometry, ([x, y, ...rest]) => {
+      const [longitude, latitude] = converter.forward([x, y]);
+      if (!Number.isFinite(longitude) || !Number.isFinite(latitude)) {
+        throw new Error(`${x} ${y} has no position in EPSG:4326`);
+      }
+      return [longitude, latitude, ...rest];
+    });
+    return { srs: code, status: 'reprojected', geometry: reprojected, diagnostics: [`reprojected from ${code}`] };
+  } catch (error) {
+    return { srs: code, status: 'unknown', geometry: null, diagnostics: [`could not reproject from ${code}: ${(error as Error).message}`] };
+  }
+}
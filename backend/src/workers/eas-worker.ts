@@ -4,11 +4,14 @@
  */
 
 import { EasService } from '../services/eas.service';
+import { BackfillService } from '../services/backfill.service';
+import { ChainMonitorService } from '../services/chain-monitor.service';
 import { DbService } from '../services/db.service';
 import { supabaseService } from '../services/supabase.service';
 import { logger } from '../utils/logger';
 import { config } from '../config';
 import { performance } from 'perf_hooks';
+import { BackfillJob, ChainHeadSample, SyncRunResult } from '../models/types';
 
 // Stats interface for tracking worker performance and health
 interface WorkerStats {
@@ -20,6 +23,13 @@ interface WorkerStats {
   failedRuns: number;
   totalAttestationsIngested: Record<string, number>;
   lastRunAttestationsIngested: Record<string, number>;
+  // Proofs removed because their block was reorganized, per chain
+  reorged: Record<string, number>;
+  // Proofs marked revoked by incremental revocation tracking, per chain
+  revoked: Record<string, number>;
+  // Attestations turned away by the ingestion policies, per chain and per policy
+  rejected: Record<string, number>;
+  rejectedByPolicy: Record<string, number>;
   errors: Array<{
     timestamp: Date;
     message: string;
@@ -32,16 +42,20 @@ interface WorkerStats {
   };
   isRunning: boolean;
   isRevocationCheckRunning: boolean;
+  isBackfillRunning: boolean;
 }
 
 export class EasWorker {
   // Make properties protected for test subclassing
   protected easService: EasService;
   protected dbService: DbService;
+  protected backfillService: BackfillService;
+  protected chainMonitor: ChainMonitorService;
   private interval: NodeJS.Timeout | null = null;
   private revocationInterval: NodeJS.Timeout | null = null;
   private isRunning: boolean = false;
   private isRevocationCheckRunning: boolean = false;
+  private isBackfillRunning: boolean = false;
   private intervalMs: number;
   private revocationIntervalMs: number;
   private maxRetries: number;
@@ -54,13 +68,13 @@ export class EasWorker {
    * Create a new EAS Worker instance
    * 
    * @param intervalMs Time between ingestion runs in milliseconds (default: 60 seconds)
-   * @param revocationIntervalMs Time between revocation checks in milliseconds (default: 1 hour)
+   * @param revocationIntervalMs Time between full revocation sweeps in milliseconds (default: 24 hours)
    * @param maxRetries Maximum number of retries for failed operations
    * @param retryDelay Delay in milliseconds between retries
    */
   constructor(
     intervalMs: number = 60 * 1000,
-    revocationIntervalMs: number = 60 * 60 * 1000,
+    revocationIntervalMs: number = 24 * 60 * 60 * 1000,
     maxRetries: number = 3,
     retryDelay: number = 5000
   ) {
@@ -71,6 +85,8 @@ export class EasWorker {
     supabaseService.initialize();
     
     this.easService = new EasService(this.dbService);
+    this.backfillService = new BackfillService(this.dbService, this.easService);
+    this.chainMonitor = new ChainMonitorService(this.dbService, this.easService);
     this.intervalMs = intervalMs;
     this.revocationIntervalMs = revocationIntervalMs;
     this.maxRetries = maxRetries;
@@ -86,6 +102,10 @@ export class EasWorker {
       failedRuns: 0,
       totalAttestationsIngested: {},
       lastRunAttestationsIngested: {},
+      reorged: {},
+      revoked: {},
+      rejected: {},
+      rejectedByPolicy: {},
       errors: [],
       revocationChecks: {
         lastRun: null,
@@ -93,7 +113,8 @@ export class EasWorker {
         revokedCount: 0
       },
       isRunning: false,
-      isRevocationCheckRunning: false
+      isRevocationCheckRunning: false,
+      isBackfillRunning: false
     };
   }
   
@@ -242,14 +263,15 @@ export class EasWorker {
       logger.info('Setting up database fallback mechanisms');
       this.setupSupabaseFallbacks();
       
-      // Verify EAS endpoints and Schema UID are configured
-      const endpoints = Object.entries(this.easService.getGraphQLClients());
-      if (endpoints.length === 0) {
-        logger.error('No EAS endpoints configured. Check EAS_ENDPOINT_* environment variables.');
-        throw new Error('No EAS endpoints configured. At least one EAS endpoint is required.');
+      // Verify EAS endpoints (or rpc-mode chains) and Schema UID are configured
+      const chains = this.easService.getIngestionChains();
+      if (chains.length === 0) {
+        logger.error('No EAS endpoints configured. Check the chain registry (config/EAS-config.json) and its EAS_ENDPOINT_* / EAS_INGESTION_SOURCE_* overrides.');
+        throw new Error('No EAS endpoints configured. At least one EAS endpoint or rpc ingestion source is required.');
       }
       
       logger.info(`Configured EAS endpoints: ${Object.keys(this.easService.getGraphQLClients()).join(', ')}`);
+      logger.info(`Chains ingested: ${chains.map(chain => `${chain} (${this.easService.getIngestionSource(chain)})`).join(', ')}`);
       
       // Initialize EAS service with our enhanced dbService
       logger.info('Initializing EAS service');
@@ -277,10 +299,14 @@ export class EasWorker {
     
     // Run immediately on start
     await this.runIngestion();
+    await this.monitorChains();
+    this.runBackfillJobs().catch(error => logger.error('Error running backfill jobs', error));
     
-    // Schedule periodic ingestion runs
+    // Schedule periodic ingestion runs, each followed by a lag sample and any queued backfill jobs
     this.interval = setInterval(async () => {
       await this.runIngestion();
+      await this.monitorChains();
+      await this.runBackfillJobs().catch(error => logger.error('Error running backfill jobs', error));
     }, this.intervalMs);
     
     // Schedule periodic revocation checks
@@ -312,27 +338,7 @@ export class EasWorker {
       
       // Process all chains with retry
       const results = await this.processAllChainsWithRetry();
-      
-      // Update stats
-      for (const [chain, count] of Object.entries(results)) {
-        // Add to total
-        this.stats.totalAttestationsIngested[chain] = 
-          (this.stats.totalAttestationsIngested[chain] || 0) + count;
-        
-        // Store last run count
-        this.stats.lastRunAttestationsIngested[chain] = count;
-        
-        // Log results
-        if (count > 0) {
-          logger.info(`Ingested ${count} attestations from ${chain}`);
-        } else {
-          logger.debug(`No new attestations from ${chain}`);
-        }
-      }
-      
-      // Mark as successful
-      this.stats.lastSuccessfulRun = new Date();
-      this.stats.successfulRuns++;
+      this.recordRunResults(results);
       
     } catch (error) {
       this.stats.failedRuns++;
@@ -345,6 +351,80 @@ export class EasWorker {
     }
   }
   
+  /**
+   * Run a single ingestion cycle that stops starting new work at a deadline
+   * 
+   * Meant for serverless invocations: whatever is left when the deadline
+   * passes stays checkpointed for the next run to pick up.
+   * 
+   * @param deadline When to stop starting new pages, block ranges and chains
+   * @returns The run outcome, or null if another cycle was still running
+   */
+  async runBudgetedIngestion(deadline: Date): Promise<SyncRunResult | null> {
+    if (this.isRunning) {
+      logger.warn('Previous ingestion still running, skipping');
+      return null;
+    }
+    
+    this.isRunning = true;
+    const startTime = performance.now();
+    this.stats.totalRuns++;
+    
+    logger.info(`Starting attestation ingestion cycle with a deadline of ${deadline.toISOString()}`);
+    
+    try {
+      this.stats.lastRunAttestationsIngested = {};
+      
+      const run = await this.easService.processAllChainsWithinBudget(deadline);
+      this.recordRunResults(Object.fromEntries(run.chains.map(result => [result.chain, result.processed])));
+      
+      for (const result of run.chains.filter(result => result.status === 'error')) {
+        this.recordError(`Ingestion failed for chain ${result.chain}`, result.error, result.chain);
+      }
+      
+      return run;
+    } catch (error) {
+      this.stats.failedRuns++;
+      this.recordError('Ingestion cycle failed', error);
+      logger.error('Error during ingestion cycle', error);
+      throw error;
+    } finally {
+      this.stats.lastRunDuration = performance.now() - startTime;
+      this.isRunning = false;
+    }
+  }
+  
+  /**
+   * Record the per-chain counts of a successful ingestion cycle in the stats
+   */
+  private recordRunResults(results: Record<string, number>): void {
+    for (const [chain, count] of Object.entries(results)) {
+      // Add to total
+      this.stats.totalAttestationsIngested[chain] = 
+        (this.stats.totalAttestationsIngested[chain] || 0) + count;
+      
+      // Store last run count
+      this.stats.lastRunAttestationsIngested[chain] = count;
+      
+      // Log results
+      if (count > 0) {
+        logger.info(`Ingested ${count} attestations from ${chain}`);
+      } else {
+        logger.debug(`No new attestations from ${chain}`);
+      }
+    }
+    
+    this.stats.reorged = this.easService.getReorgedCounts();
+    this.stats.revoked = this.easService.getRevokedCounts();
+    const rejected = this.easService.getRejectedCounts();
+    this.stats.rejected = rejected.byChain;
+    this.stats.rejectedByPolicy = rejected.byPolicy;
+    
+    // Mark as successful
+    this.stats.lastSuccessfulRun = new Date();
+    this.stats.successfulRuns++;
+  }
+  
   /**
    * Process all chains with retry logic
    */
@@ -372,7 +452,10 @@ export class EasWorker {
   }
   
   /**
-   * Check for revocations of existing attestations
+   * Sweep all active proofs for revocations
+   * 
+   * Revocations are tracked incrementally on every ingestion run; this full
+   * sweep is only a periodic consistency check for anything that was missed.
    */
   async checkRevocations(): Promise<void> {
     if (this.isRevocationCheckRunning) {
@@ -381,65 +464,58 @@ export class EasWorker {
     }
     
     this.isRevocationCheckRunning = true;
-    logger.info('Starting attestation revocation check');
+    logger.info('Starting attestation revocation sweep');
     
     try {
-      // Get all supported chains
-      const chains = Object.keys(this.easService.getGraphQLClients());
+      const chains = this.easService.getIngestionChains();
+      const batchSize = 100;
       let totalChecked = 0;
       let totalRevoked = 0;
       
-      // Check each chain
+      // Check each chain under its revocations lease
       for (const chain of chains) {
         try {
-          // Get active attestations for this chain (not already revoked)
-          // Use limit of 100 at a time to avoid overloading the system
-          let attestations;
-          
-          try {
-            attestations = await this.dbService.getActiveLocationProofs(chain, 100);
-          } catch (dbError) {
-            logger.error(`Error getting active location proofs from DbService for chain ${chain}:`, dbError);
-            
-            // Don't try to fallback to Supabase here since we're getting the same error
-            logger.info(`Skipping revocation check for chain ${chain} due to database error`);
-            continue;
-          }
-          
-          if (!attestations || attestations.length === 0) {
-            logger.debug(`No active attestations to check for chain ${chain}`);
-            continue;
-          }
-          
-          logger.info(`Checking revocation status for ${attestations.length} attestations on ${chain}`);
-          
-          // Extract UIDs
-          const uids = attestations.map(a => a.uid);
-          totalChecked += uids.length;
-          
-          // Check revocation status on-chain
-          const revokedUids = await this.easService.checkRevocationStatus(chain, uids);
-          
-          if (revokedUids.length > 0) {
-            logger.info(`Found ${revokedUids.length} revoked attestations on ${chain}`);
+          await this.easService.withSyncLock(chain, 'revocations', async (lease) => {
+            let afterUid = '';
             
-            // Update revocation status in the database, with error handling
-            try {
-              // Try Supabase first if available
-              if (supabaseService && supabaseService.isAvailable()) {
-                await supabaseService.batchUpdateRevocations(revokedUids, true);
-              } else {
-                // Fall back to DB service
-                await this.dbService.batchUpdateRevocations(revokedUids, true);
+            // Page through every active proof of the chain in UID order
+            for (;;) {
+              let attestations;
+              
+              try {
+                attestations = await this.dbService.getActiveLocationProofs(chain, batchSize, afterUid);
+              } catch (dbError) {
+                logger.error(`Error getting active location proofs from DbService for chain ${chain}:`, dbError);
+                logger.info(`Skipping revocation sweep for chain ${chain} due to database error`);
+                break;
+              }
+              
+              if (!attestations || attestations.length === 0) {
+                break;
+              }
+              
+              const uids = attestations.map(a => a.uid);
+              totalChecked += uids.length;
+              afterUid = uids[uids.length - 1];
+              
+              // Check revocation status on-chain
+              const revocations = await this.easService.checkRevocationStatus(chain, uids);
+              
+              if (revocations.length > 0) {
+                logger.info(`Revocation sweep found ${revocations.length} missed revocations on ${chain}`);
+                totalRevoked += await this.easService.recordRevocations(chain, revocations);
               }
               
-              totalRevoked += revokedUids.length;
-            } catch (updateError) {
-              logger.error(`Failed to update revocation status for chain ${chain}:`, updateError);
+              if (attestations.length < batchSize) {
+                break;
+              }
+              
+              if (lease.aborted) {
+                logger.warn(`Stopping the revocation sweep of ${chain} after ${afterUid}: its lease was lost`);
+                break;
+              }
             }
-          } else {
-            logger.debug(`No revoked attestations found on ${chain}`);
-          }
+          });
         } catch (error) {
           this.recordError(`Error checking revocations for chain ${chain}`, error, chain);
           logger.error(`Error checking revocations for chain ${chain}`, error);
@@ -451,7 +527,7 @@ export class EasWorker {
       this.stats.revocationChecks.checkedCount += totalChecked;
       this.stats.revocationChecks.revokedCount += totalRevoked;
       
-      logger.info(`Revocation check complete. Checked ${totalChecked} attestations, found ${totalRevoked} revoked`);
+      logger.info(`Revocation sweep complete. Checked ${totalChecked} attestations, found ${totalRevoked} revoked`);
       
     } catch (error) {
       this.recordError('Revocation check failed', error);
@@ -461,6 +537,62 @@ export class EasWorker {
     }
   }
   
+  /**
+   * Run queued backfill jobs one after another until none is left
+   * 
+   * A job runs to completion, unless it is cancelled or fails, or a deadline
+   * passes; a job stopped at the deadline is queued again to resume later.
+   * Does nothing while a previous call is still working through the queue.
+   * 
+   * @param deadline Optional time after which no new page or job is started
+   * @returns The jobs run, as they were left
+   */
+  async runBackfillJobs(deadline?: Date): Promise<BackfillJob[]> {
+    if (this.isBackfillRunning) {
+      logger.debug('Backfill jobs are already running');
+      return [];
+    }
+    
+    this.isBackfillRunning = true;
+    const jobs: BackfillJob[] = [];
+    
+    try {
+      while (!deadline || Date.now() < deadline.getTime()) {
+        const job = await this.backfillService.runNextJob(deadline?.getTime());
+        if (!job) {
+          break;
+        }
+        
+        jobs.push(job);
+        if (job.status === 'failed') {
+          this.recordError(`Backfill job ${job.id} failed`, job.error, job.chain);
+        }
+      }
+      
+      return jobs;
+    } finally {
+      this.isBackfillRunning = false;
+    }
+  }
+  
+  /**
+   * Sample every chain's indexer, chain head and checkpoint for lag monitoring
+   * 
+   * @returns The samples stored, or none if sampling failed
+   */
+  async monitorChains(): Promise<ChainHeadSample[]> {
+    try {
+      const samples = await this.chainMonitor.sampleChains();
+      for (const sample of samples.filter(sample => sample.error)) {
+        this.recordError(`Lag monitoring incomplete for chain ${sample.chain}`, sample.error, sample.chain);
+      }
+      return samples;
+    } catch (error) {
+      this.recordError('Lag monitoring failed', error);
+      return [];
+    }
+  }
+  
   /**
    * Record an error in the worker stats
    */
@@ -490,7 +622,8 @@ export class EasWorker {
       startTime: this.stats.startTime,
       // Add active status flags
       isRunning: this.isRunning,
-      isRevocationCheckRunning: this.isRevocationCheckRunning
+      isRevocationCheckRunning: this.isRevocationCheckRunning,
+      isBackfillRunning: this.isBackfillRunning
     };
   }
   
@@ -516,6 +649,13 @@ export class EasWorker {
     return this.isRunning || this.isRevocationCheckRunning;
   }
 
+  /**
+   * Get the holder id this worker's sync leases are taken under
+   */
+  getLockHolder(): string {
+    return this.easService.getSyncLockHolder();
+  }
+
   /**
    * Check if the worker is stopped (no active intervals)
    */
@@ -546,8 +686,8 @@ if (require.main === module) {
   // Read interval from environment or use default (1 minute)
   const intervalMs = parseInt(process.env.EAS_WORKER_INTERVAL_MS || '60000', 10);
   
-  // Read revocation interval from environment or use default (1 hour)
-  const revocationIntervalMs = parseInt(process.env.EAS_WORKER_REVOCATION_INTERVAL_MS || '3600000', 10);
+  // Read the revocation sweep interval from environment or use default (24 hours)
+  const revocationIntervalMs = parseInt(process.env.EAS_WORKER_REVOCATION_INTERVAL_MS || '86400000', 10);
   
   const worker = new EasWorker(intervalMs, revocationIntervalMs);
   